@@ -0,0 +1,21 @@
+import { initializeApp } from "firebase-admin/app";
+import { getAuth } from "firebase-admin/auth";
+
+// Verify the Firebase ID token in an Authorization header and return the caller's uid.
+// Only the project id is needed: tokens are checked against Google's public signing keys.
+export const createTokenVerifier = (projectId: string) => {
+  const auth = getAuth(initializeApp({ projectId }));
+
+  return async (authorization: string | undefined): Promise<string | null> => {
+    const token = authorization?.match(/^Bearer (.+)$/)?.[1];
+    if (!token) return null;
+
+    try {
+      const decoded = await auth.verifyIdToken(token);
+      return decoded.uid;
+    } catch (error) {
+      console.warn("Rejected ID token:", error instanceof Error ? error.message : error);
+      return null;
+    }
+  };
+};
@@ -0,0 +1,57 @@
+import { firebaseConfig } from "../src/lib/firebase";
+
+export interface ProxyConfig {
+  port: number;
+  allowedOrigins: string[];
+  geminiApiKey: string;
+  // Models callers may ask for; the first is used when none is given
+  chatModels: string[];
+  embeddingModels: string[];
+  firebaseProjectId: string;
+  requestsPerMinute: number;
+  requestsPerDay: number;
+  // Embedding requests have their own limits, so indexing a library doesn't use up the chat quota
+  embedRequestsPerMinute: number;
+  embedRequestsPerDay: number;
+  maxOutputTokens: number;
+}
+
+const list = (value: string | undefined, fallback: string) =>
+  (value || fallback)
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+const number = (value: string | undefined, fallback: number) => {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+// Read the proxy settings from the environment and the project's .env file.
+// None of these use the VITE_ prefix, so Vite never bundles them into the client.
+export const loadConfig = (): ProxyConfig => {
+  try {
+    process.loadEnvFile();
+  } catch {
+    // No .env file; use the process environment as is
+  }
+  const env = process.env;
+
+  if (!env.GEMINI_API_KEY) {
+    throw new Error("GEMINI_API_KEY is not defined in environment variables");
+  }
+
+  return {
+    port: number(env.PROXY_PORT, 8787),
+    allowedOrigins: list(env.PROXY_ALLOWED_ORIGINS, "http://localhost:8080"),
+    geminiApiKey: env.GEMINI_API_KEY,
+    chatModels: list(env.GEMINI_MODELS, "gemini-1.5-flash"),
+    embeddingModels: list(env.GEMINI_EMBEDDING_MODELS, "text-embedding-004"),
+    firebaseProjectId: env.FIREBASE_PROJECT_ID || firebaseConfig.projectId,
+    requestsPerMinute: number(env.PROXY_REQUESTS_PER_MINUTE, 20),
+    requestsPerDay: number(env.PROXY_REQUESTS_PER_DAY, 200),
+    embedRequestsPerMinute: number(env.PROXY_EMBED_REQUESTS_PER_MINUTE, 60),
+    embedRequestsPerDay: number(env.PROXY_EMBED_REQUESTS_PER_DAY, 1000),
+    maxOutputTokens: number(env.PROXY_MAX_OUTPUT_TOKENS, 8192),
+  };
+};
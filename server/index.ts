@@ -0,0 +1,235 @@
+import { IncomingMessage, ServerResponse, createServer } from "node:http";
+import { z } from "zod";
+import { ChatGoogleGenerativeAI, GoogleGenerativeAIEmbeddings } from "@langchain/google-genai";
+import { AIMessage, HumanMessage, SystemMessage } from "@langchain/core/messages";
+import { LLMErrorKind, toLLMError } from "../src/utils/llmErrors";
+import { loadConfig } from "./config";
+import { createTokenVerifier } from "./auth";
+import { QuotaTracker, createQuotaTracker } from "./quota";
+
+// API proxy that keeps the Gemini key on the server. Every request needs a Firebase ID token,
+// and each valid one counts against the caller's chat or embedding quota. Run with `npm run server`.
+
+const config = loadConfig();
+const verifyToken = createTokenVerifier(config.firebaseProjectId);
+const checkChatQuota = createQuotaTracker(config);
+const checkEmbedQuota = createQuotaTracker({
+  requestsPerMinute: config.embedRequestsPerMinute,
+  requestsPerDay: config.embedRequestsPerDay,
+});
+
+const MAX_BODY_BYTES = 2 * 1024 * 1024;
+const MAX_EMBED_TEXTS = 100;
+
+const chatRequestSchema = z.object({
+  model: z.string().optional(),
+  messages: z
+    .array(z.object({ role: z.enum(["system", "human", "ai"]), content: z.string() }))
+    .min(1),
+  settings: z
+    .object({
+      maxOutputTokens: z.number().int().positive(),
+      temperature: z.number().min(0).max(2),
+      topK: z.number().int().positive(),
+      topP: z.number().min(0).max(1),
+    })
+    .partial()
+    .default({}),
+});
+
+const embedRequestSchema = z.object({
+  model: z.string().optional(),
+  texts: z.array(z.string()).min(1).max(MAX_EMBED_TEXTS),
+});
+
+// HTTP status sent to the app for each kind of failure
+const errorStatus: Record<LLMErrorKind, number> = {
+  quota: 429,
+  usage_limit: 429,
+  safety: 400,
+  unauthenticated: 401,
+  invalid_key: 502,
+  network: 502,
+  server: 502,
+  timeout: 504,
+  unknown: 500,
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { "Content-Type": "application/json", ...headers });
+  res.end(JSON.stringify(body));
+};
+
+const sendError = (
+  res: ServerResponse,
+  kind: LLMErrorKind,
+  message: string,
+  { status = errorStatus[kind], headers }: { status?: number; headers?: Record<string, string> } = {}
+) => sendJson(res, status, { error: { kind, message } }, headers);
+
+// Count a request against one of the caller's quotas; false once the refusal has been sent
+const withinQuota = (res: ServerResponse, checkQuota: QuotaTracker, userId: string) => {
+  const quota = checkQuota(userId);
+  if (!quota.allowed) {
+    sendError(res, quota.kind, quota.message, { headers: { "Retry-After": String(quota.retryAfterSeconds) } });
+    return false;
+  }
+  res.setHeader("X-Requests-Remaining-Today", String(quota.remainingToday));
+  return true;
+};
+
+const setCorsHeaders = (req: IncomingMessage, res: ServerResponse) => {
+  const origin = req.headers.origin;
+  if (origin && config.allowedOrigins.includes(origin)) {
+    res.setHeader("Access-Control-Allow-Origin", origin);
+    res.setHeader("Access-Control-Allow-Headers", "Authorization, Content-Type");
+    res.setHeader("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
+    res.setHeader("Vary", "Origin");
+  }
+};
+
+const readJson = async (req: IncomingMessage): Promise<unknown> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new Error("Request body is too large");
+    chunks.push(chunk);
+  }
+  return JSON.parse(Buffer.concat(chunks).toString("utf8"));
+};
+
+// The requested model if it is allowed, or the default when none was requested
+const pickModel = (requested: string | undefined, allowed: string[]) =>
+  requested ? (allowed.includes(requested) ? requested : null) : allowed[0];
+
+const toMessages = (messages: z.infer<typeof chatRequestSchema>["messages"]) =>
+  messages.map(({ role, content }) =>
+    role === "system" ? new SystemMessage(content) : role === "ai" ? new AIMessage(content) : new HumanMessage(content)
+  );
+
+// Stream a chat completion as newline-delimited JSON: {"text"} chunks, then {"done"} with the
+// token usage, or {"error"}
+const handleChat = async (req: IncomingMessage, res: ServerResponse, body: unknown, userId: string) => {
+  const parsed = chatRequestSchema.safeParse(body);
+  if (!parsed.success) return sendError(res, "unknown", "Invalid chat request", { status: 400 });
+
+  const { messages, settings } = parsed.data;
+  const model = pickModel(parsed.data.model, config.chatModels);
+  if (!model) return sendError(res, "unknown", `Model ${parsed.data.model} is not available`, { status: 400 });
+  if (!withinQuota(res, checkChatQuota, userId)) return;
+
+  const chat = new ChatGoogleGenerativeAI({
+    apiKey: config.geminiApiKey,
+    model,
+    maxOutputTokens: Math.min(settings.maxOutputTokens ?? 1024, config.maxOutputTokens),
+    temperature: settings.temperature,
+    topK: settings.topK,
+    topP: settings.topP,
+    // The app retries with its own backoff
+    maxRetries: 0,
+  });
+
+  // Stop the upstream request when the app disconnects or stops generating
+  const controller = new AbortController();
+  res.on("close", () => controller.abort());
+
+  // Headers are sent with the first chunk, so failures before it get a real status code
+  let started = false;
+  const start = () => {
+    if (started) return;
+    started = true;
+    res.writeHead(200, { "Content-Type": "application/x-ndjson", "Cache-Control": "no-cache" });
+  };
+
+  try {
+    const stream = await chat.stream(toMessages(messages), { signal: controller.signal });
+    // Gemini reports usage across the chunks, so it adds up to the totals
+    const usage = { input_tokens: 0, output_tokens: 0, total_tokens: 0 };
+    for await (const chunk of stream) {
+      usage.input_tokens += chunk.usage_metadata?.input_tokens ?? 0;
+      usage.output_tokens += chunk.usage_metadata?.output_tokens ?? 0;
+      usage.total_tokens += chunk.usage_metadata?.total_tokens ?? 0;
+      if (typeof chunk.content !== "string" || !chunk.content) continue;
+      start();
+      res.write(`${JSON.stringify({ text: chunk.content })}\n`);
+    }
+    start();
+    res.end(`${JSON.stringify({ done: true, usage })}\n`);
+  } catch (error) {
+    if (controller.signal.aborted) return;
+
+    const { kind, message } = toLLMError(error);
+    console.error("Chat request failed:", kind, message);
+    if (started) {
+      res.end(`${JSON.stringify({ error: { kind, message } })}\n`);
+    } else {
+      sendError(res, kind, message);
+    }
+  }
+};
+
+const handleEmbed = async (req: IncomingMessage, res: ServerResponse, body: unknown, userId: string) => {
+  const parsed = embedRequestSchema.safeParse(body);
+  if (!parsed.success) {
+    return sendError(res, "unknown", `Send between 1 and ${MAX_EMBED_TEXTS} texts to embed`, { status: 400 });
+  }
+
+  const model = pickModel(parsed.data.model, config.embeddingModels);
+  if (!model) return sendError(res, "unknown", `Model ${parsed.data.model} is not available`, { status: 400 });
+  if (!withinQuota(res, checkEmbedQuota, userId)) return;
+
+  try {
+    const embeddings = new GoogleGenerativeAIEmbeddings({ apiKey: config.geminiApiKey, model, maxRetries: 0 });
+    sendJson(res, 200, { vectors: await embeddings.embedDocuments(parsed.data.texts) });
+  } catch (error) {
+    const { kind, message } = toLLMError(error);
+    console.error("Embedding request failed:", kind, message);
+    sendError(res, kind, message);
+  }
+};
+
+// Each handler validates the request before counting it against the caller's quota
+const routes: Record<
+  string,
+  (req: IncomingMessage, res: ServerResponse, body: unknown, userId: string) => Promise<void>
+> = {
+  "/api/chat": handleChat,
+  "/api/embed": handleEmbed,
+};
+
+const server = createServer(async (req, res) => {
+  try {
+    setCorsHeaders(req, res);
+    if (req.method === "OPTIONS") {
+      res.writeHead(204).end();
+      return;
+    }
+
+    const path = new URL(req.url ?? "/", "http://localhost").pathname;
+    if (req.method === "GET" && path === "/api/health") return sendJson(res, 200, { ok: true });
+
+    const route = routes[path];
+    if (req.method !== "POST" || !route) return sendError(res, "unknown", "Not found", { status: 404 });
+
+    const userId = await verifyToken(req.headers.authorization);
+    if (!userId) return sendError(res, "unauthenticated", "Sign in to use the AI features");
+
+    let body: unknown;
+    try {
+      body = await readJson(req);
+    } catch (error) {
+      return sendError(res, "unknown", error instanceof Error ? error.message : "Invalid JSON", { status: 400 });
+    }
+
+    await route(req, res, body, userId);
+  } catch (error) {
+    console.error("Unexpected proxy error:", error);
+    if (!res.headersSent) sendError(res, "unknown", "Internal proxy error");
+    else res.end();
+  }
+});
+
+server.listen(config.port, () => {
+  console.log(`Aptora API proxy listening on http://localhost:${config.port}`);
+});
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { createQuotaTracker } from "./quota";
+
+const at = (time: string) => new Date(`2026-03-01T${time}Z`);
+
+describe("createQuotaTracker", () => {
+  it("allows requests up to the per-minute limit, then until the oldest is a minute old", () => {
+    const check = createQuotaTracker({ requestsPerMinute: 2, requestsPerDay: 100 });
+
+    expect(check("learner", at("09:00:00"))).toMatchObject({ allowed: true, remainingToday: 99 });
+    expect(check("learner", at("09:00:20"))).toMatchObject({ allowed: true, remainingToday: 98 });
+    expect(check("learner", at("09:00:30"))).toEqual({
+      allowed: false,
+      kind: "quota",
+      message: "Limit of 2 requests per minute reached",
+      retryAfterSeconds: 30,
+    });
+    expect(check("learner", at("09:01:00"))).toMatchObject({ allowed: true });
+  });
+
+  it("doesn't count refused requests", () => {
+    const check = createQuotaTracker({ requestsPerMinute: 1, requestsPerDay: 100 });
+
+    check("learner", at("09:00:00"));
+    check("learner", at("09:00:10"));
+    check("learner", at("09:00:20"));
+
+    expect(check("learner", at("09:01:00"))).toMatchObject({ allowed: true, remainingToday: 98 });
+  });
+
+  it("refuses requests once the daily limit is used, until midnight UTC", () => {
+    const check = createQuotaTracker({ requestsPerMinute: 100, requestsPerDay: 2 });
+
+    check("learner", at("22:00:00"));
+    check("learner", at("22:00:01"));
+
+    expect(check("learner", at("23:00:00"))).toMatchObject({
+      allowed: false,
+      kind: "usage_limit",
+      retryAfterSeconds: 3600,
+    });
+    expect(check("learner", new Date("2026-03-02T00:00:00Z"))).toMatchObject({ allowed: true, remainingToday: 1 });
+  });
+
+  it("keeps each user's count separately", () => {
+    const check = createQuotaTracker({ requestsPerMinute: 1, requestsPerDay: 100 });
+
+    expect(check("learner", at("09:00:00")).allowed).toBe(true);
+    expect(check("teacher", at("09:00:00")).allowed).toBe(true);
+    expect(check("learner", at("09:00:01")).allowed).toBe(false);
+  });
+});
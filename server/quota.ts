@@ -0,0 +1,59 @@
+import type { LLMErrorKind } from "../src/utils/llmErrors";
+
+export type QuotaResult =
+  | { allowed: true; remainingToday: number }
+  | { allowed: false; kind: LLMErrorKind; message: string; retryAfterSeconds: number };
+
+interface UserUsage {
+  day: string;
+  requestsToday: number;
+  // Start times of requests in the last minute
+  recent: number[];
+}
+
+const MINUTE_MS = 60_000;
+
+const secondsUntilTomorrow = (now: Date) => {
+  const tomorrow = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1);
+  return Math.ceil((tomorrow - now.getTime()) / 1000);
+};
+
+// Per-user request limits, kept in memory so they reset when the proxy restarts
+export const createQuotaTracker = ({ requestsPerMinute, requestsPerDay }: { requestsPerMinute: number; requestsPerDay: number }) => {
+  const usage = new Map<string, UserUsage>();
+
+  // Count a request against the user's limits, or explain why it is refused
+  return (userId: string, now = new Date()): QuotaResult => {
+    const day = now.toISOString().slice(0, 10);
+    const previous = usage.get(userId);
+    const current: UserUsage =
+      previous && previous.day === day ? previous : { day, requestsToday: 0, recent: previous?.recent ?? [] };
+    current.recent = current.recent.filter((time) => now.getTime() - time < MINUTE_MS);
+
+    if (current.requestsToday >= requestsPerDay) {
+      usage.set(userId, current);
+      return {
+        allowed: false,
+        kind: "usage_limit",
+        message: `Daily limit of ${requestsPerDay} requests reached`,
+        retryAfterSeconds: secondsUntilTomorrow(now),
+      };
+    }
+    if (current.recent.length >= requestsPerMinute) {
+      usage.set(userId, current);
+      return {
+        allowed: false,
+        kind: "quota",
+        message: `Limit of ${requestsPerMinute} requests per minute reached`,
+        retryAfterSeconds: Math.ceil((current.recent[0] + MINUTE_MS - now.getTime()) / 1000),
+      };
+    }
+
+    current.requestsToday += 1;
+    current.recent.push(now.getTime());
+    usage.set(userId, current);
+    return { allowed: true, remainingToday: requestsPerDay - current.requestsToday };
+  };
+};
+
+export type QuotaTracker = ReturnType<typeof createQuotaTracker>;
@@ -2,8 +2,10 @@
 import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
-import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { QueryClientProvider } from "@tanstack/react-query";
+import { DirectionProvider } from "@radix-ui/react-direction";
 import { Routes, Route } from "react-router-dom";
+import { useTranslation } from "react-i18next";
 import Index from "./pages/Index";
 import NotFound from "./pages/NotFound";
 import ContentGenerator from "./pages/ContentGenerator";
@@ -13,42 +15,55 @@ import NotesGenerator from "./pages/NotesGenerator";
 import FlashcardGenerator from "./pages/FlashcardGenerator";
 import LearningAssistant from "./pages/LearningAssistant";
 import DocumentationGenerator from "./pages/DocumentationGenerator";
+import History from "./pages/History";
+import Library from "./pages/Library";
+import PromptTemplates from "./pages/PromptTemplates";
+import Settings from "./pages/Settings";
+import Usage from "./pages/Usage";
 import FAQ from "./pages/FAQ";
 import PrivacyPolicy from "./pages/PrivacyPolicy";
 import TermsOfService from "./pages/TermsOfService";
 import CookiePolicy from "./pages/CookiePolicy";
 import { Layout } from "./components/Layout";
-import { useState } from "react";
 import { AuthProvider } from "./contexts/AuthContext";
+import { queryClient } from "./lib/queryClient";
+import { getInterfaceLanguage, languageDirection } from "./lib/i18n";
 
 const App = () => {
-  // Create QueryClient inside the component
-  const [queryClient] = useState(() => new QueryClient());
+  // Re-renders on language changes, so menus and popovers open on the right side for right-to-left text
+  useTranslation();
 
   return (
     <QueryClientProvider client={queryClient}>
       <AuthProvider>
-        <TooltipProvider>
-          <Toaster />
-          <Sonner />
-          <Routes>
-            <Route element={<Layout />}>
-              <Route path="/" element={<Index />} />
-              <Route path="/content-generator" element={<ContentGenerator />} />
-              <Route path="/quiz-generator" element={<QuizGenerator />} />
-              <Route path="/learning-materials" element={<LearningMaterials />} />
-              <Route path="/notes-generator" element={<NotesGenerator />} />
-              <Route path="/flashcard-generator" element={<FlashcardGenerator />} />
-              <Route path="/learning-assistant" element={<LearningAssistant />} />
-              <Route path="/documentation" element={<DocumentationGenerator />} />
-              <Route path="/faq" element={<FAQ />} />
-              <Route path="/privacy-policy" element={<PrivacyPolicy />} />
-              <Route path="/terms-of-service" element={<TermsOfService />} />
-              <Route path="/cookie-policy" element={<CookiePolicy />} />
-              <Route path="*" element={<NotFound />} />
-            </Route>
-          </Routes>
-        </TooltipProvider>
+        <DirectionProvider dir={languageDirection(getInterfaceLanguage())}>
+          <TooltipProvider>
+            <Toaster />
+            <Sonner />
+            <Routes>
+              <Route element={<Layout />}>
+                <Route path="/" element={<Index />} />
+                <Route path="/content-generator" element={<ContentGenerator />} />
+                <Route path="/quiz-generator" element={<QuizGenerator />} />
+                <Route path="/learning-materials" element={<LearningMaterials />} />
+                <Route path="/notes-generator" element={<NotesGenerator />} />
+                <Route path="/flashcard-generator" element={<FlashcardGenerator />} />
+                <Route path="/learning-assistant" element={<LearningAssistant />} />
+                <Route path="/documentation" element={<DocumentationGenerator />} />
+                <Route path="/history" element={<History />} />
+                <Route path="/library" element={<Library />} />
+                <Route path="/templates" element={<PromptTemplates />} />
+                <Route path="/settings" element={<Settings />} />
+                <Route path="/usage" element={<Usage />} />
+                <Route path="/faq" element={<FAQ />} />
+                <Route path="/privacy-policy" element={<PrivacyPolicy />} />
+                <Route path="/terms-of-service" element={<TermsOfService />} />
+                <Route path="/cookie-policy" element={<CookiePolicy />} />
+                <Route path="*" element={<NotFound />} />
+              </Route>
+            </Routes>
+          </TooltipProvider>
+        </DirectionProvider>
       </AuthProvider>
     </QueryClientProvider>
   );
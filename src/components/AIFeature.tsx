@@ -1,121 +1,575 @@
 
-import React, { useState } from "react";
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useLocation, useNavigate } from "react-router-dom";
+import { useQueryClient } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
 import { useToast } from "@/hooks/use-toast";
-import { generateWithLangChain } from "@/utils/langchainUtils";
-import { generatePDF } from "@/utils/pdfUtils";
+import { useAuth } from "@/contexts/AuthContext";
+import { useUndoable } from "@/hooks/use-undoable";
+import { usePromptTemplates } from "@/hooks/use-prompt-templates";
+import { useMastery } from "@/hooks/use-mastery";
+import {
+  AIFeatureType,
+  generateQuizWithLangChain,
+  groundedFeatures,
+  mergeVariants,
+  streamWithLangChain,
+} from "@/utils/langchainUtils";
+import { Quiz, formatQuizAsText, parseQuizText } from "@/utils/quizUtils";
+import { QuizPrintOptions, defaultQuizPrintOptions } from "@/utils/quizPdfUtils";
+import { parseFlashcards } from "@/utils/flashcardUtils";
+import {
+  ExportFormat,
+  documentExportFormats,
+  exportContent,
+  flashcardExportFormats,
+  quizExportFormats,
+} from "@/utils/exportUtils";
+import { getLLMConfig } from "@/utils/llmProviders";
+import { LLMError, describeLLMError, toLLMError } from "@/utils/llmErrors";
+import {
+  GenerationVariant,
+  HistoryItem,
+  createVariant,
+  saveHistoryItem,
+  updateHistoryItem,
+  variantLabel,
+} from "@/utils/historyStore";
+import { GenerationOptions, featureDefaultOptions } from "@/utils/generationOptions";
+import { SourceDocument } from "@/utils/documentUtils";
+import { SelectedTemplate, builtInTemplates } from "@/utils/promptRegistry";
+import { templatesForFeature } from "@/utils/templateStore";
+import { PracticePlan, QuizSubmission, describePracticePlan } from "@/utils/masteryStore";
 import { PromptInput } from "@/components/ai/PromptInput";
 import { AIResultDisplay } from "@/components/ai/AIResultDisplay";
-import { PDFExportDialog } from "@/components/ai/PDFExportDialog";
+import { ResultEditor } from "@/components/ai/ResultEditor";
+import { VariantCompare } from "@/components/ai/VariantCompare";
+import { Button } from "@/components/ui/button";
+import { ToastAction } from "@/components/ui/toast";
+import { ExportDialog } from "@/components/ai/ExportDialog";
+import { QuizPlayer } from "@/components/quiz/QuizPlayer";
+import { WeakSpotsPanel } from "@/components/quiz/WeakSpotsPanel";
+import { FlashcardDeck } from "@/components/flashcards/FlashcardDeck";
 
 interface AIFeatureProps {
   title: string;
   description: string;
   placeholder: string;
-  feature: "content" | "quiz" | "materials" | "notes" | "flashcards" | "assistant";
+  feature: AIFeatureType;
 }
 
 export function AIFeature({ title, description, placeholder, feature }: AIFeatureProps) {
+  const { t } = useTranslation();
   const [prompt, setPrompt] = useState("");
-  const [result, setResult] = useState("");
+  // Generation replaces the result outright; edits and rewrites can be undone
+  const {
+    value: result,
+    set: editResult,
+    reset: setResult,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+  } = useUndoable("");
+  const [isEditing, setIsEditing] = useState(false);
+  // History entry for the current result, updated when it is edited or regenerated
+  const [savedItemId, setSavedItemId] = useState<string | null>(null);
+  // Versions generated for the same prompt, and the two shown side by side
+  const [variants, setVariants] = useState<GenerationVariant[]>([]);
+  const [selectedVariantId, setSelectedVariantId] = useState<string | null>(null);
+  const [comparison, setComparison] = useState<[string, string] | null>(null);
+  const [variantPrompt, setVariantPrompt] = useState("");
+  const [isMerging, setIsMerging] = useState(false);
+  const [quiz, setQuiz] = useState<Quiz | null>(null);
+  const [options, setOptions] = useState<GenerationOptions>(featureDefaultOptions[feature]);
+  const [sources, setSources] = useState<SourceDocument[]>([]);
+  const [templateId, setTemplateId] = useState(builtInTemplates[feature].id);
+  const [templateValues, setTemplateValues] = useState<Record<string, string>>({});
   const [isLoading, setIsLoading] = useState(false);
-  const [showPdfDialog, setShowPdfDialog] = useState(false);
-  const [pdfFilename, setPdfFilename] = useState("");
+  const [showExportDialog, setShowExportDialog] = useState(false);
+  const [exportFilename, setExportFilename] = useState("");
+  const [exportFormat, setExportFormat] = useState<ExportFormat>("pdf");
+  const [isExporting, setIsExporting] = useState(false);
+  const [quizPrintOptions, setQuizPrintOptions] = useState<QuizPrintOptions>(defaultQuizPrintOptions);
+  // The last failed generation, shown in the result panel with a retry button
+  const [failure, setFailure] = useState<{ error: LLMError; asVariant: boolean; practice?: PracticePlan } | null>(
+    null
+  );
+  const abortControllerRef = useRef<AbortController | null>(null);
   const { toast } = useToast();
+  const { currentUser } = useAuth();
+  const { templates: userTemplates } = usePromptTemplates(currentUser?.uid);
+  // Quiz answers build up concept mastery for the weak spots practice mode
+  const {
+    mastery,
+    practicePlan,
+    isLoading: isMasteryLoading,
+    recordAnswers,
+  } = useMastery(feature === "quiz" ? currentUser?.uid : undefined);
+  const queryClient = useQueryClient();
+  const location = useLocation();
+  const navigate = useNavigate();
+
+  // Reopen a generation passed from the history page
+  useEffect(() => {
+    const historyItem = (location.state as { historyItem?: HistoryItem } | null)?.historyItem;
+    if (!historyItem || historyItem.feature !== feature) return;
+
+    setPrompt(historyItem.prompt);
+    setResult(historyItem.result);
+    setSavedItemId(historyItem.id);
+    setIsEditing(false);
+    setQuiz(historyItem.quiz ?? null);
+    setVariants(historyItem.variants ?? []);
+    setSelectedVariantId(historyItem.selectedVariantId ?? null);
+    setVariantPrompt(historyItem.prompt);
+    setComparison(null);
+    setFailure(null);
+    setOptions(historyItem.settings.options ?? featureDefaultOptions[feature]);
+    setTemplateId(historyItem.settings.template?.id ?? builtInTemplates[feature].id);
+    setTemplateValues(historyItem.settings.template?.values ?? {});
+    setExportFilename(`${feature}_${historyItem.createdAt.slice(0, 10)}`);
+    // Clear the state so a refresh doesn't restore it again
+    navigate(location.pathname, { replace: true, state: null });
+  }, [feature, location.pathname, location.state, navigate, setResult]);
+
+  // The built-in template first, then the user's own templates for this feature
+  const templates = useMemo(
+    () => [builtInTemplates[feature], ...templatesForFeature(userTemplates, feature)],
+    [feature, userTemplates]
+  );
+  const activeTemplate = templates.find((template) => template.id === templateId) ?? templates[0];
+  const selectedTemplate: SelectedTemplate | undefined = activeTemplate.builtIn
+    ? undefined
+    : { template: activeTemplate, values: templateValues };
+
+  const changeTemplate = (id: string) => {
+    setTemplateId(id);
+    setTemplateValues({});
+  };
+
+  // Flashcard output is parsed into cards for the study mode
+  const flashcards = useMemo(
+    () => (feature === "flashcards" && result && !isLoading ? parseFlashcards(result) : []),
+    [feature, result, isLoading]
+  );
+
+  // Save completed generations to the user's history
+  const recordGeneration = async (variant: GenerationVariant, requestPrompt: string) => {
+    if (!currentUser) return;
+
+    try {
+      const { provider, model } = getLLMConfig();
+      const saved = await saveHistoryItem({
+        userId: currentUser.uid,
+        feature,
+        prompt: requestPrompt,
+        result: variant.result,
+        quiz: variant.quiz,
+        sourceNames: sources.length ? sources.map((source) => source.name) : undefined,
+        settings: {
+          provider,
+          model,
+          options,
+          template: selectedTemplate && {
+            id: selectedTemplate.template.id,
+            name: selectedTemplate.template.name,
+            version: selectedTemplate.template.version,
+            values: templateValues,
+          },
+        },
+        variants: [variant],
+        selectedVariantId: variant.id,
+      });
+      setSavedItemId(saved.id);
+      queryClient.invalidateQueries({ queryKey: ["history", currentUser.uid] });
+    } catch (error) {
+      console.error("Error saving generation to history:", error);
+    }
+  };
+
+  // Keep new versions and the picked version in the saved history entry
+  const updateSavedItem = async (changes: Parameters<typeof updateHistoryItem>[1]) => {
+    if (!savedItemId || !currentUser) return;
 
-  const generateContent = async () => {
-    if (!prompt.trim()) {
+    try {
+      await updateHistoryItem(savedItemId, changes);
+      queryClient.invalidateQueries({ queryKey: ["history", currentUser.uid] });
+    } catch (error) {
+      console.error("Error updating saved generation:", error);
+    }
+  };
+
+  const showVariant = (variant: GenerationVariant) => {
+    setResult(variant.result);
+    setQuiz(variant.quiz ?? null);
+  };
+
+  // Generate a new result, or another version of the current one for the same prompt.
+  // A practice plan replaces the prompt with a request for questions on the user's weak spots.
+  const generateContent = async (asVariant = false, practice?: PracticePlan) => {
+    const requestPrompt = asVariant ? variantPrompt : practice ? describePracticePlan(practice) : prompt;
+    if (!requestPrompt.trim()) {
       toast({
-        title: "Please enter a prompt",
-        description: "You need to provide some input for the AI to generate content.",
+        title: t("generator.emptyPrompt.title"),
+        description: t("generator.emptyPrompt.description"),
         variant: "destructive",
       });
       return;
     }
 
+    // Results reopened from before versions were kept count as the first version
+    const savedVariants = variants.length ? variants : [createVariant(result, quiz ?? undefined)];
+    const selected = savedVariants.find((variant) => variant.id === selectedVariantId) ?? savedVariants[0];
+    // Edits made to the current version stay with it
+    const currentVariant = { ...selected, result };
+    const existingVariants = savedVariants.map((variant) =>
+      variant.id === currentVariant.id ? currentVariant : variant
+    );
+
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
     setIsLoading(true);
+    setIsEditing(false);
+    setFailure(null);
+    setComparison(null);
     setResult("");
+    setQuiz(null);
+    if (!asVariant) {
+      setSavedItemId(null);
+      setVariants([]);
+      setSelectedVariantId(null);
+      setPrompt(requestPrompt);
+      setVariantPrompt(requestPrompt);
+    }
+    // The practice request replaces whatever the user had typed, so offer it back
+    const typedPrompt = prompt;
+    if (practice && !asVariant && typedPrompt.trim() && typedPrompt !== requestPrompt) {
+      toast({
+        title: t("generator.practicing.title"),
+        description: t("generator.practicing.description"),
+        action: (
+          <ToastAction altText={t("generator.practicing.restore")} onClick={() => setPrompt(typedPrompt)}>
+            {t("generator.practicing.undo")}
+          </ToastAction>
+        ),
+      });
+    }
+
+    // Calls are metered for the signed-in user; regenerating and practice ask for fresh questions,
+    // so they skip the request cache
+    const userOptions = {
+      userId: currentUser?.uid,
+      skipCache: asVariant || !!practice,
+      onCacheHit: () =>
+        toast({
+          title: t("generator.cached.title"),
+          description: t("generator.cached.description"),
+        }),
+    };
 
     try {
-      // Use LangChain to generate content
-      const generatedContent = await generateWithLangChain(feature, prompt);
-      setResult(generatedContent);
+      let variant: GenerationVariant;
+      if (feature === "quiz") {
+        // Quizzes come back as validated structured data for the quiz player
+        const generatedQuiz = await generateQuizWithLangChain(requestPrompt, {
+          options,
+          sources,
+          template: selectedTemplate,
+          signal: abortController.signal,
+          ...userOptions,
+        });
+        variant = createVariant(formatQuizAsText(generatedQuiz), generatedQuiz);
+      } else {
+        // Stream the response so text appears as it is generated
+        const generatedContent = await streamWithLangChain(feature, requestPrompt, setResult, {
+          options,
+          sources,
+          template: selectedTemplate,
+          signal: abortController.signal,
+          ...userOptions,
+        });
+        variant = createVariant(generatedContent);
+      }
+
+      if (asVariant) {
+        // Keep showing the current version and open it next to the new one
+        const nextVariants = [...existingVariants, variant];
+        setVariants(nextVariants);
+        setSelectedVariantId(currentVariant.id);
+        showVariant(currentVariant);
+        setComparison([currentVariant.id, variant.id]);
+        updateSavedItem({ variants: nextVariants, selectedVariantId: currentVariant.id });
+      } else {
+        setVariants([variant]);
+        setSelectedVariantId(variant.id);
+        showVariant(variant);
+        recordGeneration(variant, requestPrompt);
+      }
       
-      // Set default PDF filename based on feature type
-      setPdfFilename(`${feature}_${new Date().toISOString().slice(0, 10)}`);
+      // Set default export filename based on feature type
+      setExportFilename(`${feature}_${new Date().toISOString().slice(0, 10)}`);
     } catch (error) {
+      if (asVariant) {
+        showVariant(currentVariant);
+      }
+
+      if (abortController.signal.aborted) {
+        // Keep whatever was streamed before the user stopped
+        setExportFilename(`${feature}_${new Date().toISOString().slice(0, 10)}`);
+        toast({
+          title: t("generator.stopped.title"),
+          description: t(
+            asVariant ? "generator.stopped.variant" : feature === "quiz" ? "generator.stopped.quiz" : "generator.stopped.partial"
+          ),
+        });
+        return;
+      }
+
       console.error("Error generating content:", error);
+      setFailure({ error: toLLMError(error), asVariant, practice });
+    } finally {
+      abortControllerRef.current = null;
+      setIsLoading(false);
+    }
+  };
+
+  const stopGeneration = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  // Leave the editor and keep the saved history entry in sync with the edits
+  const finishEditing = () => {
+    setIsEditing(false);
+    updateSavedItem({ result });
+  };
+
+  // Make a version the current result
+  const pickVariant = (variant: GenerationVariant, allVariants = variants) => {
+    setSelectedVariantId(variant.id);
+    setIsEditing(false);
+    setComparison(null);
+    showVariant(variant);
+    updateSavedItem({
+      result: variant.result,
+      quiz: variant.quiz,
+      variants: allVariants,
+      selectedVariantId: variant.id,
+    });
+  };
+
+  // Combine the two compared versions into a new version and pick it
+  const mergeComparedVariants = async () => {
+    const compared = comparison?.map((id) => variants.find((variant) => variant.id === id));
+    if (!compared?.[0] || !compared[1]) return;
+
+    setIsMerging(true);
+    try {
+      const merged = await mergeVariants(
+        feature,
+        variantPrompt,
+        [compared[0].result, compared[1].result],
+        { options, userId: currentUser?.uid }
+      );
+      const variant = createVariant(merged, undefined, [compared[0].id, compared[1].id]);
+      const nextVariants = [...variants, variant];
+      setVariants(nextVariants);
+      pickVariant(variant, nextVariants);
+    } catch (error) {
       toast({
-        title: "Error generating content",
-        description: `${error instanceof Error ? error.message : "There was an error generating content. Please try again."}`,
+        title: t("generator.mergeError"),
+        description: describeLLMError(error).description,
         variant: "destructive",
       });
     } finally {
-      setIsLoading(false);
+      setIsMerging(false);
     }
   };
 
+  const openComparison = () => {
+    const other = variants.find((variant) => variant.id !== selectedVariantId);
+    if (selectedVariantId && other) setComparison([selectedVariantId, other.id]);
+  };
+
   const copyToClipboard = () => {
     navigator.clipboard.writeText(result);
     toast({
-      title: "Copied to clipboard",
-      description: "The generated content has been copied to your clipboard.",
+      title: t("generator.copied.title"),
+      description: t("generator.copied.description"),
     });
   };
 
-  const openPdfDialog = () => {
-    setShowPdfDialog(true);
+  const openExportDialog = () => {
+    setShowExportDialog(true);
   };
 
-  const downloadAsPdf = async () => {
+  // Quizzes saved before they were structured are read back from their text
+  const exportQuiz = quiz ?? (feature === "quiz" && result && !isLoading ? parseQuizText(result) : null);
+
+  // Flashcards can also be exported as decks for study apps, and quizzes for an LMS
+  const availableExportFormats = [
+    ...documentExportFormats,
+    ...(flashcards.length ? flashcardExportFormats : []),
+    ...(exportQuiz ? quizExportFormats : []),
+  ];
+  const selectedExportFormat = availableExportFormats.includes(exportFormat) ? exportFormat : "pdf";
+
+  const downloadExport = async () => {
+    setIsExporting(true);
     try {
-      const filename = pdfFilename.trim() || `${feature}_${new Date().toISOString().slice(0, 10)}`;
-      
-      await generatePDF(result, title, filename);
+      const filenames = await exportContent(selectedExportFormat, {
+        content: result,
+        title,
+        filename: exportFilename.trim() || `${feature}_${new Date().toISOString().slice(0, 10)}`,
+        flashcards,
+        quiz: exportQuiz,
+        quizPrintOptions,
+      });
       
-      setShowPdfDialog(false);
+      setShowExportDialog(false);
       
       toast({
-        title: "PDF downloaded",
-        description: `${filename}.pdf has been downloaded successfully.`,
+        title: t("generator.exported.title"),
+        description: t("generator.exported.description", { files: filenames.join(", ") }),
       });
     } catch (error) {
-      console.error("Error downloading PDF:", error);
+      console.error("Error exporting result:", error);
       toast({
-        title: "Error downloading PDF",
-        description: "There was an error generating the PDF. Please try again.",
+        title: t("generator.exportError.title", { format: t(`exportDialog.formats.${selectedExportFormat}.label`) }),
+        description: error instanceof Error ? error.message : t("generator.exportError.description"),
         variant: "destructive",
       });
+    } finally {
+      setIsExporting(false);
     }
   };
 
+  // Quiz text is generated from structured data, so it isn't edited directly
+  const canEdit = !quiz;
+  const selectedVariant = variants.find((variant) => variant.id === selectedVariantId);
+  // Stable, so the quiz player reports again only when its results change
+  const recordQuizSubmission = useCallback(
+    (submission: QuizSubmission) => {
+      if (quiz) recordAnswers({ quiz, submission });
+    },
+    [quiz, recordAnswers]
+  );
+
+  // Retrying can't fix a rejected API key, a signed-out user or a used-up daily limit
+  const retryFailure =
+    failure && !["invalid_key", "unauthenticated", "usage_limit"].includes(failure.error.kind)
+      ? () => generateContent(failure.asVariant, failure.practice)
+      : undefined;
+
   return (
     <div className="container mx-auto px-4 py-8">
       <h1 className="text-3xl font-bold mb-2">{title}</h1>
       <p className="text-muted-foreground mb-6">{description}</p>
       
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-        <PromptInput
-          prompt={prompt}
-          onPromptChange={setPrompt}
-          placeholder={placeholder}
-          isLoading={isLoading}
-          onGenerate={generateContent}
-        />
+        <div className="space-y-6">
+          <PromptInput
+            prompt={prompt}
+            onPromptChange={setPrompt}
+            placeholder={placeholder}
+            isLoading={isLoading}
+            onGenerate={() => generateContent()}
+            onStop={stopGeneration}
+            options={options}
+            onOptionsChange={setOptions}
+            defaultOptions={featureDefaultOptions[feature]}
+            sources={sources}
+            onSourcesChange={groundedFeatures.includes(feature) ? setSources : undefined}
+            templates={currentUser ? templates : undefined}
+            templateId={activeTemplate.id}
+            onTemplateChange={changeTemplate}
+            templateValues={templateValues}
+            onTemplateValuesChange={setTemplateValues}
+          />
+          {feature === "quiz" && currentUser && (
+            <WeakSpotsPanel
+              mastery={mastery}
+              practicePlan={practicePlan}
+              isLoading={isMasteryLoading}
+              onPractice={(plan) => generateContent(false, plan)}
+              disabled={isLoading}
+            />
+          )}
+        </div>
         
         <AIResultDisplay
           result={result}
           isLoading={isLoading}
           onCopy={copyToClipboard}
-          onExportPDF={openPdfDialog}
-        />
+          onExport={openExportDialog}
+          onEdit={canEdit && !isEditing ? () => setIsEditing(true) : undefined}
+          onRegenerate={variantPrompt ? () => generateContent(true) : undefined}
+          error={failure && describeLLMError(failure.error)}
+          onRetry={retryFailure}
+        >
+          {isEditing ? (
+            <ResultEditor
+              value={result}
+              onChange={editResult}
+              onUndo={undo}
+              onRedo={redo}
+              canUndo={canUndo}
+              canRedo={canRedo}
+              options={options}
+              onDone={finishEditing}
+            />
+          ) : quiz ? (
+            <QuizPlayer
+              key={result}
+              quiz={quiz}
+              onSubmit={currentUser ? recordQuizSubmission : undefined}
+            />
+          ) : flashcards.length > 0 ? (
+            <FlashcardDeck key={result} cards={flashcards} />
+          ) : null}
+        </AIResultDisplay>
       </div>
       
-      <PDFExportDialog
-        open={showPdfDialog}
-        onOpenChange={setShowPdfDialog}
-        filename={pdfFilename}
-        onFilenameChange={setPdfFilename}
-        onDownload={downloadAsPdf}
+      {variants.length > 1 && !comparison && !isLoading && (
+        <div className="mt-4 flex items-center justify-end gap-3 text-sm text-muted-foreground">
+          {selectedVariant && (
+            <span>
+              {t("generator.showingVersion", { version: variantLabel(variants, selectedVariant), total: variants.length })}
+            </span>
+          )}
+          <Button variant="outline" size="sm" onClick={openComparison}>
+            {t("generator.compareVersions")}
+          </Button>
+        </div>
+      )}
+
+      {comparison && (
+        <VariantCompare
+          variants={variants}
+          selectedVariantId={selectedVariantId}
+          comparison={comparison}
+          onComparisonChange={setComparison}
+          onPick={(variant) => pickVariant(variant)}
+          onMerge={feature === "quiz" ? undefined : mergeComparedVariants}
+          isMerging={isMerging}
+          onClose={() => setComparison(null)}
+        />
+      )}
+      
+      <ExportDialog
+        open={showExportDialog}
+        onOpenChange={setShowExportDialog}
+        formats={availableExportFormats}
+        format={selectedExportFormat}
+        onFormatChange={setExportFormat}
+        filename={exportFilename}
+        onFilenameChange={setExportFilename}
+        onDownload={downloadExport}
+        isExporting={isExporting}
+        quizPrintOptions={quizPrintOptions}
+        onQuizPrintOptionsChange={setQuizPrintOptions}
+        pdfText={selectedExportFormat === "quiz-pdf" && exportQuiz ? formatQuizAsText(exportQuiz) : result}
       />
     </div>
   );
@@ -297,7 +297,7 @@ The AIFeature component uses a composition pattern with specialized child compon
 
 - **PromptInput** - Handles user input and generation trigger
 - **AIResultDisplay** - Displays generated content with actions
-- **PDFExportDialog** - Modal for PDF export configuration
+- **ExportDialog** - Modal for choosing an export format and filename
 
 This pattern provides:
 - **Separation of Concerns** - Each component has a single responsibility
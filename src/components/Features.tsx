@@ -8,10 +8,12 @@ import {
   ClipboardCheck, 
   Layers
 } from "lucide-react";
+import { useTranslation } from "react-i18next";
 import FeatureCard from "./FeatureCard";
 
 const Features = () => {
   const featuresRef = useRef<HTMLDivElement>(null);
+  const { t } = useTranslation();
 
   useEffect(() => {
     const observer = new IntersectionObserver(
@@ -36,38 +38,38 @@ const Features = () => {
 
   const features = [
     {
-      title: "Content Generator",
-      description: "Generate tailored learning content based on your curriculum and learning objectives.",
+      title: t("features.content.name"),
+      description: t("features.content.description"),
       icon: FileText,
       path: "/content-generator"
     },
     {
-      title: "Quiz Generator",
-      description: "Create customized quizzes with varying difficulty levels to test your knowledge.",
+      title: t("features.quiz.name"),
+      description: t("features.quiz.description"),
       icon: ClipboardCheck,
       path: "/quiz-generator"
     },
     {
-      title: "E-learning Materials",
-      description: "Access a comprehensive library of learning materials designed for effective learning.",
+      title: t("features.materials.name"),
+      description: t("features.materials.description"),
       icon: BookText,
       path: "/learning-materials"
     },
     {
-      title: "AI Notes Generator",
-      description: "Transform complex topics into concise, easy-to-understand notes with AI assistance.",
+      title: t("features.notes.name"),
+      description: t("features.notes.description"),
       icon: Lightbulb,
       path: "/notes-generator"
     },
     {
-      title: "Flashcard Generator",
-      description: "Create interactive flashcards to boost memorization and enhance learning retention.",
+      title: t("features.flashcards.name"),
+      description: t("features.flashcards.description"),
       icon: Layers,
       path: "/flashcard-generator"
     },
     {
-      title: "AI Learning Assistant",
-      description: "Get personalized help and answers to questions as you progress through your learning journey.",
+      title: t("features.assistant.name"),
+      description: t("features.assistant.description"),
       icon: HelpCircle,
       path: "/learning-assistant"
     },
@@ -78,10 +80,10 @@ const Features = () => {
       <div className="container px-4 md:px-6">
         <div className="text-center mb-16">
           <h2 className="text-3xl md:text-4xl font-bold tracking-tight mb-4">
-            Innovative Features
+            {t("features.title")}
           </h2>
           <p className="text-xl text-muted-foreground max-w-[700px] mx-auto">
-            Discover the tools that make learning more effective, engaging, and personalized.
+            {t("features.subtitle")}
           </p>
         </div>
 
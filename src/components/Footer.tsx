@@ -9,9 +9,11 @@ import {
   Mail, 
   Phone 
 } from "lucide-react";
+import { useTranslation } from "react-i18next";
 
 const Footer = () => {
   const navigate = useNavigate();
+  const { t } = useTranslation();
 
   // Function to handle navigation to homepage and scroll to section
   const handleNavigation = (e: React.MouseEvent<HTMLAnchorElement>, sectionId: string) => {
@@ -34,12 +36,9 @@ const Footer = () => {
       <div className="container px-4 md:px-6">
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-8 mb-12">
           <div>
-            <h3 className="text-lg font-semibold mb-4">About Aptora</h3>
-            <p className="text-sm text-primary-foreground/80 mb-4">
-              Aptora is revolutionizing e-learning with AI technology that adapts to each learner's needs, 
-              making education more accessible, personalized, and effective for everyone.
-            </p>
-            <div className="flex space-x-4">
+            <h3 className="text-lg font-semibold mb-4">{t("footer.about")}</h3>
+            <p className="text-sm text-primary-foreground/80 mb-4">{t("footer.aboutText")}</p>
+            <div className="flex gap-4">
               <a href="#" className="text-primary-foreground/80 hover:text-primary-foreground transition-colors">
                 <Facebook className="h-5 w-5" />
                 <span className="sr-only">Facebook</span>
@@ -60,11 +59,11 @@ const Footer = () => {
           </div>
           
           <div>
-            <h3 className="text-lg font-semibold mb-4">Quick Links</h3>
+            <h3 className="text-lg font-semibold mb-4">{t("footer.quickLinks")}</h3>
             <ul className="space-y-2 text-sm">
               <li>
                 <Link to="/" className="text-primary-foreground/80 hover:text-primary-foreground transition-colors">
-                  Home
+                  {t("header.home")}
                 </Link>
               </li>
               <li>
@@ -73,7 +72,7 @@ const Footer = () => {
                   onClick={(e) => handleNavigation(e, "features")}
                   className="text-primary-foreground/80 hover:text-primary-foreground transition-colors"
                 >
-                  Features
+                  {t("header.features")}
                 </a>
               </li>
               <li>
@@ -82,12 +81,12 @@ const Footer = () => {
                   onClick={(e) => handleNavigation(e, "testimonials")}
                   className="text-primary-foreground/80 hover:text-primary-foreground transition-colors"
                 >
-                  Testimonials
+                  {t("header.testimonials")}
                 </a>
               </li>
               <li>
                 <Link to="/faq" className="text-primary-foreground/80 hover:text-primary-foreground transition-colors">
-                  FAQ
+                  {t("header.faq")}
                 </Link>
               </li>
               <li>
@@ -96,41 +95,41 @@ const Footer = () => {
                   onClick={(e) => handleNavigation(e, "about")}
                   className="text-primary-foreground/80 hover:text-primary-foreground transition-colors"
                 >
-                  About Us
+                  {t("header.aboutUs")}
                 </a>
               </li>
             </ul>
           </div>
           
           <div>
-            <h3 className="text-lg font-semibold mb-4">Legal</h3>
+            <h3 className="text-lg font-semibold mb-4">{t("footer.legal")}</h3>
             <ul className="space-y-2 text-sm">
               <li>
                 <Link to="/privacy-policy" className="text-primary-foreground/80 hover:text-primary-foreground transition-colors">
-                  Privacy Policy
+                  {t("footer.privacyPolicy")}
                 </Link>
               </li>
               <li>
                 <Link to="/terms-of-service" className="text-primary-foreground/80 hover:text-primary-foreground transition-colors">
-                  Terms of Service
+                  {t("footer.termsOfService")}
                 </Link>
               </li>
               <li>
                 <Link to="/cookie-policy" className="text-primary-foreground/80 hover:text-primary-foreground transition-colors">
-                  Cookie Policy
+                  {t("footer.cookiePolicy")}
                 </Link>
               </li>
             </ul>
           </div>
           
           <div>
-            <h3 className="text-lg font-semibold mb-4">Contact</h3>
+            <h3 className="text-lg font-semibold mb-4">{t("footer.contact")}</h3>
             <ul className="space-y-3 text-sm">
-              <li className="flex items-start space-x-2">
+              <li className="flex items-start gap-2">
                 <Mail className="h-5 w-5 text-primary-foreground/60 mt-0.5" />
                 <span>aaronsonnie@gmail.com</span>
               </li>
-              <li className="flex items-start space-x-2">
+              <li className="flex items-start gap-2">
                 <Phone className="h-5 w-5 text-primary-foreground/60 mt-0.5" />
                 <span>+91 9944226180</span>
               </li>
@@ -140,7 +139,7 @@ const Footer = () => {
         
         <div className="border-t border-primary-foreground/10 pt-8">
           <p className="text-sm text-center text-primary-foreground/60">
-            &copy; {new Date().getFullYear()} Aptora. All rights reserved.
+            {t("footer.rights", { year: new Date().getFullYear() })}
           </p>
         </div>
       </div>
@@ -2,6 +2,7 @@
 import React, { useState, useEffect } from "react";
 import { Link, useLocation } from "react-router-dom";
 import { Menu, X, LogIn } from "lucide-react";
+import { useTranslation } from "react-i18next";
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
 import { ThemeToggle } from "@/components/ThemeToggle";
@@ -11,6 +12,7 @@ import { useAuth } from "@/contexts/AuthContext";
 import { UserMenu } from "./header/UserMenu";
 import { DesktopNavigation } from "./header/DesktopNavigation";
 import { MobileNavigation } from "./header/MobileNavigation";
+import { LanguageSwitcher } from "./header/LanguageSwitcher";
 
 const Header = () => {
   const [isOpen, setIsOpen] = useState(false);
@@ -19,6 +21,7 @@ const Header = () => {
   const [showLoginModal, setShowLoginModal] = useState(false);
   const location = useLocation();
   const { currentUser } = useAuth();
+  const { t } = useTranslation();
 
   useEffect(() => {
     setIsOpen(false);
@@ -34,9 +37,9 @@ const Header = () => {
   }, []);
 
   const mainNavLinks = [
-    { name: "Testimonials", path: "/#testimonials" },
-    { name: "FAQ", path: "/faq" },
-    { name: "About Us", path: "/#about" },
+    { name: t("header.testimonials"), path: "/#testimonials" },
+    { name: t("header.faq"), path: "/faq" },
+    { name: t("header.aboutUs"), path: "/#about" },
   ];
 
   const handleSectionClick = (e, sectionId) => {
@@ -117,11 +120,12 @@ const Header = () => {
                 <LogIn className="h-5 w-5" />
               </Button>
             )}
+            <LanguageSwitcher />
             <ThemeToggle />
             <button
               onClick={() => setIsOpen(!isOpen)}
               className="p-2 rounded-md text-foreground/80 hover:text-foreground"
-              aria-label={isOpen ? "Close Menu" : "Open Menu"}
+              aria-label={isOpen ? t("header.closeMenu") : t("header.openMenu")}
             >
               {isOpen ? <X size={24} /> : <Menu size={24} />}
             </button>
@@ -1,9 +1,11 @@
 
 import React, { useEffect, useRef } from "react";
+import { useTranslation } from "react-i18next";
 import { Button } from "@/components/ui/button";
 
 const Hero = () => {
   const heroRef = useRef<HTMLDivElement>(null);
+  const { t } = useTranslation();
 
   useEffect(() => {
     const handleMouseMove = (event: MouseEvent) => {
@@ -47,21 +49,20 @@ const Hero = () => {
 
       <div className="container px-4 md:px-6 flex flex-col items-center text-center relative z-10 animate-fade-in">
         <div className="inline-block rounded-full px-4 py-1.5 text-sm font-medium bg-primary/5 mb-6 animate-scale-in animate-stagger-1">
-          Revolutionizing E-Learning with AI
+          {t("hero.badge")}
         </div>
         
         <h1 className="text-4xl md:text-5xl lg:text-7xl font-bold tracking-tighter mb-4 animate-scale-in animate-stagger-2">
-          Meet Aptora
+          {t("hero.title")}
         </h1>
         
         <p className="max-w-[700px] text-lg md:text-xl text-muted-foreground mb-8 animate-scale-in animate-stagger-3">
-          A smart, AI-powered e-learning platform that generates personalized study materials, 
-          quizzes, flashcards, learning paths, and notes tailored to your learning style.
+          {t("hero.description")}
         </p>
         
         <div className="animate-scale-in animate-stagger-4">
           <Button size="lg" className="rounded-full px-8" onClick={scrollToFeatures}>
-            Get Started
+            {t("hero.getStarted")}
           </Button>
         </div>
         
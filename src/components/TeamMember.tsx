@@ -1,6 +1,7 @@
 
 import React from "react";
 import { Github, Linkedin, Mail } from "lucide-react";
+import { useTranslation } from "react-i18next";
 import { cn } from "@/lib/utils";
 
 interface TeamMemberProps {
@@ -24,6 +25,7 @@ export const TeamMember = ({
   email,
   className,
 }: TeamMemberProps) => {
+  const { t } = useTranslation();
   return (
     <div className={cn("flex flex-col items-center p-6 bg-card rounded-xl shadow-sm border", className)}>
       <div className="w-40 h-40 overflow-hidden rounded-full mb-4 border-2 border-primary/20">
@@ -37,14 +39,14 @@ export const TeamMember = ({
       <p className="text-primary font-medium mb-2">{role}</p>
       <p className="text-muted-foreground text-center text-sm mb-4">{bio}</p>
       
-      <div className="flex space-x-4 mt-auto">
+      <div className="flex gap-4 mt-auto">
         {linkedin && (
           <a 
             href={linkedin} 
             target="_blank" 
             rel="noopener noreferrer"
             className="text-muted-foreground hover:text-primary transition-colors"
-            aria-label={`${name}'s LinkedIn profile`}
+            aria-label={t("team.linkedin", { name })}
           >
             <Linkedin size={20} />
           </a>
@@ -55,7 +57,7 @@ export const TeamMember = ({
             target="_blank" 
             rel="noopener noreferrer"
             className="text-muted-foreground hover:text-primary transition-colors"
-            aria-label={`${name}'s GitHub profile`}
+            aria-label={t("team.github", { name })}
           >
             <Github size={20} />
           </a>
@@ -64,7 +66,7 @@ export const TeamMember = ({
           <a 
             href={`mailto:${email}`}
             className="text-muted-foreground hover:text-primary transition-colors"
-            aria-label={`Email ${name}`}
+            aria-label={t("team.email", { name })}
           >
             <Mail size={20} />
           </a>
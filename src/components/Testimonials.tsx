@@ -1,8 +1,10 @@
 
 import React, { useEffect, useRef } from "react";
+import { useTranslation } from "react-i18next";
 import TestimonialCard from "./TestimonialCard";
 
 const Testimonials = () => {
+  const { t } = useTranslation();
   const testimonialsRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
@@ -28,22 +30,19 @@ const Testimonials = () => {
 
   const testimonials = [
     {
+      id: "sarah",
       name: "Sarah Johnson",
-      role: "Medical Student",
       image: "https://images.unsplash.com/photo-1494790108377-be9c29b29330?auto=format&fit=crop&q=80&w=256",
-      review: "Aptora transformed my study routine. The AI-generated notes helped me grasp complex medical concepts that I struggled with for months. My exam scores improved significantly!"
     },
     {
+      id: "david",
       name: "David Chen",
-      role: "Computer Science Tutor",
       image: "https://images.unsplash.com/photo-1599566150163-29194dcaad36?auto=format&fit=crop&q=80&w=256",
-      review: "As an educator, I've found Aptora's quiz generator to be a game-changer. It creates challenging questions that truly test understanding rather than just memorization."
     },
     {
+      id: "amara",
       name: "Amara Patel",
-      role: "Business Professional",
       image: "https://images.unsplash.com/photo-1580489944761-15a19d654956?auto=format&fit=crop&q=80&w=256",
-      review: "The flashcard feature helped me prepare for my certification exam in half the time. The AI seems to understand which concepts I need to review more often."
     }
   ];
 
@@ -52,10 +51,10 @@ const Testimonials = () => {
       <div className="container px-4 md:px-6">
         <div className="text-center mb-16">
           <h2 className="text-3xl md:text-4xl font-bold tracking-tight mb-4">
-            What Our Users Say
+            {t("testimonials.title")}
           </h2>
           <p className="text-xl text-muted-foreground max-w-[700px] mx-auto">
-            Real experiences from students, educators, and professionals who've transformed their learning with Aptora.
+            {t("testimonials.subtitle")}
           </p>
         </div>
 
@@ -67,9 +66,9 @@ const Testimonials = () => {
             <TestimonialCard
               key={testimonial.name}
               name={testimonial.name}
-              role={testimonial.role}
+              role={t(`testimonials.${testimonial.id}.role`)}
               image={testimonial.image}
-              review={testimonial.review}
+              review={t(`testimonials.${testimonial.id}.review`)}
               index={index}
             />
           ))}
@@ -1,11 +1,13 @@
 
 import React, { useEffect, useState } from "react";
 import { Moon, Sun } from "lucide-react";
+import { useTranslation } from "react-i18next";
 import { Toggle } from "@/components/ui/toggle";
 
 type Theme = "light" | "dark" | "system";
 
 export function ThemeToggle() {
+  const { t } = useTranslation();
   const [theme, setTheme] = useState<Theme>("light");
   
   useEffect(() => {
@@ -43,10 +45,10 @@ export function ThemeToggle() {
 
   return (
     <Toggle 
-      aria-label="Toggle theme"
+      aria-label={t("header.toggleTheme")}
       pressed={theme === "dark"}
       onPressedChange={toggleTheme}
-      className="p-2 ml-2 focus:ring-0"
+      className="p-2 ms-2 focus:ring-0"
     >
       {theme === "dark" ? (
         <Moon className="h-4 w-4" />
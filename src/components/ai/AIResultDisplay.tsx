@@ -1,55 +1,118 @@
 
 import React from "react";
-import { Copy, FileDown, Loader2 } from "lucide-react";
+import { AlertCircle, Copy, FileDown, Loader2, Pencil, RefreshCw, RotateCcw } from "lucide-react";
+import { useTranslation } from "react-i18next";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
+import { MarkdownContent } from "./MarkdownContent";
 
 interface AIResultDisplayProps {
   result: string;
   isLoading: boolean;
   onCopy: () => void;
-  onExportPDF: () => void;
+  onExport: () => void;
+  // Shows an edit button that switches to the result editor
+  onEdit?: () => void;
+  // Shows a button that generates another version for the same prompt
+  onRegenerate?: () => void;
+  // Optional interactive view rendered in place of the markdown result
+  children?: React.ReactNode;
+  // Why the last generation failed, with a button to run it again
+  error?: { title: string; description: string } | null;
+  onRetry?: () => void;
 }
 
 export function AIResultDisplay({ 
   result, 
   isLoading, 
   onCopy, 
-  onExportPDF 
+  onExport,
+  onEdit,
+  onRegenerate,
+  children,
+  error,
+  onRetry,
 }: AIResultDisplayProps) {
+  const { t } = useTranslation();
   const resultRef = React.useRef<HTMLDivElement>(null);
+  const hasCustomView = React.Children.toArray(children).length > 0;
+
+  const errorAlert = error && !isLoading && (
+    <Alert variant="destructive" className="bg-background">
+      <AlertCircle className="h-4 w-4" />
+      <AlertTitle>{error.title}</AlertTitle>
+      <AlertDescription className="space-y-3">
+        <p>{error.description}</p>
+        {onRetry && (
+          <Button variant="outline" size="sm" onClick={onRetry}>
+            <RotateCcw className="me-2 h-4 w-4" />
+            {t("common.tryAgain")}
+          </Button>
+        )}
+      </AlertDescription>
+    </Alert>
+  );
 
   return (
     <Card className="p-4 relative min-h-[200px] bg-muted/30">
       {result ? (
         <>
-          <div className="absolute right-2 top-2 flex gap-2">
+          <div className="absolute end-2 top-2 flex gap-2">
+            {onRegenerate && !isLoading && (
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={onRegenerate}
+                title={t("generator.regenerate")}
+              >
+                <RefreshCw className="h-4 w-4" />
+              </Button>
+            )}
+            {onEdit && !isLoading && (
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={onEdit}
+                title={t("generator.edit")}
+              >
+                <Pencil className="h-4 w-4" />
+              </Button>
+            )}
             <Button
               variant="ghost"
               size="icon"
               onClick={onCopy}
-              title="Copy to clipboard"
+              title={t("generator.copy")}
             >
               <Copy className="h-4 w-4" />
             </Button>
             <Button
               variant="ghost"
               size="icon"
-              onClick={onExportPDF}
-              title="Download as PDF"
+              onClick={onExport}
+              title={t("generator.export")}
             >
               <FileDown className="h-4 w-4" />
             </Button>
           </div>
-          <div className="whitespace-pre-wrap" ref={resultRef}>{result}</div>
+          {errorAlert && <div className="mt-10 mb-4">{errorAlert}</div>}
+          {hasCustomView ? children : (
+            <div ref={resultRef}>
+              <MarkdownContent content={result} className="pt-8" />
+              {isLoading && (
+                <span className="inline-block w-2 h-4 ms-0.5 align-middle bg-foreground/60 animate-pulse" />
+              )}
+            </div>
+          )}
         </>
       ) : (
         <div className="text-center text-muted-foreground h-full flex items-center justify-center">
           {isLoading ? (
             <Loader2 className="h-8 w-8 animate-spin" />
           ) : (
-            "AI-generated content will appear here"
+            errorAlert || t("generator.placeholder")
           )}
         </div>
       )}
@@ -0,0 +1,135 @@
+import React, { useState } from "react";
+import { ChevronDown, SlidersHorizontal } from "lucide-react";
+import { useTranslation } from "react-i18next";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import {
+  GenerationOptions,
+  ReadingLevel,
+  ResponseLength,
+  readingLevels,
+  responseLengths,
+} from "@/utils/generationOptions";
+
+interface AdvancedOptionsProps {
+  options: GenerationOptions;
+  onOptionsChange: (options: GenerationOptions) => void;
+  defaultOptions: GenerationOptions;
+  disabled?: boolean;
+}
+
+const creativityLevel = (creativity: number) => {
+  if (creativity < 0.34) return "focused";
+  if (creativity < 0.67) return "balanced";
+  return "creative";
+};
+
+export function AdvancedOptions({
+  options,
+  onOptionsChange,
+  defaultOptions,
+  disabled,
+}: AdvancedOptionsProps) {
+  const { t } = useTranslation();
+  const [open, setOpen] = useState(false);
+
+  const update = (changes: Partial<GenerationOptions>) => {
+    onOptionsChange({ ...options, ...changes });
+  };
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="rounded-md border">
+      <CollapsibleTrigger asChild>
+        <Button variant="ghost" className="w-full justify-between">
+          <span className="flex items-center">
+            <SlidersHorizontal className="me-2 h-4 w-4" />
+            {t("options.advanced")}
+          </span>
+          <ChevronDown className={cn("h-4 w-4 transition-transform", open && "rotate-180")} />
+        </Button>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="space-y-5 px-4 pb-4 pt-2">
+        <div className="space-y-2">
+          <Label>{t("options.length")}</Label>
+          <ToggleGroup
+            type="single"
+            variant="outline"
+            size="sm"
+            value={options.length}
+            onValueChange={(value) => value && update({ length: value as ResponseLength })}
+            className="justify-start"
+            disabled={disabled}
+          >
+            {responseLengths.map((length) => (
+              <ToggleGroupItem key={length} value={length}>
+                {t(`options.lengths.${length}`)}
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+        </div>
+
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <Label>{t("options.creativity")}</Label>
+            <span className="text-sm text-muted-foreground">
+              {t(`options.creativityLevels.${creativityLevel(options.creativity)}`)}
+            </span>
+          </div>
+          <Slider
+            value={[options.creativity * 100]}
+            onValueChange={([value]) => update({ creativity: value / 100 })}
+            max={100}
+            step={5}
+            disabled={disabled}
+            aria-label={t("options.creativity")}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label>{t("options.readingLevel")}</Label>
+          <Select
+            value={options.readingLevel}
+            onValueChange={(value) => update({ readingLevel: value as ReadingLevel })}
+            disabled={disabled}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {readingLevels.map((level) => (
+                <SelectItem key={level} value={level}>
+                  {t(`options.readingLevels.${level}`)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <Button
+          variant="link"
+          size="sm"
+          className="px-0"
+          onClick={() => onOptionsChange(defaultOptions)}
+          disabled={disabled}
+        >
+          {t("options.reset")}
+        </Button>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
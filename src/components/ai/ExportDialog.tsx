@@ -0,0 +1,196 @@
+
+import React, { useEffect, useState } from "react";
+import { AlertTriangle, Download, Loader2 } from "lucide-react";
+import { useTranslation } from "react-i18next";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { getInterfaceLanguage } from "@/lib/i18n";
+import { ExportFormat, exportFormats } from "@/utils/exportUtils";
+import { QuizPrintOptions, TEST_VERSIONS } from "@/utils/quizPdfUtils";
+import { findUnrenderableScripts } from "@/utils/pdfFonts";
+import { scriptName } from "@/utils/outputLanguage";
+
+interface ExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  formats: ExportFormat[];
+  format: ExportFormat;
+  onFormatChange: (format: ExportFormat) => void;
+  filename: string;
+  onFilenameChange: (filename: string) => void;
+  onDownload: () => void;
+  isExporting: boolean;
+  quizPrintOptions: QuizPrintOptions;
+  onQuizPrintOptionsChange: (options: QuizPrintOptions) => void;
+  // The text a PDF export would contain, checked for scripts whose fonts aren't available
+  pdfText: string;
+}
+
+export function ExportDialog({
+  open,
+  onOpenChange,
+  formats,
+  format,
+  onFormatChange,
+  filename,
+  onFilenameChange,
+  onDownload,
+  isExporting,
+  quizPrintOptions,
+  onQuizPrintOptionsChange,
+  pdfText,
+}: ExportDialogProps) {
+  const { t } = useTranslation();
+  const language = getInterfaceLanguage();
+  const { extension } = exportFormats[format];
+  const isPdf = extension === "pdf";
+  const [unrenderableScripts, setUnrenderableScripts] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (!open || !isPdf) {
+      setUnrenderableScripts([]);
+      return;
+    }
+    let cancelled = false;
+    findUnrenderableScripts(pdfText).then((scripts) => {
+      if (!cancelled) setUnrenderableScripts(scripts);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, isPdf, pdfText]);
+
+  const updatePrintOptions = (changes: Partial<QuizPrintOptions>) =>
+    onQuizPrintOptionsChange({ ...quizPrintOptions, ...changes });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{t("exportDialog.title")}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4 py-4">
+          <div className="space-y-2">
+            <span className="text-sm font-medium">{t("exportDialog.format")}</span>
+            <RadioGroup
+              value={format}
+              onValueChange={(value) => onFormatChange(value as ExportFormat)}
+              className="grid gap-2 sm:grid-cols-2"
+            >
+              {formats.map((option) => (
+                <Label
+                  key={option}
+                  htmlFor={`export-${option}`}
+                  className="flex cursor-pointer items-start gap-2 rounded-md border p-3 font-normal has-[:checked]:border-primary"
+                >
+                  <RadioGroupItem value={option} id={`export-${option}`} className="mt-0.5" />
+                  <span className="space-y-1">
+                    <span className="block font-medium">{t(`exportDialog.formats.${option}.label`)}</span>
+                    <span className="block text-xs text-muted-foreground">
+                      {t(`exportDialog.formats.${option}.description`)}
+                    </span>
+                  </span>
+                </Label>
+              ))}
+            </RadioGroup>
+          </div>
+          {format === "quiz-pdf" && (
+            <div className="space-y-3 rounded-md border p-3">
+              <div className="flex items-center justify-between gap-4">
+                <Label htmlFor="quiz-versions">{t("exportDialog.testVersions")}</Label>
+                <Select
+                  value={String(quizPrintOptions.versions)}
+                  onValueChange={(value) =>
+                    updatePrintOptions({ versions: Number(value) as QuizPrintOptions["versions"] })
+                  }
+                >
+                  <SelectTrigger id="quiz-versions" className="h-8 w-[140px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {TEST_VERSIONS.map((label, index) => (
+                      <SelectItem key={label} value={String(index + 1)}>
+                        {index === 0 ? t("exportDialog.oneVersion") : t("exportDialog.versionRange", { last: label })}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-center justify-between gap-4">
+                <Label htmlFor="shuffle-questions">{t("exportDialog.shuffleQuestions")}</Label>
+                <Switch
+                  id="shuffle-questions"
+                  checked={quizPrintOptions.shuffleQuestions}
+                  onCheckedChange={(checked) => updatePrintOptions({ shuffleQuestions: checked })}
+                />
+              </div>
+              <div className="flex items-center justify-between gap-4">
+                <Label htmlFor="shuffle-options">{t("exportDialog.shuffleOptions")}</Label>
+                <Switch
+                  id="shuffle-options"
+                  checked={quizPrintOptions.shuffleOptions}
+                  onCheckedChange={(checked) => updatePrintOptions({ shuffleOptions: checked })}
+                />
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {t("exportDialog.answerKey")}
+              </p>
+            </div>
+          )}
+          {unrenderableScripts.length > 0 && (
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>
+                {t("exportDialog.missingFonts", {
+                  scripts: unrenderableScripts.map((script) => scriptName(script, language)),
+                })}
+              </AlertDescription>
+            </Alert>
+          )}
+          <div className="space-y-2">
+            <label htmlFor="filename" className="text-sm font-medium">
+              {t("exportDialog.filename")}
+            </label>
+            <Input
+              id="filename"
+              value={filename}
+              onChange={(e) => onFilenameChange(e.target.value)}
+              placeholder={t("exportDialog.filenamePlaceholder", { extension })}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            {t("common.cancel")}
+          </Button>
+          <Button onClick={onDownload} disabled={isExporting}>
+            {isExporting ? (
+              <Loader2 className="me-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Download className="me-2 h-4 w-4" />
+            )}
+            {t("exportDialog.download", { extension })}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
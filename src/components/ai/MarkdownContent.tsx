@@ -0,0 +1,39 @@
+import React from "react";
+import ReactMarkdown from "react-markdown";
+import remarkGfm from "remark-gfm";
+import remarkMath from "remark-math";
+import rehypeSanitize from "rehype-sanitize";
+import rehypeKatex from "rehype-katex";
+import rehypeHighlight from "rehype-highlight";
+import "katex/dist/katex.min.css";
+import "highlight.js/styles/github-dark.css";
+import { cn } from "@/lib/utils";
+import { sanitizeSchema } from "@/utils/markdownUtils";
+
+interface MarkdownContentProps {
+  content: string;
+  className?: string;
+}
+
+// Render model output as sanitized markdown with tables, math and highlighted code
+export function MarkdownContent({ content, className }: MarkdownContentProps) {
+  return (
+    <div
+      className={cn(
+        "prose prose-sm dark:prose-invert max-w-none prose-pre:bg-[#0d1117] prose-pre:p-0 prose-pre:overflow-x-auto",
+        className
+      )}
+    >
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm, remarkMath]}
+        // Sanitize first; KaTeX and highlight.js output is trusted
+        rehypePlugins={[[rehypeSanitize, sanitizeSchema], rehypeKatex, [rehypeHighlight, { detect: true }]]}
+        components={{
+          a: ({ node, ...props }) => <a {...props} target="_blank" rel="noopener noreferrer" />,
+        }}
+      >
+        {content}
+      </ReactMarkdown>
+    </div>
+  );
+}
@@ -1,8 +1,15 @@
 
 import React from "react";
-import { Loader2 } from "lucide-react";
+import { Loader2, Square } from "lucide-react";
+import { useTranslation } from "react-i18next";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
+import { GenerationOptions } from "@/utils/generationOptions";
+import { SourceDocument } from "@/utils/documentUtils";
+import { PromptTemplateDefinition } from "@/utils/promptRegistry";
+import { AdvancedOptions } from "./AdvancedOptions";
+import { SourceFilesInput } from "./SourceFilesInput";
+import { TemplatePicker } from "./TemplatePicker";
 
 interface PromptInputProps {
   prompt: string;
@@ -10,6 +17,20 @@ interface PromptInputProps {
   placeholder: string;
   isLoading: boolean;
   onGenerate: () => void;
+  // When provided, a Stop button replaces the spinner while generating
+  onStop?: () => void;
+  options: GenerationOptions;
+  onOptionsChange: (options: GenerationOptions) => void;
+  defaultOptions: GenerationOptions;
+  // Uploaded documents, only for features that support source material
+  sources?: SourceDocument[];
+  onSourcesChange?: (sources: SourceDocument[]) => void;
+  // Prompt templates to choose from, only for signed-in users
+  templates?: PromptTemplateDefinition[];
+  templateId?: string;
+  onTemplateChange?: (id: string) => void;
+  templateValues?: Record<string, string>;
+  onTemplateValuesChange?: (values: Record<string, string>) => void;
 }
 
 export function PromptInput({
@@ -18,7 +39,20 @@ export function PromptInput({
   placeholder,
   isLoading,
   onGenerate,
+  onStop,
+  options,
+  onOptionsChange,
+  defaultOptions,
+  sources,
+  onSourcesChange,
+  templates,
+  templateId,
+  onTemplateChange,
+  templateValues,
+  onTemplateValuesChange,
 }: PromptInputProps) {
+  const { t } = useTranslation();
+
   return (
     <div className="space-y-4">
       <Textarea
@@ -27,20 +61,51 @@ export function PromptInput({
         value={prompt}
         onChange={(e) => onPromptChange(e.target.value)}
       />
-      <Button 
-        onClick={onGenerate} 
-        disabled={isLoading || !prompt.trim()}
-        className="w-full"
-      >
-        {isLoading ? (
-          <>
-            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-            Generating...
-          </>
-        ) : (
-          "Generate"
-        )}
-      </Button>
+      {templates?.length && onTemplateChange && onTemplateValuesChange ? (
+        <TemplatePicker
+          templates={templates}
+          templateId={templateId ?? templates[0].id}
+          onTemplateChange={onTemplateChange}
+          values={templateValues ?? {}}
+          onValuesChange={onTemplateValuesChange}
+          prompt={prompt}
+          disabled={isLoading}
+        />
+      ) : null}
+      {onSourcesChange && (
+        <SourceFilesInput
+          sources={sources ?? []}
+          onSourcesChange={onSourcesChange}
+          disabled={isLoading}
+        />
+      )}
+      <AdvancedOptions
+        options={options}
+        onOptionsChange={onOptionsChange}
+        defaultOptions={defaultOptions}
+        disabled={isLoading}
+      />
+      {isLoading && onStop ? (
+        <Button onClick={onStop} variant="outline" className="w-full">
+          <Square className="me-2 h-4 w-4" />
+          {t("generator.stop")}
+        </Button>
+      ) : (
+        <Button 
+          onClick={onGenerate} 
+          disabled={isLoading || !prompt.trim()}
+          className="w-full"
+        >
+          {isLoading ? (
+            <>
+              <Loader2 className="me-2 h-4 w-4 animate-spin" />
+              {t("generator.generating")}
+            </>
+          ) : (
+            t("generator.generate")
+          )}
+        </Button>
+      )}
     </div>
   );
 }
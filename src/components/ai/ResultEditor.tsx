@@ -0,0 +1,221 @@
+import React, { useEffect, useRef, useState } from "react";
+import {
+  Check,
+  Languages,
+  Lightbulb,
+  Loader2,
+  Maximize2,
+  Minimize2,
+  Redo2,
+  Undo2,
+} from "lucide-react";
+import { useTranslation } from "react-i18next";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Separator } from "@/components/ui/separator";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import { useLearnerProfile } from "@/hooks/use-learner-profile";
+import { RewriteAction, rewriteSelection } from "@/utils/langchainUtils";
+import { describeLLMError } from "@/utils/llmErrors";
+import { GenerationOptions } from "@/utils/generationOptions";
+import { getInterfaceLanguage } from "@/lib/i18n";
+import { getOutputLanguageCode, languageName, outputLanguages } from "@/utils/outputLanguage";
+
+interface ResultEditorProps {
+  value: string;
+  onChange: (value: string, options?: { typing?: boolean }) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  options: GenerationOptions;
+  onDone: () => void;
+}
+
+const rewriteActions: Array<{ action: Exclude<RewriteAction, "translate">; icon: React.ElementType }> = [
+  { action: "simplify", icon: Minimize2 },
+  { action: "expand", icon: Maximize2 },
+  { action: "example", icon: Lightbulb },
+];
+
+// Markdown source editor for a generated result, with AI rewrites of the selected passage
+export function ResultEditor({
+  value,
+  onChange,
+  onUndo,
+  onRedo,
+  canUndo,
+  canRedo,
+  options,
+  onDone,
+}: ResultEditorProps) {
+  const { t } = useTranslation();
+  const { currentUser } = useAuth();
+  const { profile } = useLearnerProfile(currentUser?.uid);
+  const [selection, setSelection] = useState({ start: 0, end: 0 });
+  const [pendingAction, setPendingAction] = useState<RewriteAction | null>(null);
+  // Follows the response language, including the profile once it loads, until the user picks one
+  const [pickedLanguage, setPickedLanguage] = useState<string | null>(null);
+  const language = pickedLanguage ?? getOutputLanguageCode(profile?.preferredLanguage);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // Range to select once a rewritten passage has been spliced in
+  const nextSelectionRef = useRef<{ start: number; end: number } | null>(null);
+  const { toast } = useToast();
+
+  const hasSelection = selection.end > selection.start;
+
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  useEffect(() => {
+    const next = nextSelectionRef.current;
+    if (!next || !textareaRef.current) return;
+    nextSelectionRef.current = null;
+    textareaRef.current.focus();
+    textareaRef.current.setSelectionRange(next.start, next.end);
+    setSelection(next);
+  }, [value]);
+
+  const updateSelection = () => {
+    const textarea = textareaRef.current;
+    if (textarea) setSelection({ start: textarea.selectionStart, end: textarea.selectionEnd });
+  };
+
+  const rewrite = async (action: RewriteAction) => {
+    if (!hasSelection || pendingAction) return;
+
+    const { start, end } = selection;
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    setPendingAction(action);
+
+    try {
+      const replacement = await rewriteSelection(
+        {
+          action,
+          selection: value.slice(start, end),
+          before: value.slice(0, start),
+          after: value.slice(end),
+          language: languageName(language),
+        },
+        { options, signal: abortController.signal, userId: currentUser?.uid }
+      );
+      nextSelectionRef.current = { start, end: start + replacement.length };
+      onChange(`${value.slice(0, start)}${replacement}${value.slice(end)}`);
+    } catch (error) {
+      if (abortController.signal.aborted) return;
+      console.error("Error rewriting selection:", error);
+      toast({
+        title: t("editor.rewriteError"),
+        description: describeLLMError(error).description,
+        variant: "destructive",
+      });
+    } finally {
+      abortControllerRef.current = null;
+      setPendingAction(null);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (!(e.ctrlKey || e.metaKey)) return;
+    const key = e.key.toLowerCase();
+
+    // The textarea's native undo doesn't know about AI rewrites, so use the shared history
+    if (key === "z" && !e.shiftKey) {
+      e.preventDefault();
+      onUndo();
+    } else if ((key === "z" && e.shiftKey) || key === "y") {
+      e.preventDefault();
+      onRedo();
+    }
+  };
+
+  const renderActionIcon = (action: RewriteAction, Icon: React.ElementType) =>
+    pendingAction === action ? (
+      <Loader2 className="me-1 h-4 w-4 animate-spin" />
+    ) : (
+      <Icon className="me-1 h-4 w-4" />
+    );
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-1 pe-32">
+        <Button variant="ghost" size="icon" onClick={onUndo} disabled={!canUndo || !!pendingAction} title={t("editor.undo")}>
+          <Undo2 className="h-4 w-4" />
+        </Button>
+        <Button variant="ghost" size="icon" onClick={onRedo} disabled={!canRedo || !!pendingAction} title={t("editor.redo")}>
+          <Redo2 className="h-4 w-4" />
+        </Button>
+        <Separator orientation="vertical" className="mx-1 h-6" />
+        {rewriteActions.map(({ action, icon }) => (
+          <Button
+            key={action}
+            variant="outline"
+            size="sm"
+            onClick={() => rewrite(action)}
+            disabled={!hasSelection || !!pendingAction}
+          >
+            {renderActionIcon(action, icon)}
+            {t(`editor.actions.${action}`)}
+          </Button>
+        ))}
+        <div className="flex items-center">
+          <Button
+            variant="outline"
+            size="sm"
+            className="rounded-e-none"
+            onClick={() => rewrite("translate")}
+            disabled={!hasSelection || !!pendingAction}
+          >
+            {renderActionIcon("translate", Languages)}
+            {t("editor.actions.translate")}
+          </Button>
+          <Select value={language} onValueChange={setPickedLanguage} disabled={!!pendingAction}>
+            <SelectTrigger
+              className="h-9 w-[110px] rounded-s-none border-s-0"
+              aria-label={t("editor.translationLanguage")}
+            >
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {outputLanguages.map((option) => (
+                <SelectItem key={option} value={option}>
+                  {languageName(option, getInterfaceLanguage())}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <Textarea
+        ref={textareaRef}
+        value={value}
+        onChange={(e) => onChange(e.target.value, { typing: true })}
+        onSelect={updateSelection}
+        onKeyDown={handleKeyDown}
+        readOnly={!!pendingAction}
+        className="min-h-[400px] font-mono text-sm"
+        aria-label={t("editor.label")}
+      />
+
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-sm text-muted-foreground">
+          {hasSelection ? t("editor.selected", { total: selection.end - selection.start }) : t("editor.hint")}
+        </p>
+        <Button size="sm" onClick={onDone} disabled={!!pendingAction}>
+          <Check className="me-1 h-4 w-4" />
+          {t("editor.done")}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+import React, { useRef, useState } from "react";
+import { FileText, Loader2, Paperclip, X } from "lucide-react";
+import { useTranslation } from "react-i18next";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import {
+  SUPPORTED_FILE_TYPES,
+  SourceDocument,
+  loadSourceDocument,
+} from "@/utils/documentUtils";
+
+interface SourceFilesInputProps {
+  sources: SourceDocument[];
+  onSourcesChange: (sources: SourceDocument[]) => void;
+  disabled?: boolean;
+}
+
+export function SourceFilesInput({ sources, onSourcesChange, disabled }: SourceFilesInputProps) {
+  const { t } = useTranslation();
+  const [isExtracting, setIsExtracting] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files?.length) return;
+
+    setIsExtracting(true);
+    const loaded: SourceDocument[] = [];
+
+    for (const file of Array.from(files)) {
+      try {
+        loaded.push(await loadSourceDocument(file));
+      } catch (error) {
+        console.error("Error reading document:", error);
+        toast({
+          title: t("sources.readError"),
+          description: error instanceof Error ? error.message : t("sources.fileError", { name: file.name }),
+          variant: "destructive",
+        });
+      }
+    }
+
+    onSourcesChange([...sources, ...loaded]);
+    setIsExtracting(false);
+    if (fileInputRef.current) fileInputRef.current.value = "";
+  };
+
+  const removeSource = (id: string) => {
+    onSourcesChange(sources.filter((source) => source.id !== id));
+  };
+
+  return (
+    <div className="space-y-2">
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept={SUPPORTED_FILE_TYPES}
+        multiple
+        className="hidden"
+        onChange={(e) => handleFiles(e.target.files)}
+      />
+      <Button
+        variant="outline"
+        className="w-full"
+        onClick={() => fileInputRef.current?.click()}
+        disabled={disabled || isExtracting}
+      >
+        {isExtracting ? (
+          <>
+            <Loader2 className="me-2 h-4 w-4 animate-spin" />
+            {t("sources.reading")}
+          </>
+        ) : (
+          <>
+            <Paperclip className="me-2 h-4 w-4" />
+            {t("sources.attach")}
+          </>
+        )}
+      </Button>
+
+      {sources.length > 0 && (
+        <ul className="space-y-1">
+          {sources.map((source) => (
+            <li
+              key={source.id}
+              className="flex items-center justify-between rounded-md border bg-muted/30 px-3 py-1.5 text-sm"
+            >
+              <span className="flex items-center gap-2 truncate">
+                <FileText className="h-4 w-4 shrink-0" />
+                <span className="truncate">{source.name}</span>
+                <span className="shrink-0 text-xs text-muted-foreground">
+                  {t("sources.sections", { total: source.chunks.length })}
+                </span>
+              </span>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6 shrink-0"
+                onClick={() => removeSource(source.id)}
+                disabled={disabled}
+                title={t("sources.remove", { name: source.name })}
+              >
+                <X className="h-3 w-3" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
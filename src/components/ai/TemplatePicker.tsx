@@ -0,0 +1,119 @@
+import React, { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { Eye, FileText } from "lucide-react";
+import { useTranslation } from "react-i18next";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { PromptTemplateDefinition, getCustomVariables, previewTemplate } from "@/utils/promptRegistry";
+
+interface TemplatePickerProps {
+  // The built-in template first, then the user's templates for this feature
+  templates: PromptTemplateDefinition[];
+  templateId: string;
+  onTemplateChange: (id: string) => void;
+  values: Record<string, string>;
+  onValuesChange: (values: Record<string, string>) => void;
+  prompt: string;
+  disabled?: boolean;
+}
+
+// Choose the prompt template for a generation and fill in its custom variables
+export function TemplatePicker({
+  templates,
+  templateId,
+  onTemplateChange,
+  values,
+  onValuesChange,
+  prompt,
+  disabled,
+}: TemplatePickerProps) {
+  const { t } = useTranslation();
+  const [showPreview, setShowPreview] = useState(false);
+  const [preview, setPreview] = useState("");
+  const template = templates.find((item) => item.id === templateId) ?? templates[0];
+  const variables = getCustomVariables(template.template);
+
+  useEffect(() => {
+    if (!showPreview) return;
+    previewTemplate({ template, values }, prompt)
+      .then(setPreview)
+      .catch((error) => setPreview(error instanceof Error ? error.message : String(error)));
+  }, [showPreview, template, values, prompt]);
+
+  return (
+    <div className="space-y-3 rounded-md border p-3">
+      <div className="flex items-center gap-2">
+        <FileText className="h-4 w-4 shrink-0 text-muted-foreground" />
+        <Select value={template.id} onValueChange={onTemplateChange} disabled={disabled}>
+          <SelectTrigger className="h-9" aria-label={t("templatePicker.label")}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {templates.map((item) => (
+              <SelectItem key={item.id} value={item.id}>
+                {item.builtIn
+                  ? t("templatePicker.default")
+                  : t("templatePicker.custom", { name: item.name, version: item.version })}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button variant="ghost" size="icon" onClick={() => setShowPreview(true)} title={t("templatePicker.preview")}>
+          <Eye className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {variables.length > 0 && (
+        <div className="grid gap-2 sm:grid-cols-2">
+          {variables.map((name) => (
+            <div key={name} className="space-y-1">
+              <Label htmlFor={`template-${name}`} className="text-xs">
+                {name}
+              </Label>
+              <Input
+                id={`template-${name}`}
+                value={values[name] ?? ""}
+                onChange={(e) => onValuesChange({ ...values, [name]: e.target.value })}
+                placeholder={template.variables[name] || name}
+                disabled={disabled}
+                className="h-8"
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
+      <p className="text-xs text-muted-foreground">
+        {template.builtIn ? t(`templates.builtInDescriptions.${template.feature}`) : template.description}{" "}
+        <Link to="/templates" className="underline underline-offset-2">
+          {t("templatePicker.manage")}
+        </Link>
+      </p>
+
+      <Dialog open={showPreview} onOpenChange={setShowPreview}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{t("templatePicker.previewTitle")}</DialogTitle>
+          </DialogHeader>
+          <pre className="max-h-[60vh] overflow-y-auto whitespace-pre-wrap rounded-md bg-muted p-4 text-xs">
+            {preview}
+          </pre>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
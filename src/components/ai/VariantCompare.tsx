@@ -0,0 +1,124 @@
+import React from "react";
+import { Check, GitMerge, Loader2, X } from "lucide-react";
+import { useTranslation } from "react-i18next";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { ResizableHandle, ResizablePanel, ResizablePanelGroup } from "@/components/ui/resizable";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { GenerationVariant, variantLabel } from "@/utils/historyStore";
+import { MarkdownContent } from "./MarkdownContent";
+
+interface VariantCompareProps {
+  variants: GenerationVariant[];
+  selectedVariantId: string | null;
+  comparison: [string, string];
+  onComparisonChange: (comparison: [string, string]) => void;
+  onPick: (variant: GenerationVariant) => void;
+  // Omitted when versions can't be merged, e.g. structured quizzes
+  onMerge?: () => void;
+  isMerging: boolean;
+  onClose: () => void;
+}
+
+// Two versions of a generation side by side, to pick one or merge them
+export function VariantCompare({
+  variants,
+  selectedVariantId,
+  comparison,
+  onComparisonChange,
+  onPick,
+  onMerge,
+  isMerging,
+  onClose,
+}: VariantCompareProps) {
+  const { t } = useTranslation();
+
+  const renderPanel = (side: 0 | 1) => {
+    const variant = variants.find((item) => item.id === comparison[side]);
+    if (!variant) return null;
+
+    const changeVariant = (id: string) => {
+      const next: [string, string] = [...comparison];
+      next[side] = id;
+      onComparisonChange(next);
+    };
+
+    return (
+      <div className="flex h-full flex-col">
+        <div className="flex items-center justify-between gap-2 border-b p-2">
+          <Select value={variant.id} onValueChange={changeVariant} disabled={isMerging}>
+            <SelectTrigger className="h-8 w-[180px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {variants.map((item) => (
+                <SelectItem key={item.id} value={item.id}>
+                  {variantLabel(variants, item)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            size="sm"
+            variant={variant.id === selectedVariantId ? "secondary" : "default"}
+            onClick={() => onPick(variant)}
+            disabled={isMerging}
+          >
+            <Check className="me-1 h-4 w-4" />
+            {variant.id === selectedVariantId ? t("variants.current") : t("variants.use")}
+          </Button>
+        </div>
+        <div className="flex-1 overflow-y-auto p-4">
+          <MarkdownContent content={variant.result} />
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <Card className="mt-6 p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-semibold">{t("variants.title")}</h2>
+        <Button variant="ghost" size="icon" onClick={onClose} title={t("variants.close")}>
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <ResizablePanelGroup direction="horizontal" className="h-[600px] rounded-lg border">
+        <ResizablePanel defaultSize={50} minSize={25}>
+          {renderPanel(0)}
+        </ResizablePanel>
+        <ResizableHandle withHandle />
+        <ResizablePanel defaultSize={50} minSize={25}>
+          {renderPanel(1)}
+        </ResizablePanel>
+      </ResizablePanelGroup>
+
+      {onMerge && (
+        <div className="flex items-center justify-between gap-4">
+          <p className="text-sm text-muted-foreground">
+            {t("variants.mergeHint")}
+          </p>
+          <Button
+            variant="outline"
+            onClick={onMerge}
+            disabled={isMerging || comparison[0] === comparison[1]}
+          >
+            {isMerging ? (
+              <Loader2 className="me-2 h-4 w-4 animate-spin" />
+            ) : (
+              <GitMerge className="me-2 h-4 w-4" />
+            )}
+            {t("variants.merge")}
+          </Button>
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,237 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Link } from "react-router-dom";
+import { Bot, Loader2, Send, Square, UserRound } from "lucide-react";
+import { useTranslation } from "react-i18next";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import { useChatThreads } from "@/hooks/use-chat-threads";
+import { useLibrary } from "@/hooks/use-library";
+import { cn } from "@/lib/utils";
+import { streamAssistantReply } from "@/utils/langchainUtils";
+import { describeLLMError } from "@/utils/llmErrors";
+import { ChatMessage, toMessageHistory } from "@/utils/chatUtils";
+import { LibraryPassage, LibraryRetriever, getCitations } from "@/utils/libraryStore";
+import { MarkdownContent } from "@/components/ai/MarkdownContent";
+import { ThreadList } from "./ThreadList";
+import { CitationList } from "./CitationList";
+
+interface AssistantChatProps {
+  title: string;
+  description: string;
+  placeholder: string;
+}
+
+export function AssistantChat({ title, description, placeholder }: AssistantChatProps) {
+  const { t } = useTranslation();
+  const { currentUser } = useAuth();
+  const {
+    threads,
+    activeThread,
+    setActiveThreadId,
+    startThread,
+    renameThread,
+    deleteThread,
+    appendMessages,
+  } = useChatThreads(currentUser?.uid);
+  const { documents: libraryDocuments } = useLibrary(currentUser?.uid);
+  const [searchLibrary, setSearchLibrary] = useState(true);
+  const [prompt, setPrompt] = useState("");
+  const [streamingReply, setStreamingReply] = useState<string | null>(null);
+  const [streamingThreadId, setStreamingThreadId] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const bottomRef = useRef<HTMLDivElement>(null);
+  const { toast } = useToast();
+
+  const isLoading = streamingReply !== null;
+  const messages = activeThread?.messages ?? [];
+  const showStreamingReply = isLoading && streamingThreadId === (activeThread?.id ?? null);
+  const answerFromLibrary = searchLibrary && libraryDocuments.length > 0;
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: "smooth", block: "end" });
+  }, [messages.length, streamingReply]);
+
+  const sendMessage = async () => {
+    const question = prompt.trim();
+    if (!question || isLoading) return;
+
+    const thread = activeThread ?? startThread();
+    // History is captured before the new question is added to the thread
+    const messageHistory = toMessageHistory(thread.messages);
+    const userMessage: ChatMessage = {
+      role: "user",
+      content: question,
+      createdAt: new Date().toISOString(),
+    };
+
+    appendMessages(thread.id, [userMessage]);
+    setPrompt("");
+    setStreamingReply("");
+    setStreamingThreadId(thread.id);
+
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    let reply = "";
+    let passages: LibraryPassage[] = [];
+
+    try {
+      reply = await streamAssistantReply(
+        messageHistory,
+        question,
+        (text) => {
+          reply = text;
+          setStreamingReply(text);
+        },
+        {
+          signal: abortController.signal,
+          userId: currentUser?.uid,
+          retriever:
+            answerFromLibrary && currentUser
+              ? new LibraryRetriever({ userId: currentUser.uid, signal: abortController.signal })
+              : undefined,
+          onPassages: (retrieved) => {
+            passages = retrieved;
+          },
+        }
+      );
+    } catch (error) {
+      if (!abortController.signal.aborted) {
+        console.error("Error generating reply:", error);
+        toast({
+          title: t("assistant.replyError"),
+          description: describeLLMError(error).description,
+          variant: "destructive",
+        });
+      }
+    } finally {
+      // Keep partial replies from stopped generations
+      if (reply.trim()) {
+        const citations = getCitations(reply, passages);
+        appendMessages(thread.id, [
+          {
+            role: "assistant",
+            content: reply,
+            createdAt: new Date().toISOString(),
+            ...(citations.length > 0 && { citations }),
+          },
+        ]);
+      }
+      abortControllerRef.current = null;
+      setStreamingReply(null);
+      setStreamingThreadId(null);
+    }
+  };
+
+  const stopGeneration = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === "Enter" && !e.shiftKey) {
+      e.preventDefault();
+      sendMessage();
+    }
+  };
+
+  const renderMessage = (message: Pick<ChatMessage, "role" | "content" | "citations">, key: React.Key) => (
+    <div
+      key={key}
+      className={cn("flex gap-3", message.role === "user" && "flex-row-reverse")}
+    >
+      <div className="mt-1 flex h-8 w-8 shrink-0 items-center justify-center rounded-full bg-primary text-primary-foreground">
+        {message.role === "user" ? <UserRound className="h-4 w-4" /> : <Bot className="h-4 w-4" />}
+      </div>
+      <div
+        className={cn(
+          "max-w-[80%] rounded-lg px-4 py-2",
+          message.role === "user" ? "bg-primary text-primary-foreground whitespace-pre-wrap" : "bg-background border"
+        )}
+      >
+        {!message.content ? (
+          <Loader2 className="h-4 w-4 animate-spin" />
+        ) : message.role === "assistant" ? (
+          <MarkdownContent content={message.content} />
+        ) : (
+          message.content
+        )}
+        {message.citations && <CitationList citations={message.citations} />}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <h1 className="text-3xl font-bold mb-2">{title}</h1>
+      <p className="text-muted-foreground mb-6">{description}</p>
+
+      <div className="flex items-center gap-2 mb-4 text-sm">
+        <Switch
+          id="search-library"
+          checked={answerFromLibrary}
+          onCheckedChange={setSearchLibrary}
+          disabled={!libraryDocuments.length || isLoading}
+        />
+        <Label htmlFor="search-library">{t("assistant.fromLibrary")}</Label>
+        <span className="text-muted-foreground">
+          {libraryDocuments.length
+            ? t("assistant.documents", { total: libraryDocuments.length })
+            : t("assistant.noDocuments")}{" "}
+          <Link to="/library" className="underline underline-offset-4 hover:text-foreground">
+            {t("assistant.manageLibrary")}
+          </Link>
+        </span>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-[260px_1fr] gap-6">
+        <ThreadList
+          threads={threads}
+          activeThreadId={activeThread?.id ?? null}
+          onSelect={setActiveThreadId}
+          onNew={startThread}
+          onRename={renameThread}
+          onDelete={deleteThread}
+        />
+
+        <Card className="flex flex-col h-[600px] bg-muted/30">
+          <div className="flex-1 overflow-y-auto p-4 space-y-4">
+            {messages.length === 0 && !showStreamingReply ? (
+              <div className="h-full flex items-center justify-center text-center text-muted-foreground">
+                {t("assistant.empty")}
+              </div>
+            ) : (
+              <>
+                {messages.map((message, index) => renderMessage(message, index))}
+                {showStreamingReply && renderMessage({ role: "assistant", content: streamingReply }, "streaming")}
+              </>
+            )}
+            <div ref={bottomRef} />
+          </div>
+
+          <div className="border-t p-4 flex gap-2">
+            <Textarea
+              placeholder={placeholder}
+              className="min-h-[60px] resize-none"
+              value={prompt}
+              onChange={(e) => setPrompt(e.target.value)}
+              onKeyDown={handleKeyDown}
+            />
+            {isLoading ? (
+              <Button onClick={stopGeneration} variant="outline" size="icon" className="shrink-0" title={t("assistant.stop")}>
+                <Square className="h-4 w-4" />
+              </Button>
+            ) : (
+              <Button onClick={sendMessage} disabled={!prompt.trim()} size="icon" className="shrink-0" title={t("assistant.send")}>
+                <Send className="h-4 w-4 rtl:-scale-x-100" />
+              </Button>
+            )}
+          </div>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+import React from "react";
+import { BookOpen } from "lucide-react";
+import { useTranslation } from "react-i18next";
+import { HoverCard, HoverCardContent, HoverCardTrigger } from "@/components/ui/hover-card";
+import type { LibraryCitation } from "@/utils/libraryStore";
+
+interface CitationListProps {
+  citations: LibraryCitation[];
+}
+
+// Sources cited by an assistant reply, with the passage shown on hover
+export function CitationList({ citations }: CitationListProps) {
+  const { t } = useTranslation();
+  return (
+    <div className="mt-3 border-t pt-2 space-y-1">
+      <p className="text-xs font-medium text-muted-foreground">{t("assistant.sources")}</p>
+      <ul className="space-y-1">
+        {citations.map((citation) => (
+          <li key={citation.number}>
+            <HoverCard openDelay={200}>
+              <HoverCardTrigger asChild>
+                <button className="flex items-center gap-2 text-start text-xs text-muted-foreground hover:text-foreground">
+                  <BookOpen className="h-3 w-3 shrink-0" />
+                  <span>[{citation.number}]</span>
+                  <span className="truncate">{citation.documentName}</span>
+                </button>
+              </HoverCardTrigger>
+              <HoverCardContent align="start" className="w-80 text-xs whitespace-pre-wrap">
+                {citation.excerpt}
+              </HoverCardContent>
+            </HoverCard>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
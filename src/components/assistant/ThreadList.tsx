@@ -0,0 +1,146 @@
+import React, { useState } from "react";
+import { MessageSquare, MoreHorizontal, Pencil, Plus, Trash2 } from "lucide-react";
+import { useTranslation } from "react-i18next";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { cn } from "@/lib/utils";
+import { ChatThread, isDefaultThreadTitle } from "@/utils/chatUtils";
+
+interface ThreadListProps {
+  threads: ChatThread[];
+  activeThreadId: string | null;
+  onSelect: (threadId: string) => void;
+  onNew: () => void;
+  onRename: (threadId: string, title: string) => void;
+  onDelete: (threadId: string) => void;
+}
+
+export function ThreadList({
+  threads,
+  activeThreadId,
+  onSelect,
+  onNew,
+  onRename,
+  onDelete,
+}: ThreadListProps) {
+  const { t } = useTranslation();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingTitle, setEditingTitle] = useState("");
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  // Untitled threads keep the English default title, which the hook replaces with the first prompt
+  const threadTitle = (thread: ChatThread) =>
+    isDefaultThreadTitle(thread.title) ? t("assistant.newConversation") : thread.title;
+
+  const startRename = (thread: ChatThread) => {
+    setEditingId(thread.id);
+    setEditingTitle(threadTitle(thread));
+  };
+
+  const finishRename = () => {
+    if (editingId) onRename(editingId, editingTitle);
+    setEditingId(null);
+  };
+
+  return (
+    <div className="space-y-2">
+      <Button onClick={onNew} variant="outline" className="w-full justify-start">
+        <Plus className="me-2 h-4 w-4" />
+        {t("assistant.newConversation")}
+      </Button>
+
+      <ul className="space-y-1">
+        {threads.map((thread) => (
+          <li key={thread.id}>
+            {editingId === thread.id ? (
+              <Input
+                autoFocus
+                value={editingTitle}
+                onChange={(e) => setEditingTitle(e.target.value)}
+                onBlur={finishRename}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") finishRename();
+                  if (e.key === "Escape") setEditingId(null);
+                }}
+                aria-label={t("assistant.conversationTitle")}
+              />
+            ) : (
+              <div
+                className={cn(
+                  "group flex items-center rounded-md text-sm hover:bg-accent/50",
+                  thread.id === activeThreadId && "bg-accent"
+                )}
+              >
+                <button
+                  onClick={() => onSelect(thread.id)}
+                  className="flex flex-1 items-center gap-2 truncate px-3 py-2 text-start"
+                >
+                  <MessageSquare className="h-4 w-4 shrink-0" />
+                  <span className="truncate">{threadTitle(thread)}</span>
+                </button>
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="ghost" size="icon" className="h-8 w-8 shrink-0" aria-label={t("assistant.conversationOptions")}>
+                      <MoreHorizontal className="h-4 w-4" />
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuItem onClick={() => startRename(thread)} className="cursor-pointer">
+                      <Pencil className="me-2 h-4 w-4" />
+                      {t("common.rename")}
+                    </DropdownMenuItem>
+                    <DropdownMenuItem
+                      onClick={() => setDeletingId(thread.id)}
+                      className="cursor-pointer text-destructive"
+                    >
+                      <Trash2 className="me-2 h-4 w-4" />
+                      {t("common.delete")}
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      <AlertDialog open={deletingId !== null} onOpenChange={(open) => !open && setDeletingId(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t("assistant.deleteTitle")}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {t("assistant.deleteDescription")}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{t("common.cancel")}</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (deletingId) onDelete(deletingId);
+                setDeletingId(null);
+              }}
+            >
+              {t("common.delete")}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -6,6 +6,8 @@ import { Label } from "@/components/ui/label";
 import { DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, Dialog } from "@/components/ui/dialog";
 import { useAuth } from "@/contexts/AuthContext";
 import { z } from "zod";
+import type { TFunction } from "i18next";
+import { useTranslation } from "react-i18next";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
@@ -13,13 +15,14 @@ import { AlertCircle, Loader2 } from "lucide-react";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { ResetPasswordModal } from "@/components/auth/ResetPasswordModal";
 
-// Define the form schema with validation
-const formSchema = z.object({
-  email: z.string().email({ message: "Please enter a valid email address" }),
-  password: z.string().min(6, { message: "Password must be at least 6 characters" }),
-});
+// Define the form schema with validation, with messages in the interface language
+const createFormSchema = (t: TFunction) =>
+  z.object({
+    email: z.string().email({ message: t("auth.invalidEmail") }),
+    password: z.string().min(6, { message: t("auth.passwordTooShort") }),
+  });
 
-type FormValues = z.infer<typeof formSchema>;
+type FormValues = z.infer<ReturnType<typeof createFormSchema>>;
 
 interface LoginModalProps {
   isOpen: boolean;
@@ -28,13 +31,14 @@ interface LoginModalProps {
 }
 
 export function LoginModal({ isOpen, onClose, onSignupClick }: LoginModalProps) {
+  const { t } = useTranslation();
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const { login, redirectAfterLogin } = useAuth();
   const [showResetPasswordModal, setShowResetPasswordModal] = useState(false);
 
   const form = useForm<FormValues>({
-    resolver: zodResolver(formSchema),
+    resolver: zodResolver(createFormSchema(t)),
     defaultValues: {
       email: "",
       password: "",
@@ -53,7 +57,7 @@ export function LoginModal({ isOpen, onClose, onSignupClick }: LoginModalProps)
       redirectAfterLogin();
     } catch (err) {
       // Error is already handled in the login function via toast
-      setError("Failed to login. Please check your credentials.");
+      setError(t("auth.login.failed"));
     } finally {
       setIsSubmitting(false);
     }
@@ -76,10 +80,8 @@ export function LoginModal({ isOpen, onClose, onSignupClick }: LoginModalProps)
       <Dialog open={isOpen && !showResetPasswordModal} onOpenChange={onClose}>
         <DialogContent className="sm:max-w-[425px]">
           <DialogHeader>
-            <DialogTitle>Login to your account</DialogTitle>
-            <DialogDescription>
-              Enter your email and password to login.
-            </DialogDescription>
+            <DialogTitle>{t("auth.login.title")}</DialogTitle>
+            <DialogDescription>{t("auth.login.description")}</DialogDescription>
           </DialogHeader>
           
           <Form {...form}>
@@ -96,10 +98,10 @@ export function LoginModal({ isOpen, onClose, onSignupClick }: LoginModalProps)
                 name="email"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Email</FormLabel>
+                    <FormLabel>{t("auth.email")}</FormLabel>
                     <FormControl>
                       <Input 
-                        placeholder="youremail@example.com" 
+                        placeholder={t("auth.emailPlaceholder")} 
                         {...field} 
                         type="email" 
                         autoComplete="email"
@@ -116,13 +118,13 @@ export function LoginModal({ isOpen, onClose, onSignupClick }: LoginModalProps)
                 render={({ field }) => (
                   <FormItem>
                     <div className="flex justify-between items-center">
-                      <FormLabel>Password</FormLabel>
+                      <FormLabel>{t("auth.password")}</FormLabel>
                       <button
                         type="button"
                         onClick={handleForgotPassword}
                         className="text-xs text-primary hover:underline focus:outline-none"
                       >
-                        Forgot Password?
+                        {t("auth.login.forgotPassword")}
                       </button>
                     </div>
                     <FormControl>
@@ -146,11 +148,11 @@ export function LoginModal({ isOpen, onClose, onSignupClick }: LoginModalProps)
                 >
                   {isSubmitting ? (
                     <>
-                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                      Logging in...
+                      <Loader2 className="me-2 h-4 w-4 animate-spin" />
+                      {t("auth.login.submitting")}
                     </>
                   ) : (
-                    "Login"
+                    t("auth.login.submit")
                   )}
                 </Button>
               </DialogFooter>
@@ -159,13 +161,13 @@ export function LoginModal({ isOpen, onClose, onSignupClick }: LoginModalProps)
           
           <div className="text-center mt-2">
             <p className="text-sm text-muted-foreground">
-              Don't have an account?{" "}
+              {t("auth.login.noAccount")}{" "}
               <button
                 type="button"
                 className="text-primary hover:underline focus:outline-none"
                 onClick={onSignupClick}
               >
-                Sign up
+                {t("auth.login.signUp")}
               </button>
             </p>
           </div>
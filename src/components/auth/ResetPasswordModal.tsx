@@ -5,6 +5,8 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, Dialog } from "@/components/ui/dialog";
 import { z } from "zod";
+import type { TFunction } from "i18next";
+import { useTranslation } from "react-i18next";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
@@ -13,12 +15,13 @@ import { Alert, AlertDescription } from "@/components/ui/alert";
 import { getAuth, sendPasswordResetEmail } from "firebase/auth";
 import { toast } from "sonner";
 
-// Define the form schema with validation
-const formSchema = z.object({
-  email: z.string().email({ message: "Please enter a valid email address" }),
-});
+// Define the form schema with validation, with messages in the interface language
+const createFormSchema = (t: TFunction) =>
+  z.object({
+    email: z.string().email({ message: t("auth.invalidEmail") }),
+  });
 
-type FormValues = z.infer<typeof formSchema>;
+type FormValues = z.infer<ReturnType<typeof createFormSchema>>;
 
 interface ResetPasswordModalProps {
   isOpen: boolean;
@@ -27,13 +30,14 @@ interface ResetPasswordModalProps {
 }
 
 export function ResetPasswordModal({ isOpen, onClose, onLoginClick }: ResetPasswordModalProps) {
+  const { t } = useTranslation();
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isSuccess, setIsSuccess] = useState(false);
   const auth = getAuth();
 
   const form = useForm<FormValues>({
-    resolver: zodResolver(formSchema),
+    resolver: zodResolver(createFormSchema(t)),
     defaultValues: {
       email: "",
     },
@@ -47,16 +51,16 @@ export function ResetPasswordModal({ isOpen, onClose, onLoginClick }: ResetPassw
     try {
       await sendPasswordResetEmail(auth, data.email);
       setIsSuccess(true);
-      toast.success("Password reset link sent! Please check your inbox.");
+      toast.success(t("auth.reset.sent"));
       form.reset();
     } catch (err: any) {
-      let errorMessage = "Failed to send password reset email.";
+      let errorMessage = t("auth.reset.failed");
       if (err?.code === "auth/user-not-found") {
-        errorMessage = "No account found with this email address.";
+        errorMessage = t("auth.messages.userNotFound");
       } else if (err?.code === "auth/too-many-requests") {
-        errorMessage = "Too many attempts. Please try again later.";
+        errorMessage = t("auth.messages.tooManyAttempts");
       } else if (err?.code === "auth/invalid-email") {
-        errorMessage = "Please enter a valid email address.";
+        errorMessage = t("auth.invalidEmail");
       }
       setError(errorMessage);
       toast.error(errorMessage);
@@ -69,10 +73,8 @@ export function ResetPasswordModal({ isOpen, onClose, onLoginClick }: ResetPassw
     <Dialog open={isOpen} onOpenChange={onClose}>
       <DialogContent className="sm:max-w-[425px]">
         <DialogHeader>
-          <DialogTitle>Reset Your Password</DialogTitle>
-          <DialogDescription>
-            Enter your email address and we'll send you a link to reset your password.
-          </DialogDescription>
+          <DialogTitle>{t("auth.reset.title")}</DialogTitle>
+          <DialogDescription>{t("auth.reset.description")}</DialogDescription>
         </DialogHeader>
         
         <Form {...form}>
@@ -87,9 +89,7 @@ export function ResetPasswordModal({ isOpen, onClose, onLoginClick }: ResetPassw
             {isSuccess && (
               <Alert className="bg-green-50 text-green-800 border-green-200">
                 <CheckCircle className="h-4 w-4 text-green-600" />
-                <AlertDescription>
-                  Password reset link sent! Please check your inbox.
-                </AlertDescription>
+                <AlertDescription>{t("auth.reset.sent")}</AlertDescription>
               </Alert>
             )}
             
@@ -98,10 +98,10 @@ export function ResetPasswordModal({ isOpen, onClose, onLoginClick }: ResetPassw
               name="email"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Email</FormLabel>
+                  <FormLabel>{t("auth.email")}</FormLabel>
                   <FormControl>
                     <Input 
-                      placeholder="youremail@example.com" 
+                      placeholder={t("auth.emailPlaceholder")} 
                       {...field} 
                       type="email" 
                       autoComplete="email"
@@ -120,11 +120,11 @@ export function ResetPasswordModal({ isOpen, onClose, onLoginClick }: ResetPassw
               >
                 {isSubmitting ? (
                   <>
-                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                    Sending...
+                    <Loader2 className="me-2 h-4 w-4 animate-spin" />
+                    {t("auth.reset.submitting")}
                   </>
                 ) : (
-                  "Send Reset Link"
+                  t("auth.reset.submit")
                 )}
               </Button>
             </DialogFooter>
@@ -133,13 +133,13 @@ export function ResetPasswordModal({ isOpen, onClose, onLoginClick }: ResetPassw
         
         <div className="text-center mt-2">
           <p className="text-sm text-muted-foreground">
-            Remember your password?{" "}
+            {t("auth.reset.rememberPassword")}{" "}
             <button
               type="button"
               className="text-primary hover:underline focus:outline-none"
               onClick={onLoginClick}
             >
-              Back to login
+              {t("auth.reset.backToLogin")}
             </button>
           </p>
         </div>
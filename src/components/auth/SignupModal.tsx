@@ -13,6 +13,7 @@ import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
 import { Mail, Lock, Eye, EyeOff } from "lucide-react";
+import { useTranslation } from "react-i18next";
 
 interface SignupModalProps {
   isOpen: boolean;
@@ -22,6 +23,7 @@ interface SignupModalProps {
 }
 
 export function SignupModal({ isOpen, onClose, onSuccess, onLoginClick }: SignupModalProps) {
+  const { t } = useTranslation();
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   const [confirmPassword, setConfirmPassword] = useState("");
@@ -38,13 +40,13 @@ export function SignupModal({ isOpen, onClose, onSuccess, onLoginClick }: Signup
     
     // Validate passwords match
     if (password !== confirmPassword) {
-      setError("Passwords do not match");
+      setError(t("auth.signup.passwordsDontMatch"));
       return;
     }
     
     // Validate password length
     if (password.length < 6) {
-      setError("Password should be at least 6 characters");
+      setError(t("auth.passwordTooShort"));
       return;
     }
 
@@ -72,22 +74,20 @@ export function SignupModal({ isOpen, onClose, onSuccess, onLoginClick }: Signup
     <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
       <DialogContent className="sm:max-w-[425px]">
         <DialogHeader>
-          <DialogTitle className="text-2xl font-bold">Sign Up</DialogTitle>
-          <DialogDescription>
-            Create an account to access all features
-          </DialogDescription>
+          <DialogTitle className="text-2xl font-bold">{t("auth.signup.title")}</DialogTitle>
+          <DialogDescription>{t("auth.signup.description")}</DialogDescription>
         </DialogHeader>
         
         <form onSubmit={handleSubmit} className="space-y-4 py-4">
           <div className="space-y-2">
-            <Label htmlFor="email">Email</Label>
+            <Label htmlFor="email">{t("auth.email")}</Label>
             <div className="relative">
-              <Mail className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+              <Mail className="absolute start-3 top-3 h-4 w-4 text-muted-foreground" />
               <Input
                 id="email"
                 type="email"
-                placeholder="you@example.com"
-                className="pl-10"
+                placeholder={t("auth.emailPlaceholder")}
+                className="ps-10"
                 value={email}
                 onChange={(e) => setEmail(e.target.value)}
                 required
@@ -96,14 +96,14 @@ export function SignupModal({ isOpen, onClose, onSuccess, onLoginClick }: Signup
           </div>
           
           <div className="space-y-2">
-            <Label htmlFor="password">Password</Label>
+            <Label htmlFor="password">{t("auth.password")}</Label>
             <div className="relative">
-              <Lock className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+              <Lock className="absolute start-3 top-3 h-4 w-4 text-muted-foreground" />
               <Input
                 id="password"
                 type={showPassword ? "text" : "password"}
                 placeholder="••••••••"
-                className="pl-10"
+                className="ps-10"
                 value={password}
                 onChange={(e) => setPassword(e.target.value)}
                 required
@@ -111,8 +111,8 @@ export function SignupModal({ isOpen, onClose, onSuccess, onLoginClick }: Signup
               <button
                 type="button"
                 onClick={togglePasswordVisibility}
-                className="absolute right-3 top-3"
-                aria-label={showPassword ? "Hide password" : "Show password"}
+                className="absolute end-3 top-3"
+                aria-label={showPassword ? t("auth.signup.hidePassword") : t("auth.signup.showPassword")}
               >
                 {showPassword ? (
                   <EyeOff className="h-4 w-4 text-muted-foreground" />
@@ -124,14 +124,14 @@ export function SignupModal({ isOpen, onClose, onSuccess, onLoginClick }: Signup
           </div>
           
           <div className="space-y-2">
-            <Label htmlFor="confirmPassword">Confirm Password</Label>
+            <Label htmlFor="confirmPassword">{t("auth.signup.confirmPassword")}</Label>
             <div className="relative">
-              <Lock className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+              <Lock className="absolute start-3 top-3 h-4 w-4 text-muted-foreground" />
               <Input
                 id="confirmPassword"
                 type={showPassword ? "text" : "password"}
                 placeholder="••••••••"
-                className="pl-10"
+                className="ps-10"
                 value={confirmPassword}
                 onChange={(e) => setConfirmPassword(e.target.value)}
                 required
@@ -145,7 +145,7 @@ export function SignupModal({ isOpen, onClose, onSuccess, onLoginClick }: Signup
           
           {/* Login link */}
           <div className="text-center text-sm">
-            Already have an account?{" "}
+            {t("auth.signup.haveAccount")}{" "}
             <button
               type="button"
               onClick={(e) => {
@@ -154,7 +154,7 @@ export function SignupModal({ isOpen, onClose, onSuccess, onLoginClick }: Signup
               }}
               className="text-primary hover:underline font-medium"
             >
-              Log in
+              {t("auth.signup.logIn")}
             </button>
           </div>
           
@@ -165,10 +165,10 @@ export function SignupModal({ isOpen, onClose, onSuccess, onLoginClick }: Signup
               onClick={onClose}
               disabled={loading}
             >
-              Cancel
+              {t("common.cancel")}
             </Button>
             <Button type="submit" disabled={loading}>
-              {loading ? "Creating account..." : "Create account"}
+              {loading ? t("auth.signup.submitting") : t("auth.signup.submit")}
             </Button>
           </DialogFooter>
         </form>
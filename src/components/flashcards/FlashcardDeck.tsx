@@ -0,0 +1,172 @@
+import React, { useEffect, useState } from "react";
+import { ChevronLeft, ChevronRight, RotateCw } from "lucide-react";
+import { useTranslation } from "react-i18next";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { cn } from "@/lib/utils";
+import { useAuth } from "@/contexts/AuthContext";
+import { useFlashcardReviews } from "@/hooks/use-flashcard-reviews";
+import { MarkdownContent } from "@/components/ai/MarkdownContent";
+import { Flashcard, ReviewGrade, isCardDue } from "@/utils/flashcardUtils";
+
+interface FlashcardDeckProps {
+  cards: Flashcard[];
+}
+
+const gradeButtons: Array<{ grade: ReviewGrade; shortcut: string }> = [
+  { grade: "again", shortcut: "1" },
+  { grade: "hard", shortcut: "2" },
+  { grade: "good", shortcut: "3" },
+  { grade: "easy", shortcut: "4" },
+];
+
+export function FlashcardDeck({ cards }: FlashcardDeckProps) {
+  const { t, i18n } = useTranslation();
+  const { currentUser } = useAuth();
+  const { reviews, reviewCard } = useFlashcardReviews(currentUser?.uid);
+  const [mode, setMode] = useState<"all" | "due">("all");
+  const [index, setIndex] = useState(0);
+  const [flipped, setFlipped] = useState(false);
+
+  const dueCards = cards.filter((card) => isCardDue(reviews[card.id]));
+  const deck = mode === "due" ? dueCards : cards;
+  const current = deck[Math.min(index, deck.length - 1)];
+
+  // Keep the position valid when the due list shrinks after a review
+  useEffect(() => {
+    if (index > 0 && index >= deck.length) {
+      setIndex(Math.max(deck.length - 1, 0));
+    }
+  }, [deck.length, index]);
+
+  const goTo = (nextIndex: number) => {
+    if (!deck.length) return;
+    setIndex((nextIndex + deck.length) % deck.length);
+    setFlipped(false);
+  };
+
+  const rate = (grade: ReviewGrade) => {
+    if (!current) return;
+    reviewCard(current.id, grade);
+    setFlipped(false);
+    // In due mode the reviewed card drops out, so the same index shows the next card
+    if (mode === "all") {
+      setIndex((prev) => (prev + 1) % deck.length);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    // The mode toggle uses arrow keys for its own focus handling
+    if ((e.target as HTMLElement).closest('[role="group"]')) return;
+
+    // The next card is on the left in right-to-left languages
+    const forward = i18n.dir() === "rtl" ? -1 : 1;
+    if (e.key === "ArrowRight") {
+      goTo(index + forward);
+    } else if (e.key === "ArrowLeft") {
+      goTo(index - forward);
+    } else if (e.key === " " || e.key === "Enter") {
+      // Let focused buttons handle their own activation
+      if ((e.target as HTMLElement).closest("button")) return;
+      setFlipped((prev) => !prev);
+    } else if (flipped) {
+      const button = gradeButtons.find((b) => b.shortcut === e.key);
+      if (button) rate(button.grade);
+      else return;
+    } else {
+      return;
+    }
+    e.preventDefault();
+  };
+
+  return (
+    <div
+      className="space-y-4 outline-none"
+      tabIndex={0}
+      onKeyDown={handleKeyDown}
+      aria-label={t("flashcards.studyMode")}
+    >
+      <div className="flex items-center justify-between gap-2 pe-20">
+        <ToggleGroup
+          type="single"
+          size="sm"
+          value={mode}
+          onValueChange={(value) => {
+            if (!value) return;
+            setMode(value as "all" | "due");
+            setIndex(0);
+            setFlipped(false);
+          }}
+        >
+          <ToggleGroupItem value="all">{t("flashcards.all")}</ToggleGroupItem>
+          <ToggleGroupItem value="due">{t("flashcards.due")}</ToggleGroupItem>
+        </ToggleGroup>
+        <Badge variant="secondary">{t("flashcards.dueCount", { total: dueCards.length })}</Badge>
+      </div>
+
+      {current ? (
+        <>
+          <button
+            type="button"
+            onClick={() => setFlipped((prev) => !prev)}
+            className="block w-full h-64 [perspective:1000px] focus:outline-none"
+            aria-label={flipped ? t("flashcards.showQuestion") : t("flashcards.showAnswer")}
+          >
+            <div
+              className={cn(
+                "relative h-full w-full transition-transform duration-500 [transform-style:preserve-3d]",
+                flipped && "[transform:rotateY(180deg)]"
+              )}
+            >
+              <div className="absolute inset-0 flex flex-col items-center justify-center rounded-lg border bg-background p-6 text-center [backface-visibility:hidden]">
+                <span className="text-xs uppercase tracking-wide text-muted-foreground mb-2">{t("flashcards.question")}</span>
+                <MarkdownContent content={current.question} className="prose-lg font-medium" />
+              </div>
+              <div className="absolute inset-0 flex flex-col items-center justify-center rounded-lg border bg-primary/5 p-6 text-center [backface-visibility:hidden] [transform:rotateY(180deg)]">
+                <span className="text-xs uppercase tracking-wide text-muted-foreground mb-2">{t("flashcards.answer")}</span>
+                <MarkdownContent content={current.answer} className="prose-lg" />
+              </div>
+            </div>
+          </button>
+
+          <div className="flex items-center justify-between">
+            <Button variant="ghost" size="icon" onClick={() => goTo(index - 1)} title={t("flashcards.previous")}>
+              <ChevronLeft className="h-4 w-4 rtl:rotate-180" />
+            </Button>
+            <span className="text-sm text-muted-foreground">
+              {t("flashcards.position", { number: Math.min(index, deck.length - 1) + 1, total: deck.length })}
+            </span>
+            <Button variant="ghost" size="icon" onClick={() => goTo(index + 1)} title={t("flashcards.next")}>
+              <ChevronRight className="h-4 w-4 rtl:rotate-180" />
+            </Button>
+          </div>
+
+          {flipped ? (
+            <div className="grid grid-cols-4 gap-2">
+              {gradeButtons.map(({ grade, shortcut }) => (
+                <Button key={grade} variant="outline" size="sm" onClick={() => rate(grade)}>
+                  {t(`flashcards.grades.${grade}`)}
+                  <span className="ms-1 text-xs text-muted-foreground">({shortcut})</span>
+                </Button>
+              ))}
+            </div>
+          ) : (
+            <Button variant="secondary" className="w-full" onClick={() => setFlipped(true)}>
+              <RotateCw className="me-2 h-4 w-4" />
+              {t("flashcards.showAnswer")}
+            </Button>
+          )}
+
+          <p className="text-xs text-center text-muted-foreground">
+            {t("flashcards.shortcuts")}
+          </p>
+        </>
+      ) : (
+        <div className="text-center text-muted-foreground py-16">
+          {t("flashcards.caughtUp")}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 
 import React from "react";
 import { Mail, Phone } from "lucide-react";
+import { useTranslation } from "react-i18next";
 import {
   Popover,
   PopoverContent,
@@ -8,17 +9,19 @@ import {
 } from "@/components/ui/popover";
 
 export const ContactPopover: React.FC = () => {
+  const { t } = useTranslation();
+
   return (
     <Popover>
       <PopoverTrigger className="nav-link font-medium text-sm text-foreground/80 hover:text-foreground">
-        Contact
+        {t("header.contact")}
       </PopoverTrigger>
       <PopoverContent 
         className="w-64 p-4 bg-white dark:bg-gray-900 rounded-md shadow-md"
         sideOffset={5}
       >
         <div className="space-y-3">
-          <h3 className="text-sm font-medium mb-2">Contact Information</h3>
+          <h3 className="text-sm font-medium mb-2">{t("header.contactInformation")}</h3>
           <div className="flex items-center gap-2 text-sm">
             <Mail className="h-4 w-4 text-primary" />
             <a href="mailto:aaronsonnie@gmail.com" className="text-foreground/80 hover:text-foreground">
@@ -2,11 +2,13 @@
 import React from "react";
 import { Link } from "react-router-dom";
 import { LogIn } from "lucide-react";
+import { useTranslation } from "react-i18next";
 import { Button } from "@/components/ui/button";
 import { ThemeToggle } from "@/components/ThemeToggle";
 import { FeaturesMenu } from "./FeaturesMenu";
 import { ContactPopover } from "./ContactPopover";
 import { UserMenu } from "./UserMenu";
+import { LanguageSwitcher } from "./LanguageSwitcher";
 import { useAuth } from "@/contexts/AuthContext";
 
 interface DesktopNavigationProps {
@@ -21,14 +23,15 @@ export const DesktopNavigation: React.FC<DesktopNavigationProps> = ({
   onSignupClick,
 }) => {
   const { currentUser } = useAuth();
+  const { t } = useTranslation();
 
   return (
-    <nav className="hidden md:flex items-center space-x-6">
+    <nav className="hidden md:flex items-center gap-6">
       <Link 
         to="/" 
         className="nav-link font-medium text-sm text-foreground/80 hover:text-foreground"
       >
-        Home
+        {t("header.home")}
       </Link>
       
       <FeaturesMenu />
@@ -70,11 +73,14 @@ export const DesktopNavigation: React.FC<DesktopNavigationProps> = ({
           size="sm"
           className="nav-link font-medium text-sm text-primary hover:text-primary/90 hover:bg-transparent"
         >
-          Sign up
+          {t("header.signUp")}
         </Button>
       )}
       
-      <ThemeToggle />
+      <div className="flex items-center">
+        <LanguageSwitcher />
+        <ThemeToggle />
+      </div>
     </nav>
   );
 };
@@ -1,6 +1,7 @@
 
 import React, { useState } from "react";
 import { useNavigate } from "react-router-dom";
+import { useTranslation } from "react-i18next";
 import { Check, ChevronDown, FileText, FlaskConical, Layers, Lightbulb, MessagesSquare, ScrollText, MenuIcon } from "lucide-react";
 import {
   DropdownMenu,
@@ -22,44 +23,45 @@ interface FeaturesMenuProps {
 export const FeaturesMenu: React.FC<FeaturesMenuProps> = ({ isMobile = false }) => {
   const navigate = useNavigate();
   const { currentUser, setRedirectPath } = useAuth();
+  const { t } = useTranslation();
   const [showSignupModal, setShowSignupModal] = useState(false);
   const [showLoginModal, setShowLoginModal] = useState(false);
 
   const features = [
     {
-      name: "Content Generator",
-      description: "Create educational content",
-      icon: <FileText className="h-4 w-4 mr-2" />,
+      name: t("features.content.name"),
+      description: t("features.content.summary"),
+      icon: <FileText className="h-4 w-4 me-2" />,
       path: "/content-generator",
     },
     {
-      name: "Quiz Generator",
-      description: "Craft personalized quizzes",
-      icon: <FlaskConical className="h-4 w-4 mr-2" />,
+      name: t("features.quiz.name"),
+      description: t("features.quiz.summary"),
+      icon: <FlaskConical className="h-4 w-4 me-2" />,
       path: "/quiz-generator",
     },
     {
-      name: "E-learning Materials",
-      description: "Access study resources",
-      icon: <Layers className="h-4 w-4 mr-2" />,
+      name: t("features.materials.name"),
+      description: t("features.materials.summary"),
+      icon: <Layers className="h-4 w-4 me-2" />,
       path: "/learning-materials",
     },
     {
-      name: "AI Notes Generator",
-      description: "Summarize and organize notes",
-      icon: <ScrollText className="h-4 w-4 mr-2" />,
+      name: t("features.notes.name"),
+      description: t("features.notes.summary"),
+      icon: <ScrollText className="h-4 w-4 me-2" />,
       path: "/notes-generator",
     },
     {
-      name: "Flashcard Generator",
-      description: "Create study flashcards",
-      icon: <Lightbulb className="h-4 w-4 mr-2" />,
+      name: t("features.flashcards.name"),
+      description: t("features.flashcards.summary"),
+      icon: <Lightbulb className="h-4 w-4 me-2" />,
       path: "/flashcard-generator",
     },
     {
-      name: "AI Learning Assistant",
-      description: "Get personalized help",
-      icon: <MessagesSquare className="h-4 w-4 mr-2" />,
+      name: t("features.assistant.name"),
+      description: t("features.assistant.summary"),
+      icon: <MessagesSquare className="h-4 w-4 me-2" />,
       path: "/learning-assistant",
     },
   ];
@@ -97,13 +99,13 @@ export const FeaturesMenu: React.FC<FeaturesMenuProps> = ({ isMobile = false })
     return (
       <>
         <div className="py-2">
-          <div className="mb-2 px-3 text-lg font-medium">Features</div>
+          <div className="mb-2 px-3 text-lg font-medium">{t("header.features")}</div>
           <ul className="space-y-1">
             {features.map((feature) => (
               <li key={feature.name}>
                 <button
                   onClick={() => handleFeatureClick(feature.path)}
-                  className="w-full text-left px-3 py-2 text-foreground/80 hover:text-foreground hover:bg-accent/50 rounded-md flex items-center"
+                  className="w-full text-start px-3 py-2 text-foreground/80 hover:text-foreground hover:bg-accent/50 rounded-md flex items-center"
                 >
                   {feature.icon}
                   {feature.name}
@@ -141,7 +143,7 @@ export const FeaturesMenu: React.FC<FeaturesMenuProps> = ({ isMobile = false })
               isMobile && "justify-start w-full"
             )}
           >
-            Features
+            {t("header.features")}
             <ChevronDown size={16} />
           </Button>
         </DropdownMenuTrigger>
@@ -153,7 +155,7 @@ export const FeaturesMenu: React.FC<FeaturesMenuProps> = ({ isMobile = false })
                 className="flex items-start py-2 px-3 cursor-pointer"
               >
                 <div className="flex items-center">
-                  <div className="mr-2">{feature.icon}</div>
+                  <div className="me-2">{feature.icon}</div>
                   <div>
                     <p className="font-medium">{feature.name}</p>
                     <p className="text-xs text-muted-foreground">
@@ -0,0 +1,79 @@
+import React, { useState } from "react";
+import { Languages } from "lucide-react";
+import { useTranslation } from "react-i18next";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Button } from "@/components/ui/button";
+import {
+  InterfaceLanguage,
+  getInterfaceLanguage,
+  interfaceLanguages,
+  setInterfaceLanguage,
+} from "@/lib/i18n";
+import {
+  getOutputLanguageSetting,
+  languageName,
+  outputLanguages,
+  setOutputLanguageSetting,
+} from "@/utils/outputLanguage";
+
+// Radio value for following the learner profile or interface language, which is stored as no setting
+const AUTOMATIC = "automatic";
+
+// Picks the interface language and, separately, the language AI responses are written in
+export function LanguageSwitcher() {
+  const { t } = useTranslation();
+  const [outputLanguage, setOutputLanguage] = useState(getOutputLanguageSetting);
+  const language = getInterfaceLanguage();
+
+  const changeOutputLanguage = (value: string) => {
+    const setting = value === AUTOMATIC ? "" : value;
+    setOutputLanguageSetting(setting);
+    setOutputLanguage(setting);
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="sm" className="p-2" aria-label={t("language.label")} title={t("language.label")}>
+          <Languages className="h-4 w-4" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-56 max-h-[80vh] overflow-y-auto">
+        <DropdownMenuLabel>{t("language.interface")}</DropdownMenuLabel>
+        <DropdownMenuRadioGroup
+          value={language}
+          onValueChange={(value) => setInterfaceLanguage(value as InterfaceLanguage)}
+        >
+          {Object.entries(interfaceLanguages).map(([code, { name }]) => (
+            <DropdownMenuRadioItem key={code} value={code} lang={code} className="cursor-pointer">
+              {name}
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+        <DropdownMenuSeparator />
+        <DropdownMenuLabel>{t("language.output")}</DropdownMenuLabel>
+        <DropdownMenuRadioGroup value={outputLanguage || AUTOMATIC} onValueChange={changeOutputLanguage}>
+          <DropdownMenuRadioItem value={AUTOMATIC} className="cursor-pointer">
+            <div>
+              <div>{t("language.automatic")}</div>
+              <div className="text-xs text-muted-foreground">{t("language.automaticHint")}</div>
+            </div>
+          </DropdownMenuRadioItem>
+          {outputLanguages.map((code) => (
+            <DropdownMenuRadioItem key={code} value={code} className="cursor-pointer">
+              {languageName(code, language)}
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
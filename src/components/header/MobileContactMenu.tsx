@@ -1,6 +1,7 @@
 
 import React from "react";
 import { ChevronDown, Mail, Phone } from "lucide-react";
+import { useTranslation } from "react-i18next";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -8,10 +9,12 @@ import {
 } from "@/components/ui/dropdown-menu";
 
 export const MobileContactMenu: React.FC = () => {
+  const { t } = useTranslation();
+
   return (
     <DropdownMenu>
-      <DropdownMenuTrigger className="flex items-center justify-between py-2 text-foreground/80 hover:text-foreground bg-transparent border-none w-full text-left">
-        Contact <ChevronDown className="h-4 w-4 ml-1" />
+      <DropdownMenuTrigger className="flex items-center justify-between py-2 text-foreground/80 hover:text-foreground bg-transparent border-none w-full text-start">
+        {t("header.contact")} <ChevronDown className="h-4 w-4 ms-1" />
       </DropdownMenuTrigger>
       <DropdownMenuContent className="bg-white dark:bg-gray-900 w-full p-3 min-w-[200px] z-50">
         <div className="space-y-3 py-1">
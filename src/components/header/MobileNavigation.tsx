@@ -1,6 +1,7 @@
 
 import React from "react";
 import { Link } from "react-router-dom";
+import { useTranslation } from "react-i18next";
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
 import { FeaturesMenu } from "./FeaturesMenu";
@@ -21,6 +22,7 @@ export const MobileNavigation: React.FC<MobileNavigationProps> = ({
   onSignupClick,
 }) => {
   const { currentUser } = useAuth();
+  const { t } = useTranslation();
 
   return (
     <div
@@ -34,7 +36,7 @@ export const MobileNavigation: React.FC<MobileNavigationProps> = ({
           to="/"
           className="py-2 text-foreground/80 hover:text-foreground"
         >
-          Home
+          {t("header.home")}
         </Link>
         
         <FeaturesMenu isMobile={true} />
@@ -73,7 +75,7 @@ export const MobileNavigation: React.FC<MobileNavigationProps> = ({
             className="justify-start font-medium text-primary hover:text-primary/90 hover:bg-transparent"
             variant="ghost"
           >
-            Sign up
+            {t("header.signUp")}
           </Button>
         )}
       </div>
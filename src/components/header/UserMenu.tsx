@@ -1,15 +1,19 @@
 
-import React from "react";
-import { UserRound } from "lucide-react";
+import React, { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { BarChart3, FileText, GraduationCap, History, Library, Settings, UserRound } from "lucide-react";
+import { useTranslation } from "react-i18next";
 import { useAuth } from "@/contexts/AuthContext";
 import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { LearnerProfileDialog } from "@/components/profile/LearnerProfileDialog";
 
 interface UserMenuProps {
   size?: "default" | "sm";
@@ -17,6 +21,9 @@ interface UserMenuProps {
 
 export const UserMenu: React.FC<UserMenuProps> = ({ size = "default" }) => {
   const { currentUser, signOut } = useAuth();
+  const navigate = useNavigate();
+  const { t } = useTranslation();
+  const [profileOpen, setProfileOpen] = useState(false);
 
   const getUserInitials = () => {
     if (!currentUser || !currentUser.email) return "U";
@@ -32,31 +39,60 @@ export const UserMenu: React.FC<UserMenuProps> = ({ size = "default" }) => {
   };
 
   return (
-    <DropdownMenu>
-      <DropdownMenuTrigger asChild>
-        <Button 
-          variant="ghost" 
-          className={size === "sm" ? "p-1" : "p-2"} 
-          aria-label="User menu"
-        >
-          <Avatar className={size === "sm" ? "h-7 w-7" : "h-8 w-8"}>
-            <AvatarFallback 
-              className="bg-primary text-primary-foreground"
-              style={{ fontSize: size === "sm" ? "0.75rem" : "0.875rem" }}
-            >
-              {getUserInitials()}
-            </AvatarFallback>
-          </Avatar>
-        </Button>
-      </DropdownMenuTrigger>
-      <DropdownMenuContent align="end" className="w-56">
-        <div className="px-3 py-2 text-sm font-medium text-foreground/80">
-          {currentUser?.email}
-        </div>
-        <DropdownMenuItem onClick={handleSignOut} className="cursor-pointer">
-          Sign out
-        </DropdownMenuItem>
-      </DropdownMenuContent>
-    </DropdownMenu>
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button 
+            variant="ghost" 
+            className={size === "sm" ? "p-1" : "p-2"} 
+            aria-label={t("header.userMenu")}
+          >
+            <Avatar className={size === "sm" ? "h-7 w-7" : "h-8 w-8"}>
+              <AvatarFallback 
+                className="bg-primary text-primary-foreground"
+                style={{ fontSize: size === "sm" ? "0.75rem" : "0.875rem" }}
+              >
+                {getUserInitials()}
+              </AvatarFallback>
+            </Avatar>
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-56">
+          <div className="px-3 py-2 text-sm font-medium text-foreground/80">
+            {currentUser?.email}
+          </div>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={() => setProfileOpen(true)} className="cursor-pointer">
+            <GraduationCap className="me-2 h-4 w-4" />
+            {t("userMenu.learnerProfile")}
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => navigate("/history")} className="cursor-pointer">
+            <History className="me-2 h-4 w-4" />
+            {t("userMenu.history")}
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => navigate("/library")} className="cursor-pointer">
+            <Library className="me-2 h-4 w-4" />
+            {t("userMenu.library")}
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => navigate("/templates")} className="cursor-pointer">
+            <FileText className="me-2 h-4 w-4" />
+            {t("userMenu.templates")}
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => navigate("/usage")} className="cursor-pointer">
+            <BarChart3 className="me-2 h-4 w-4" />
+            {t("userMenu.usage")}
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => navigate("/settings")} className="cursor-pointer">
+            <Settings className="me-2 h-4 w-4" />
+            {t("userMenu.settings")}
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={handleSignOut} className="cursor-pointer">
+            {t("userMenu.signOut")}
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <LearnerProfileDialog open={profileOpen} onOpenChange={setProfileOpen} />
+    </>
   );
 };
@@ -0,0 +1,236 @@
+import React, { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { useTranslation } from "react-i18next";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useAuth } from "@/contexts/AuthContext";
+import { useLearnerProfile } from "@/hooks/use-learner-profile";
+import { useToast } from "@/hooks/use-toast";
+import { getInterfaceLanguage } from "@/lib/i18n";
+import {
+  AccessibilityNeed,
+  LearnerProfileInput,
+  LearningStyle,
+  accessibilityNeeds,
+  emptyLearnerProfile,
+  gradeLevels,
+  learningStyles,
+  profileLanguages,
+} from "@/utils/learnerProfileStore";
+import { languageCode, languageName } from "@/utils/outputLanguage";
+
+interface LearnerProfileDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Select items can't have an empty value, so "not set" gets its own
+const NOT_SET = "not-set";
+
+// Translation keys for the grade levels that aren't numbered grades
+const gradeLevelKeys: Record<string, string> = {
+  Undergraduate: "undergraduate",
+  Graduate: "graduate",
+  "Adult learner": "adultLearner",
+};
+
+export function LearnerProfileDialog({ open, onOpenChange }: LearnerProfileDialogProps) {
+  const { t } = useTranslation();
+  const { currentUser } = useAuth();
+  const { profile, isLoading, saveProfile, isSaving } = useLearnerProfile(currentUser?.uid);
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<LearnerProfileInput>(emptyLearnerProfile);
+  const [subjectsText, setSubjectsText] = useState("");
+
+  // Start from the saved profile each time the dialog opens
+  useEffect(() => {
+    if (!open || isLoading) return;
+    const { gradeLevel, subjects, preferredLanguage, learningStyle, accessibilityNeeds, notes } =
+      profile ?? emptyLearnerProfile;
+    setDraft({ gradeLevel, subjects, preferredLanguage, learningStyle, accessibilityNeeds, notes });
+    setSubjectsText(subjects.join(", "));
+  }, [open, isLoading, profile]);
+
+  // Grade levels and languages are stored in English, as the prompts use them
+  const gradeLevelName = (level: string) => {
+    const grade = level.match(/^Grade (\d+)$/);
+    return grade ? t("profile.grade", { number: Number(grade[1]) }) : t(`profile.gradeLevels.${gradeLevelKeys[level]}`);
+  };
+
+  const profileLanguageName = (name: string) => {
+    const code = languageCode(name);
+    return code ? languageName(code, getInterfaceLanguage()) : name;
+  };
+
+  const update = (changes: Partial<LearnerProfileInput>) => setDraft((current) => ({ ...current, ...changes }));
+
+  const toggleNeed = (need: AccessibilityNeed, checked: boolean) =>
+    update({
+      accessibilityNeeds: checked
+        ? [...draft.accessibilityNeeds, need]
+        : draft.accessibilityNeeds.filter((item) => item !== need),
+    });
+
+  const handleSave = async () => {
+    try {
+      await saveProfile({ ...draft, subjects: subjectsText.split(",") });
+      toast({
+        title: t("profile.saved.title"),
+        description: t("profile.saved.description"),
+      });
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Error saving learner profile:", error);
+      toast({
+        title: t("profile.saveError.title"),
+        description: error instanceof Error ? error.message : t("profile.saveError.description"),
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{t("profile.title")}</DialogTitle>
+          <DialogDescription>{t("profile.description")}</DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : (
+          <div className="space-y-4 py-2">
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="profile-grade">{t("profile.gradeLevel")}</Label>
+                <Select
+                  value={draft.gradeLevel || NOT_SET}
+                  onValueChange={(value) => update({ gradeLevel: value === NOT_SET ? "" : value })}
+                >
+                  <SelectTrigger id="profile-grade">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NOT_SET}>{t("common.notSet")}</SelectItem>
+                    {gradeLevels.map((level) => (
+                      <SelectItem key={level} value={level}>
+                        {gradeLevelName(level)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="profile-language">{t("profile.preferredLanguage")}</Label>
+                <Select
+                  value={draft.preferredLanguage || NOT_SET}
+                  onValueChange={(value) => update({ preferredLanguage: value === NOT_SET ? "" : value })}
+                >
+                  <SelectTrigger id="profile-language">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NOT_SET}>{t("common.notSet")}</SelectItem>
+                    {profileLanguages.map((language) => (
+                      <SelectItem key={language} value={language}>
+                        {profileLanguageName(language)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="profile-subjects">{t("profile.subjects")}</Label>
+              <Input
+                id="profile-subjects"
+                value={subjectsText}
+                onChange={(event) => setSubjectsText(event.target.value)}
+                placeholder={t("profile.subjectsPlaceholder")}
+              />
+              <p className="text-xs text-muted-foreground">{t("profile.subjectsHint")}</p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="profile-style">{t("profile.learningStyle")}</Label>
+              <Select
+                value={draft.learningStyle}
+                onValueChange={(value) => update({ learningStyle: value as LearningStyle })}
+              >
+                <SelectTrigger id="profile-style">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {learningStyles.map((style) => (
+                    <SelectItem key={style} value={style}>
+                      {t(`profile.learningStyles.${style}`)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-3 rounded-md border p-3">
+              <span className="text-sm font-medium">{t("profile.accessibility")}</span>
+              {accessibilityNeeds.map((need) => (
+                <div key={need} className="flex items-center justify-between gap-4">
+                  <Label htmlFor={`profile-need-${need}`} className="font-normal">
+                    {t(`profile.accessibilityNeeds.${need}`)}
+                  </Label>
+                  <Switch
+                    id={`profile-need-${need}`}
+                    checked={draft.accessibilityNeeds.includes(need)}
+                    onCheckedChange={(checked) => toggleNeed(need, checked)}
+                  />
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="profile-notes">{t("profile.notes")}</Label>
+              <Textarea
+                id="profile-notes"
+                value={draft.notes}
+                onChange={(event) => update({ notes: event.target.value })}
+                placeholder={t("profile.notesPlaceholder")}
+                rows={3}
+              />
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            {t("common.cancel")}
+          </Button>
+          <Button onClick={handleSave} disabled={isLoading || isSaving}>
+            {isSaving && <Loader2 className="me-2 h-4 w-4 animate-spin" />}
+            {t("profile.save")}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,271 @@
+import React, { useEffect, useRef, useState } from "react";
+import { CheckCircle2, Loader2, RotateCcw, XCircle } from "lucide-react";
+import { useTranslation } from "react-i18next";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { cn } from "@/lib/utils";
+import { useAuth } from "@/contexts/AuthContext";
+import { MarkdownContent } from "@/components/ai/MarkdownContent";
+import { ShortAnswerFeedback } from "@/components/quiz/ShortAnswerFeedback";
+import { gradeShortAnswer } from "@/utils/langchainUtils";
+import { describeLLMError } from "@/utils/llmErrors";
+import { GradedAnswer, MAX_SCORE, finalScore, isPassingGrade } from "@/utils/gradingUtils";
+import { QuizSubmission } from "@/utils/masteryStore";
+import { Quiz, QuizQuestion, getQuestionOptions, isAnswerCorrect } from "@/utils/quizUtils";
+
+interface QuizPlayerProps {
+  quiz: Quiz;
+  // Called once a submission is graded, and again with the new results when a grade is overridden
+  onSubmit?: (submission: QuizSubmission) => void;
+}
+
+type GradeState =
+  | { status: "grading" }
+  | { status: "graded"; grade: GradedAnswer }
+  | { status: "failed"; message: string };
+
+// Short answers that don't match the reference answer exactly are graded by the model
+const needsGrading = (question: QuizQuestion, answer: string | undefined) =>
+  getQuestionOptions(question).length === 0 && !!answer?.trim() && !isAnswerCorrect(question, answer);
+
+const gradeFrom = (state: GradeState | undefined) => (state?.status === "graded" ? state.grade : undefined);
+
+// Graded short answers pass on their score, everything else on an exact match
+const isAccepted = (question: QuizQuestion, answer: string | undefined, grade: GradedAnswer | undefined) =>
+  grade ? isPassingGrade(grade) : isAnswerCorrect(question, answer);
+
+const formatScore = (score: number) => (Number.isInteger(score) ? String(score) : score.toFixed(1));
+
+export function QuizPlayer({ quiz, onSubmit }: QuizPlayerProps) {
+  const { t } = useTranslation();
+  const { currentUser } = useAuth();
+  const [answers, setAnswers] = useState<Record<number, string>>({});
+  // Answers are recorded under the submission's id, so reporting it again replaces them
+  const [submission, setSubmission] = useState<Omit<QuizSubmission, "results"> | null>(null);
+  const [grades, setGrades] = useState<Record<number, GradeState>>({});
+  const submitted = !!submission;
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  const gradeOf = (index: number) => gradeFrom(grades[index]);
+
+  // Credit from 0 to 1: exact matches score in full, graded short answers by their score
+  const creditFor = (question: QuizQuestion, index: number) => {
+    const grade = gradeOf(index);
+    if (grade) return finalScore(grade) / MAX_SCORE;
+    return isAnswerCorrect(question, answers[index]) ? 1 : 0;
+  };
+
+  const isCorrect = (question: QuizQuestion, index: number) => isAccepted(question, answers[index], gradeOf(index));
+
+  const score = quiz.questions.reduce((total, question, index) => total + creditFor(question, index), 0);
+  const answeredCount = Object.values(answers).filter((answer) => answer.trim()).length;
+  const isGrading = Object.values(grades).some((state) => state.status === "grading");
+
+  // Report the submission once every short answer has a grade, or failed to get one,
+  // and again whenever a grade changes after that, such as a teacher's override
+  useEffect(() => {
+    if (!submission || isGrading || !onSubmit) return;
+    onSubmit({
+      ...submission,
+      results: Object.fromEntries(
+        quiz.questions.flatMap((question, index) =>
+          answers[index]?.trim()
+            ? [[index, { answer: answers[index], correct: isAccepted(question, answers[index], gradeFrom(grades[index])) }]]
+            : []
+        )
+      ),
+    });
+  }, [submission, isGrading, quiz, answers, grades, onSubmit]);
+
+  const setAnswer = (index: number, answer: string) => {
+    setAnswers((prev) => ({ ...prev, [index]: answer }));
+  };
+
+  const gradeAnswer = async (index: number, signal: AbortSignal) => {
+    const question = quiz.questions[index];
+    setGrades((prev) => ({ ...prev, [index]: { status: "grading" } }));
+    try {
+      const grade = await gradeShortAnswer(
+        {
+          question: question.question,
+          referenceAnswer: question.correctAnswer,
+          explanation: question.explanation,
+          studentAnswer: answers[index],
+        },
+        { signal, userId: currentUser?.uid }
+      );
+      setGrades((prev) => ({ ...prev, [index]: { status: "graded", grade } }));
+    } catch (error) {
+      if (signal.aborted) return;
+      setGrades((prev) => ({ ...prev, [index]: { status: "failed", message: describeLLMError(error).description } }));
+    }
+  };
+
+  const submitQuiz = () => {
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
+    const toGrade = quiz.questions.flatMap((question, index) => (needsGrading(question, answers[index]) ? [index] : []));
+    setGrades(Object.fromEntries(toGrade.map((index) => [index, { status: "grading" }])));
+    setSubmission({ id: crypto.randomUUID(), submittedAt: new Date().toISOString() });
+    toGrade.forEach((index) => gradeAnswer(index, abortController.signal));
+  };
+
+  const retryGrading = (index: number) => {
+    if (abortControllerRef.current) gradeAnswer(index, abortControllerRef.current.signal);
+  };
+
+  const overrideGrade = (index: number, override: GradedAnswer["override"]) => {
+    setGrades((prev) => {
+      const state = prev[index];
+      return state?.status === "graded" ? { ...prev, [index]: { status: "graded", grade: { ...state.grade, override } } } : prev;
+    });
+  };
+
+  const resetQuiz = () => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+    setAnswers({});
+    setGrades({});
+    setSubmission(null);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="pe-20">
+        <h2 className="text-xl font-semibold">{quiz.title}</h2>
+        <p className="text-sm text-muted-foreground flex items-center gap-1">
+          {submitted ? (
+            isGrading ? (
+              <>
+                <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                {t("quiz.gradingAll")}
+              </>
+            ) : (
+              t("quiz.score", { score: formatScore(score), total: quiz.questions.length })
+            )
+          ) : (
+            t("quiz.answered", { answered: answeredCount, total: quiz.questions.length })
+          )}
+        </p>
+      </div>
+
+      <ol className="space-y-6">
+        {quiz.questions.map((question, index) => {
+          const options = getQuestionOptions(question);
+          const correct = isCorrect(question, index);
+          const gradeState = grades[index];
+
+          return (
+            <li
+              key={index}
+              className={cn(
+                "rounded-md border p-4 space-y-3 bg-background",
+                submitted && gradeState?.status !== "grading" && (correct ? "border-green-500" : "border-destructive")
+              )}
+            >
+              <div className="flex items-start justify-between gap-2">
+                <div className="flex gap-1 font-medium">
+                  <span>{index + 1}.</span>
+                  <MarkdownContent content={question.question} className="prose-p:my-0 font-medium" />
+                </div>
+                <Badge variant="secondary" className="shrink-0">
+                  {t(`quiz.types.${question.type}`)}
+                </Badge>
+              </div>
+
+              {options.length > 0 ? (
+                <RadioGroup
+                  value={answers[index] ?? ""}
+                  onValueChange={(value) => setAnswer(index, value)}
+                  disabled={submitted}
+                >
+                  {options.map((option, optionIndex) => (
+                    <div key={optionIndex} className="flex items-center gap-2">
+                      <RadioGroupItem value={option} id={`q${index}-o${optionIndex}`} />
+                      <Label htmlFor={`q${index}-o${optionIndex}`} className="font-normal">
+                        {option}
+                      </Label>
+                    </div>
+                  ))}
+                </RadioGroup>
+              ) : (
+                <Textarea
+                  value={answers[index] ?? ""}
+                  onChange={(e) => setAnswer(index, e.target.value)}
+                  placeholder={t("quiz.answerPlaceholder")}
+                  rows={2}
+                  disabled={submitted}
+                />
+              )}
+
+              {submitted && (
+                <div className="text-sm space-y-2">
+                  {gradeState?.status === "grading" ? (
+                    <p className="flex items-center gap-1 text-muted-foreground">
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                      {t("quiz.grading")}
+                    </p>
+                  ) : gradeState?.status === "graded" ? (
+                    <ShortAnswerFeedback
+                      grade={gradeState.grade}
+                      onOverride={(override) => overrideGrade(index, override)}
+                    />
+                  ) : (
+                    <p className={cn("flex items-center gap-1 font-medium", correct ? "text-green-600" : "text-destructive")}>
+                      {correct ? (
+                        <CheckCircle2 className="h-4 w-4" />
+                      ) : (
+                        <XCircle className="h-4 w-4" />
+                      )}
+                      {correct ? t("quiz.correct") : t("quiz.correctAnswer", { answer: question.correctAnswer })}
+                    </p>
+                  )}
+                  {gradeState?.status === "failed" && (
+                    <p className="flex flex-wrap items-center gap-2 text-muted-foreground">
+                      {t("quiz.gradingFailed", { message: gradeState.message })}
+                      <Button variant="link" size="sm" className="h-auto p-0" onClick={() => retryGrading(index)}>
+                        {t("common.tryAgain")}
+                      </Button>
+                    </p>
+                  )}
+                  <MarkdownContent content={question.explanation} className="text-muted-foreground prose-p:my-0" />
+                  {(question.concepts?.length || question.difficulty) && (
+                    <div className="flex flex-wrap gap-1 pt-1">
+                      {question.concepts?.map((concept) => (
+                        <Badge key={concept} variant="outline" className="font-normal">
+                          {concept}
+                        </Badge>
+                      ))}
+                      {question.difficulty && (
+                        <Badge variant="outline" className="font-normal text-muted-foreground">
+                          {t(`quiz.difficulties.${question.difficulty}`)}
+                        </Badge>
+                      )}
+                    </div>
+                  )}
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+
+      {submitted ? (
+        <Button variant="outline" onClick={resetQuiz} className="w-full">
+          <RotateCcw className="me-2 h-4 w-4" />
+          {t("quiz.retake")}
+        </Button>
+      ) : (
+        <Button onClick={submitQuiz} disabled={answeredCount === 0} className="w-full">
+          {t("quiz.submit")}
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,157 @@
+import React, { useId, useState } from "react";
+import { Check, PencilLine, X } from "lucide-react";
+import { useTranslation } from "react-i18next";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import { MarkdownContent } from "@/components/ai/MarkdownContent";
+import { GradedAnswer, MAX_SCORE, finalScore, gradeVerdict, isPassingGrade } from "@/utils/gradingUtils";
+
+interface ShortAnswerFeedbackProps {
+  grade: GradedAnswer;
+  // Set or, with undefined, remove the teacher's score
+  onOverride: (override: GradedAnswer["override"]) => void;
+}
+
+const scores = Array.from({ length: MAX_SCORE + 1 }, (_, score) => score);
+
+// The AI grade for a short answer: score, rubric, feedback and model answer, with a teacher override
+export function ShortAnswerFeedback({ grade, onOverride }: ShortAnswerFeedbackProps) {
+  const { t } = useTranslation();
+  const [isOverriding, setIsOverriding] = useState(false);
+  const [score, setScore] = useState(finalScore(grade));
+  const [note, setNote] = useState(grade.override?.note ?? "");
+  const current = finalScore(grade);
+  // A quiz shows one of these per graded answer, so the field ids must be unique
+  const fieldId = useId();
+
+  const startOverride = () => {
+    setScore(current);
+    setNote(grade.override?.note ?? "");
+    setIsOverriding(true);
+  };
+
+  const saveOverride = () => {
+    onOverride({ score, note: note.trim() });
+    setIsOverriding(false);
+  };
+
+  return (
+    <div className="space-y-3 rounded-md bg-muted/50 p-3 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <Badge variant={isPassingGrade(grade) ? "default" : "destructive"}>
+          {current}/{MAX_SCORE} · {gradeVerdict(current)}
+        </Badge>
+        {grade.override && (
+          <>
+            <Badge variant="outline">{t("grading.teacherOverride")}</Badge>
+            <span className="text-xs text-muted-foreground line-through">
+              {t("grading.aiScore", { score: Math.round(grade.score), max: MAX_SCORE })}
+            </span>
+          </>
+        )}
+        {!isOverriding && (
+          <Button variant="ghost" size="sm" className="ms-auto h-7" onClick={startOverride}>
+            <PencilLine className="me-1 h-3.5 w-3.5" />
+            {t("grading.override")}
+          </Button>
+        )}
+      </div>
+
+      {isOverriding && (
+        <div className="space-y-2 rounded-md border bg-background p-3">
+          <div className="flex flex-wrap items-end gap-2">
+            <div className="space-y-1">
+              <Label htmlFor={`${fieldId}-score`} className="text-xs">
+                {t("grading.score")}
+              </Label>
+              <Select value={String(score)} onValueChange={(value) => setScore(Number(value))}>
+                <SelectTrigger id={`${fieldId}-score`} className="h-8 w-[90px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {scores.map((value) => (
+                    <SelectItem key={value} value={String(value)}>
+                      {value}/{MAX_SCORE}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="min-w-[160px] flex-1 space-y-1">
+              <Label htmlFor={`${fieldId}-note`} className="text-xs">
+                {t("grading.note")}
+              </Label>
+              <Input
+                id={`${fieldId}-note`}
+                value={note}
+                onChange={(event) => setNote(event.target.value)}
+                placeholder={t("grading.optional")}
+                className="h-8"
+              />
+            </div>
+          </div>
+          <div className="flex justify-end gap-2">
+            {grade.override && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => {
+                  onOverride(undefined);
+                  setIsOverriding(false);
+                }}
+              >
+                {t("grading.useAiScore")}
+              </Button>
+            )}
+            <Button variant="outline" size="sm" onClick={() => setIsOverriding(false)}>
+              {t("common.cancel")}
+            </Button>
+            <Button size="sm" onClick={saveOverride}>
+              {t("common.save")}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {grade.override?.note && (
+        <p>
+          <span className="font-medium">{t("grading.teacher")} </span>
+          {grade.override.note}
+        </p>
+      )}
+
+      <MarkdownContent content={grade.feedback} className="prose-p:my-0" />
+
+      <ul className="space-y-1">
+        {grade.rubric.map((item, index) => (
+          <li key={index} className="flex gap-2">
+            {item.met ? (
+              <Check className="mt-0.5 h-4 w-4 shrink-0 text-green-600" />
+            ) : (
+              <X className="mt-0.5 h-4 w-4 shrink-0 text-destructive" />
+            )}
+            <span>
+              <span className={cn("font-medium", !item.met && "text-muted-foreground")}>{item.criterion}</span>
+              {item.comment && <span className="text-muted-foreground"> — {item.comment}</span>}
+            </span>
+          </li>
+        ))}
+      </ul>
+
+      <div>
+        <span className="font-medium">{t("grading.modelAnswer")}</span>
+        <MarkdownContent content={grade.modelAnswer} className="text-muted-foreground prose-p:my-0" />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+import React from "react";
+import { Loader2, Target } from "lucide-react";
+import { useTranslation } from "react-i18next";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { ConceptMastery, PracticePlan, WEAK_MASTERY } from "@/utils/masteryStore";
+
+interface WeakSpotsPanelProps {
+  mastery: ConceptMastery[];
+  practicePlan: PracticePlan | null;
+  isLoading: boolean;
+  onPractice: (plan: PracticePlan) => void;
+  disabled: boolean;
+}
+
+// Concepts shown in the panel
+const SHOWN_CONCEPTS = 5;
+
+// Concept mastery from answered quizzes, and a button to practice the weakest concepts
+export function WeakSpotsPanel({ mastery, practicePlan, isLoading, onPractice, disabled }: WeakSpotsPanelProps) {
+  const { t } = useTranslation();
+  const weakCount = mastery.filter((concept) => concept.mastery < WEAK_MASTERY).length;
+  const percent = Math.round(WEAK_MASTERY * 100);
+
+  return (
+    <Card className="p-4 space-y-4">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h2 className="font-semibold flex items-center gap-2">
+            <Target className="h-4 w-4" />
+            {t("weakSpots.title")}
+          </h2>
+          <p className="text-sm text-muted-foreground">
+            {mastery.length === 0
+              ? t("weakSpots.empty")
+              : weakCount > 0
+                ? t("weakSpots.weak", { weak: weakCount, total: mastery.length, percent })
+                : t("weakSpots.strong", { total: mastery.length, percent })}
+          </p>
+        </div>
+        {practicePlan && (
+          <Badge variant="secondary" className="shrink-0" title={t("weakSpots.basedOnAnswers")}>
+            {t(`quiz.difficulties.${practicePlan.difficulty}`)}
+          </Badge>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="h-5 w-5 animate-spin" />
+        </div>
+      ) : (
+        mastery.length > 0 && (
+          <ul className="space-y-3">
+            {mastery.slice(0, SHOWN_CONCEPTS).map((concept) => (
+              <li key={concept.concept} className="space-y-1">
+                <div className="flex items-baseline justify-between gap-2 text-sm">
+                  <span className="truncate">{concept.concept}</span>
+                  <span className="shrink-0 text-muted-foreground">
+                    {t("weakSpots.conceptStats", {
+                      percent: Math.round(concept.mastery * 100),
+                      correct: concept.correct,
+                      attempts: concept.attempts,
+                    })}
+                  </span>
+                </div>
+                <Progress value={concept.mastery * 100} className="h-2" />
+              </li>
+            ))}
+          </ul>
+        )
+      )}
+
+      <Button
+        variant="outline"
+        className="w-full"
+        onClick={() => practicePlan && onPractice(practicePlan)}
+        disabled={!practicePlan || disabled}
+      >
+        <Target className="me-2 h-4 w-4" />
+        {t("weakSpots.practice")}
+      </Button>
+    </Card>
+  );
+}
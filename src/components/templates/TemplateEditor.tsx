@@ -0,0 +1,229 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { Loader2, Save } from "lucide-react";
+import { useTranslation } from "react-i18next";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { getInterfaceLanguage } from "@/lib/i18n";
+import {
+  AIFeatureType,
+  PromptTemplateDefinition,
+  builtInTemplates,
+  getCustomVariables,
+  previewTemplate,
+  reservedVariables,
+  templateFeatures,
+  validateTemplate,
+} from "@/utils/promptRegistry";
+import { PromptTemplateInput } from "@/utils/templateStore";
+
+interface TemplateEditorProps {
+  initial: PromptTemplateInput;
+  // The saved template being edited, for its version history
+  saved?: PromptTemplateDefinition;
+  onSave: (input: PromptTemplateInput) => void;
+  onCancel: () => void;
+  isSaving: boolean;
+}
+
+const CURRENT_VERSION = "current";
+
+export function TemplateEditor({ initial, saved, onSave, onCancel, isSaving }: TemplateEditorProps) {
+  const { t } = useTranslation();
+  const [draft, setDraft] = useState<PromptTemplateInput>(initial);
+  const [loadedVersion, setLoadedVersion] = useState(CURRENT_VERSION);
+  const [samplePrompt, setSamplePrompt] = useState(() => t("templates.editor.samplePrompt"));
+  const [preview, setPreview] = useState("");
+
+  const error = validateTemplate(draft.feature, draft.template);
+  const variables = useMemo(() => {
+    try {
+      return getCustomVariables(draft.template);
+    } catch {
+      return [];
+    }
+  }, [draft.template]);
+
+  useEffect(() => {
+    if (error) {
+      setPreview("");
+      return;
+    }
+    previewTemplate({ template: { ...builtInTemplates[draft.feature], ...draft }, values: {} }, samplePrompt)
+      .then(setPreview)
+      .catch((previewError) => setPreview(previewError instanceof Error ? previewError.message : String(previewError)));
+  }, [draft, samplePrompt, error]);
+
+  const update = (changes: Partial<PromptTemplateInput>) => setDraft((current) => ({ ...current, ...changes }));
+
+  // Load an earlier version into the editor; saving it makes it the newest version
+  const loadVersion = (value: string) => {
+    setLoadedVersion(value);
+    const version = saved?.history.find((item) => String(item.version) === value);
+    update(
+      version
+        ? { template: version.template, variables: version.variables }
+        : { template: saved?.template ?? initial.template, variables: saved?.variables ?? initial.variables }
+    );
+  };
+
+  const handleSave = () =>
+    onSave({
+      ...draft,
+      name: draft.name.trim(),
+      // Drop defaults for variables no longer in the template
+      variables: Object.fromEntries(variables.map((name) => [name, draft.variables[name] ?? ""])),
+    });
+
+  return (
+    <Card className="p-4 space-y-4">
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="space-y-1">
+          <Label htmlFor="template-name">{t("templates.editor.name")}</Label>
+          <Input
+            id="template-name"
+            value={draft.name}
+            onChange={(e) => update({ name: e.target.value })}
+            placeholder={t("templates.editor.namePlaceholder")}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="template-feature">{t("templates.editor.generator")}</Label>
+          <Select
+            value={draft.feature}
+            onValueChange={(value) => update({ feature: value as AIFeatureType })}
+            disabled={!!draft.id}
+          >
+            <SelectTrigger id="template-feature">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {templateFeatures.map((feature) => (
+                <SelectItem key={feature} value={feature}>
+                  {t(`features.${feature}.name`)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor="template-description">{t("templates.editor.description")}</Label>
+        <Input
+          id="template-description"
+          value={draft.description}
+          onChange={(e) => update({ description: e.target.value })}
+          placeholder={t("templates.editor.descriptionPlaceholder")}
+        />
+      </div>
+
+      <div className="space-y-1">
+        <div className="flex items-center justify-between gap-4">
+          <Label htmlFor="template-text">{t("templates.editor.template")}</Label>
+          {saved && saved.history.length > 0 && (
+            <Select value={loadedVersion} onValueChange={loadVersion}>
+              <SelectTrigger className="h-8 w-[180px]" aria-label={t("templates.editor.version")}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={CURRENT_VERSION}>
+                  {t("templates.editor.currentVersion", { version: saved.version })}
+                </SelectItem>
+                {[...saved.history].reverse().map((version) => (
+                  <SelectItem key={version.version} value={String(version.version)}>
+                    {t("templates.editor.savedVersion", {
+                      version: version.version,
+                      date: new Date(version.savedAt).toLocaleDateString(getInterfaceLanguage()),
+                    })}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+        <Textarea
+          id="template-text"
+          value={draft.template}
+          onChange={(e) => update({ template: e.target.value })}
+          className="min-h-[280px] font-mono text-xs"
+        />
+        {error && <p className="text-sm text-destructive">{error}</p>}
+        <div className="text-xs text-muted-foreground space-y-1">
+          <p>
+            {t("templates.editor.variablesHint", {
+              first: "{gradeLevel}",
+              second: "{subject}",
+              open: "{{",
+              close: "}}",
+            })}
+          </p>
+          <ul className="list-disc ps-5">
+            {reservedVariables.map((name) => (
+              <li key={name}>
+                <code>{`{${name}}`}</code> - {t(`templates.editor.reserved.${name}`)}
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+
+      {variables.length > 0 && (
+        <div className="space-y-2">
+          <span className="text-sm font-medium">{t("templates.editor.defaultValues")}</span>
+          <div className="grid gap-2 sm:grid-cols-2">
+            {variables.map((name) => (
+              <div key={name} className="space-y-1">
+                <Label htmlFor={`default-${name}`} className="text-xs">
+                  {name}
+                </Label>
+                <Input
+                  id={`default-${name}`}
+                  value={draft.variables[name] ?? ""}
+                  onChange={(e) => update({ variables: { ...draft.variables, [name]: e.target.value } })}
+                  className="h-8"
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <div className="flex items-center gap-2">
+          <Label htmlFor="sample-prompt" className="shrink-0">
+            {t("templates.editor.previewWith")}
+          </Label>
+          <Input
+            id="sample-prompt"
+            value={samplePrompt}
+            onChange={(e) => setSamplePrompt(e.target.value)}
+            className="h-8"
+          />
+        </div>
+        <pre className="max-h-[40vh] overflow-y-auto whitespace-pre-wrap rounded-md bg-muted p-4 text-xs">
+          {preview || t("templates.editor.fixToPreview")}
+        </pre>
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" onClick={onCancel}>
+          {t("common.cancel")}
+        </Button>
+        <Button onClick={handleSave} disabled={!!error || !draft.name.trim() || isSaving}>
+          {isSaving ? <Loader2 className="me-2 h-4 w-4 animate-spin" /> : <Save className="me-2 h-4 w-4" />}
+          {t("templates.editor.save")}
+        </Button>
+      </div>
+    </Card>
+  );
+}
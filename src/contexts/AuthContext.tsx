@@ -11,6 +11,7 @@ import {
 import { initializeApp } from "firebase/app";
 import { firebaseConfig } from "@/lib/firebase";
 import { toast } from "sonner";
+import { useTranslation } from "react-i18next";
 import { useNavigate as useReactRouterNavigate, useLocation as useReactRouterLocation } from "react-router-dom";
 
 // Initialize Firebase
@@ -42,6 +43,7 @@ export function useAuth() {
 function AuthProviderWithRouterAccess({ children }: { children: React.ReactNode }) {
   const navigate = useReactRouterNavigate();
   const location = useReactRouterLocation();
+  const { t } = useTranslation();
   const [currentUser, setCurrentUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
   const [redirectPath, setRedirectPath] = useState<string | null>(null);
@@ -77,16 +79,16 @@ function AuthProviderWithRouterAccess({ children }: { children: React.ReactNode
   const signup = async (email: string, password: string) => {
     try {
       const result = await createUserWithEmailAndPassword(auth, email, password);
-      toast.success("Account created successfully!");
+      toast.success(t("auth.messages.signedUp"));
       return result.user;
     } catch (error: any) {
-      let message = "Failed to create an account";
+      let message = t("auth.messages.signupFailed");
       if (error?.code === "auth/email-already-in-use") {
-        message = "Email is already in use";
+        message = t("auth.messages.emailInUse");
       } else if (error?.code === "auth/weak-password") {
-        message = "Password should be at least 6 characters";
+        message = t("auth.passwordTooShort");
       } else if (error?.code === "auth/invalid-email") {
-        message = "Invalid email address";
+        message = t("auth.invalidEmail");
       }
       toast.error(message);
       throw error;
@@ -97,14 +99,14 @@ function AuthProviderWithRouterAccess({ children }: { children: React.ReactNode
   const login = async (email: string, password: string) => {
     try {
       const result = await signInWithEmailAndPassword(auth, email, password);
-      toast.success("Logged in successfully!");
+      toast.success(t("auth.messages.loggedIn"));
       return result.user;
     } catch (error: any) {
-      let message = "Failed to log in";
+      let message = t("auth.messages.loginFailed");
       if (error?.code === "auth/user-not-found" || error?.code === "auth/wrong-password") {
-        message = "Invalid email or password";
+        message = t("auth.messages.wrongCredentials");
       } else if (error?.code === "auth/too-many-requests") {
-        message = "Too many unsuccessful login attempts, please try again later";
+        message = t("auth.messages.tooManyLogins");
       }
       toast.error(message);
       throw error;
@@ -117,11 +119,11 @@ function AuthProviderWithRouterAccess({ children }: { children: React.ReactNode
       await sendPasswordResetEmail(auth, email);
       return;
     } catch (error: any) {
-      let message = "Failed to reset password";
+      let message = t("auth.messages.resetFailed");
       if (error?.code === "auth/user-not-found") {
-        message = "No account found with this email address";
+        message = t("auth.messages.userNotFound");
       } else if (error?.code === "auth/invalid-email") {
-        message = "Invalid email address";
+        message = t("auth.invalidEmail");
       }
       toast.error(message);
       throw error;
@@ -132,9 +134,9 @@ function AuthProviderWithRouterAccess({ children }: { children: React.ReactNode
   const signOut = async () => {
     try {
       await firebaseSignOut(auth);
-      toast.success("Logged out successfully");
+      toast.success(t("auth.messages.loggedOut"));
     } catch (error) {
-      toast.error("Failed to log out");
+      toast.error(t("auth.messages.logoutFailed"));
       throw error;
     }
   };
@@ -0,0 +1,94 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  ChatMessage,
+  ChatThread,
+  createThread,
+  isDefaultThreadTitle,
+  loadThreads,
+  saveThreads,
+  titleFromPrompt,
+} from "@/utils/chatUtils";
+
+// Learning Assistant conversation threads for the signed-in user
+export function useChatThreads(userId: string | undefined) {
+  const [threads, setThreads] = useState<ChatThread[]>([]);
+  const [activeThreadId, setActiveThreadId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const saved = userId ? loadThreads(userId) : [];
+    setThreads(saved);
+    setActiveThreadId(saved[0]?.id ?? null);
+  }, [userId]);
+
+  const updateThreads = useCallback(
+    (update: (prev: ChatThread[]) => ChatThread[]) => {
+      setThreads((prev) => {
+        const next = update(prev);
+        if (userId) saveThreads(userId, next);
+        return next;
+      });
+    },
+    [userId]
+  );
+
+  const startThread = useCallback(() => {
+    const thread = createThread();
+    updateThreads((prev) => [thread, ...prev]);
+    setActiveThreadId(thread.id);
+    return thread;
+  }, [updateThreads]);
+
+  const renameThread = useCallback(
+    (threadId: string, title: string) => {
+      if (!title.trim()) return;
+      updateThreads((prev) =>
+        prev.map((thread) => (thread.id === threadId ? { ...thread, title: title.trim() } : thread))
+      );
+    },
+    [updateThreads]
+  );
+
+  const deleteThread = useCallback(
+    (threadId: string) => {
+      updateThreads((prev) => prev.filter((thread) => thread.id !== threadId));
+      setActiveThreadId((prev) => (prev === threadId ? null : prev));
+    },
+    [updateThreads]
+  );
+
+  // Append messages to a thread, most recently active threads first
+  const appendMessages = useCallback(
+    (threadId: string, messages: ChatMessage[]) => {
+      updateThreads((prev) => {
+        const thread = prev.find((t) => t.id === threadId);
+        if (!thread) return prev;
+
+        const firstPrompt = messages.find((message) => message.role === "user");
+        const updated: ChatThread = {
+          ...thread,
+          title:
+            isDefaultThreadTitle(thread.title) && firstPrompt
+              ? titleFromPrompt(firstPrompt.content)
+              : thread.title,
+          messages: [...thread.messages, ...messages],
+          updatedAt: new Date().toISOString(),
+        };
+
+        return [updated, ...prev.filter((t) => t.id !== threadId)];
+      });
+    },
+    [updateThreads]
+  );
+
+  const activeThread = threads.find((thread) => thread.id === activeThreadId) ?? null;
+
+  return {
+    threads,
+    activeThread,
+    setActiveThreadId,
+    startThread,
+    renameThread,
+    deleteThread,
+    appendMessages,
+  };
+}
@@ -0,0 +1,34 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  ReviewGrade,
+  ReviewState,
+  createReviewState,
+  loadReviewStates,
+  saveReviewStates,
+  scheduleReview,
+} from "@/utils/flashcardUtils";
+
+// Spaced-repetition review state for the signed-in user, persisted in localStorage
+export function useFlashcardReviews(userId: string | undefined) {
+  const [reviews, setReviews] = useState<Record<string, ReviewState>>({});
+
+  useEffect(() => {
+    setReviews(userId ? loadReviewStates(userId) : {});
+  }, [userId]);
+
+  const reviewCard = useCallback(
+    (cardId: string, grade: ReviewGrade) => {
+      setReviews((prev) => {
+        const next = {
+          ...prev,
+          [cardId]: scheduleReview(prev[cardId] ?? createReviewState(), grade),
+        };
+        if (userId) saveReviewStates(userId, next);
+        return next;
+      });
+    },
+    [userId]
+  );
+
+  return { reviews, reviewCard };
+}
@@ -0,0 +1,40 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  CachedGeneration,
+  cacheEntriesQueryKey,
+  clearGenerationCache,
+  deleteCachedGeneration,
+  listCachedGenerations,
+} from "@/utils/generationCache";
+
+// A user's request cache entries, for inspecting and clearing them in settings
+export function useGenerationCache(userId: string | undefined) {
+  const queryClient = useQueryClient();
+  const queryKey = cacheEntriesQueryKey(userId);
+
+  const { data: entries = [], isLoading } = useQuery({
+    queryKey,
+    queryFn: () => listCachedGenerations(userId!),
+    enabled: !!userId,
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey });
+
+  const deleteMutation = useMutation({
+    mutationFn: (entry: CachedGeneration) => deleteCachedGeneration(entry),
+    onSuccess: invalidate,
+  });
+
+  const clearMutation = useMutation({
+    mutationFn: () => clearGenerationCache(userId!),
+    onSuccess: invalidate,
+  });
+
+  return {
+    entries,
+    isLoading,
+    deleteEntry: deleteMutation.mutate,
+    clearCache: clearMutation.mutateAsync,
+    isClearing: clearMutation.isPending,
+  };
+}
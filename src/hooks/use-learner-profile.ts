@@ -0,0 +1,31 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  LearnerProfileInput,
+  getLearnerProfile,
+  learnerProfileQueryKey,
+  saveLearnerProfile,
+} from "@/utils/learnerProfileStore";
+
+// The signed-in user's learner profile; generations read the same query, so saves apply right away
+export function useLearnerProfile(userId: string | undefined) {
+  const queryClient = useQueryClient();
+  const queryKey = learnerProfileQueryKey(userId);
+
+  const { data: profile = null, isLoading } = useQuery({
+    queryKey,
+    queryFn: () => getLearnerProfile(userId!),
+    enabled: !!userId,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: (input: LearnerProfileInput) => saveLearnerProfile(userId!, input),
+    onSuccess: (saved) => queryClient.setQueryData(queryKey, saved),
+  });
+
+  return {
+    profile,
+    isLoading,
+    saveProfile: saveMutation.mutateAsync,
+    isSaving: saveMutation.isPending,
+  };
+}
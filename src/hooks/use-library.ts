@@ -0,0 +1,39 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type { SourceDocument } from "@/utils/documentUtils";
+import {
+  addLibraryDocument,
+  deleteLibraryDocument,
+  listLibraryDocuments,
+} from "@/utils/libraryStore";
+
+// A user's document library, shared by the Library page and the Learning Assistant
+export function useLibrary(userId: string | undefined) {
+  const queryClient = useQueryClient();
+  const queryKey = ["library", userId];
+
+  const { data: documents = [], isLoading } = useQuery({
+    queryKey,
+    queryFn: () => listLibraryDocuments(userId!),
+    enabled: !!userId,
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey });
+
+  const addMutation = useMutation({
+    mutationFn: (source: SourceDocument) => addLibraryDocument(userId!, source),
+    onSuccess: invalidate,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (documentId: string) => deleteLibraryDocument(userId!, documentId),
+    onSuccess: invalidate,
+  });
+
+  return {
+    documents,
+    isLoading,
+    addDocument: addMutation.mutateAsync,
+    isAdding: addMutation.isPending,
+    deleteDocument: deleteMutation.mutate,
+  };
+}
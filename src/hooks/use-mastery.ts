@@ -0,0 +1,39 @@
+import { useMemo } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Quiz } from "@/utils/quizUtils";
+import {
+  buildPracticePlan,
+  computeMastery,
+  listQuizAnswers,
+  masteryQueryKey,
+  QuizSubmission,
+  recordQuizAnswers,
+} from "@/utils/masteryStore";
+
+// The user's answered quiz questions, with concept mastery and the next practice session worked out from them
+export function useMastery(userId: string | undefined) {
+  const queryClient = useQueryClient();
+  const queryKey = masteryQueryKey(userId);
+
+  const { data: answers = [], isLoading } = useQuery({
+    queryKey,
+    queryFn: () => listQuizAnswers(userId!),
+    enabled: !!userId,
+  });
+
+  const mastery = useMemo(() => computeMastery(answers), [answers]);
+  const practicePlan = useMemo(() => buildPracticePlan(answers), [answers]);
+
+  const recordMutation = useMutation({
+    mutationFn: ({ quiz, submission }: { quiz: Quiz; submission: QuizSubmission }) =>
+      recordQuizAnswers(userId!, quiz, submission),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey }),
+  });
+
+  return {
+    mastery,
+    practicePlan,
+    isLoading,
+    recordAnswers: recordMutation.mutate,
+  };
+}
@@ -0,0 +1,39 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  PromptTemplateInput,
+  deleteUserTemplate,
+  listUserTemplates,
+  saveUserTemplate,
+} from "@/utils/templateStore";
+
+// A user's prompt templates, shared by the templates page and the generators
+export function usePromptTemplates(userId: string | undefined) {
+  const queryClient = useQueryClient();
+  const queryKey = ["promptTemplates", userId];
+
+  const { data: templates = [], isLoading } = useQuery({
+    queryKey,
+    queryFn: () => listUserTemplates(userId!),
+    enabled: !!userId,
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey });
+
+  const saveMutation = useMutation({
+    mutationFn: (input: PromptTemplateInput) => saveUserTemplate(userId!, input),
+    onSuccess: invalidate,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteUserTemplate,
+    onSuccess: invalidate,
+  });
+
+  return {
+    templates,
+    isLoading,
+    saveTemplate: saveMutation.mutateAsync,
+    isSaving: saveMutation.isPending,
+    deleteTemplate: deleteMutation.mutateAsync,
+  };
+}
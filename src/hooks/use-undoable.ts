@@ -0,0 +1,73 @@
+import { useCallback, useRef, useState } from "react";
+
+interface UndoableState<T> {
+  past: T[];
+  present: T;
+  future: T[];
+}
+
+const MAX_UNDO_STEPS = 100;
+// Keystrokes closer together than this are undone as a single step
+const TYPING_MERGE_MS = 1000;
+
+// State with undo/redo history. `reset` replaces the value and clears the history.
+export function useUndoable<T>(initial: T) {
+  const [state, setState] = useState<UndoableState<T>>({ past: [], present: initial, future: [] });
+  const lastTypingRef = useRef(0);
+
+  const set = useCallback((value: T, { typing = false }: { typing?: boolean } = {}) => {
+    const now = Date.now();
+    const merge = typing && now - lastTypingRef.current < TYPING_MERGE_MS;
+    lastTypingRef.current = typing ? now : 0;
+
+    setState((prev) => {
+      if (Object.is(prev.present, value)) return prev;
+      return {
+        past: merge ? prev.past : [...prev.past, prev.present].slice(-MAX_UNDO_STEPS),
+        present: value,
+        future: [],
+      };
+    });
+  }, []);
+
+  const reset = useCallback((value: T) => {
+    lastTypingRef.current = 0;
+    setState({ past: [], present: value, future: [] });
+  }, []);
+
+  const undo = useCallback(() => {
+    lastTypingRef.current = 0;
+    setState((prev) =>
+      prev.past.length
+        ? {
+            past: prev.past.slice(0, -1),
+            present: prev.past[prev.past.length - 1],
+            future: [prev.present, ...prev.future],
+          }
+        : prev
+    );
+  }, []);
+
+  const redo = useCallback(() => {
+    lastTypingRef.current = 0;
+    setState((prev) =>
+      prev.future.length
+        ? {
+            past: [...prev.past, prev.present],
+            present: prev.future[0],
+            future: prev.future.slice(1),
+          }
+        : prev
+    );
+  }, []);
+
+  return {
+    value: state.present,
+    set,
+    reset,
+    undo,
+    redo,
+    canUndo: state.past.length > 0,
+    canRedo: state.future.length > 0,
+  };
+}
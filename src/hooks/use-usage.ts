@@ -0,0 +1,13 @@
+import { useQuery } from "@tanstack/react-query";
+import { listUsage, usageQueryKey } from "@/utils/usageStore";
+
+// A user's daily usage records for the usage page; refreshed whenever a model call is metered
+export function useUsage(userId: string | undefined, days = 30) {
+  const { data: records = [], isLoading } = useQuery({
+    queryKey: [...usageQueryKey(userId), days],
+    queryFn: () => listUsage(userId!, days),
+    enabled: !!userId,
+  });
+
+  return { records, isLoading };
+}
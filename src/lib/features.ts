@@ -0,0 +1,11 @@
+import type { AIFeatureType } from "@/utils/langchainUtils";
+
+// Route for each AI feature; display names are in the features.<feature>.name translations
+export const featureDetails: Record<AIFeatureType, { path: string }> = {
+  content: { path: "/content-generator" },
+  quiz: { path: "/quiz-generator" },
+  materials: { path: "/learning-materials" },
+  notes: { path: "/notes-generator" },
+  flashcards: { path: "/flashcard-generator" },
+  assistant: { path: "/learning-assistant" },
+};
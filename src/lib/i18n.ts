@@ -0,0 +1,63 @@
+import i18n from "i18next";
+import { initReactI18next } from "react-i18next";
+import en, { Translation } from "@/locales/en";
+import es from "@/locales/es";
+import fr from "@/locales/fr";
+import hi from "@/locales/hi";
+import ar from "@/locales/ar";
+
+export type InterfaceLanguage = "en" | "es" | "fr" | "hi" | "ar";
+
+// Languages the interface is translated into, with their own name and text direction
+export const interfaceLanguages: Record<InterfaceLanguage, { name: string; dir: "ltr" | "rtl"; translation: Translation }> = {
+  en: { name: "English", dir: "ltr", translation: en },
+  es: { name: "Español", dir: "ltr", translation: es },
+  fr: { name: "Français", dir: "ltr", translation: fr },
+  hi: { name: "हिन्दी", dir: "ltr", translation: hi },
+  ar: { name: "العربية", dir: "rtl", translation: ar },
+};
+
+const STORAGE_KEY = "language";
+
+const isInterfaceLanguage = (language: string | null | undefined): language is InterfaceLanguage =>
+  !!language && language in interfaceLanguages;
+
+// The saved choice, otherwise the browser's language when the interface is translated into it
+const detectLanguage = (): InterfaceLanguage => {
+  const saved = typeof localStorage === "undefined" ? null : localStorage.getItem(STORAGE_KEY);
+  if (isInterfaceLanguage(saved)) return saved;
+  const browser = typeof navigator === "undefined" ? undefined : navigator.language?.split("-")[0];
+  return isInterfaceLanguage(browser) ? browser : "en";
+};
+
+export const getInterfaceLanguage = (): InterfaceLanguage =>
+  isInterfaceLanguage(i18n.resolvedLanguage) ? i18n.resolvedLanguage : "en";
+
+export const languageDirection = (language: InterfaceLanguage) => interfaceLanguages[language].dir;
+
+// Mirror the language on the document, which sets the text direction for the whole layout
+const applyLanguage = (language: InterfaceLanguage) => {
+  if (typeof document === "undefined") return;
+  document.documentElement.lang = language;
+  document.documentElement.dir = languageDirection(language);
+};
+
+export const setInterfaceLanguage = async (language: InterfaceLanguage) => {
+  localStorage.setItem(STORAGE_KEY, language);
+  await i18n.changeLanguage(language);
+};
+
+i18n.on("languageChanged", () => applyLanguage(getInterfaceLanguage()));
+
+i18n.use(initReactI18next).init({
+  resources: Object.fromEntries(
+    Object.entries(interfaceLanguages).map(([language, { translation }]) => [language, { translation }])
+  ),
+  lng: detectLanguage(),
+  fallbackLng: "en",
+  supportedLngs: Object.keys(interfaceLanguages),
+  // React escapes rendered text already
+  interpolation: { escapeValue: false },
+});
+
+export default i18n;
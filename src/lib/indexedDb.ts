@@ -0,0 +1,180 @@
+import i18n from "@/lib/i18n";
+
+// Minimal promise wrapper around the browser's IndexedDB for per-user local data
+
+const DB_NAME = "aptora";
+const DB_VERSION = 7;
+
+interface StoreDefinition {
+  keyPath: string;
+  indexes: Array<{ name: string; keyPath: string | string[] }>;
+}
+
+// Bump DB_VERSION whenever a store or index is added here
+const stores = {
+  history: {
+    keyPath: "id",
+    indexes: [{ name: "userId", keyPath: "userId" }],
+  },
+  libraryDocuments: {
+    keyPath: "id",
+    indexes: [{ name: "userId", keyPath: "userId" }],
+  },
+  libraryChunks: {
+    keyPath: "id",
+    indexes: [
+      { name: "userId", keyPath: "userId" },
+      { name: "documentId", keyPath: "documentId" },
+    ],
+  },
+  promptTemplates: {
+    keyPath: "id",
+    indexes: [{ name: "userId", keyPath: "userId" }],
+  },
+  generationCache: {
+    keyPath: "key",
+    indexes: [{ name: "userId", keyPath: "userId" }],
+  },
+  usage: {
+    keyPath: "id",
+    indexes: [{ name: "userId", keyPath: "userId" }],
+  },
+  learnerProfiles: {
+    keyPath: "userId",
+    indexes: [],
+  },
+  quizAnswers: {
+    keyPath: "id",
+    indexes: [{ name: "userId", keyPath: "userId" }],
+  },
+} satisfies Record<string, StoreDefinition>;
+
+export type StoreName = keyof typeof stores;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      let blocked = false;
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        const transaction = request.transaction!;
+
+        Object.entries(stores).forEach(([name, definition]: [string, StoreDefinition]) => {
+          const store = db.objectStoreNames.contains(name)
+            ? transaction.objectStore(name)
+            : db.createObjectStore(name, { keyPath: definition.keyPath });
+
+          definition.indexes.forEach((index) => {
+            if (!store.indexNames.contains(index.name)) {
+              store.createIndex(index.name, index.keyPath);
+            }
+          });
+        });
+      };
+
+      request.onsuccess = () => {
+        const db = request.result;
+        // Opened after the other tabs closed, but this attempt was already given up
+        if (blocked) {
+          db.close();
+          return;
+        }
+        // Let another tab upgrade the schema; the next call here opens the database again
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+      // An older version is still open in another tab and blocks the upgrade
+      request.onblocked = () => {
+        blocked = true;
+        dbPromise = null;
+        reject(new Error(i18n.t("storage.blocked")));
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const withStore = async <T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(storeName, mode);
+  return promisifyRequest(action(transaction.objectStore(storeName)));
+};
+
+export const getRecord = <T>(storeName: StoreName, key: IDBValidKey) =>
+  withStore<T | undefined>(storeName, "readonly", (store) => store.get(key));
+
+export const getRecordsByIndex = <T>(storeName: StoreName, indexName: string, key: IDBValidKey) =>
+  withStore<T[]>(storeName, "readonly", (store) => store.index(indexName).getAll(key));
+
+export const putRecord = <T>(storeName: StoreName, value: T) =>
+  withStore(storeName, "readwrite", (store) => store.put(value));
+
+// Write several records in a single transaction
+export const putRecords = async <T>(storeName: StoreName, values: T[]) => {
+  const db = await openDatabase();
+  const transaction = db.transaction(storeName, "readwrite");
+  values.forEach((value) => transaction.objectStore(storeName).put(value));
+
+  return new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+// Read a record and write back its update in one transaction, so concurrent updates aren't lost
+export const updateRecord = async <T>(
+  storeName: StoreName,
+  key: IDBValidKey,
+  update: (existing: T | undefined) => T
+) => {
+  const db = await openDatabase();
+  const transaction = db.transaction(storeName, "readwrite");
+  const store = transaction.objectStore(storeName);
+  const request = store.get(key);
+  request.onsuccess = () => store.put(update(request.result as T | undefined));
+
+  return new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+export const deleteRecord = (storeName: StoreName, key: IDBValidKey) =>
+  withStore(storeName, "readwrite", (store) => store.delete(key));
+
+// Delete every record matching an index key, e.g. all of one user's items
+export const deleteRecordsByIndex = async (storeName: StoreName, indexName: string, key: IDBValidKey) => {
+  const keys = await withStore<IDBValidKey[]>(storeName, "readonly", (store) =>
+    store.index(indexName).getAllKeys(key)
+  );
+  const db = await openDatabase();
+  const transaction = db.transaction(storeName, "readwrite");
+  keys.forEach((recordKey) => transaction.objectStore(storeName).delete(recordKey));
+
+  return new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
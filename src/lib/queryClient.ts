@@ -0,0 +1,4 @@
+import { QueryClient } from "@tanstack/react-query";
+
+// Shared with non-React code, such as the request cache in generationCache
+export const queryClient = new QueryClient();
@@ -0,0 +1,755 @@
+import type { Translation } from "./en";
+
+const ar: Translation = {
+  language: {
+    label: "اللغة",
+    interface: "لغة الواجهة",
+    output: "ردود الذكاء الاصطناعي بـ",
+    automatic: "تلقائي",
+    automaticHint: "اللغة المفضلة في ملفك التعليمي، وإلا فلغة الواجهة",
+  },
+  header: {
+    home: "الرئيسية",
+    features: "الميزات",
+    testimonials: "آراء المستخدمين",
+    faq: "الأسئلة الشائعة",
+    aboutUs: "من نحن",
+    contact: "تواصل معنا",
+    contactInformation: "معلومات التواصل",
+    signUp: "إنشاء حساب",
+    openMenu: "فتح القائمة",
+    closeMenu: "إغلاق القائمة",
+    userMenu: "قائمة المستخدم",
+    toggleTheme: "تبديل المظهر",
+  },
+  userMenu: {
+    learnerProfile: "ملف المتعلم",
+    history: "السجل",
+    library: "مكتبتي",
+    templates: "قوالب الطلبات",
+    usage: "الاستخدام",
+    settings: "الإعدادات",
+    signOut: "تسجيل الخروج",
+  },
+  hero: {
+    badge: "ثورة في التعلم الإلكتروني بالذكاء الاصطناعي",
+    title: "تعرّف على Aptora",
+    description:
+      "منصة تعلم إلكتروني ذكية تعمل بالذكاء الاصطناعي، تُنشئ مواد دراسية واختبارات وبطاقات تعليمية ومسارات تعلم وملاحظات مصممة وفق أسلوب تعلمك.",
+    getStarted: "ابدأ الآن",
+  },
+  features: {
+    title: "ميزات مبتكرة",
+    subtitle: "اكتشف الأدوات التي تجعل التعلم أكثر فاعلية وتشويقًا وملاءمة لك.",
+    content: {
+      name: "مُنشئ المحتوى",
+      summary: "أنشئ محتوى تعليميًا",
+      description: "أنشئ محتوى تعليميًا يناسب منهجك الدراسي وأهدافك التعليمية.",
+      placeholder: "صف المحتوى الذي تحتاجه (مثال: 'أنشئ خطة درس عن التمثيل الضوئي لطلاب الصف التاسع')",
+    },
+    quiz: {
+      name: "مُنشئ الاختبارات",
+      summary: "أنشئ اختبارات مخصصة",
+      description: "أنشئ اختبارات مخصصة بمستويات صعوبة مختلفة لتقيس معرفتك.",
+      placeholder: "صف الاختبار الذي تحتاجه (مثال: '10 أسئلة اختيار من متعدد عن الحرب العالمية الثانية لطلاب الثانوية')",
+    },
+    materials: {
+      name: "مواد التعلم الإلكتروني",
+      summary: "مصادر للدراسة",
+      description: "احصل على مكتبة شاملة من المواد التعليمية المصممة لتعلم فعّال.",
+      placeholder: "صف المواد التي تحتاجها (مثال: 'أنشئ مسار تعلم لتصبح مطور ويب')",
+    },
+    notes: {
+      name: "مُنشئ الملاحظات بالذكاء الاصطناعي",
+      summary: "لخّص ملاحظاتك ونظّمها",
+      description: "حوّل الموضوعات المعقدة إلى ملاحظات موجزة وسهلة الفهم بمساعدة الذكاء الاصطناعي.",
+      placeholder: "الصق نصًا لتلخيصه أو صف ما تحتاج ملاحظات عنه (مثال: 'لخّص المبادئ الأساسية لميكانيكا الكم')",
+    },
+    flashcards: {
+      name: "مُنشئ البطاقات التعليمية",
+      summary: "أنشئ بطاقات للمراجعة",
+      description: "أنشئ بطاقات تعليمية تفاعلية تساعدك على الحفظ وترسيخ ما تعلمته.",
+      placeholder: "صف البطاقات التي تحتاجها (مثال: 'أنشئ 10 بطاقات عن مصطلحات تشريح جسم الإنسان')",
+    },
+    assistant: {
+      name: "مساعد التعلم الذكي",
+      summary: "احصل على مساعدة مخصصة",
+      description: "احصل على مساعدة مخصصة وإجابات عن أسئلتك خلال رحلة تعلمك.",
+      placeholder: "اطرح أي سؤال عن دراستك (مثال: 'اشرح الفرق بين الانقسام المتساوي والانقسام المنصف')",
+    },
+  },
+  faq: {
+    title: "الأسئلة الشائعة",
+    subtitle: "تعرّف على طريقة استخدام أدوات التعلم الذكية في Aptora",
+    howToUse: "طريقة الاستخدام:",
+    tips: "نصائح لأفضل النتائج:",
+    content: {
+      instructions: [
+        "اكتب موضوعًا أو مادة أو هدفًا تعليميًا محددًا في حقل النص",
+        "أضف أي تفاصيل أخرى مثل الصف الدراسي أو مستوى الصعوبة أو الشكل",
+        "انقر على 'إنشاء' لإعداد مادتك التعليمية",
+        "راجع المحتوى الناتج ونزّله بصيغة PDF إذا احتجت",
+      ],
+      tips: [
+        "كن محددًا في طلبك (مثال: 'خطة درس عن التمثيل الضوئي للصف التاسع')",
+        "اذكر الطول أو العمق المطلوب للمحتوى",
+        "اذكر طريقة التدريس التي تفضلها إن وجدت",
+      ],
+      notes: "كلما كان طلبك أكثر تفصيلًا، جاء المحتوى أقرب إلى احتياجاتك.",
+    },
+    quiz: {
+      instructions: [
+        "حدد المادة وموضوع الاختبار",
+        "اختر عدد الأسئلة ومستوى الصعوبة",
+        "اختر أنواع الأسئلة (اختيار من متعدد، صح أو خطأ، إجابة قصيرة، وغيرها)",
+        "انقر على 'إنشاء' لإعداد اختبارك",
+        "نزّل الاختبار بصيغة PDF لحفظه",
+      ],
+      tips: [
+        "اذكر الفئة المستهدفة (مثال: 'طلاب المرحلة المتوسطة'، 'طلاب السنة الأولى في الجامعة')",
+        "حدد ما إذا كنت تريد تضمين الإجابات",
+        "نوّع أنواع الأسئلة لتقييم أشمل",
+      ],
+      notes: "للاختبارات المحددة بوقت، اذكر المدة المقترحة في طلبك.",
+    },
+    materials: {
+      instructions: [
+        "اكتب المجال والموضوع المحدد الذي تحتاج له مواد",
+        "حدد الشكل (مثال: 'مسار تعلم'، 'دليل تفاعلي')",
+        "اذكر أهدافك التعليمية",
+        "انقر على 'إنشاء' لإعداد مصادرك",
+        "راجع موادك المخصصة ونزّلها",
+      ],
+      tips: [
+        "اطلب مواد تناسب أسلوب تعلمك (بصري، سمعي، وغيرها)",
+        "اذكر ما إذا كنت تحتاج محتوى للمبتدئين أو المتوسطين أو المتقدمين",
+        "اطلب أطرًا أو منهجيات محددة عند الحاجة",
+      ],
+      notes: "تكون مواد التعلم الإلكتروني أفضل عندما تركز على مهارات أو مجالات معرفية محددة بدلًا من مواد واسعة.",
+    },
+    notes: {
+      instructions: [
+        "الصق النص الذي تريد تحويله إلى ملاحظات، أو صف الموضوع",
+        "حدد الشكل المطلوب (نقاط، طريقة كورنيل، خريطة ذهنية، وغيرها)",
+        "اذكر مستوى معرفتك بالموضوع",
+        "انقر على 'إنشاء' لإعداد الملخص",
+        "احفظ ملاحظاتك أو نزّلها",
+      ],
+      tips: [
+        "لتلخيص نص، الصق فقرات كاملة لأفضل النتائج",
+        "اطلب إبراز المصطلحات الأساسية أو تعريفها",
+        "اطلب تنظيمًا مرئيًا بعناوين رئيسية وفرعية ونقاط",
+      ],
+      notes: "يعمل مُنشئ الملاحظات بشكل ممتاز في تلخيص فصول الكتب المدرسية أو نصوص المحاضرات.",
+    },
+    flashcards: {
+      instructions: [
+        "اكتب المادة وموضوع البطاقات",
+        "حدد عدد البطاقات التي تحتاجها",
+        "حدد ما إذا كنت تريد بطاقات بسيطة للمصطلح والتعريف أو بطاقات سؤال وجواب",
+        "انقر على 'إنشاء' لإعداد بطاقاتك",
+        "نزّل بطاقاتك بصيغة PDF للطباعة أو الاستخدام الرقمي",
+      ],
+      tips: [
+        "لتعلم اللغات، حدد ما إذا كنت تريد إرشادات النطق",
+        "اطلب اقتراحات صور لبطاقات مرئية",
+        "اطلب وسائل تذكّر للمعلومات الصعبة",
+      ],
+      notes: "تكون البطاقات أكثر فاعلية مع المعلومات المحددة منها مع المفاهيم المعقدة.",
+    },
+    assistant: {
+      instructions: [
+        "اكتب سؤالك مباشرة في حقل الإدخال",
+        "كن محددًا فيما تحاول فهمه",
+        "اذكر مستوى معرفتك الحالي إذا كان ذلك مفيدًا",
+        "أرسل سؤالك لتحصل على إجابة مخصصة",
+        "تابع بأسئلة إضافية حسب الحاجة",
+      ],
+      tips: [
+        "اطرح أسئلة 'لماذا' و'كيف' لفهم أعمق",
+        "اطلب شرحًا مبسطًا للموضوعات المعقدة",
+        "اطلب أمثلة واقعية أو تطبيقات للمفاهيم المجردة",
+      ],
+      notes: "يقدم مساعد التعلم الذكي أفضل الإجابات عندما تكون أسئلتك واضحة ومركزة.",
+    },
+  },
+  auth: {
+    email: "البريد الإلكتروني",
+    password: "كلمة المرور",
+    emailPlaceholder: "youremail@example.com",
+    invalidEmail: "يرجى إدخال بريد إلكتروني صالح",
+    passwordTooShort: "يجب أن تتكون كلمة المرور من 6 أحرف على الأقل",
+    login: {
+      title: "سجّل الدخول إلى حسابك",
+      description: "أدخل بريدك الإلكتروني وكلمة المرور لتسجيل الدخول.",
+      forgotPassword: "هل نسيت كلمة المرور؟",
+      submit: "تسجيل الدخول",
+      submitting: "جارٍ تسجيل الدخول...",
+      failed: "تعذّر تسجيل الدخول. يرجى التحقق من بياناتك.",
+      noAccount: "ليس لديك حساب؟",
+      signUp: "أنشئ حسابًا",
+    },
+    signup: {
+      title: "إنشاء حساب",
+      description: "أنشئ حسابًا للوصول إلى جميع الميزات",
+      confirmPassword: "تأكيد كلمة المرور",
+      showPassword: "إظهار كلمة المرور",
+      hidePassword: "إخفاء كلمة المرور",
+      passwordsDontMatch: "كلمتا المرور غير متطابقتين",
+      haveAccount: "لديك حساب بالفعل؟",
+      logIn: "سجّل الدخول",
+      submit: "إنشاء الحساب",
+      submitting: "جارٍ إنشاء الحساب...",
+    },
+    reset: {
+      title: "إعادة تعيين كلمة المرور",
+      description: "أدخل بريدك الإلكتروني وسنرسل إليك رابطًا لإعادة تعيين كلمة المرور.",
+      sent: "تم إرسال رابط إعادة التعيين! يرجى التحقق من بريدك الوارد.",
+      failed: "تعذّر إرسال رسالة إعادة تعيين كلمة المرور.",
+      submit: "إرسال رابط إعادة التعيين",
+      submitting: "جارٍ الإرسال...",
+      rememberPassword: "تذكرت كلمة المرور؟",
+      backToLogin: "العودة إلى تسجيل الدخول",
+    },
+    messages: {
+      signedUp: "تم إنشاء الحساب بنجاح!",
+      signupFailed: "تعذّر إنشاء الحساب",
+      emailInUse: "البريد الإلكتروني مستخدم بالفعل",
+      loggedIn: "تم تسجيل الدخول بنجاح!",
+      loginFailed: "تعذّر تسجيل الدخول",
+      wrongCredentials: "البريد الإلكتروني أو كلمة المرور غير صحيحة",
+      tooManyLogins: "محاولات تسجيل دخول فاشلة كثيرة، يرجى المحاولة لاحقًا",
+      resetFailed: "تعذّرت إعادة تعيين كلمة المرور",
+      userNotFound: "لا يوجد حساب بهذا البريد الإلكتروني",
+      tooManyAttempts: "محاولات كثيرة جدًا. يرجى المحاولة لاحقًا.",
+      loggedOut: "تم تسجيل الخروج بنجاح",
+      logoutFailed: "تعذّر تسجيل الخروج",
+    },
+  },
+  testimonials: {
+    title: "ماذا يقول مستخدمونا",
+    subtitle: "تجارب حقيقية لطلاب ومعلمين ومهنيين غيّروا طريقة تعلّمهم مع Aptora.",
+    sarah: {
+      role: "طالبة طب",
+      review:
+        "غيّرت Aptora روتين دراستي. ساعدتني الملاحظات التي أنشأها الذكاء الاصطناعي على فهم مفاهيم طبية معقدة عانيت معها لأشهر. تحسّنت درجاتي في الامتحانات كثيرًا!",
+    },
+    david: {
+      role: "مدرّس علوم الحاسوب",
+      review:
+        "بصفتي معلمًا، وجدت أن مولّد الاختبارات في Aptora غيّر قواعد اللعبة. فهو ينشئ أسئلة صعبة تختبر الفهم الحقيقي لا الحفظ فقط.",
+    },
+    amara: {
+      role: "مهنية في مجال الأعمال",
+      review:
+        "ساعدتني البطاقات التعليمية على الاستعداد لامتحان الشهادة في نصف الوقت. يبدو أن الذكاء الاصطناعي يفهم المفاهيم التي أحتاج إلى مراجعتها أكثر.",
+    },
+  },
+  team: {
+    title: "فريقنا",
+    subtitle: "تعرّف على الموهوبين الذين يقفون وراء مهمة Aptora في تحويل التعليم بالذكاء الاصطناعي.",
+    linkedin: "ملف {{name}} على LinkedIn",
+    github: "ملف {{name}} على GitHub",
+    email: "راسل {{name}}",
+    aaron: {
+      role: "مؤسس ومطوّر واجهات خلفية",
+      bio: "مطوّر واجهات خلفية شغوف وخبير في بناء أنظمة قابلة للتوسع وفعّالة وآمنة.",
+    },
+    kari: {
+      role: "مؤسس وقائد الفريق",
+      bio: "شغوف بابتكار حلول تعليمية جديدة. يقود التطوير التقني والتوجه الاستراتيجي لـ Aptora.",
+    },
+    sona: {
+      role: "مؤسِّسة ومطوّرة واجهات أمامية",
+      bio: "تصمّم واجهات جميلة وسهلة تجعل التعلّم ممتعًا ومتاحًا لجميع المستخدمين.",
+    },
+    thrithwik: {
+      role: "شريك مؤسس ومطوّر",
+      bio: "يطوّر البنية التحتية المتينة التي تشغّل قدرات Aptora في التعلّم بالذكاء الاصطناعي ومعالجة البيانات.",
+    },
+  },
+  footer: {
+    about: "عن Aptora",
+    aboutText:
+      "تُحدث Aptora ثورة في التعلّم الإلكتروني بتقنية ذكاء اصطناعي تتكيّف مع احتياجات كل متعلّم، لتجعل التعليم أيسر وأكثر تخصيصًا وفعالية للجميع.",
+    quickLinks: "روابط سريعة",
+    legal: "الشؤون القانونية",
+    privacyPolicy: "سياسة الخصوصية",
+    termsOfService: "شروط الخدمة",
+    cookiePolicy: "سياسة ملفات تعريف الارتباط",
+    contact: "تواصل معنا",
+    rights: "© {{year}} Aptora. جميع الحقوق محفوظة.",
+  },
+  storage: {
+    blocked:
+      "تم تحديث Aptora في علامة تبويب أخرى. أغلق علامات تبويب Aptora الأخرى ثم حاول مرة أخرى.",
+  },
+  common: {
+    cancel: "إلغاء",
+    save: "حفظ",
+    delete: "حذف",
+    rename: "إعادة التسمية",
+    tryAgain: "إعادة المحاولة",
+    notSet: "غير محدد",
+  },
+  generator: {
+    generate: "إنشاء",
+    generating: "جارٍ الإنشاء...",
+    stop: "إيقاف الإنشاء",
+    placeholder: "سيظهر المحتوى الذي ينشئه الذكاء الاصطناعي هنا",
+    emptyPrompt: {
+      title: "يُرجى كتابة طلب",
+      description: "يحتاج الذكاء الاصطناعي إلى مدخلات لإنشاء المحتوى.",
+    },
+    practicing: {
+      title: "التدرّب على نقاط ضعفك",
+      description: "استُبدل طلبك بطلب التدريب.",
+      restore: "استعادة طلبك",
+      undo: "تراجع",
+    },
+    cached: {
+      title: "حُمّل من ذاكرة التخزين المؤقت",
+      description: "سبق إنشاء هذا الطلب. استخدم زر التحديث للحصول على إصدار جديد.",
+    },
+    stopped: {
+      title: "توقّف الإنشاء",
+      variant: "تم تجاهل الإصدار الجديد.",
+      quiz: "لم يُنشأ الاختبار.",
+      partial: "تم الاحتفاظ بالنتيجة الجزئية.",
+    },
+    mergeError: "خطأ في دمج الإصدارات",
+    copied: {
+      title: "نُسخ إلى الحافظة",
+      description: "تم نسخ المحتوى المُنشأ إلى الحافظة.",
+    },
+    exported: {
+      title: "نُزّل الملف المُصدَّر",
+      description: "الملفات المنزّلة: {{files}}",
+    },
+    exportError: {
+      title: "خطأ في التصدير بصيغة {{format}}",
+      description: "حدث خطأ أثناء تصدير النتيجة. يُرجى المحاولة مرة أخرى.",
+    },
+    showingVersion: "{{version}} من {{total}}",
+    compareVersions: "مقارنة الإصدارات",
+    regenerate: "إنشاء إصدار آخر",
+    edit: "تعديل النتيجة",
+    copy: "نسخ إلى الحافظة",
+    export: "تصدير",
+  },
+  sources: {
+    reading: "جارٍ قراءة المستندات...",
+    attach: "إرفاق مادة المحاضرة (PDF أو DOCX أو TXT)",
+    sections: "الأقسام: {{total}}",
+    remove: "إزالة {{name}}",
+    readError: "تعذّرت قراءة المستند",
+    unsupported: "نوع الملف غير مدعوم: {{name}}. ارفع ملف PDF أو DOCX أو TXT.",
+    tooLarge: "حجم {{name}} أكبر من 20 ميغابايت.",
+    noText: "لم يُعثر على نص في {{name}}. المستندات الممسوحة ضوئيًا غير مدعومة.",
+    fileError: "حدث خطأ أثناء قراءة {{name}}.",
+  },
+  templatePicker: {
+    label: "قالب الطلب",
+    default: "القالب الافتراضي",
+    custom: "{{name}} (الإصدار {{version}})",
+    preview: "معاينة الطلب",
+    previewTitle: "معاينة الطلب",
+    manage: "إدارة القوالب",
+  },
+  options: {
+    advanced: "خيارات متقدمة",
+    length: "الطول",
+    lengths: {
+      short: "قصير",
+      medium: "متوسط",
+      long: "طويل",
+    },
+    creativity: "الإبداع",
+    creativityLevels: {
+      focused: "مركّز",
+      balanced: "متوازن",
+      creative: "إبداعي",
+    },
+    readingLevel: "مستوى القراءة",
+    readingLevels: {
+      elementary: "المرحلة الابتدائية",
+      middle_school: "المرحلة المتوسطة",
+      high_school: "المرحلة الثانوية",
+      college: "الجامعة",
+      expert: "خبير",
+    },
+    reset: "استعادة الإعدادات الافتراضية",
+  },
+  editor: {
+    label: "تعديل النتيجة",
+    undo: "تراجع",
+    redo: "إعادة",
+    actions: {
+      simplify: "تبسيط",
+      expand: "توسيع",
+      example: "إضافة مثال",
+      translate: "ترجمة",
+    },
+    translationLanguage: "لغة الترجمة",
+    selected: "الأحرف المحددة: {{total}}",
+    hint: "حدّد مقطعًا لتبسيطه أو توسيعه أو توضيحه بمثال أو ترجمته.",
+    done: "تم",
+    rewriteError: "خطأ في إعادة كتابة التحديد",
+  },
+  variants: {
+    version: "الإصدار {{number}}",
+    merged: "الإصدار {{number}} (مدمج)",
+    title: "مقارنة الإصدارات",
+    close: "إغلاق المقارنة",
+    current: "الإصدار الحالي",
+    use: "استخدام هذا الإصدار",
+    mergeHint: "اجمع أفضل ما في الإصدارين في إصدار جديد.",
+    merge: "دمج الإصدارات",
+  },
+  exportDialog: {
+    title: "تصدير النتيجة",
+    format: "الصيغة",
+    formats: {
+      pdf: { label: "PDF", description: "مستند منسّق للطباعة والمشاركة" },
+      docx: { label: "Word (DOCX)", description: "مستند قابل للتعديل في Word أو Google Docs" },
+      markdown: { label: "Markdown", description: "النتيجة كما كُتبت، لتطبيقات الملاحظات والمحررات" },
+      html: { label: "صفحة ويب (HTML)", description: "صفحة ويب واحدة مع عرض الرياضيات والتعليمات البرمجية" },
+      text: { label: "نص عادي", description: "نص بلا تنسيق" },
+      apkg: { label: "مجموعة Anki (APKG)", description: "حزمة بطاقات لفتحها في Anki" },
+      "anki-csv": { label: "Anki (CSV)", description: "بطاقات لأمر File > Import في Anki" },
+      quizlet: { label: "Quizlet (TSV)", description: "بطاقات مفصولة بعلامات جدولة للصقها في استيراد Quizlet" },
+      "quiz-pdf": {
+        label: "اختبار للطباعة (PDF)",
+        description: "نسخ للطلاب مع دوائر للإجابة، ومفتاح إجابات منفصل",
+      },
+      qti: { label: "حزمة QTI 2.1", description: "لاستيراد الاختبارات في Canvas وBlackboard وأنظمة إدارة التعلم الأخرى" },
+      moodle: { label: "Moodle XML", description: "أسئلة لبنك أسئلة Moodle" },
+      gift: { label: "GIFT", description: "صيغة Moodle النصية لأسئلة الاختبارات" },
+    },
+    testVersions: "نُسخ الاختبار",
+    oneVersion: "نسخة واحدة",
+    versionRange: "من A إلى {{last}}",
+    shuffleQuestions: "ترتيب الأسئلة عشوائيًا",
+    shuffleOptions: "ترتيب خيارات الإجابة عشوائيًا",
+    answerKey: "يُنزّل نسخ الطلاب ومفتاح إجابات منفصلًا يشمل كل النسخ.",
+    missingFonts:
+      "خط PDF الخاص بنص {{scripts, list}} غير مثبّت، لذا سيظهر ذلك النص غير مقروء. صدّر بصيغة Word أو HTML بدلًا من ذلك، أو أضف الخطوط إلى public/fonts.",
+    filename: "اسم الملف:",
+    filenamePlaceholder: "أدخل اسم الملف (بدون .{{extension}})",
+    download: "تنزيل .{{extension}}",
+    noFlashcards: "لم يُعثر على بطاقات في النتيجة لتصديرها.",
+    noQuiz: "تعذّرت قراءة النتيجة كاختبار لتصديره.",
+  },
+  quiz: {
+    gradingAll: "جارٍ تصحيح الإجابات القصيرة…",
+    score: "نتيجتك {{score}} من {{total}}",
+    answered: "الأسئلة المُجاب عنها: {{answered}} من {{total}}",
+    types: {
+      multiple_choice: "اختيار من متعدد",
+      true_false: "صواب / خطأ",
+      short_answer: "إجابة قصيرة",
+    },
+    difficulties: {
+      easy: "سهل",
+      medium: "متوسط",
+      hard: "صعب",
+    },
+    answerPlaceholder: "اكتب إجابتك",
+    grading: "جارٍ تصحيح إجابتك…",
+    correct: "صحيح",
+    correctAnswer: "الإجابة الصحيحة: {{answer}}",
+    gradingFailed: "تعذّر تصحيح هذه الإجابة: {{message}}",
+    retake: "إعادة الاختبار",
+    submit: "إرسال الإجابات",
+  },
+  grading: {
+    verdicts: {
+      correct: "صحيحة",
+      mostlyCorrect: "صحيحة في معظمها",
+      partlyCorrect: "صحيحة جزئيًا",
+      incorrect: "خاطئة",
+    },
+    teacherOverride: "درجة المعلّم",
+    aiScore: "درجة الذكاء الاصطناعي {{score}}/{{max}}",
+    override: "تغيير الدرجة",
+    score: "الدرجة",
+    note: "ملاحظة للطالب",
+    optional: "اختياري",
+    useAiScore: "استخدام درجة الذكاء الاصطناعي",
+    teacher: "المعلّم:",
+    modelAnswer: "الإجابة النموذجية",
+  },
+  weakSpots: {
+    title: "نقاط الضعف",
+    empty: "أجب عن الاختبارات هنا لتتابع مدى إتقانك لكل مفهوم.",
+    weak: "{{weak}} من {{total}} مفاهيم دون إتقان {{percent}}%.",
+    strong: "كل المفاهيم ({{total}}) بإتقان {{percent}}% أو أكثر.",
+    basedOnAnswers: "بناءً على إجاباتك الأخيرة",
+    conceptStats: "{{percent}}% · {{correct}}/{{attempts}} صحيحة",
+    practice: "التدرّب على نقاط ضعفي",
+  },
+  flashcards: {
+    studyMode: "وضع الدراسة بالبطاقات",
+    all: "كل البطاقات",
+    due: "مستحقة للمراجعة",
+    dueCount: "المستحقة: {{total}}",
+    question: "السؤال",
+    answer: "الإجابة",
+    showQuestion: "عرض السؤال",
+    showAnswer: "عرض الإجابة",
+    previous: "البطاقة السابقة",
+    next: "البطاقة التالية",
+    position: "البطاقة {{number}} من {{total}}",
+    grades: {
+      again: "مجددًا",
+      hard: "صعبة",
+      good: "جيدة",
+      easy: "سهلة",
+    },
+    shortcuts: "استخدم ← → للتنقل بين البطاقات، والمسافة لقلب البطاقة، و1-4 لتقييم تذكّرك.",
+    caughtUp: "أنهيت كل شيء! لا توجد بطاقات مستحقة للمراجعة الآن.",
+  },
+  assistant: {
+    fromLibrary: "الإجابة من مكتبتي",
+    documents: "(المستندات: {{total}})",
+    noDocuments: "— لا توجد مستندات بعد.",
+    manageLibrary: "إدارة المكتبة",
+    empty: "اطرح سؤالًا لبدء المحادثة",
+    stop: "إيقاف الإنشاء",
+    send: "إرسال",
+    replyError: "خطأ في إنشاء الرد",
+    sources: "مصادر من مكتبتك",
+    newConversation: "محادثة جديدة",
+    conversationTitle: "عنوان المحادثة",
+    conversationOptions: "خيارات المحادثة",
+    deleteTitle: "حذف المحادثة؟",
+    deleteDescription: "ستُحذف هذه المحادثة وكل رسائلها نهائيًا.",
+  },
+  history: {
+    title: "سجل الإنشاء",
+    description: "تصفّح كل ما أنشأته وأعد فتح أي عنصر في أداة الإنشاء الخاصة به.",
+    search: "البحث في الطلبات والنتائج",
+    allFeatures: "كل الميزات",
+    clear: "مسح السجل",
+    cleared: {
+      title: "تم مسح السجل",
+      description: "أُزيلت كل عمليات الإنشاء المحفوظة.",
+    },
+    noMatches: "لا توجد عمليات إنشاء تطابق بحثك.",
+    empty: "ستظهر عمليات الإنشاء هنا.",
+    versions: "الإصدارات: {{total}}",
+    open: "فتح في أداة الإنشاء",
+  },
+  library: {
+    title: "مكتبتي",
+    description:
+      "أضف كتبك الدراسية وملاحظات محاضراتك ليتمكن مساعد التعلّم من الإجابة منها والإشارة إلى مصادره. تُحفظ المستندات في هذا المتصفح فقط.",
+    indexing: "جارٍ فهرسة {{name}}...",
+    add: "إضافة مستندات (PDF أو DOCX أو TXT)",
+    empty: "مكتبتك فارغة. أضف مستندًا للبدء.",
+    added: "أُضيف في {{date}}",
+    offlineIndex: "فهرس دون اتصال",
+    addedOffline: {
+      title: "أُضيف {{name}}",
+      description: "فُهرس باستخدام تضمينات كلمات مفتاحية دون اتصال، لذا قد يكون البحث أقل دقة.",
+    },
+    addError: {
+      title: "تعذّرت إضافة المستند",
+      description: "حدث خطأ أثناء إضافة {{name}}.",
+    },
+  },
+  settings: {
+    title: "الإعدادات",
+    description: "أدِر البيانات التي يحتفظ بها Aptora في هذا المتصفح.",
+    cache: {
+      title: "ذاكرة الطلبات المؤقتة",
+      description: "تكرار طلب بالقالب والخيارات والنموذج نفسها يعيد النتيجة المحفوظة فورًا.",
+      clear: "مسح الذاكرة المؤقتة",
+      cleared: {
+        title: "تم مسح الذاكرة المؤقتة",
+        description: "سيُرسل كل طلب إلى النموذج من جديد.",
+      },
+      empty: "الذاكرة المؤقتة فارغة.",
+      summary: "الإدخالات: {{entries}} · {{size}} · مرات الاستخدام: {{hits}}",
+      lastUsed: "آخر استخدام: {{date}}",
+      hits: "مرات الاستخدام: {{hits}}",
+      quiz: "{{title}} (الأسئلة: {{total}})",
+      remove: "إزالة من الذاكرة المؤقتة",
+    },
+  },
+  usage: {
+    title: "الاستخدام",
+    description:
+      "طلبات ورموز الذكاء الاصطناعي المستخدمة من هذا المتصفح. تُحسب الأيام بتوقيت UTC، ولا تُحتسب النتائج المحفوظة مؤقتًا.",
+    today: "اليوم",
+    requests: "الطلبات",
+    tokens: "الرموز",
+    ofLimit: "من {{limit}}",
+    noLimit: "· بلا حد",
+    tokensPerDay: "الرموز يوميًا",
+    period: "{{tokens}} رمزًا خلال آخر {{days}} يومًا (الطلبات: {{requests}})",
+    nothing: "لم يُنشأ شيء خلال آخر {{days}} يومًا.",
+    byFeature: "حسب الميزة",
+    feature: "الميزة",
+    inputTokens: "رموز الإدخال",
+    outputTokens: "رموز الإخراج",
+    estimated: "قُدّر {{tokens}} رمزًا من طول النص لأن النموذج لم يُبلغ عن استخدامه.",
+    features: {
+      content: "المحتوى",
+      quiz: "الاختبارات",
+      materials: "المواد",
+      notes: "الملاحظات",
+      flashcards: "البطاقات",
+      assistant: "المساعد",
+      rewrite: "إعادة الكتابة",
+      merge: "الدمج",
+      grade: "التصحيح",
+    },
+  },
+  templates: {
+    title: "قوالب الطلبات",
+    description:
+      "اكتب طلباتك الخاصة لأدوات الإنشاء، مع متغيرات مثل المرحلة الدراسية أو المادة، واخترها عند الإنشاء. تُحفظ القوالب في هذا المتصفح فقط.",
+    mine: "قوالبي",
+    new: "قالب جديد",
+    empty: "ليست لديك قوالب بعد. أنشئ قالبًا أو خصّص أحد القوالب المضمّنة أدناه.",
+    builtIn: "القوالب المضمّنة",
+    builtInDescriptions: {
+      content: "محتوى تعليمي منظّم بعناوين وشروح وأمثلة",
+      quiz: "مزيج من أسئلة الاختيار من متعدد والصواب والخطأ والإجابة القصيرة",
+      materials: "خريطة تعلّم مع موارد وخطوات وتوصيات",
+      notes: "ملاحظات موجزة بالمفاهيم والتعريفات الأساسية",
+      flashcards: "بطاقات سؤال وجواب لوضع الدراسة",
+      assistant: "إجابة مفيدة عن سؤال واحد",
+    },
+    customize: "تخصيص",
+    newName: "قالبي: {{feature}}",
+    updated: "حُدّث في {{date}}",
+    edit: "تعديل {{name}}",
+    delete: "حذف {{name}}",
+    saved: {
+      title: "تم حفظ القالب",
+      description: "أصبح {{name}} في الإصدار {{version}}.",
+    },
+    saveError: {
+      title: "تعذّر حفظ القالب",
+      description: "حدث خطأ أثناء حفظ القالب.",
+    },
+    deleted: {
+      title: "تم حذف القالب",
+      description: "أُزيل {{name}}.",
+    },
+    editor: {
+      name: "الاسم",
+      namePlaceholder: "مثلًا: درس علوم للصف التاسع",
+      generator: "أداة الإنشاء",
+      description: "الوصف",
+      descriptionPlaceholder: "الغرض من هذا القالب",
+      template: "القالب",
+      version: "الإصدار",
+      currentVersion: "الإصدار {{version}} (الحالي)",
+      savedVersion: "الإصدار {{version}} · {{date}}",
+      variablesHint:
+        "أضف متغيراتك الخاصة بين أقواس معقوصة، مثل {{first}} أو {{second}}، واملأها عند الإنشاء. اكتب الأقواس الحرفية على الشكل {{open}} و{{close}}. يملأ التطبيق المتغيرات التالية:",
+      reserved: {
+        userPrompt: "الطلب المكتوب في أداة الإنشاء",
+        generationGuidelines: "الطول والإبداع ومستوى القراءة من لوحة الخيارات المتقدمة",
+        sourceMaterial: "مقتطفات من المستندات المرفوعة، وتكون فارغة إن لم توجد",
+        outputLanguage: "لغة الردود، من قائمة اللغة",
+        formatInstructions: "صيغة JSON التي يجب أن تتبعها الاختبارات (مطلوبة في قوالب الاختبارات)",
+      },
+      defaultValues: "القيم الافتراضية",
+      previewWith: "المعاينة مع الطلب",
+      samplePrompt: "التمثيل الضوئي",
+      fixToPreview: "صحّح القالب لرؤية المعاينة.",
+      save: "حفظ القالب",
+    },
+    errors: {
+      braces: "الأقواس المعقوصة في القالب غير متوازنة. اكتب الأقواس الحرفية على الشكل {{open}} و{{close}}.",
+      userPrompt: "يجب أن يتضمن القالب {{variable}} حتى يُرسل طلب أداة الإنشاء.",
+      formatInstructions: "يجب أن تتضمن قوالب الاختبارات {{variable}} حتى يمكن قراءة الاختبار.",
+    },
+  },
+  profile: {
+    title: "ملف التعلّم",
+    description: "تستخدمه كل أدوات الإنشاء ومساعد التعلّم لتكييف إجاباتها، فلا تحتاج إلى تكراره في كل طلب.",
+    gradeLevel: "المرحلة الدراسية",
+    grade: "الصف {{number}}",
+    gradeLevels: {
+      undergraduate: "المرحلة الجامعية",
+      graduate: "الدراسات العليا",
+      adultLearner: "متعلّم بالغ",
+    },
+    preferredLanguage: "اللغة المفضلة",
+    subjects: "المواد",
+    subjectsPlaceholder: "الأحياء، الجبر، تاريخ العالم",
+    subjectsHint: "افصل بين المواد بفواصل.",
+    learningStyle: "أسلوب التعلّم",
+    learningStyles: {
+      none: "بلا تفضيل",
+      visual: "بصري",
+      auditory: "سمعي",
+      reading_writing: "القراءة والكتابة",
+      kinesthetic: "عملي",
+    },
+    accessibility: "إمكانية الوصول",
+    accessibilityNeeds: {
+      dyslexia: "نص مناسب لعسر القراءة",
+      focus: "مساعدة على التركيز",
+      screen_reader: "قارئ الشاشة",
+      plain_language: "لغة مبسّطة",
+    },
+    notes: "أي شيء آخر",
+    notesPlaceholder: "مثلًا: أستعد لامتحان الثانوية العامة؛ أفضّل الأمثلة الواقعية",
+    save: "حفظ الملف",
+    saved: {
+      title: "تم حفظ ملف التعلّم",
+      description: "ستُكيَّف عمليات الإنشاء الجديدة وفقًا له.",
+    },
+    saveError: {
+      title: "تعذّر حفظ الملف",
+      description: "يُرجى المحاولة مرة أخرى.",
+    },
+  },
+  errors: {
+    quota: {
+      title: "خدمة الذكاء الاصطناعي مشغولة",
+      description: "أُرسل عدد كبير جدًا من الطلبات، أو نفدت حصة الاستخدام. انتظر دقيقة ثم حاول مرة أخرى.",
+    },
+    safety: {
+      title: "تم حظر الرد",
+      description: "حظرت فلاتر الأمان لدى مزوّد الذكاء الاصطناعي هذا الطلب. جرّب إعادة صياغة طلبك.",
+    },
+    network: {
+      title: "تعذّر الوصول إلى خدمة الذكاء الاصطناعي",
+      description: "تحقق من اتصالك بالإنترنت وحاول مرة أخرى.",
+    },
+    invalid_key: {
+      title: "خدمة الذكاء الاصطناعي غير مهيّأة",
+      description: "مفتاح API مفقود أو مرفوض. تحقق من المفتاح في ملف .env.",
+    },
+    timeout: {
+      title: "انتهت مهلة الطلب",
+      description: "استغرقت خدمة الذكاء الاصطناعي وقتًا طويلًا للرد. حاول مرة أخرى، أو اطلب نتيجة أقصر.",
+    },
+    server: {
+      title: "خدمة الذكاء الاصطناعي غير متاحة",
+      description: "واجهت خدمة الذكاء الاصطناعي مشكلة من جهتها. حاول مرة أخرى بعد قليل.",
+    },
+    unauthenticated: {
+      title: "سجّل الدخول للإنشاء",
+      description: "سجّل الدخول إلى حسابك في Aptora لاستخدام ميزات الذكاء الاصطناعي.",
+    },
+    usage_limit: {
+      title: "بلغت الحد اليومي",
+      description:
+        "استخدمت كل طلبات أو رموز الذكاء الاصطناعي لهذا اليوم. يُعاد ضبط الحد عند منتصف الليل بتوقيت UTC؛ راجع صفحة الاستخدام للتفاصيل.",
+    },
+    unknown: {
+      title: "حدث خطأ ما",
+      description: "حدث خطأ أثناء التواصل مع خدمة الذكاء الاصطناعي. يُرجى المحاولة مرة أخرى.",
+    },
+  },
+};
+
+export default ar;
@@ -0,0 +1,765 @@
+// English UI text, the source for every other locale
+const en = {
+  language: {
+    label: "Language",
+    interface: "Interface language",
+    output: "AI responses in",
+    automatic: "Automatic",
+    automaticHint: "Your learner profile's preferred language, otherwise the interface language",
+  },
+  header: {
+    home: "Home",
+    features: "Features",
+    testimonials: "Testimonials",
+    faq: "FAQ",
+    aboutUs: "About Us",
+    contact: "Contact",
+    contactInformation: "Contact Information",
+    signUp: "Sign up",
+    openMenu: "Open Menu",
+    closeMenu: "Close Menu",
+    userMenu: "User menu",
+    toggleTheme: "Toggle theme",
+  },
+  userMenu: {
+    learnerProfile: "Learner profile",
+    history: "History",
+    library: "My library",
+    templates: "Prompt templates",
+    usage: "Usage",
+    settings: "Settings",
+    signOut: "Sign out",
+  },
+  hero: {
+    badge: "Revolutionizing E-Learning with AI",
+    title: "Meet Aptora",
+    description:
+      "A smart, AI-powered e-learning platform that generates personalized study materials, quizzes, flashcards, learning paths, and notes tailored to your learning style.",
+    getStarted: "Get Started",
+  },
+  features: {
+    title: "Innovative Features",
+    subtitle: "Discover the tools that make learning more effective, engaging, and personalized.",
+    content: {
+      name: "Content Generator",
+      summary: "Create educational content",
+      description: "Generate tailored learning content based on your curriculum and learning objectives.",
+      placeholder:
+        "Describe the learning content you need (e.g., 'Create a lesson plan about photosynthesis for 9th grade students')",
+    },
+    quiz: {
+      name: "Quiz Generator",
+      summary: "Craft personalized quizzes",
+      description: "Create customized quizzes with varying difficulty levels to test your knowledge.",
+      placeholder:
+        "Describe the quiz you need (e.g., '10 multiple choice questions about World War II for high school students')",
+    },
+    materials: {
+      name: "E-learning Materials",
+      summary: "Access study resources",
+      description: "Access a comprehensive library of learning materials designed for effective learning.",
+      placeholder:
+        "Describe the learning materials you need (e.g., 'Create a learning roadmap for becoming a web developer')",
+    },
+    notes: {
+      name: "AI Notes Generator",
+      summary: "Summarize and organize notes",
+      description: "Transform complex topics into concise, easy-to-understand notes with AI assistance.",
+      placeholder:
+        "Paste text to summarize or describe what you need notes on (e.g., 'Summarize the key principles of quantum mechanics')",
+    },
+    flashcards: {
+      name: "Flashcard Generator",
+      summary: "Create study flashcards",
+      description: "Create interactive flashcards to boost memorization and enhance learning retention.",
+      placeholder: "Describe the flashcards you need (e.g., 'Create 10 flashcards about human anatomy terms')",
+    },
+    assistant: {
+      name: "AI Learning Assistant",
+      summary: "Get personalized help",
+      description: "Get personalized help and answers to questions as you progress through your learning journey.",
+      placeholder:
+        "Ask any question related to your studies (e.g., 'Explain the difference between mitosis and meiosis')",
+    },
+  },
+  faq: {
+    title: "Frequently Asked Questions",
+    subtitle: "Learn how to use Aptora's AI-powered learning tools",
+    howToUse: "How to use:",
+    tips: "Tips for best results:",
+    content: {
+      instructions: [
+        "Enter a specific topic, subject, or learning objective in the text field",
+        "Add any additional parameters like grade level, complexity, or format",
+        "Click 'Generate Content' to create your custom learning material",
+        "Review the generated content and use the 'Download as PDF' option if needed",
+      ],
+      tips: [
+        "Be specific about your requirements (e.g., 'lesson plan on photosynthesis for 9th grade')",
+        "Mention the desired length or depth of content",
+        "Include any specific teaching methodology if applicable",
+      ],
+      notes: "The more detailed your request, the more tailored the content will be to your needs.",
+    },
+    quiz: {
+      instructions: [
+        "Specify the subject and topic for your quiz",
+        "Choose the number of questions and difficulty level",
+        "Select question types (multiple choice, true/false, short answer, etc.)",
+        "Click 'Generate Quiz' to create your custom assessment",
+        "Use the 'Download as PDF' option to save your quiz",
+      ],
+      tips: [
+        "Include the target audience (e.g., 'middle school students', 'college freshmen')",
+        "Specify if you want answers included in the output",
+        "Mix question types for more comprehensive assessment",
+      ],
+      notes: "For timed quizzes, mention the suggested time limit in your request.",
+    },
+    materials: {
+      instructions: [
+        "Enter the subject area and specific topic you need materials for",
+        "Specify the format (e.g., 'learning roadmap', 'interactive guide')",
+        "Include your learning goals or objectives",
+        "Click 'Generate Materials' to create your resources",
+        "Review and download your customized materials",
+      ],
+      tips: [
+        "Request materials that complement your learning style (visual, auditory, etc.)",
+        "Mention if you need beginner, intermediate, or advanced content",
+        "Ask for specific frameworks or methodologies if relevant",
+      ],
+      notes:
+        "E-learning materials work best when focused on specific skills or knowledge areas rather than broad subjects.",
+    },
+    notes: {
+      instructions: [
+        "Paste text you want to convert into notes, or describe the topic",
+        "Specify the desired format (bullet points, Cornell notes, mind map, etc.)",
+        "Indicate your knowledge level on the subject",
+        "Click 'Generate Notes' to create your summarized content",
+        "Save or download your notes",
+      ],
+      tips: [
+        "For text summarization, paste complete paragraphs for best results",
+        "Request key terminology to be highlighted or defined",
+        "Ask for visual organization like headings, subheadings, and bullet points",
+      ],
+      notes: "The AI Notes Generator works especially well for distilling textbook chapters or lecture transcripts.",
+    },
+    flashcards: {
+      instructions: [
+        "Enter the subject and topic for your flashcards",
+        "Specify the number of flashcards needed",
+        "Indicate if you want simple term/definition cards or more complex question/answer formats",
+        "Click 'Generate Flashcards' to create your study aids",
+        "Download your flashcards as a PDF for printing or digital use",
+      ],
+      tips: [
+        "For language learning, specify if you want pronunciation guides included",
+        "Ask for image suggestions to make visual flashcards",
+        "Request mnemonic devices for difficult-to-remember information",
+      ],
+      notes: "Flashcards are most effective when focused on discrete pieces of information rather than complex concepts.",
+    },
+    assistant: {
+      instructions: [
+        "Type your question directly in the input field",
+        "Be specific about what you're trying to understand",
+        "Provide context about your current knowledge level if relevant",
+        "Click 'Ask Assistant' to receive your personalized answer",
+        "Follow up with additional questions as needed",
+      ],
+      tips: [
+        "Ask 'why' and 'how' questions for deeper understanding",
+        "Request simplified explanations of complex topics",
+        "Ask for real-world examples or applications of abstract concepts",
+      ],
+      notes:
+        "The AI Learning Assistant can provide the most helpful responses when your questions are clear and focused.",
+    },
+  },
+  auth: {
+    email: "Email",
+    password: "Password",
+    emailPlaceholder: "youremail@example.com",
+    invalidEmail: "Please enter a valid email address",
+    passwordTooShort: "Password must be at least 6 characters",
+    login: {
+      title: "Login to your account",
+      description: "Enter your email and password to login.",
+      forgotPassword: "Forgot Password?",
+      submit: "Login",
+      submitting: "Logging in...",
+      failed: "Failed to login. Please check your credentials.",
+      noAccount: "Don't have an account?",
+      signUp: "Sign up",
+    },
+    signup: {
+      title: "Sign Up",
+      description: "Create an account to access all features",
+      confirmPassword: "Confirm Password",
+      showPassword: "Show password",
+      hidePassword: "Hide password",
+      passwordsDontMatch: "Passwords do not match",
+      haveAccount: "Already have an account?",
+      logIn: "Log in",
+      submit: "Create account",
+      submitting: "Creating account...",
+    },
+    reset: {
+      title: "Reset Your Password",
+      description: "Enter your email address and we'll send you a link to reset your password.",
+      sent: "Password reset link sent! Please check your inbox.",
+      failed: "Failed to send password reset email.",
+      submit: "Send Reset Link",
+      submitting: "Sending...",
+      rememberPassword: "Remember your password?",
+      backToLogin: "Back to login",
+    },
+    messages: {
+      signedUp: "Account created successfully!",
+      signupFailed: "Failed to create an account",
+      emailInUse: "Email is already in use",
+      loggedIn: "Logged in successfully!",
+      loginFailed: "Failed to log in",
+      wrongCredentials: "Invalid email or password",
+      tooManyLogins: "Too many unsuccessful login attempts, please try again later",
+      resetFailed: "Failed to reset password",
+      userNotFound: "No account found with this email address",
+      tooManyAttempts: "Too many attempts. Please try again later.",
+      loggedOut: "Logged out successfully",
+      logoutFailed: "Failed to log out",
+    },
+  },
+  testimonials: {
+    title: "What Our Users Say",
+    subtitle:
+      "Real experiences from students, educators, and professionals who've transformed their learning with Aptora.",
+    sarah: {
+      role: "Medical Student",
+      review:
+        "Aptora transformed my study routine. The AI-generated notes helped me grasp complex medical concepts that I struggled with for months. My exam scores improved significantly!",
+    },
+    david: {
+      role: "Computer Science Tutor",
+      review:
+        "As an educator, I've found Aptora's quiz generator to be a game-changer. It creates challenging questions that truly test understanding rather than just memorization.",
+    },
+    amara: {
+      role: "Business Professional",
+      review:
+        "The flashcard feature helped me prepare for my certification exam in half the time. The AI seems to understand which concepts I need to review more often.",
+    },
+  },
+  team: {
+    title: "Our Team",
+    subtitle: "Meet the talented individuals behind Aptora's mission to transform education with AI.",
+    linkedin: "{{name}}'s LinkedIn profile",
+    github: "{{name}}'s GitHub profile",
+    email: "Email {{name}}",
+    aaron: {
+      role: "Founder & Backend Developer",
+      bio: "Passionate backend developer with expertise in building scalable, efficient, and secure systems.",
+    },
+    kari: {
+      role: "Founder & TeamLead",
+      bio:
+        "Passionate about creating innovative educational solutions. Leads the technical development and strategic direction of Aptora.",
+    },
+    sona: {
+      role: "Founder & Frontend Developer",
+      bio: "Creates beautiful, intuitive interfaces that make learning engaging and accessible for all users.",
+    },
+    thrithwik: {
+      role: "Co-Founder & Developer",
+      bio: "Develops the robust infrastructure that powers Aptora's AI learning capabilities and data processing.",
+    },
+  },
+  footer: {
+    about: "About Aptora",
+    aboutText:
+      "Aptora is revolutionizing e-learning with AI technology that adapts to each learner's needs, making education more accessible, personalized, and effective for everyone.",
+    quickLinks: "Quick Links",
+    legal: "Legal",
+    privacyPolicy: "Privacy Policy",
+    termsOfService: "Terms of Service",
+    cookiePolicy: "Cookie Policy",
+    contact: "Contact",
+    rights: "© {{year}} Aptora. All rights reserved.",
+  },
+  storage: {
+    blocked:
+      "Aptora was updated in another tab. Close the other Aptora tabs, then try again.",
+  },
+  common: {
+    cancel: "Cancel",
+    save: "Save",
+    delete: "Delete",
+    rename: "Rename",
+    tryAgain: "Try again",
+    notSet: "Not set",
+  },
+  generator: {
+    generate: "Generate",
+    generating: "Generating...",
+    stop: "Stop generating",
+    placeholder: "AI-generated content will appear here",
+    emptyPrompt: {
+      title: "Please enter a prompt",
+      description: "You need to provide some input for the AI to generate content.",
+    },
+    practicing: {
+      title: "Practicing your weak spots",
+      description: "Your prompt was replaced with the practice request.",
+      restore: "Restore your prompt",
+      undo: "Undo",
+    },
+    cached: {
+      title: "Loaded from cache",
+      description: "This prompt was generated before. Use the refresh button for a new version.",
+    },
+    stopped: {
+      title: "Generation stopped",
+      variant: "The new version was discarded.",
+      quiz: "The quiz was not generated.",
+      partial: "The partial result has been kept.",
+    },
+    mergeError: "Error merging versions",
+    copied: {
+      title: "Copied to clipboard",
+      description: "The generated content has been copied to your clipboard.",
+    },
+    exported: {
+      title: "Export downloaded",
+      description: "Downloaded: {{files}}",
+    },
+    exportError: {
+      title: "Error exporting {{format}}",
+      description: "There was an error exporting the result. Please try again.",
+    },
+    showingVersion: "Showing {{version}} of {{total}}",
+    compareVersions: "Compare versions",
+    regenerate: "Generate another version",
+    edit: "Edit result",
+    copy: "Copy to clipboard",
+    export: "Export",
+  },
+  sources: {
+    reading: "Reading documents...",
+    attach: "Attach lecture material (PDF, DOCX, TXT)",
+    sections: "Sections: {{total}}",
+    remove: "Remove {{name}}",
+    readError: "Could not read document",
+    unsupported: "Unsupported file type: {{name}}. Upload a PDF, DOCX or TXT file.",
+    tooLarge: "{{name}} is larger than 20 MB.",
+    noText: "No text could be found in {{name}}. Scanned documents are not supported.",
+    fileError: "There was an error reading {{name}}.",
+  },
+  templatePicker: {
+    label: "Prompt template",
+    default: "Default template",
+    custom: "{{name}} (v{{version}})",
+    preview: "Preview prompt",
+    previewTitle: "Prompt preview",
+    manage: "Manage templates",
+  },
+  options: {
+    advanced: "Advanced",
+    length: "Length",
+    lengths: {
+      short: "Short",
+      medium: "Medium",
+      long: "Long",
+    },
+    creativity: "Creativity",
+    creativityLevels: {
+      focused: "Focused",
+      balanced: "Balanced",
+      creative: "Creative",
+    },
+    readingLevel: "Reading level",
+    readingLevels: {
+      elementary: "Elementary school",
+      middle_school: "Middle school",
+      high_school: "High school",
+      college: "College",
+      expert: "Expert",
+    },
+    reset: "Reset to defaults",
+  },
+  editor: {
+    label: "Edit result",
+    undo: "Undo",
+    redo: "Redo",
+    actions: {
+      simplify: "Simplify",
+      expand: "Expand",
+      example: "Add example",
+      translate: "Translate",
+    },
+    translationLanguage: "Translation language",
+    selected: "Characters selected: {{total}}",
+    hint: "Select a passage to simplify, expand, illustrate or translate it.",
+    done: "Done",
+    rewriteError: "Error rewriting selection",
+  },
+  variants: {
+    version: "Version {{number}}",
+    merged: "Version {{number}} (merged)",
+    title: "Compare versions",
+    close: "Close comparison",
+    current: "Current version",
+    use: "Use this version",
+    mergeHint: "Combine the best parts of both versions into a new one.",
+    merge: "Merge versions",
+  },
+  exportDialog: {
+    title: "Export result",
+    format: "Format",
+    formats: {
+      pdf: { label: "PDF", description: "Formatted document for printing and sharing" },
+      docx: { label: "Word (DOCX)", description: "Editable document for Word or Google Docs" },
+      markdown: { label: "Markdown", description: "The result as written, for notes apps and editors" },
+      html: { label: "Web page (HTML)", description: "Single web page with rendered math and code" },
+      text: { label: "Plain text", description: "Unformatted text" },
+      apkg: { label: "Anki deck (APKG)", description: "Deck package to open in Anki" },
+      "anki-csv": { label: "Anki (CSV)", description: "Cards for Anki's File > Import" },
+      quizlet: { label: "Quizlet (TSV)", description: "Tab-separated cards to paste into Quizlet's import" },
+      "quiz-pdf": {
+        label: "Printable quiz (PDF)",
+        description: "Student copies with answer bubbles, plus a separate answer key",
+      },
+      qti: { label: "QTI 2.1 package", description: "For Canvas, Blackboard and other LMS quiz imports" },
+      moodle: { label: "Moodle XML", description: "Questions for a Moodle question bank" },
+      gift: { label: "GIFT", description: "Moodle's text format for quiz questions" },
+    },
+    testVersions: "Test versions",
+    oneVersion: "One version",
+    versionRange: "A to {{last}}",
+    shuffleQuestions: "Shuffle question order",
+    shuffleOptions: "Shuffle answer options",
+    answerKey: "Downloads the student copies and a separate answer key covering every version.",
+    missingFonts:
+      "The PDF font for {{scripts, list}} text isn't installed, so that text would come out unreadable. Export as Word or HTML instead, or add the fonts to public/fonts.",
+    filename: "Filename:",
+    filenamePlaceholder: "Enter filename (without .{{extension}})",
+    download: "Download .{{extension}}",
+    noFlashcards: "No flashcards were found in the result to export.",
+    noQuiz: "The result could not be read as a quiz to export.",
+  },
+  quiz: {
+    gradingAll: "Grading short answers…",
+    score: "You scored {{score}} out of {{total}}",
+    answered: "{{answered}} of {{total}} questions answered",
+    types: {
+      multiple_choice: "Multiple choice",
+      true_false: "True / False",
+      short_answer: "Short answer",
+    },
+    difficulties: {
+      easy: "Easy",
+      medium: "Medium",
+      hard: "Hard",
+    },
+    answerPlaceholder: "Type your answer",
+    grading: "Grading your answer…",
+    correct: "Correct",
+    correctAnswer: "Correct answer: {{answer}}",
+    gradingFailed: "Couldn't grade this answer: {{message}}",
+    retake: "Retake quiz",
+    submit: "Submit answers",
+  },
+  grading: {
+    verdicts: {
+      correct: "Correct",
+      mostlyCorrect: "Mostly correct",
+      partlyCorrect: "Partly correct",
+      incorrect: "Incorrect",
+    },
+    teacherOverride: "Teacher override",
+    aiScore: "AI score {{score}}/{{max}}",
+    override: "Override",
+    score: "Score",
+    note: "Note for the student",
+    optional: "Optional",
+    useAiScore: "Use AI score",
+    teacher: "Teacher:",
+    modelAnswer: "Model answer",
+  },
+  weakSpots: {
+    title: "Weak spots",
+    empty: "Answer quizzes here to track how well you know each concept.",
+    weak: "{{weak}} of {{total}} concepts below {{percent}}% mastery.",
+    strong: "All {{total}} concepts are at {{percent}}% mastery or above.",
+    basedOnAnswers: "Based on your recent answers",
+    conceptStats: "{{percent}}% · {{correct}}/{{attempts}} correct",
+    practice: "Practice my weak spots",
+  },
+  flashcards: {
+    studyMode: "Flashcard study mode",
+    all: "All cards",
+    due: "Due for review",
+    dueCount: "Due: {{total}}",
+    question: "Question",
+    answer: "Answer",
+    showQuestion: "Show question",
+    showAnswer: "Show answer",
+    previous: "Previous card",
+    next: "Next card",
+    position: "Card {{number}} of {{total}}",
+    grades: {
+      again: "Again",
+      hard: "Hard",
+      good: "Good",
+      easy: "Easy",
+    },
+    shortcuts: "Use ← → to move between cards, Space to flip, and 1-4 to rate your recall.",
+    caughtUp: "All caught up! No cards are due for review right now.",
+  },
+  assistant: {
+    fromLibrary: "Answer from my library",
+    documents: "(documents: {{total}})",
+    noDocuments: "— no documents yet.",
+    manageLibrary: "Manage library",
+    empty: "Ask a question to start the conversation",
+    stop: "Stop generating",
+    send: "Send",
+    replyError: "Error generating reply",
+    sources: "Sources from your library",
+    newConversation: "New conversation",
+    conversationTitle: "Conversation title",
+    conversationOptions: "Conversation options",
+    deleteTitle: "Delete conversation?",
+    deleteDescription: "This conversation and all of its messages will be permanently removed.",
+  },
+  history: {
+    title: "Generation History",
+    description: "Browse everything you have generated and reopen any item in its generator.",
+    search: "Search prompts and results",
+    allFeatures: "All features",
+    clear: "Clear history",
+    cleared: {
+      title: "History cleared",
+      description: "All saved generations have been removed.",
+    },
+    noMatches: "No generations match your search.",
+    empty: "Your generations will appear here.",
+    versions: "Versions: {{total}}",
+    open: "Open in generator",
+  },
+  library: {
+    title: "My Library",
+    description:
+      "Add your textbooks and lecture notes so the Learning Assistant can answer from them and cite its sources. Documents are stored only in this browser.",
+    indexing: "Indexing {{name}}...",
+    add: "Add documents (PDF, DOCX, TXT)",
+    empty: "Your library is empty. Add a document to get started.",
+    added: "Added {{date}}",
+    offlineIndex: "Offline index",
+    addedOffline: {
+      title: "{{name}} added",
+      description: "It was indexed with offline keyword embeddings, so search may be less precise.",
+    },
+    addError: {
+      title: "Could not add document",
+      description: "There was an error adding {{name}}.",
+    },
+  },
+  settings: {
+    title: "Settings",
+    description: "Manage the data Aptora keeps in this browser.",
+    cache: {
+      title: "Request cache",
+      description: "Repeating a prompt with the same template, options and model returns the saved result instantly.",
+      clear: "Clear cache",
+      cleared: {
+        title: "Cache cleared",
+        description: "Every prompt will be sent to the model again.",
+      },
+      empty: "The cache is empty.",
+      summary: "Entries: {{entries}} · {{size}} · Hits: {{hits}}",
+      lastUsed: "Last used {{date}}",
+      hits: "Hits: {{hits}}",
+      quiz: "{{title}} (questions: {{total}})",
+      remove: "Remove from cache",
+    },
+  },
+  usage: {
+    title: "Usage",
+    description: "AI requests and tokens used from this browser. Days run on UTC, and cached results don't count.",
+    today: "Today",
+    requests: "Requests",
+    tokens: "Tokens",
+    ofLimit: "of {{limit}}",
+    noLimit: "· no limit",
+    tokensPerDay: "Tokens per day",
+    period: "{{tokens}} tokens over the last {{days}} days (requests: {{requests}})",
+    nothing: "Nothing generated in the last {{days}} days.",
+    byFeature: "By feature",
+    feature: "Feature",
+    inputTokens: "Input tokens",
+    outputTokens: "Output tokens",
+    estimated: "{{tokens}} tokens were estimated from the text length because the model didn't report its usage.",
+    features: {
+      content: "Content",
+      quiz: "Quizzes",
+      materials: "Materials",
+      notes: "Notes",
+      flashcards: "Flashcards",
+      assistant: "Assistant",
+      rewrite: "Rewrites",
+      merge: "Merges",
+      grade: "Grading",
+    },
+  },
+  templates: {
+    title: "Prompt Templates",
+    description:
+      "Write your own prompts for the generators, with variables such as grade level or subject, and pick them when generating. Templates are stored only in this browser.",
+    mine: "My templates",
+    new: "New template",
+    empty: "You have no templates yet. Create one or customize a built-in template below.",
+    builtIn: "Built-in templates",
+    builtInDescriptions: {
+      content: "Structured educational content with headings, explanations and examples",
+      quiz: "A mix of multiple choice, true/false and short answer questions",
+      materials: "A learning roadmap with resources, steps and recommendations",
+      notes: "Concise notes with key concepts and definitions",
+      flashcards: "Question and answer cards for study mode",
+      assistant: "A helpful answer to a single question",
+    },
+    customize: "Customize",
+    newName: "My {{feature}} template",
+    updated: "Updated {{date}}",
+    edit: "Edit {{name}}",
+    delete: "Delete {{name}}",
+    saved: {
+      title: "Template saved",
+      description: "{{name}} is at version {{version}}.",
+    },
+    saveError: {
+      title: "Could not save template",
+      description: "There was an error saving the template.",
+    },
+    deleted: {
+      title: "Template deleted",
+      description: "{{name}} was removed.",
+    },
+    editor: {
+      name: "Name",
+      namePlaceholder: "e.g. Year 9 science lesson",
+      generator: "Generator",
+      description: "Description",
+      descriptionPlaceholder: "What this template is for",
+      template: "Template",
+      version: "Version",
+      currentVersion: "Version {{version}} (current)",
+      savedVersion: "Version {{version}} · {{date}}",
+      variablesHint:
+        "Add your own variables in braces, such as {{first}} or {{second}}, and fill them in when generating. Write literal braces as {{open}} and {{close}}. These are filled in by the app:",
+      reserved: {
+        userPrompt: "The prompt typed in the generator",
+        generationGuidelines: "Length, creativity and reading level from the Advanced panel",
+        sourceMaterial: "Excerpts from uploaded documents, empty when there are none",
+        outputLanguage: "The language responses are written in, from the language menu",
+        formatInstructions: "The JSON format quizzes must follow (required in quiz templates)",
+      },
+      defaultValues: "Default values",
+      previewWith: "Preview with prompt",
+      samplePrompt: "Photosynthesis",
+      fixToPreview: "Fix the template to see a preview.",
+      save: "Save template",
+    },
+    errors: {
+      braces: "The template has unbalanced braces. Write literal braces as {{open}} and {{close}}.",
+      userPrompt: "The template must include {{variable}} so the generator's prompt is sent.",
+      formatInstructions: "Quiz templates must include {{variable}} so the quiz can be read back.",
+    },
+  },
+  profile: {
+    title: "Learner profile",
+    description:
+      "Every generator and the Learning Assistant use this to tailor their answers, so you don't have to repeat it in each prompt.",
+    gradeLevel: "Grade level",
+    grade: "Grade {{number}}",
+    gradeLevels: {
+      undergraduate: "Undergraduate",
+      graduate: "Graduate",
+      adultLearner: "Adult learner",
+    },
+    preferredLanguage: "Preferred language",
+    subjects: "Subjects",
+    subjectsPlaceholder: "Biology, Algebra, World History",
+    subjectsHint: "Separate subjects with commas.",
+    learningStyle: "Learning style",
+    learningStyles: {
+      none: "No preference",
+      visual: "Visual",
+      auditory: "Auditory",
+      reading_writing: "Reading and writing",
+      kinesthetic: "Hands-on",
+    },
+    accessibility: "Accessibility",
+    accessibilityNeeds: {
+      dyslexia: "Dyslexia-friendly text",
+      focus: "Help staying focused",
+      screen_reader: "Screen reader",
+      plain_language: "Plain language",
+    },
+    notes: "Anything else",
+    notesPlaceholder: "e.g. Preparing for the SAT; prefers real-world examples",
+    save: "Save profile",
+    saved: {
+      title: "Learner profile saved",
+      description: "New generations will be tailored to it.",
+    },
+    saveError: {
+      title: "Couldn't save the profile",
+      description: "Please try again.",
+    },
+  },
+  errors: {
+    quota: {
+      title: "The AI service is busy",
+      description: "Too many requests were made, or the usage quota has run out. Wait a minute and try again.",
+    },
+    safety: {
+      title: "Response blocked",
+      description: "The AI provider's safety filters blocked this request. Try rephrasing your prompt.",
+    },
+    network: {
+      title: "Can't reach the AI service",
+      description: "Check your internet connection and try again.",
+    },
+    invalid_key: {
+      title: "AI service not configured",
+      description: "The API key is missing or was rejected. Check the key in your .env file.",
+    },
+    timeout: {
+      title: "The request timed out",
+      description: "The AI service took too long to respond. Try again, or ask for a shorter result.",
+    },
+    server: {
+      title: "AI service unavailable",
+      description: "The AI service had a problem on its side. Try again in a moment.",
+    },
+    unauthenticated: {
+      title: "Sign in to generate",
+      description: "Sign in to your Aptora account to use the AI features.",
+    },
+    usage_limit: {
+      title: "Daily limit reached",
+      description:
+        "You've used all of today's AI requests or tokens. The limit resets at midnight UTC; see Usage for details.",
+    },
+    unknown: {
+      title: "Something went wrong",
+      description: "There was an error talking to the AI service. Please try again.",
+    },
+  },
+};
+
+export type Translation = typeof en;
+
+export default en;
@@ -0,0 +1,766 @@
+import type { Translation } from "./en";
+
+const es: Translation = {
+  language: {
+    label: "Idioma",
+    interface: "Idioma de la interfaz",
+    output: "Respuestas de la IA en",
+    automatic: "Automático",
+    automaticHint: "El idioma preferido de tu perfil de aprendizaje o, si no, el de la interfaz",
+  },
+  header: {
+    home: "Inicio",
+    features: "Funciones",
+    testimonials: "Testimonios",
+    faq: "Preguntas frecuentes",
+    aboutUs: "Sobre nosotros",
+    contact: "Contacto",
+    contactInformation: "Información de contacto",
+    signUp: "Registrarse",
+    openMenu: "Abrir menú",
+    closeMenu: "Cerrar menú",
+    userMenu: "Menú de usuario",
+    toggleTheme: "Cambiar tema",
+  },
+  userMenu: {
+    learnerProfile: "Perfil de aprendizaje",
+    history: "Historial",
+    library: "Mi biblioteca",
+    templates: "Plantillas de instrucciones",
+    usage: "Uso",
+    settings: "Configuración",
+    signOut: "Cerrar sesión",
+  },
+  hero: {
+    badge: "Revolucionando el aprendizaje en línea con IA",
+    title: "Conoce Aptora",
+    description:
+      "Una plataforma inteligente de aprendizaje en línea con IA que genera materiales de estudio, cuestionarios, tarjetas de memoria, rutas de aprendizaje y apuntes personalizados según tu estilo de aprendizaje.",
+    getStarted: "Comenzar",
+  },
+  features: {
+    title: "Funciones innovadoras",
+    subtitle: "Descubre las herramientas que hacen el aprendizaje más eficaz, atractivo y personalizado.",
+    content: {
+      name: "Generador de contenido",
+      summary: "Crea contenido educativo",
+      description: "Genera contenido de aprendizaje adaptado a tu plan de estudios y a tus objetivos de aprendizaje.",
+      placeholder:
+        "Describe el contenido que necesitas (p. ej., 'Crea un plan de clase sobre la fotosíntesis para alumnos de 3.º de ESO')",
+    },
+    quiz: {
+      name: "Generador de cuestionarios",
+      summary: "Crea cuestionarios personalizados",
+      description: "Crea cuestionarios personalizados con distintos niveles de dificultad para poner a prueba tus conocimientos.",
+      placeholder:
+        "Describe el cuestionario que necesitas (p. ej., '10 preguntas de opción múltiple sobre la Segunda Guerra Mundial para bachillerato')",
+    },
+    materials: {
+      name: "Materiales de e-learning",
+      summary: "Accede a recursos de estudio",
+      description: "Accede a una biblioteca completa de materiales diseñados para aprender de forma eficaz.",
+      placeholder:
+        "Describe los materiales que necesitas (p. ej., 'Crea una ruta de aprendizaje para ser desarrollador web')",
+    },
+    notes: {
+      name: "Generador de apuntes con IA",
+      summary: "Resume y organiza apuntes",
+      description: "Convierte temas complejos en apuntes breves y fáciles de entender con ayuda de la IA.",
+      placeholder:
+        "Pega un texto para resumir o describe el tema de tus apuntes (p. ej., 'Resume los principios clave de la mecánica cuántica')",
+    },
+    flashcards: {
+      name: "Generador de tarjetas",
+      summary: "Crea tarjetas de estudio",
+      description: "Crea tarjetas de memoria interactivas para memorizar mejor y retener lo aprendido.",
+      placeholder: "Describe las tarjetas que necesitas (p. ej., 'Crea 10 tarjetas sobre términos de anatomía humana')",
+    },
+    assistant: {
+      name: "Asistente de aprendizaje con IA",
+      summary: "Recibe ayuda personalizada",
+      description: "Recibe ayuda personalizada y respuestas a tus preguntas a medida que avanzas en tu aprendizaje.",
+      placeholder:
+        "Haz cualquier pregunta sobre tus estudios (p. ej., 'Explica la diferencia entre mitosis y meiosis')",
+    },
+  },
+  faq: {
+    title: "Preguntas frecuentes",
+    subtitle: "Aprende a usar las herramientas de aprendizaje con IA de Aptora",
+    howToUse: "Cómo usarlo:",
+    tips: "Consejos para obtener mejores resultados:",
+    content: {
+      instructions: [
+        "Escribe un tema, una materia o un objetivo de aprendizaje concreto en el campo de texto",
+        "Añade cualquier parámetro adicional, como el curso, la complejidad o el formato",
+        "Haz clic en 'Generar' para crear tu material de aprendizaje",
+        "Revisa el contenido generado y descárgalo como PDF si lo necesitas",
+      ],
+      tips: [
+        "Sé concreto con lo que necesitas (p. ej., 'plan de clase sobre la fotosíntesis para 3.º de ESO')",
+        "Indica la extensión o la profundidad que quieres",
+        "Incluye la metodología de enseñanza que prefieras, si la hay",
+      ],
+      notes: "Cuanto más detallada sea tu petición, mejor se adaptará el contenido a lo que necesitas.",
+    },
+    quiz: {
+      instructions: [
+        "Indica la materia y el tema del cuestionario",
+        "Elige el número de preguntas y el nivel de dificultad",
+        "Selecciona los tipos de pregunta (opción múltiple, verdadero/falso, respuesta corta, etc.)",
+        "Haz clic en 'Generar' para crear tu evaluación",
+        "Descarga el cuestionario como PDF para guardarlo",
+      ],
+      tips: [
+        "Incluye el público al que va dirigido (p. ej., 'alumnos de secundaria', 'estudiantes universitarios de primer año')",
+        "Indica si quieres que se incluyan las respuestas",
+        "Combina tipos de pregunta para una evaluación más completa",
+      ],
+      notes: "Para cuestionarios con tiempo, indica en tu petición el tiempo límite recomendado.",
+    },
+    materials: {
+      instructions: [
+        "Escribe el área y el tema concreto para los que necesitas materiales",
+        "Indica el formato (p. ej., 'ruta de aprendizaje', 'guía interactiva')",
+        "Incluye tus metas u objetivos de aprendizaje",
+        "Haz clic en 'Generar' para crear tus recursos",
+        "Revisa y descarga tus materiales personalizados",
+      ],
+      tips: [
+        "Pide materiales que encajen con tu estilo de aprendizaje (visual, auditivo, etc.)",
+        "Indica si necesitas contenido de nivel básico, intermedio o avanzado",
+        "Pide marcos o metodologías concretos si son relevantes",
+      ],
+      notes:
+        "Los materiales funcionan mejor cuando se centran en habilidades o áreas de conocimiento concretas y no en materias muy amplias.",
+    },
+    notes: {
+      instructions: [
+        "Pega el texto que quieres convertir en apuntes o describe el tema",
+        "Indica el formato que quieres (viñetas, método Cornell, mapa mental, etc.)",
+        "Indica tu nivel de conocimiento sobre el tema",
+        "Haz clic en 'Generar' para crear tu resumen",
+        "Guarda o descarga tus apuntes",
+      ],
+      tips: [
+        "Para resumir un texto, pega párrafos completos",
+        "Pide que se destaquen o definan los términos clave",
+        "Pide una organización visual con títulos, subtítulos y viñetas",
+      ],
+      notes: "El generador de apuntes funciona especialmente bien para condensar capítulos de libros de texto o transcripciones de clases.",
+    },
+    flashcards: {
+      instructions: [
+        "Escribe la materia y el tema de tus tarjetas",
+        "Indica cuántas tarjetas necesitas",
+        "Indica si quieres tarjetas sencillas de término y definición o de pregunta y respuesta",
+        "Haz clic en 'Generar' para crear tu material de estudio",
+        "Descarga tus tarjetas como PDF para imprimirlas o usarlas en formato digital",
+      ],
+      tips: [
+        "Para aprender idiomas, indica si quieres guías de pronunciación",
+        "Pide sugerencias de imágenes para crear tarjetas visuales",
+        "Pide reglas mnemotécnicas para la información difícil de recordar",
+      ],
+      notes: "Las tarjetas son más eficaces con datos concretos que con conceptos complejos.",
+    },
+    assistant: {
+      instructions: [
+        "Escribe tu pregunta directamente en el campo de texto",
+        "Sé concreto sobre lo que intentas entender",
+        "Da contexto sobre tu nivel de conocimiento si es relevante",
+        "Envía la pregunta para recibir una respuesta personalizada",
+        "Haz más preguntas de seguimiento si lo necesitas",
+      ],
+      tips: [
+        "Haz preguntas de 'por qué' y 'cómo' para entender mejor",
+        "Pide explicaciones sencillas de temas complejos",
+        "Pide ejemplos reales o aplicaciones de conceptos abstractos",
+      ],
+      notes: "El asistente da las respuestas más útiles cuando tus preguntas son claras y concretas.",
+    },
+  },
+  auth: {
+    email: "Correo electrónico",
+    password: "Contraseña",
+    emailPlaceholder: "tucorreo@ejemplo.com",
+    invalidEmail: "Introduce una dirección de correo válida",
+    passwordTooShort: "La contraseña debe tener al menos 6 caracteres",
+    login: {
+      title: "Inicia sesión en tu cuenta",
+      description: "Introduce tu correo y tu contraseña para iniciar sesión.",
+      forgotPassword: "¿Olvidaste tu contraseña?",
+      submit: "Iniciar sesión",
+      submitting: "Iniciando sesión...",
+      failed: "No se pudo iniciar sesión. Comprueba tus credenciales.",
+      noAccount: "¿No tienes una cuenta?",
+      signUp: "Regístrate",
+    },
+    signup: {
+      title: "Registrarse",
+      description: "Crea una cuenta para acceder a todas las funciones",
+      confirmPassword: "Confirmar contraseña",
+      showPassword: "Mostrar contraseña",
+      hidePassword: "Ocultar contraseña",
+      passwordsDontMatch: "Las contraseñas no coinciden",
+      haveAccount: "¿Ya tienes una cuenta?",
+      logIn: "Inicia sesión",
+      submit: "Crear cuenta",
+      submitting: "Creando cuenta...",
+    },
+    reset: {
+      title: "Restablece tu contraseña",
+      description: "Introduce tu correo electrónico y te enviaremos un enlace para restablecer tu contraseña.",
+      sent: "¡Enlace de restablecimiento enviado! Revisa tu bandeja de entrada.",
+      failed: "No se pudo enviar el correo para restablecer la contraseña.",
+      submit: "Enviar enlace",
+      submitting: "Enviando...",
+      rememberPassword: "¿Recuerdas tu contraseña?",
+      backToLogin: "Volver a iniciar sesión",
+    },
+    messages: {
+      signedUp: "¡Cuenta creada correctamente!",
+      signupFailed: "No se pudo crear la cuenta",
+      emailInUse: "El correo electrónico ya está en uso",
+      loggedIn: "¡Sesión iniciada correctamente!",
+      loginFailed: "No se pudo iniciar sesión",
+      wrongCredentials: "Correo o contraseña no válidos",
+      tooManyLogins: "Demasiados intentos fallidos de inicio de sesión; inténtalo más tarde",
+      resetFailed: "No se pudo restablecer la contraseña",
+      userNotFound: "No hay ninguna cuenta con este correo electrónico",
+      tooManyAttempts: "Demasiados intentos. Inténtalo más tarde.",
+      loggedOut: "Sesión cerrada correctamente",
+      logoutFailed: "No se pudo cerrar la sesión",
+    },
+  },
+  testimonials: {
+    title: "Lo que dicen nuestros usuarios",
+    subtitle:
+      "Experiencias reales de estudiantes, docentes y profesionales que han transformado su aprendizaje con Aptora.",
+    sarah: {
+      role: "Estudiante de Medicina",
+      review:
+        "Aptora transformó mi rutina de estudio. Los apuntes generados por IA me ayudaron a entender conceptos médicos complejos con los que llevaba meses luchando. ¡Mis notas en los exámenes mejoraron muchísimo!",
+    },
+    david: {
+      role: "Tutor de Informática",
+      review:
+        "Como docente, el generador de cuestionarios de Aptora me ha cambiado las reglas del juego. Crea preguntas exigentes que evalúan de verdad la comprensión y no solo la memoria.",
+    },
+    amara: {
+      role: "Profesional de negocios",
+      review:
+        "Las tarjetas de estudio me ayudaron a preparar mi examen de certificación en la mitad de tiempo. La IA parece entender qué conceptos necesito repasar más a menudo.",
+    },
+  },
+  team: {
+    title: "Nuestro equipo",
+    subtitle: "Conoce a las personas con talento detrás de la misión de Aptora de transformar la educación con IA.",
+    linkedin: "Perfil de LinkedIn de {{name}}",
+    github: "Perfil de GitHub de {{name}}",
+    email: "Enviar un correo a {{name}}",
+    aaron: {
+      role: "Fundador y desarrollador backend",
+      bio: "Desarrollador backend apasionado, experto en crear sistemas escalables, eficientes y seguros.",
+    },
+    kari: {
+      role: "Fundador y líder del equipo",
+      bio:
+        "Apasionado por crear soluciones educativas innovadoras. Dirige el desarrollo técnico y la estrategia de Aptora.",
+    },
+    sona: {
+      role: "Fundadora y desarrolladora frontend",
+      bio: "Crea interfaces atractivas e intuitivas que hacen el aprendizaje ameno y accesible para todos.",
+    },
+    thrithwik: {
+      role: "Cofundador y desarrollador",
+      bio:
+        "Desarrolla la sólida infraestructura que impulsa el aprendizaje con IA y el procesamiento de datos de Aptora.",
+    },
+  },
+  footer: {
+    about: "Acerca de Aptora",
+    aboutText:
+      "Aptora está revolucionando el aprendizaje en línea con una IA que se adapta a las necesidades de cada estudiante y hace la educación más accesible, personalizada y eficaz para todos.",
+    quickLinks: "Enlaces rápidos",
+    legal: "Legal",
+    privacyPolicy: "Política de privacidad",
+    termsOfService: "Términos del servicio",
+    cookiePolicy: "Política de cookies",
+    contact: "Contacto",
+    rights: "© {{year}} Aptora. Todos los derechos reservados.",
+  },
+  storage: {
+    blocked:
+      "Aptora se actualizó en otra pestaña. Cierra las demás pestañas de Aptora y vuelve a intentarlo.",
+  },
+  common: {
+    cancel: "Cancelar",
+    save: "Guardar",
+    delete: "Eliminar",
+    rename: "Renombrar",
+    tryAgain: "Reintentar",
+    notSet: "Sin definir",
+  },
+  generator: {
+    generate: "Generar",
+    generating: "Generando...",
+    stop: "Detener la generación",
+    placeholder: "El contenido generado por la IA aparecerá aquí",
+    emptyPrompt: {
+      title: "Escribe una instrucción",
+      description: "Tienes que escribir algo para que la IA genere contenido.",
+    },
+    practicing: {
+      title: "Practicando tus puntos débiles",
+      description: "Tu instrucción se ha sustituido por la petición de práctica.",
+      restore: "Recuperar tu instrucción",
+      undo: "Deshacer",
+    },
+    cached: {
+      title: "Cargado desde la caché",
+      description: "Esta instrucción ya se generó antes. Usa el botón de actualizar para obtener una versión nueva.",
+    },
+    stopped: {
+      title: "Generación detenida",
+      variant: "Se ha descartado la nueva versión.",
+      quiz: "No se ha generado el cuestionario.",
+      partial: "Se ha conservado el resultado parcial.",
+    },
+    mergeError: "Error al combinar las versiones",
+    copied: {
+      title: "Copiado al portapapeles",
+      description: "El contenido generado se ha copiado en tu portapapeles.",
+    },
+    exported: {
+      title: "Exportación descargada",
+      description: "Descargado: {{files}}",
+    },
+    exportError: {
+      title: "Error al exportar {{format}}",
+      description: "Se ha producido un error al exportar el resultado. Inténtalo de nuevo.",
+    },
+    showingVersion: "Mostrando {{version}} de {{total}}",
+    compareVersions: "Comparar versiones",
+    regenerate: "Generar otra versión",
+    edit: "Editar el resultado",
+    copy: "Copiar al portapapeles",
+    export: "Exportar",
+  },
+  sources: {
+    reading: "Leyendo documentos...",
+    attach: "Adjuntar material de clase (PDF, DOCX, TXT)",
+    sections: "Secciones: {{total}}",
+    remove: "Quitar {{name}}",
+    readError: "No se ha podido leer el documento",
+    unsupported: "Tipo de archivo no admitido: {{name}}. Sube un archivo PDF, DOCX o TXT.",
+    tooLarge: "{{name}} ocupa más de 20 MB.",
+    noText: "No se ha encontrado texto en {{name}}. Los documentos escaneados no son compatibles.",
+    fileError: "Se ha producido un error al leer {{name}}.",
+  },
+  templatePicker: {
+    label: "Plantilla de instrucciones",
+    default: "Plantilla predeterminada",
+    custom: "{{name}} (v{{version}})",
+    preview: "Vista previa de la instrucción",
+    previewTitle: "Vista previa de la instrucción",
+    manage: "Gestionar plantillas",
+  },
+  options: {
+    advanced: "Opciones avanzadas",
+    length: "Extensión",
+    lengths: {
+      short: "Corta",
+      medium: "Media",
+      long: "Larga",
+    },
+    creativity: "Creatividad",
+    creativityLevels: {
+      focused: "Precisa",
+      balanced: "Equilibrada",
+      creative: "Creativa",
+    },
+    readingLevel: "Nivel de lectura",
+    readingLevels: {
+      elementary: "Primaria",
+      middle_school: "Secundaria",
+      high_school: "Bachillerato",
+      college: "Universidad",
+      expert: "Experto",
+    },
+    reset: "Restablecer valores predeterminados",
+  },
+  editor: {
+    label: "Editar el resultado",
+    undo: "Deshacer",
+    redo: "Rehacer",
+    actions: {
+      simplify: "Simplificar",
+      expand: "Ampliar",
+      example: "Añadir ejemplo",
+      translate: "Traducir",
+    },
+    translationLanguage: "Idioma de la traducción",
+    selected: "Caracteres seleccionados: {{total}}",
+    hint: "Selecciona un fragmento para simplificarlo, ampliarlo, ilustrarlo con un ejemplo o traducirlo.",
+    done: "Listo",
+    rewriteError: "Error al reescribir la selección",
+  },
+  variants: {
+    version: "Versión {{number}}",
+    merged: "Versión {{number}} (combinada)",
+    title: "Comparar versiones",
+    close: "Cerrar la comparación",
+    current: "Versión actual",
+    use: "Usar esta versión",
+    mergeHint: "Combina lo mejor de las dos versiones en una nueva.",
+    merge: "Combinar versiones",
+  },
+  exportDialog: {
+    title: "Exportar el resultado",
+    format: "Formato",
+    formats: {
+      pdf: { label: "PDF", description: "Documento con formato para imprimir y compartir" },
+      docx: { label: "Word (DOCX)", description: "Documento editable para Word o Google Docs" },
+      markdown: { label: "Markdown", description: "El resultado tal cual, para apps de notas y editores" },
+      html: { label: "Página web (HTML)", description: "Una sola página web con fórmulas y código renderizados" },
+      text: { label: "Texto sin formato", description: "Texto sin ningún formato" },
+      apkg: { label: "Mazo de Anki (APKG)", description: "Paquete de mazo para abrir en Anki" },
+      "anki-csv": { label: "Anki (CSV)", description: "Tarjetas para Archivo > Importar de Anki" },
+      quizlet: { label: "Quizlet (TSV)", description: "Tarjetas separadas por tabulaciones para pegar en la importación de Quizlet" },
+      "quiz-pdf": {
+        label: "Cuestionario imprimible (PDF)",
+        description: "Copias para el alumnado con casillas de respuesta y una hoja de respuestas aparte",
+      },
+      qti: { label: "Paquete QTI 2.1", description: "Para importar cuestionarios en Canvas, Blackboard y otros LMS" },
+      moodle: { label: "Moodle XML", description: "Preguntas para un banco de preguntas de Moodle" },
+      gift: { label: "GIFT", description: "El formato de texto de Moodle para preguntas de cuestionario" },
+    },
+    testVersions: "Versiones del examen",
+    oneVersion: "Una versión",
+    versionRange: "De la A a la {{last}}",
+    shuffleQuestions: "Barajar el orden de las preguntas",
+    shuffleOptions: "Barajar las opciones de respuesta",
+    answerKey: "Descarga las copias para el alumnado y una hoja de respuestas aparte que cubre todas las versiones.",
+    missingFonts:
+      "La fuente PDF para el texto en {{scripts, list}} no está instalada, así que ese texto saldría ilegible. Exporta en Word o HTML, o añade las fuentes a public/fonts.",
+    filename: "Nombre del archivo:",
+    filenamePlaceholder: "Escribe el nombre del archivo (sin .{{extension}})",
+    download: "Descargar .{{extension}}",
+    noFlashcards: "No se han encontrado tarjetas en el resultado para exportar.",
+    noQuiz: "El resultado no se ha podido leer como un cuestionario para exportar.",
+  },
+  quiz: {
+    gradingAll: "Corrigiendo las respuestas cortas…",
+    score: "Has obtenido {{score}} de {{total}}",
+    answered: "Preguntas respondidas: {{answered}} de {{total}}",
+    types: {
+      multiple_choice: "Opción múltiple",
+      true_false: "Verdadero / Falso",
+      short_answer: "Respuesta corta",
+    },
+    difficulties: {
+      easy: "Fácil",
+      medium: "Media",
+      hard: "Difícil",
+    },
+    answerPlaceholder: "Escribe tu respuesta",
+    grading: "Corrigiendo tu respuesta…",
+    correct: "Correcto",
+    correctAnswer: "Respuesta correcta: {{answer}}",
+    gradingFailed: "No se ha podido corregir esta respuesta: {{message}}",
+    retake: "Repetir el cuestionario",
+    submit: "Enviar respuestas",
+  },
+  grading: {
+    verdicts: {
+      correct: "Correcta",
+      mostlyCorrect: "Casi correcta",
+      partlyCorrect: "Parcialmente correcta",
+      incorrect: "Incorrecta",
+    },
+    teacherOverride: "Nota del docente",
+    aiScore: "Nota de la IA {{score}}/{{max}}",
+    override: "Cambiar la nota",
+    score: "Nota",
+    note: "Comentario para el alumno",
+    optional: "Opcional",
+    useAiScore: "Usar la nota de la IA",
+    teacher: "Docente:",
+    modelAnswer: "Respuesta modelo",
+  },
+  weakSpots: {
+    title: "Puntos débiles",
+    empty: "Responde cuestionarios aquí para ver cuánto dominas cada concepto.",
+    weak: "{{weak}} de {{total}} conceptos por debajo del {{percent}} % de dominio.",
+    strong: "Todos los conceptos ({{total}}) tienen un dominio del {{percent}} % o más.",
+    basedOnAnswers: "Según tus respuestas recientes",
+    conceptStats: "{{percent}} % · {{correct}}/{{attempts}} correctas",
+    practice: "Practicar mis puntos débiles",
+  },
+  flashcards: {
+    studyMode: "Modo de estudio con tarjetas",
+    all: "Todas las tarjetas",
+    due: "Pendientes de repaso",
+    dueCount: "Pendientes: {{total}}",
+    question: "Pregunta",
+    answer: "Respuesta",
+    showQuestion: "Mostrar la pregunta",
+    showAnswer: "Mostrar la respuesta",
+    previous: "Tarjeta anterior",
+    next: "Tarjeta siguiente",
+    position: "Tarjeta {{number}} de {{total}}",
+    grades: {
+      again: "Otra vez",
+      hard: "Difícil",
+      good: "Bien",
+      easy: "Fácil",
+    },
+    shortcuts: "Usa ← → para pasar de tarjeta, Espacio para darle la vuelta y 1-4 para valorar cuánto recordabas.",
+    caughtUp: "¡Todo al día! Ahora mismo no hay tarjetas pendientes de repaso.",
+  },
+  assistant: {
+    fromLibrary: "Responder a partir de mi biblioteca",
+    documents: "(documentos: {{total}})",
+    noDocuments: "— todavía no hay documentos.",
+    manageLibrary: "Gestionar la biblioteca",
+    empty: "Haz una pregunta para empezar la conversación",
+    stop: "Detener la generación",
+    send: "Enviar",
+    replyError: "Error al generar la respuesta",
+    sources: "Fuentes de tu biblioteca",
+    newConversation: "Nueva conversación",
+    conversationTitle: "Título de la conversación",
+    conversationOptions: "Opciones de la conversación",
+    deleteTitle: "¿Eliminar la conversación?",
+    deleteDescription: "Esta conversación y todos sus mensajes se eliminarán de forma permanente.",
+  },
+  history: {
+    title: "Historial de generaciones",
+    description: "Consulta todo lo que has generado y vuelve a abrir cualquier elemento en su generador.",
+    search: "Buscar en instrucciones y resultados",
+    allFeatures: "Todas las funciones",
+    clear: "Borrar el historial",
+    cleared: {
+      title: "Historial borrado",
+      description: "Se han eliminado todas las generaciones guardadas.",
+    },
+    noMatches: "Ninguna generación coincide con tu búsqueda.",
+    empty: "Tus generaciones aparecerán aquí.",
+    versions: "Versiones: {{total}}",
+    open: "Abrir en el generador",
+  },
+  library: {
+    title: "Mi biblioteca",
+    description:
+      "Añade tus libros de texto y apuntes de clase para que el asistente de aprendizaje pueda responder a partir de ellos y citar sus fuentes. Los documentos solo se guardan en este navegador.",
+    indexing: "Indexando {{name}}...",
+    add: "Añadir documentos (PDF, DOCX, TXT)",
+    empty: "Tu biblioteca está vacía. Añade un documento para empezar.",
+    added: "Añadido el {{date}}",
+    offlineIndex: "Índice sin conexión",
+    addedOffline: {
+      title: "{{name}} añadido",
+      description: "Se ha indexado con vectores de palabras clave sin conexión, así que la búsqueda puede ser menos precisa.",
+    },
+    addError: {
+      title: "No se ha podido añadir el documento",
+      description: "Se ha producido un error al añadir {{name}}.",
+    },
+  },
+  settings: {
+    title: "Configuración",
+    description: "Gestiona los datos que Aptora guarda en este navegador.",
+    cache: {
+      title: "Caché de peticiones",
+      description:
+        "Repetir una instrucción con la misma plantilla, las mismas opciones y el mismo modelo devuelve al instante el resultado guardado.",
+      clear: "Vaciar la caché",
+      cleared: {
+        title: "Caché vaciada",
+        description: "Todas las instrucciones se volverán a enviar al modelo.",
+      },
+      empty: "La caché está vacía.",
+      summary: "Entradas: {{entries}} · {{size}} · Aciertos: {{hits}}",
+      lastUsed: "Último uso: {{date}}",
+      hits: "Aciertos: {{hits}}",
+      quiz: "{{title}} (preguntas: {{total}})",
+      remove: "Quitar de la caché",
+    },
+  },
+  usage: {
+    title: "Uso",
+    description:
+      "Peticiones y tokens de IA usados desde este navegador. Los días se cuentan en UTC y los resultados en caché no cuentan.",
+    today: "Hoy",
+    requests: "Peticiones",
+    tokens: "Tokens",
+    ofLimit: "de {{limit}}",
+    noLimit: "· sin límite",
+    tokensPerDay: "Tokens por día",
+    period: "{{tokens}} tokens en los últimos {{days}} días (peticiones: {{requests}})",
+    nothing: "No se ha generado nada en los últimos {{days}} días.",
+    byFeature: "Por función",
+    feature: "Función",
+    inputTokens: "Tokens de entrada",
+    outputTokens: "Tokens de salida",
+    estimated: "{{tokens}} tokens se estimaron a partir de la longitud del texto porque el modelo no informó de su uso.",
+    features: {
+      content: "Contenido",
+      quiz: "Cuestionarios",
+      materials: "Materiales",
+      notes: "Apuntes",
+      flashcards: "Tarjetas",
+      assistant: "Asistente",
+      rewrite: "Reescrituras",
+      merge: "Combinaciones",
+      grade: "Correcciones",
+    },
+  },
+  templates: {
+    title: "Plantillas de instrucciones",
+    description:
+      "Escribe tus propias instrucciones para los generadores, con variables como el curso o la materia, y elígelas al generar. Las plantillas solo se guardan en este navegador.",
+    mine: "Mis plantillas",
+    new: "Nueva plantilla",
+    empty: "Todavía no tienes plantillas. Crea una o personaliza una de las plantillas integradas de abajo.",
+    builtIn: "Plantillas integradas",
+    builtInDescriptions: {
+      content: "Contenido educativo estructurado con títulos, explicaciones y ejemplos",
+      quiz: "Una mezcla de preguntas de opción múltiple, verdadero/falso y respuesta corta",
+      materials: "Una ruta de aprendizaje con recursos, pasos y recomendaciones",
+      notes: "Apuntes breves con los conceptos y las definiciones clave",
+      flashcards: "Tarjetas de pregunta y respuesta para el modo de estudio",
+      assistant: "Una respuesta útil a una sola pregunta",
+    },
+    customize: "Personalizar",
+    newName: "Mi plantilla de {{feature}}",
+    updated: "Actualizada el {{date}}",
+    edit: "Editar {{name}}",
+    delete: "Eliminar {{name}}",
+    saved: {
+      title: "Plantilla guardada",
+      description: "{{name}} está en la versión {{version}}.",
+    },
+    saveError: {
+      title: "No se ha podido guardar la plantilla",
+      description: "Se ha producido un error al guardar la plantilla.",
+    },
+    deleted: {
+      title: "Plantilla eliminada",
+      description: "Se ha eliminado {{name}}.",
+    },
+    editor: {
+      name: "Nombre",
+      namePlaceholder: "p. ej., Clase de ciencias de 3.º de ESO",
+      generator: "Generador",
+      description: "Descripción",
+      descriptionPlaceholder: "Para qué sirve esta plantilla",
+      template: "Plantilla",
+      version: "Versión",
+      currentVersion: "Versión {{version}} (actual)",
+      savedVersion: "Versión {{version}} · {{date}}",
+      variablesHint:
+        "Añade tus propias variables entre llaves, como {{first}} o {{second}}, y rellénalas al generar. Escribe las llaves literales como {{open}} y {{close}}. Estas las rellena la aplicación:",
+      reserved: {
+        userPrompt: "La instrucción escrita en el generador",
+        generationGuidelines: "Extensión, creatividad y nivel de lectura del panel de opciones avanzadas",
+        sourceMaterial: "Fragmentos de los documentos subidos; vacío si no hay ninguno",
+        outputLanguage: "El idioma de las respuestas, según el menú de idioma",
+        formatInstructions: "El formato JSON que deben seguir los cuestionarios (obligatorio en las plantillas de cuestionario)",
+      },
+      defaultValues: "Valores predeterminados",
+      previewWith: "Vista previa con la instrucción",
+      samplePrompt: "La fotosíntesis",
+      fixToPreview: "Corrige la plantilla para ver la vista previa.",
+      save: "Guardar la plantilla",
+    },
+    errors: {
+      braces: "La plantilla tiene llaves desparejadas. Escribe las llaves literales como {{open}} y {{close}}.",
+      userPrompt: "La plantilla debe incluir {{variable}} para que se envíe la instrucción del generador.",
+      formatInstructions: "Las plantillas de cuestionario deben incluir {{variable}} para poder leer el cuestionario.",
+    },
+  },
+  profile: {
+    title: "Perfil de aprendizaje",
+    description:
+      "Todos los generadores y el asistente de aprendizaje lo usan para adaptar sus respuestas, así no tienes que repetirlo en cada instrucción.",
+    gradeLevel: "Curso",
+    grade: "{{number}}.º curso",
+    gradeLevels: {
+      undergraduate: "Grado universitario",
+      graduate: "Posgrado",
+      adultLearner: "Formación de adultos",
+    },
+    preferredLanguage: "Idioma preferido",
+    subjects: "Materias",
+    subjectsPlaceholder: "Biología, Álgebra, Historia universal",
+    subjectsHint: "Separa las materias con comas.",
+    learningStyle: "Estilo de aprendizaje",
+    learningStyles: {
+      none: "Sin preferencia",
+      visual: "Visual",
+      auditory: "Auditivo",
+      reading_writing: "Lectura y escritura",
+      kinesthetic: "Práctico",
+    },
+    accessibility: "Accesibilidad",
+    accessibilityNeeds: {
+      dyslexia: "Texto adaptado a la dislexia",
+      focus: "Ayuda para mantener la concentración",
+      screen_reader: "Lector de pantalla",
+      plain_language: "Lenguaje sencillo",
+    },
+    notes: "Algo más",
+    notesPlaceholder: "p. ej., Preparando la selectividad; prefiere ejemplos de la vida real",
+    save: "Guardar el perfil",
+    saved: {
+      title: "Perfil de aprendizaje guardado",
+      description: "Las nuevas generaciones se adaptarán a él.",
+    },
+    saveError: {
+      title: "No se ha podido guardar el perfil",
+      description: "Inténtalo de nuevo.",
+    },
+  },
+  errors: {
+    quota: {
+      title: "El servicio de IA está saturado",
+      description: "Se han hecho demasiadas peticiones o se ha agotado la cuota de uso. Espera un minuto y vuelve a intentarlo.",
+    },
+    safety: {
+      title: "Respuesta bloqueada",
+      description: "Los filtros de seguridad del proveedor de IA han bloqueado esta petición. Prueba a reformular tu instrucción.",
+    },
+    network: {
+      title: "No se puede conectar con el servicio de IA",
+      description: "Comprueba tu conexión a internet y vuelve a intentarlo.",
+    },
+    invalid_key: {
+      title: "El servicio de IA no está configurado",
+      description: "Falta la clave de API o se ha rechazado. Revisa la clave en tu archivo .env.",
+    },
+    timeout: {
+      title: "Se ha agotado el tiempo de espera",
+      description: "El servicio de IA ha tardado demasiado en responder. Vuelve a intentarlo o pide un resultado más breve.",
+    },
+    server: {
+      title: "Servicio de IA no disponible",
+      description: "El servicio de IA ha tenido un problema. Vuelve a intentarlo en un momento.",
+    },
+    unauthenticated: {
+      title: "Inicia sesión para generar",
+      description: "Inicia sesión en tu cuenta de Aptora para usar las funciones de IA.",
+    },
+    usage_limit: {
+      title: "Límite diario alcanzado",
+      description:
+        "Has usado todas las peticiones o tokens de IA de hoy. El límite se restablece a medianoche UTC; consulta Uso para más detalles.",
+    },
+    unknown: {
+      title: "Algo ha salido mal",
+      description: "Se ha producido un error al comunicarse con el servicio de IA. Inténtalo de nuevo.",
+    },
+  },
+};
+
+export default es;
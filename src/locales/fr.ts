@@ -0,0 +1,769 @@
+import type { Translation } from "./en";
+
+const fr: Translation = {
+  language: {
+    label: "Langue",
+    interface: "Langue de l'interface",
+    output: "Réponses de l'IA en",
+    automatic: "Automatique",
+    automaticHint: "La langue préférée de votre profil d'apprentissage, sinon celle de l'interface",
+  },
+  header: {
+    home: "Accueil",
+    features: "Fonctionnalités",
+    testimonials: "Témoignages",
+    faq: "FAQ",
+    aboutUs: "À propos",
+    contact: "Contact",
+    contactInformation: "Coordonnées",
+    signUp: "S'inscrire",
+    openMenu: "Ouvrir le menu",
+    closeMenu: "Fermer le menu",
+    userMenu: "Menu utilisateur",
+    toggleTheme: "Changer de thème",
+  },
+  userMenu: {
+    learnerProfile: "Profil d'apprentissage",
+    history: "Historique",
+    library: "Ma bibliothèque",
+    templates: "Modèles de prompts",
+    usage: "Utilisation",
+    settings: "Paramètres",
+    signOut: "Se déconnecter",
+  },
+  hero: {
+    badge: "L'IA au service de l'apprentissage en ligne",
+    title: "Découvrez Aptora",
+    description:
+      "Une plateforme d'apprentissage en ligne intelligente, propulsée par l'IA, qui génère des supports de cours, des quiz, des fiches, des parcours et des notes adaptés à votre style d'apprentissage.",
+    getStarted: "Commencer",
+  },
+  features: {
+    title: "Des fonctionnalités innovantes",
+    subtitle: "Découvrez les outils qui rendent l'apprentissage plus efficace, plus motivant et plus personnalisé.",
+    content: {
+      name: "Générateur de contenu",
+      summary: "Créer du contenu pédagogique",
+      description: "Générez du contenu pédagogique adapté à votre programme et à vos objectifs d'apprentissage.",
+      placeholder:
+        "Décrivez le contenu dont vous avez besoin (ex. : « Crée un plan de cours sur la photosynthèse pour des élèves de troisième »)",
+    },
+    quiz: {
+      name: "Générateur de quiz",
+      summary: "Créer des quiz personnalisés",
+      description: "Créez des quiz personnalisés, de difficulté variable, pour tester vos connaissances.",
+      placeholder:
+        "Décrivez le quiz dont vous avez besoin (ex. : « 10 QCM sur la Seconde Guerre mondiale pour des lycéens »)",
+    },
+    materials: {
+      name: "Supports d'e-learning",
+      summary: "Accéder aux ressources",
+      description: "Accédez à une bibliothèque complète de supports conçus pour apprendre efficacement.",
+      placeholder:
+        "Décrivez les supports dont vous avez besoin (ex. : « Crée un parcours pour devenir développeur web »)",
+    },
+    notes: {
+      name: "Générateur de notes IA",
+      summary: "Résumer et organiser ses notes",
+      description: "Transformez des sujets complexes en notes claires et concises grâce à l'IA.",
+      placeholder:
+        "Collez un texte à résumer ou décrivez le sujet de vos notes (ex. : « Résume les grands principes de la mécanique quantique »)",
+    },
+    flashcards: {
+      name: "Générateur de fiches",
+      summary: "Créer des fiches de révision",
+      description: "Créez des fiches interactives pour mieux mémoriser et retenir ce que vous apprenez.",
+      placeholder: "Décrivez les fiches dont vous avez besoin (ex. : « Crée 10 fiches sur le vocabulaire de l'anatomie humaine »)",
+    },
+    assistant: {
+      name: "Assistant d'apprentissage IA",
+      summary: "Obtenir une aide personnalisée",
+      description: "Obtenez une aide personnalisée et des réponses à vos questions tout au long de votre apprentissage.",
+      placeholder:
+        "Posez une question sur vos études (ex. : « Explique la différence entre la mitose et la méiose »)",
+    },
+  },
+  faq: {
+    title: "Questions fréquentes",
+    subtitle: "Découvrez comment utiliser les outils d'apprentissage IA d'Aptora",
+    howToUse: "Mode d'emploi :",
+    tips: "Conseils pour de meilleurs résultats :",
+    content: {
+      instructions: [
+        "Saisissez un sujet, une matière ou un objectif d'apprentissage précis dans le champ de texte",
+        "Ajoutez d'autres paramètres comme le niveau, la complexité ou le format",
+        "Cliquez sur « Générer » pour créer votre support",
+        "Relisez le contenu généré et téléchargez-le en PDF si besoin",
+      ],
+      tips: [
+        "Soyez précis sur vos besoins (ex. : « plan de cours sur la photosynthèse pour la troisième »)",
+        "Indiquez la longueur ou le niveau de détail souhaité",
+        "Précisez une méthode pédagogique si nécessaire",
+      ],
+      notes: "Plus votre demande est détaillée, plus le contenu sera adapté à vos besoins.",
+    },
+    quiz: {
+      instructions: [
+        "Indiquez la matière et le sujet du quiz",
+        "Choisissez le nombre de questions et le niveau de difficulté",
+        "Sélectionnez les types de questions (QCM, vrai/faux, réponse courte, etc.)",
+        "Cliquez sur « Générer » pour créer votre évaluation",
+        "Téléchargez le quiz en PDF pour le conserver",
+      ],
+      tips: [
+        "Précisez le public visé (ex. : « collégiens », « étudiants de première année »)",
+        "Indiquez si les réponses doivent être incluses",
+        "Variez les types de questions pour une évaluation plus complète",
+      ],
+      notes: "Pour un quiz chronométré, indiquez la durée conseillée dans votre demande.",
+    },
+    materials: {
+      instructions: [
+        "Saisissez le domaine et le sujet précis pour lesquels vous avez besoin de supports",
+        "Précisez le format (ex. : « parcours d'apprentissage », « guide interactif »)",
+        "Indiquez vos objectifs d'apprentissage",
+        "Cliquez sur « Générer » pour créer vos ressources",
+        "Relisez et téléchargez vos supports personnalisés",
+      ],
+      tips: [
+        "Demandez des supports adaptés à votre style d'apprentissage (visuel, auditif, etc.)",
+        "Précisez si vous voulez un contenu débutant, intermédiaire ou avancé",
+        "Demandez un cadre ou une méthode précise si c'est utile",
+      ],
+      notes:
+        "Les supports sont plus efficaces lorsqu'ils portent sur des compétences ou des notions précises plutôt que sur des matières entières.",
+    },
+    notes: {
+      instructions: [
+        "Collez le texte à transformer en notes, ou décrivez le sujet",
+        "Précisez le format voulu (liste à puces, méthode Cornell, carte mentale, etc.)",
+        "Indiquez votre niveau de connaissances sur le sujet",
+        "Cliquez sur « Générer » pour créer votre résumé",
+        "Enregistrez ou téléchargez vos notes",
+      ],
+      tips: [
+        "Pour résumer un texte, collez des paragraphes complets",
+        "Demandez que les termes clés soient mis en valeur ou définis",
+        "Demandez une organisation visuelle avec des titres, des sous-titres et des puces",
+      ],
+      notes: "Le générateur de notes est particulièrement efficace pour condenser des chapitres de manuel ou des transcriptions de cours.",
+    },
+    flashcards: {
+      instructions: [
+        "Saisissez la matière et le sujet de vos fiches",
+        "Indiquez le nombre de fiches voulu",
+        "Précisez si vous voulez des fiches terme/définition simples ou des fiches question/réponse",
+        "Cliquez sur « Générer » pour créer vos fiches",
+        "Téléchargez vos fiches en PDF pour les imprimer ou les utiliser à l'écran",
+      ],
+      tips: [
+        "Pour les langues, précisez si vous voulez la prononciation",
+        "Demandez des idées d'images pour des fiches visuelles",
+        "Demandez des moyens mnémotechniques pour les notions difficiles à retenir",
+      ],
+      notes: "Les fiches sont plus efficaces pour des informations précises que pour des notions complexes.",
+    },
+    assistant: {
+      instructions: [
+        "Tapez votre question directement dans le champ de saisie",
+        "Précisez ce que vous cherchez à comprendre",
+        "Donnez votre niveau de connaissances si c'est utile",
+        "Envoyez la question pour recevoir une réponse personnalisée",
+        "Posez des questions de suivi si nécessaire",
+      ],
+      tips: [
+        "Posez des questions « pourquoi » et « comment » pour approfondir",
+        "Demandez des explications simplifiées des sujets complexes",
+        "Demandez des exemples concrets ou des applications des notions abstraites",
+      ],
+      notes: "L'assistant répond au mieux lorsque vos questions sont claires et ciblées.",
+    },
+  },
+  auth: {
+    email: "E-mail",
+    password: "Mot de passe",
+    emailPlaceholder: "votremail@exemple.com",
+    invalidEmail: "Veuillez saisir une adresse e-mail valide",
+    passwordTooShort: "Le mot de passe doit contenir au moins 6 caractères",
+    login: {
+      title: "Connectez-vous à votre compte",
+      description: "Saisissez votre e-mail et votre mot de passe pour vous connecter.",
+      forgotPassword: "Mot de passe oublié ?",
+      submit: "Se connecter",
+      submitting: "Connexion...",
+      failed: "Échec de la connexion. Vérifiez vos identifiants.",
+      noAccount: "Vous n'avez pas de compte ?",
+      signUp: "Inscrivez-vous",
+    },
+    signup: {
+      title: "Inscription",
+      description: "Créez un compte pour accéder à toutes les fonctionnalités",
+      confirmPassword: "Confirmer le mot de passe",
+      showPassword: "Afficher le mot de passe",
+      hidePassword: "Masquer le mot de passe",
+      passwordsDontMatch: "Les mots de passe ne correspondent pas",
+      haveAccount: "Vous avez déjà un compte ?",
+      logIn: "Connectez-vous",
+      submit: "Créer un compte",
+      submitting: "Création du compte...",
+    },
+    reset: {
+      title: "Réinitialisez votre mot de passe",
+      description:
+        "Saisissez votre adresse e-mail et nous vous enverrons un lien pour réinitialiser votre mot de passe.",
+      sent: "Lien de réinitialisation envoyé ! Consultez votre boîte de réception.",
+      failed: "Impossible d'envoyer l'e-mail de réinitialisation.",
+      submit: "Envoyer le lien",
+      submitting: "Envoi...",
+      rememberPassword: "Vous vous souvenez de votre mot de passe ?",
+      backToLogin: "Retour à la connexion",
+    },
+    messages: {
+      signedUp: "Compte créé avec succès !",
+      signupFailed: "Impossible de créer le compte",
+      emailInUse: "Cette adresse e-mail est déjà utilisée",
+      loggedIn: "Connexion réussie !",
+      loginFailed: "Échec de la connexion",
+      wrongCredentials: "E-mail ou mot de passe incorrect",
+      tooManyLogins: "Trop de tentatives de connexion échouées, réessayez plus tard",
+      resetFailed: "Impossible de réinitialiser le mot de passe",
+      userNotFound: "Aucun compte n'est associé à cette adresse e-mail",
+      tooManyAttempts: "Trop de tentatives. Réessayez plus tard.",
+      loggedOut: "Déconnexion réussie",
+      logoutFailed: "Échec de la déconnexion",
+    },
+  },
+  testimonials: {
+    title: "Ce qu'en disent nos utilisateurs",
+    subtitle:
+      "Les expériences réelles d'étudiants, d'enseignants et de professionnels qui ont transformé leur apprentissage avec Aptora.",
+    sarah: {
+      role: "Étudiante en médecine",
+      review:
+        "Aptora a transformé ma façon de réviser. Les notes générées par l'IA m'ont aidée à comprendre des notions médicales complexes qui me résistaient depuis des mois. Mes résultats aux examens se sont nettement améliorés !",
+    },
+    david: {
+      role: "Tuteur en informatique",
+      review:
+        "En tant qu'enseignant, le générateur de quiz d'Aptora a tout changé pour moi. Il crée des questions exigeantes qui évaluent vraiment la compréhension, pas seulement la mémorisation.",
+    },
+    amara: {
+      role: "Professionnelle du commerce",
+      review:
+        "Les fiches de révision m'ont permis de préparer mon examen de certification en deux fois moins de temps. L'IA semble comprendre quelles notions je dois revoir plus souvent.",
+    },
+  },
+  team: {
+    title: "Notre équipe",
+    subtitle:
+      "Découvrez les personnes talentueuses qui portent la mission d'Aptora : transformer l'éducation grâce à l'IA.",
+    linkedin: "Profil LinkedIn de {{name}}",
+    github: "Profil GitHub de {{name}}",
+    email: "Écrire à {{name}}",
+    aaron: {
+      role: "Fondateur et développeur backend",
+      bio: "Développeur backend passionné, spécialiste des systèmes évolutifs, efficaces et sécurisés.",
+    },
+    kari: {
+      role: "Fondateur et chef d'équipe",
+      bio:
+        "Passionné par la création de solutions éducatives innovantes. Dirige le développement technique et la stratégie d'Aptora.",
+    },
+    sona: {
+      role: "Fondatrice et développeuse frontend",
+      bio: "Conçoit des interfaces belles et intuitives qui rendent l'apprentissage motivant et accessible à tous.",
+    },
+    thrithwik: {
+      role: "Cofondateur et développeur",
+      bio:
+        "Développe l'infrastructure robuste qui alimente l'apprentissage par IA et le traitement des données d'Aptora.",
+    },
+  },
+  footer: {
+    about: "À propos d'Aptora",
+    aboutText:
+      "Aptora révolutionne l'apprentissage en ligne avec une IA qui s'adapte aux besoins de chaque apprenant, pour une éducation plus accessible, personnalisée et efficace pour tous.",
+    quickLinks: "Liens rapides",
+    legal: "Mentions légales",
+    privacyPolicy: "Politique de confidentialité",
+    termsOfService: "Conditions d'utilisation",
+    cookiePolicy: "Politique relative aux cookies",
+    contact: "Contact",
+    rights: "© {{year}} Aptora. Tous droits réservés.",
+  },
+  storage: {
+    blocked:
+      "Aptora a été mis à jour dans un autre onglet. Fermez les autres onglets Aptora, puis réessayez.",
+  },
+  common: {
+    cancel: "Annuler",
+    save: "Enregistrer",
+    delete: "Supprimer",
+    rename: "Renommer",
+    tryAgain: "Réessayer",
+    notSet: "Non défini",
+  },
+  generator: {
+    generate: "Générer",
+    generating: "Génération...",
+    stop: "Arrêter la génération",
+    placeholder: "Le contenu généré par l'IA s'affichera ici",
+    emptyPrompt: {
+      title: "Saisissez une demande",
+      description: "L'IA a besoin d'une demande pour générer du contenu.",
+    },
+    practicing: {
+      title: "Entraînement sur vos points faibles",
+      description: "Votre demande a été remplacée par la demande d'entraînement.",
+      restore: "Rétablir votre demande",
+      undo: "Annuler",
+    },
+    cached: {
+      title: "Chargé depuis le cache",
+      description: "Cette demande a déjà été générée. Utilisez le bouton d'actualisation pour obtenir une nouvelle version.",
+    },
+    stopped: {
+      title: "Génération arrêtée",
+      variant: "La nouvelle version a été abandonnée.",
+      quiz: "Le quiz n'a pas été généré.",
+      partial: "Le résultat partiel a été conservé.",
+    },
+    mergeError: "Erreur lors de la fusion des versions",
+    copied: {
+      title: "Copié dans le presse-papiers",
+      description: "Le contenu généré a été copié dans votre presse-papiers.",
+    },
+    exported: {
+      title: "Export téléchargé",
+      description: "Téléchargé : {{files}}",
+    },
+    exportError: {
+      title: "Erreur lors de l'export {{format}}",
+      description: "Une erreur est survenue pendant l'export du résultat. Veuillez réessayer.",
+    },
+    showingVersion: "{{version}} sur {{total}}",
+    compareVersions: "Comparer les versions",
+    regenerate: "Générer une autre version",
+    edit: "Modifier le résultat",
+    copy: "Copier dans le presse-papiers",
+    export: "Exporter",
+  },
+  sources: {
+    reading: "Lecture des documents...",
+    attach: "Joindre un support de cours (PDF, DOCX, TXT)",
+    sections: "Sections : {{total}}",
+    remove: "Retirer {{name}}",
+    readError: "Impossible de lire le document",
+    unsupported: "Type de fichier non pris en charge : {{name}}. Importez un fichier PDF, DOCX ou TXT.",
+    tooLarge: "{{name}} dépasse 20 Mo.",
+    noText: "Aucun texte trouvé dans {{name}}. Les documents numérisés ne sont pas pris en charge.",
+    fileError: "Une erreur est survenue pendant la lecture de {{name}}.",
+  },
+  templatePicker: {
+    label: "Modèle de prompt",
+    default: "Modèle par défaut",
+    custom: "{{name}} (v{{version}})",
+    preview: "Aperçu du prompt",
+    previewTitle: "Aperçu du prompt",
+    manage: "Gérer les modèles",
+  },
+  options: {
+    advanced: "Options avancées",
+    length: "Longueur",
+    lengths: {
+      short: "Courte",
+      medium: "Moyenne",
+      long: "Longue",
+    },
+    creativity: "Créativité",
+    creativityLevels: {
+      focused: "Précise",
+      balanced: "Équilibrée",
+      creative: "Créative",
+    },
+    readingLevel: "Niveau de lecture",
+    readingLevels: {
+      elementary: "École primaire",
+      middle_school: "Collège",
+      high_school: "Lycée",
+      college: "Université",
+      expert: "Expert",
+    },
+    reset: "Rétablir les valeurs par défaut",
+  },
+  editor: {
+    label: "Modifier le résultat",
+    undo: "Annuler",
+    redo: "Rétablir",
+    actions: {
+      simplify: "Simplifier",
+      expand: "Développer",
+      example: "Ajouter un exemple",
+      translate: "Traduire",
+    },
+    translationLanguage: "Langue de traduction",
+    selected: "Caractères sélectionnés : {{total}}",
+    hint: "Sélectionnez un passage pour le simplifier, le développer, l'illustrer ou le traduire.",
+    done: "Terminé",
+    rewriteError: "Erreur lors de la réécriture de la sélection",
+  },
+  variants: {
+    version: "Version {{number}}",
+    merged: "Version {{number}} (fusionnée)",
+    title: "Comparer les versions",
+    close: "Fermer la comparaison",
+    current: "Version actuelle",
+    use: "Utiliser cette version",
+    mergeHint: "Combinez le meilleur des deux versions dans une nouvelle.",
+    merge: "Fusionner les versions",
+  },
+  exportDialog: {
+    title: "Exporter le résultat",
+    format: "Format",
+    formats: {
+      pdf: { label: "PDF", description: "Document mis en forme pour l'impression et le partage" },
+      docx: { label: "Word (DOCX)", description: "Document modifiable dans Word ou Google Docs" },
+      markdown: { label: "Markdown", description: "Le résultat tel quel, pour les applis de notes et les éditeurs" },
+      html: { label: "Page web (HTML)", description: "Page web unique avec formules et code mis en forme" },
+      text: { label: "Texte brut", description: "Texte sans mise en forme" },
+      apkg: { label: "Paquet Anki (APKG)", description: "Paquet de cartes à ouvrir dans Anki" },
+      "anki-csv": { label: "Anki (CSV)", description: "Cartes pour Fichier > Importer dans Anki" },
+      quizlet: { label: "Quizlet (TSV)", description: "Cartes séparées par des tabulations à coller dans l'import de Quizlet" },
+      "quiz-pdf": {
+        label: "Quiz imprimable (PDF)",
+        description: "Copies pour les élèves avec cases à cocher, et un corrigé séparé",
+      },
+      qti: { label: "Paquet QTI 2.1", description: "Pour importer des quiz dans Canvas, Blackboard et d'autres LMS" },
+      moodle: { label: "Moodle XML", description: "Questions pour une banque de questions Moodle" },
+      gift: { label: "GIFT", description: "Le format texte de Moodle pour les questions de quiz" },
+    },
+    testVersions: "Versions du test",
+    oneVersion: "Une seule version",
+    versionRange: "De A à {{last}}",
+    shuffleQuestions: "Mélanger l'ordre des questions",
+    shuffleOptions: "Mélanger les choix de réponse",
+    answerKey: "Télécharge les copies des élèves et un corrigé séparé couvrant toutes les versions.",
+    missingFonts:
+      "La police PDF pour le texte en {{scripts, list}} n'est pas installée : ce texte serait illisible. Exportez plutôt en Word ou en HTML, ou ajoutez les polices dans public/fonts.",
+    filename: "Nom du fichier :",
+    filenamePlaceholder: "Saisissez le nom du fichier (sans .{{extension}})",
+    download: "Télécharger le .{{extension}}",
+    noFlashcards: "Aucune fiche n'a été trouvée dans le résultat à exporter.",
+    noQuiz: "Le résultat n'a pas pu être lu comme un quiz à exporter.",
+  },
+  quiz: {
+    gradingAll: "Correction des réponses courtes…",
+    score: "Votre score : {{score}} sur {{total}}",
+    answered: "Questions répondues : {{answered}} sur {{total}}",
+    types: {
+      multiple_choice: "Choix multiple",
+      true_false: "Vrai / Faux",
+      short_answer: "Réponse courte",
+    },
+    difficulties: {
+      easy: "Facile",
+      medium: "Moyen",
+      hard: "Difficile",
+    },
+    answerPlaceholder: "Saisissez votre réponse",
+    grading: "Correction de votre réponse…",
+    correct: "Correct",
+    correctAnswer: "Bonne réponse : {{answer}}",
+    gradingFailed: "Impossible de corriger cette réponse : {{message}}",
+    retake: "Refaire le quiz",
+    submit: "Envoyer les réponses",
+  },
+  grading: {
+    verdicts: {
+      correct: "Correct",
+      mostlyCorrect: "Presque correct",
+      partlyCorrect: "Partiellement correct",
+      incorrect: "Incorrect",
+    },
+    teacherOverride: "Note de l'enseignant",
+    aiScore: "Note de l'IA {{score}}/{{max}}",
+    override: "Modifier la note",
+    score: "Note",
+    note: "Remarque pour l'élève",
+    optional: "Facultatif",
+    useAiScore: "Utiliser la note de l'IA",
+    teacher: "Enseignant :",
+    modelAnswer: "Réponse modèle",
+  },
+  weakSpots: {
+    title: "Points faibles",
+    empty: "Répondez à des quiz ici pour suivre votre maîtrise de chaque notion.",
+    weak: "{{weak}} notions sur {{total}} sous {{percent}} % de maîtrise.",
+    strong: "Toutes les notions ({{total}}) sont maîtrisées à {{percent}} % ou plus.",
+    basedOnAnswers: "D'après vos réponses récentes",
+    conceptStats: "{{percent}} % · {{correct}}/{{attempts}} correctes",
+    practice: "M'entraîner sur mes points faibles",
+  },
+  flashcards: {
+    studyMode: "Mode révision des fiches",
+    all: "Toutes les fiches",
+    due: "À réviser",
+    dueCount: "À réviser : {{total}}",
+    question: "Question",
+    answer: "Réponse",
+    showQuestion: "Afficher la question",
+    showAnswer: "Afficher la réponse",
+    previous: "Fiche précédente",
+    next: "Fiche suivante",
+    position: "Fiche {{number}} sur {{total}}",
+    grades: {
+      again: "À revoir",
+      hard: "Difficile",
+      good: "Bien",
+      easy: "Facile",
+    },
+    shortcuts: "Utilisez ← → pour changer de fiche, Espace pour la retourner et 1-4 pour noter votre mémorisation.",
+    caughtUp: "Vous êtes à jour ! Aucune fiche n'est à réviser pour le moment.",
+  },
+  assistant: {
+    fromLibrary: "Répondre à partir de ma bibliothèque",
+    documents: "(documents : {{total}})",
+    noDocuments: "— aucun document pour l'instant.",
+    manageLibrary: "Gérer la bibliothèque",
+    empty: "Posez une question pour commencer la conversation",
+    stop: "Arrêter la génération",
+    send: "Envoyer",
+    replyError: "Erreur lors de la génération de la réponse",
+    sources: "Sources de votre bibliothèque",
+    newConversation: "Nouvelle conversation",
+    conversationTitle: "Titre de la conversation",
+    conversationOptions: "Options de la conversation",
+    deleteTitle: "Supprimer la conversation ?",
+    deleteDescription: "Cette conversation et tous ses messages seront définitivement supprimés.",
+  },
+  history: {
+    title: "Historique des générations",
+    description: "Parcourez tout ce que vous avez généré et rouvrez n'importe quel élément dans son générateur.",
+    search: "Rechercher dans les demandes et les résultats",
+    allFeatures: "Toutes les fonctionnalités",
+    clear: "Effacer l'historique",
+    cleared: {
+      title: "Historique effacé",
+      description: "Toutes les générations enregistrées ont été supprimées.",
+    },
+    noMatches: "Aucune génération ne correspond à votre recherche.",
+    empty: "Vos générations s'afficheront ici.",
+    versions: "Versions : {{total}}",
+    open: "Ouvrir dans le générateur",
+  },
+  library: {
+    title: "Ma bibliothèque",
+    description:
+      "Ajoutez vos manuels et vos notes de cours pour que l'assistant d'apprentissage puisse s'en servir pour répondre et citer ses sources. Les documents sont stockés uniquement dans ce navigateur.",
+    indexing: "Indexation de {{name}}...",
+    add: "Ajouter des documents (PDF, DOCX, TXT)",
+    empty: "Votre bibliothèque est vide. Ajoutez un document pour commencer.",
+    added: "Ajouté le {{date}}",
+    offlineIndex: "Index hors ligne",
+    addedOffline: {
+      title: "{{name}} ajouté",
+      description: "Il a été indexé avec des vecteurs de mots-clés hors ligne : la recherche peut être moins précise.",
+    },
+    addError: {
+      title: "Impossible d'ajouter le document",
+      description: "Une erreur est survenue pendant l'ajout de {{name}}.",
+    },
+  },
+  settings: {
+    title: "Paramètres",
+    description: "Gérez les données qu'Aptora conserve dans ce navigateur.",
+    cache: {
+      title: "Cache des requêtes",
+      description:
+        "Répéter une demande avec le même modèle de prompt, les mêmes options et le même modèle d'IA renvoie instantanément le résultat enregistré.",
+      clear: "Vider le cache",
+      cleared: {
+        title: "Cache vidé",
+        description: "Toutes les demandes seront de nouveau envoyées au modèle.",
+      },
+      empty: "Le cache est vide.",
+      summary: "Entrées : {{entries}} · {{size}} · Utilisations : {{hits}}",
+      lastUsed: "Dernière utilisation : {{date}}",
+      hits: "Utilisations : {{hits}}",
+      quiz: "{{title}} (questions : {{total}})",
+      remove: "Retirer du cache",
+    },
+  },
+  usage: {
+    title: "Utilisation",
+    description:
+      "Requêtes et tokens d'IA utilisés depuis ce navigateur. Les jours sont comptés en UTC et les résultats en cache ne sont pas comptés.",
+    today: "Aujourd'hui",
+    requests: "Requêtes",
+    tokens: "Tokens",
+    ofLimit: "sur {{limit}}",
+    noLimit: "· sans limite",
+    tokensPerDay: "Tokens par jour",
+    period: "{{tokens}} tokens sur les {{days}} derniers jours (requêtes : {{requests}})",
+    nothing: "Rien n'a été généré ces {{days}} derniers jours.",
+    byFeature: "Par fonctionnalité",
+    feature: "Fonctionnalité",
+    inputTokens: "Tokens en entrée",
+    outputTokens: "Tokens en sortie",
+    estimated: "{{tokens}} tokens ont été estimés d'après la longueur du texte, car le modèle n'a pas indiqué son utilisation.",
+    features: {
+      content: "Contenu",
+      quiz: "Quiz",
+      materials: "Supports",
+      notes: "Notes",
+      flashcards: "Fiches",
+      assistant: "Assistant",
+      rewrite: "Réécritures",
+      merge: "Fusions",
+      grade: "Corrections",
+    },
+  },
+  templates: {
+    title: "Modèles de prompts",
+    description:
+      "Écrivez vos propres prompts pour les générateurs, avec des variables comme le niveau ou la matière, et choisissez-les au moment de générer. Les modèles sont stockés uniquement dans ce navigateur.",
+    mine: "Mes modèles",
+    new: "Nouveau modèle",
+    empty: "Vous n'avez encore aucun modèle. Créez-en un ou personnalisez un modèle intégré ci-dessous.",
+    builtIn: "Modèles intégrés",
+    builtInDescriptions: {
+      content: "Contenu pédagogique structuré avec titres, explications et exemples",
+      quiz: "Un mélange de questions à choix multiple, vrai/faux et à réponse courte",
+      materials: "Un parcours d'apprentissage avec ressources, étapes et recommandations",
+      notes: "Des notes concises avec les notions et définitions clés",
+      flashcards: "Des fiches question-réponse pour le mode révision",
+      assistant: "Une réponse utile à une seule question",
+    },
+    customize: "Personnaliser",
+    newName: "Mon modèle ({{feature}})",
+    updated: "Modifié le {{date}}",
+    edit: "Modifier {{name}}",
+    delete: "Supprimer {{name}}",
+    saved: {
+      title: "Modèle enregistré",
+      description: "{{name}} est à la version {{version}}.",
+    },
+    saveError: {
+      title: "Impossible d'enregistrer le modèle",
+      description: "Une erreur est survenue pendant l'enregistrement du modèle.",
+    },
+    deleted: {
+      title: "Modèle supprimé",
+      description: "{{name}} a été supprimé.",
+    },
+    editor: {
+      name: "Nom",
+      namePlaceholder: "ex. : Cours de SVT de troisième",
+      generator: "Générateur",
+      description: "Description",
+      descriptionPlaceholder: "À quoi sert ce modèle",
+      template: "Modèle",
+      version: "Version",
+      currentVersion: "Version {{version}} (actuelle)",
+      savedVersion: "Version {{version}} · {{date}}",
+      variablesHint:
+        "Ajoutez vos propres variables entre accolades, comme {{first}} ou {{second}}, et remplissez-les au moment de générer. Écrivez les accolades littérales sous la forme {{open}} et {{close}}. Celles-ci sont remplies par l'application :",
+      reserved: {
+        userPrompt: "La demande saisie dans le générateur",
+        generationGuidelines: "Longueur, créativité et niveau de lecture du panneau des options avancées",
+        sourceMaterial: "Extraits des documents importés, vide s'il n'y en a pas",
+        outputLanguage: "La langue des réponses, d'après le menu des langues",
+        formatInstructions: "Le format JSON que les quiz doivent suivre (obligatoire dans les modèles de quiz)",
+      },
+      defaultValues: "Valeurs par défaut",
+      previewWith: "Aperçu avec la demande",
+      samplePrompt: "La photosynthèse",
+      fixToPreview: "Corrigez le modèle pour afficher un aperçu.",
+      save: "Enregistrer le modèle",
+    },
+    errors: {
+      braces:
+        "Le modèle contient des accolades non appariées. Écrivez les accolades littérales sous la forme {{open}} et {{close}}.",
+      userPrompt: "Le modèle doit contenir {{variable}} pour que la demande du générateur soit envoyée.",
+      formatInstructions: "Les modèles de quiz doivent contenir {{variable}} pour que le quiz puisse être relu.",
+    },
+  },
+  profile: {
+    title: "Profil d'apprentissage",
+    description:
+      "Tous les générateurs et l'assistant d'apprentissage s'en servent pour adapter leurs réponses : vous n'avez pas à le répéter dans chaque demande.",
+    gradeLevel: "Niveau scolaire",
+    grade: "Année {{number}}",
+    gradeLevels: {
+      undergraduate: "Licence",
+      graduate: "Master ou doctorat",
+      adultLearner: "Formation d'adultes",
+    },
+    preferredLanguage: "Langue préférée",
+    subjects: "Matières",
+    subjectsPlaceholder: "Biologie, Algèbre, Histoire",
+    subjectsHint: "Séparez les matières par des virgules.",
+    learningStyle: "Style d'apprentissage",
+    learningStyles: {
+      none: "Aucune préférence",
+      visual: "Visuel",
+      auditory: "Auditif",
+      reading_writing: "Lecture et écriture",
+      kinesthetic: "Pratique",
+    },
+    accessibility: "Accessibilité",
+    accessibilityNeeds: {
+      dyslexia: "Texte adapté à la dyslexie",
+      focus: "Aide pour rester concentré",
+      screen_reader: "Lecteur d'écran",
+      plain_language: "Langage simple",
+    },
+    notes: "Autre chose",
+    notesPlaceholder: "ex. : Prépare le bac ; préfère les exemples concrets",
+    save: "Enregistrer le profil",
+    saved: {
+      title: "Profil d'apprentissage enregistré",
+      description: "Les nouvelles générations seront adaptées à ce profil.",
+    },
+    saveError: {
+      title: "Impossible d'enregistrer le profil",
+      description: "Veuillez réessayer.",
+    },
+  },
+  errors: {
+    quota: {
+      title: "Le service d'IA est saturé",
+      description: "Trop de requêtes ont été envoyées ou le quota d'utilisation est épuisé. Patientez une minute et réessayez.",
+    },
+    safety: {
+      title: "Réponse bloquée",
+      description: "Les filtres de sécurité du fournisseur d'IA ont bloqué cette requête. Essayez de reformuler votre demande.",
+    },
+    network: {
+      title: "Impossible de joindre le service d'IA",
+      description: "Vérifiez votre connexion Internet et réessayez.",
+    },
+    invalid_key: {
+      title: "Service d'IA non configuré",
+      description: "La clé d'API est absente ou a été refusée. Vérifiez la clé dans votre fichier .env.",
+    },
+    timeout: {
+      title: "Délai de la requête dépassé",
+      description: "Le service d'IA a mis trop de temps à répondre. Réessayez ou demandez un résultat plus court.",
+    },
+    server: {
+      title: "Service d'IA indisponible",
+      description: "Le service d'IA a rencontré un problème de son côté. Réessayez dans un instant.",
+    },
+    unauthenticated: {
+      title: "Connectez-vous pour générer",
+      description: "Connectez-vous à votre compte Aptora pour utiliser les fonctionnalités d'IA.",
+    },
+    usage_limit: {
+      title: "Limite quotidienne atteinte",
+      description:
+        "Vous avez utilisé toutes les requêtes ou tous les tokens d'IA du jour. La limite est réinitialisée à minuit UTC ; consultez Utilisation pour plus de détails.",
+    },
+    unknown: {
+      title: "Une erreur est survenue",
+      description: "Une erreur est survenue lors de l'échange avec le service d'IA. Veuillez réessayer.",
+    },
+  },
+};
+
+export default fr;
@@ -0,0 +1,759 @@
+import type { Translation } from "./en";
+
+const hi: Translation = {
+  language: {
+    label: "भाषा",
+    interface: "इंटरफ़ेस की भाषा",
+    output: "AI जवाबों की भाषा",
+    automatic: "स्वचालित",
+    automaticHint: "आपकी लर्नर प्रोफ़ाइल की पसंदीदा भाषा, नहीं तो इंटरफ़ेस की भाषा",
+  },
+  header: {
+    home: "होम",
+    features: "सुविधाएँ",
+    testimonials: "अनुभव",
+    faq: "सामान्य प्रश्न",
+    aboutUs: "हमारे बारे में",
+    contact: "संपर्क",
+    contactInformation: "संपर्क जानकारी",
+    signUp: "साइन अप करें",
+    openMenu: "मेनू खोलें",
+    closeMenu: "मेनू बंद करें",
+    userMenu: "उपयोगकर्ता मेनू",
+    toggleTheme: "थीम बदलें",
+  },
+  userMenu: {
+    learnerProfile: "लर्नर प्रोफ़ाइल",
+    history: "इतिहास",
+    library: "मेरी लाइब्रेरी",
+    templates: "प्रॉम्प्ट टेम्पलेट",
+    usage: "उपयोग",
+    settings: "सेटिंग्स",
+    signOut: "साइन आउट करें",
+  },
+  hero: {
+    badge: "AI के साथ ई-लर्निंग में बदलाव",
+    title: "मिलिए Aptora से",
+    description:
+      "एक स्मार्ट, AI-आधारित ई-लर्निंग प्लेटफ़ॉर्म जो आपकी सीखने की शैली के अनुसार अध्ययन सामग्री, क्विज़, फ़्लैशकार्ड, लर्निंग पाथ और नोट्स बनाता है।",
+    getStarted: "शुरू करें",
+  },
+  features: {
+    title: "नई सुविधाएँ",
+    subtitle: "वे टूल देखें जो पढ़ाई को ज़्यादा असरदार, रोचक और व्यक्तिगत बनाते हैं।",
+    content: {
+      name: "कंटेंट जनरेटर",
+      summary: "शैक्षिक सामग्री बनाएँ",
+      description: "अपने पाठ्यक्रम और सीखने के लक्ष्यों के अनुसार सामग्री बनाएँ।",
+      placeholder:
+        "बताइए आपको कैसी सामग्री चाहिए (जैसे, 'कक्षा 9 के छात्रों के लिए प्रकाश संश्लेषण पर एक पाठ योजना बनाओ')",
+    },
+    quiz: {
+      name: "क्विज़ जनरेटर",
+      summary: "अपनी क्विज़ बनाएँ",
+      description: "अपने ज्ञान को परखने के लिए अलग-अलग कठिनाई स्तर वाली क्विज़ बनाएँ।",
+      placeholder:
+        "बताइए आपको कैसी क्विज़ चाहिए (जैसे, 'हाई स्कूल के छात्रों के लिए द्वितीय विश्व युद्ध पर 10 बहुविकल्पीय प्रश्न')",
+    },
+    materials: {
+      name: "ई-लर्निंग सामग्री",
+      summary: "अध्ययन संसाधन पाएँ",
+      description: "असरदार पढ़ाई के लिए बनाई गई सामग्री की पूरी लाइब्रेरी पाएँ।",
+      placeholder: "बताइए आपको कैसी सामग्री चाहिए (जैसे, 'वेब डेवलपर बनने के लिए एक लर्निंग रोडमैप बनाओ')",
+    },
+    notes: {
+      name: "AI नोट्स जनरेटर",
+      summary: "नोट्स का सार और व्यवस्था",
+      description: "AI की मदद से कठिन विषयों को छोटे, आसान नोट्स में बदलें।",
+      placeholder:
+        "सारांश के लिए टेक्स्ट चिपकाएँ या बताएँ कि किस पर नोट्स चाहिए (जैसे, 'क्वांटम यांत्रिकी के मुख्य सिद्धांतों का सारांश दो')",
+    },
+    flashcards: {
+      name: "फ़्लैशकार्ड जनरेटर",
+      summary: "अध्ययन फ़्लैशकार्ड बनाएँ",
+      description: "बेहतर याद रखने के लिए इंटरैक्टिव फ़्लैशकार्ड बनाएँ।",
+      placeholder: "बताइए आपको कैसे फ़्लैशकार्ड चाहिए (जैसे, 'मानव शरीर रचना के शब्दों पर 10 फ़्लैशकार्ड बनाओ')",
+    },
+    assistant: {
+      name: "AI लर्निंग असिस्टेंट",
+      summary: "व्यक्तिगत मदद पाएँ",
+      description: "पढ़ाई के दौरान अपने सवालों के जवाब और व्यक्तिगत मदद पाएँ।",
+      placeholder: "अपनी पढ़ाई से जुड़ा कोई भी सवाल पूछें (जैसे, 'समसूत्री और अर्धसूत्री विभाजन में अंतर समझाओ')",
+    },
+  },
+  faq: {
+    title: "अक्सर पूछे जाने वाले प्रश्न",
+    subtitle: "जानिए Aptora के AI लर्निंग टूल कैसे इस्तेमाल करें",
+    howToUse: "इस्तेमाल कैसे करें:",
+    tips: "बेहतर नतीजों के लिए सुझाव:",
+    content: {
+      instructions: [
+        "टेक्स्ट फ़ील्ड में कोई विषय, टॉपिक या सीखने का लक्ष्य लिखें",
+        "कक्षा, कठिनाई या फ़ॉर्मैट जैसी दूसरी बातें जोड़ें",
+        "अपनी सामग्री बनाने के लिए 'जनरेट करें' पर क्लिक करें",
+        "बनी हुई सामग्री देखें और ज़रूरत हो तो PDF के रूप में डाउनलोड करें",
+      ],
+      tips: [
+        "अपनी ज़रूरत साफ़ बताएँ (जैसे, 'कक्षा 9 के लिए प्रकाश संश्लेषण पर पाठ योजना')",
+        "सामग्री की लंबाई या गहराई बताएँ",
+        "अगर कोई खास शिक्षण पद्धति हो तो उसे लिखें",
+      ],
+      notes: "आपका अनुरोध जितना विस्तृत होगा, सामग्री आपकी ज़रूरत के उतनी ही करीब होगी।",
+    },
+    quiz: {
+      instructions: [
+        "क्विज़ का विषय और टॉपिक बताएँ",
+        "प्रश्नों की संख्या और कठिनाई स्तर चुनें",
+        "प्रश्नों के प्रकार चुनें (बहुविकल्पीय, सही/गलत, लघु उत्तर आदि)",
+        "अपना आकलन बनाने के लिए 'जनरेट करें' पर क्लिक करें",
+        "क्विज़ सहेजने के लिए उसे PDF के रूप में डाउनलोड करें",
+      ],
+      tips: [
+        "लक्षित छात्रों के बारे में बताएँ (जैसे, 'मिडिल स्कूल के छात्र', 'कॉलेज के पहले साल के छात्र')",
+        "बताएँ कि उत्तर भी चाहिए या नहीं",
+        "बेहतर आकलन के लिए अलग-अलग तरह के प्रश्न रखें",
+      ],
+      notes: "समयबद्ध क्विज़ के लिए अपने अनुरोध में सुझाई गई समय सीमा लिखें।",
+    },
+    materials: {
+      instructions: [
+        "वह विषय क्षेत्र और टॉपिक लिखें जिसके लिए सामग्री चाहिए",
+        "फ़ॉर्मैट बताएँ (जैसे, 'लर्निंग रोडमैप', 'इंटरैक्टिव गाइड')",
+        "अपने सीखने के लक्ष्य लिखें",
+        "संसाधन बनाने के लिए 'जनरेट करें' पर क्लिक करें",
+        "अपनी सामग्री देखें और डाउनलोड करें",
+      ],
+      tips: [
+        "अपनी सीखने की शैली (दृश्य, श्रव्य आदि) के अनुसार सामग्री माँगें",
+        "बताएँ कि शुरुआती, मध्यम या उन्नत स्तर की सामग्री चाहिए",
+        "ज़रूरत हो तो कोई खास फ़्रेमवर्क या पद्धति माँगें",
+      ],
+      notes: "ई-लर्निंग सामग्री पूरे विषय के बजाय किसी खास कौशल या क्षेत्र पर केंद्रित हो तो सबसे अच्छा काम करती है।",
+    },
+    notes: {
+      instructions: [
+        "जिस टेक्स्ट के नोट्स बनाने हैं उसे चिपकाएँ, या टॉपिक बताएँ",
+        "फ़ॉर्मैट बताएँ (बुलेट पॉइंट, कॉर्नेल नोट्स, माइंड मैप आदि)",
+        "विषय पर अपना ज्ञान स्तर बताएँ",
+        "सारांश बनाने के लिए 'जनरेट करें' पर क्लिक करें",
+        "अपने नोट्स सहेजें या डाउनलोड करें",
+      ],
+      tips: [
+        "टेक्स्ट का सारांश बनाने के लिए पूरे अनुच्छेद चिपकाएँ",
+        "मुख्य शब्दों को हाइलाइट करने या उनकी परिभाषा देने को कहें",
+        "शीर्षक, उपशीर्षक और बुलेट पॉइंट के साथ व्यवस्थित नोट्स माँगें",
+      ],
+      notes: "AI नोट्स जनरेटर पाठ्यपुस्तक के अध्यायों या लेक्चर की ट्रांसक्रिप्ट का सार निकालने में खास तौर पर अच्छा है।",
+    },
+    flashcards: {
+      instructions: [
+        "फ़्लैशकार्ड का विषय और टॉपिक लिखें",
+        "बताएँ कि कितने फ़्लैशकार्ड चाहिए",
+        "बताएँ कि सरल शब्द/परिभाषा कार्ड चाहिए या प्रश्न/उत्तर वाले कार्ड",
+        "फ़्लैशकार्ड बनाने के लिए 'जनरेट करें' पर क्लिक करें",
+        "प्रिंट या डिजिटल इस्तेमाल के लिए फ़्लैशकार्ड PDF में डाउनलोड करें",
+      ],
+      tips: [
+        "भाषा सीखने के लिए बताएँ कि उच्चारण भी चाहिए या नहीं",
+        "दृश्य फ़्लैशकार्ड के लिए चित्रों के सुझाव माँगें",
+        "कठिन जानकारी याद रखने के लिए स्मृति-सूत्र माँगें",
+      ],
+      notes: "फ़्लैशकार्ड जटिल अवधारणाओं के बजाय छोटी-छोटी जानकारियों के लिए सबसे असरदार होते हैं।",
+    },
+    assistant: {
+      instructions: [
+        "अपना सवाल सीधे इनपुट फ़ील्ड में लिखें",
+        "साफ़ बताएँ कि आप क्या समझना चाहते हैं",
+        "ज़रूरत हो तो अपने मौजूदा ज्ञान स्तर के बारे में बताएँ",
+        "व्यक्तिगत जवाब पाने के लिए सवाल भेजें",
+        "ज़रूरत के अनुसार आगे और सवाल पूछें",
+      ],
+      tips: [
+        "गहरी समझ के लिए 'क्यों' और 'कैसे' वाले सवाल पूछें",
+        "कठिन विषयों की आसान व्याख्या माँगें",
+        "अमूर्त अवधारणाओं के असल ज़िंदगी के उदाहरण माँगें",
+      ],
+      notes: "जब आपके सवाल साफ़ और केंद्रित हों, तब AI लर्निंग असिस्टेंट सबसे मददगार जवाब देता है।",
+    },
+  },
+  auth: {
+    email: "ईमेल",
+    password: "पासवर्ड",
+    emailPlaceholder: "aapkaemail@example.com",
+    invalidEmail: "कृपया मान्य ईमेल पता दर्ज करें",
+    passwordTooShort: "पासवर्ड कम से कम 6 अक्षरों का होना चाहिए",
+    login: {
+      title: "अपने खाते में लॉग इन करें",
+      description: "लॉग इन करने के लिए अपना ईमेल और पासवर्ड दर्ज करें।",
+      forgotPassword: "पासवर्ड भूल गए?",
+      submit: "लॉग इन करें",
+      submitting: "लॉग इन हो रहा है...",
+      failed: "लॉग इन नहीं हो सका। कृपया अपनी जानकारी जाँचें।",
+      noAccount: "खाता नहीं है?",
+      signUp: "साइन अप करें",
+    },
+    signup: {
+      title: "साइन अप",
+      description: "सभी सुविधाओं का उपयोग करने के लिए खाता बनाएँ",
+      confirmPassword: "पासवर्ड की पुष्टि करें",
+      showPassword: "पासवर्ड दिखाएँ",
+      hidePassword: "पासवर्ड छिपाएँ",
+      passwordsDontMatch: "पासवर्ड मेल नहीं खाते",
+      haveAccount: "पहले से खाता है?",
+      logIn: "लॉग इन करें",
+      submit: "खाता बनाएँ",
+      submitting: "खाता बनाया जा रहा है...",
+    },
+    reset: {
+      title: "अपना पासवर्ड रीसेट करें",
+      description: "अपना ईमेल पता दर्ज करें, हम आपको पासवर्ड रीसेट करने का लिंक भेजेंगे।",
+      sent: "पासवर्ड रीसेट लिंक भेज दिया गया! कृपया अपना इनबॉक्स देखें।",
+      failed: "पासवर्ड रीसेट ईमेल नहीं भेजा जा सका।",
+      submit: "रीसेट लिंक भेजें",
+      submitting: "भेजा जा रहा है...",
+      rememberPassword: "पासवर्ड याद आ गया?",
+      backToLogin: "लॉग इन पर वापस जाएँ",
+    },
+    messages: {
+      signedUp: "खाता सफलतापूर्वक बन गया!",
+      signupFailed: "खाता नहीं बनाया जा सका",
+      emailInUse: "यह ईमेल पहले से उपयोग में है",
+      loggedIn: "सफलतापूर्वक लॉग इन हो गया!",
+      loginFailed: "लॉग इन नहीं हो सका",
+      wrongCredentials: "ईमेल या पासवर्ड गलत है",
+      tooManyLogins: "लॉग इन के बहुत से असफल प्रयास हुए, कृपया बाद में फिर से कोशिश करें",
+      resetFailed: "पासवर्ड रीसेट नहीं हो सका",
+      userNotFound: "इस ईमेल पते से कोई खाता नहीं मिला",
+      tooManyAttempts: "बहुत अधिक प्रयास। कृपया बाद में फिर से कोशिश करें।",
+      loggedOut: "सफलतापूर्वक लॉग आउट हो गया",
+      logoutFailed: "लॉग आउट नहीं हो सका",
+    },
+  },
+  testimonials: {
+    title: "हमारे उपयोगकर्ता क्या कहते हैं",
+    subtitle: "उन छात्रों, शिक्षकों और पेशेवरों के वास्तविक अनुभव जिन्होंने Aptora के साथ अपनी पढ़ाई बदल दी।",
+    sarah: {
+      role: "मेडिकल छात्रा",
+      review:
+        "Aptora ने मेरी पढ़ाई का तरीका बदल दिया। AI से बने नोट्स ने मुझे वे जटिल चिकित्सा अवधारणाएँ समझने में मदद की जिनसे मैं महीनों से जूझ रही थी। मेरे परीक्षा के अंक काफ़ी बढ़ गए!",
+    },
+    david: {
+      role: "कंप्यूटर साइंस ट्यूटर",
+      review:
+        "एक शिक्षक के रूप में, Aptora का क्विज़ जनरेटर मेरे लिए बहुत बड़ा बदलाव साबित हुआ। यह ऐसे चुनौतीपूर्ण प्रश्न बनाता है जो केवल रटने की नहीं, बल्कि सच्ची समझ की परीक्षा लेते हैं।",
+    },
+    amara: {
+      role: "व्यावसायिक पेशेवर",
+      review:
+        "फ़्लैशकार्ड सुविधा ने मुझे अपनी प्रमाणन परीक्षा की तैयारी आधे समय में करने में मदद की। AI समझता है कि मुझे किन अवधारणाओं को अधिक बार दोहराना है।",
+    },
+  },
+  team: {
+    title: "हमारी टीम",
+    subtitle: "AI से शिक्षा को बदलने के Aptora के मिशन के पीछे के प्रतिभाशाली लोगों से मिलिए।",
+    linkedin: "{{name}} की LinkedIn प्रोफ़ाइल",
+    github: "{{name}} की GitHub प्रोफ़ाइल",
+    email: "{{name}} को ईमेल करें",
+    aaron: {
+      role: "संस्थापक और बैकएंड डेवलपर",
+      bio: "स्केलेबल, कुशल और सुरक्षित सिस्टम बनाने में माहिर, जुनूनी बैकएंड डेवलपर।",
+    },
+    kari: {
+      role: "संस्थापक और टीम लीड",
+      bio: "नवीन शैक्षिक समाधान बनाने का जुनून। Aptora के तकनीकी विकास और रणनीतिक दिशा का नेतृत्व करते हैं।",
+    },
+    sona: {
+      role: "संस्थापक और फ्रंटएंड डेवलपर",
+      bio: "सुंदर और सहज इंटरफ़ेस बनाती हैं जो सभी उपयोगकर्ताओं के लिए पढ़ाई को रोचक और सुलभ बनाते हैं।",
+    },
+    thrithwik: {
+      role: "सह-संस्थापक और डेवलपर",
+      bio:
+        "वह मज़बूत इन्फ्रास्ट्रक्चर विकसित करते हैं जो Aptora की AI लर्निंग क्षमताओं और डेटा प्रोसेसिंग को चलाता है।",
+    },
+  },
+  footer: {
+    about: "Aptora के बारे में",
+    aboutText:
+      "Aptora ऐसी AI तकनीक से ई-लर्निंग में क्रांति ला रहा है जो हर शिक्षार्थी की ज़रूरतों के अनुसार ढलती है, और शिक्षा को सभी के लिए अधिक सुलभ, व्यक्तिगत और प्रभावी बनाती है।",
+    quickLinks: "त्वरित लिंक",
+    legal: "कानूनी",
+    privacyPolicy: "गोपनीयता नीति",
+    termsOfService: "सेवा की शर्तें",
+    cookiePolicy: "कुकी नीति",
+    contact: "संपर्क",
+    rights: "© {{year}} Aptora. सर्वाधिकार सुरक्षित।",
+  },
+  storage: {
+    blocked:
+      "Aptora को किसी दूसरे टैब में अपडेट किया गया है। Aptora के दूसरे टैब बंद करें, फिर से कोशिश करें।",
+  },
+  common: {
+    cancel: "रद्द करें",
+    save: "सहेजें",
+    delete: "हटाएँ",
+    rename: "नाम बदलें",
+    tryAgain: "फिर से कोशिश करें",
+    notSet: "तय नहीं",
+  },
+  generator: {
+    generate: "जनरेट करें",
+    generating: "जनरेट हो रहा है...",
+    stop: "जनरेट करना रोकें",
+    placeholder: "AI से बनी सामग्री यहाँ दिखेगी",
+    emptyPrompt: {
+      title: "कृपया प्रॉम्प्ट लिखें",
+      description: "AI को सामग्री बनाने के लिए कुछ इनपुट चाहिए।",
+    },
+    practicing: {
+      title: "आपकी कमज़ोरियों का अभ्यास",
+      description: "आपके प्रॉम्प्ट की जगह अभ्यास का अनुरोध रखा गया है।",
+      restore: "अपना प्रॉम्प्ट वापस लाएँ",
+      undo: "पहले जैसा करें",
+    },
+    cached: {
+      title: "कैश से लोड किया गया",
+      description: "यह प्रॉम्प्ट पहले जनरेट हो चुका है। नए संस्करण के लिए रीफ़्रेश बटन इस्तेमाल करें।",
+    },
+    stopped: {
+      title: "जनरेट करना रोका गया",
+      variant: "नया संस्करण हटा दिया गया।",
+      quiz: "क्विज़ नहीं बनी।",
+      partial: "अधूरा नतीजा रखा गया है।",
+    },
+    mergeError: "संस्करण मिलाने में त्रुटि",
+    copied: {
+      title: "क्लिपबोर्ड पर कॉपी किया गया",
+      description: "बनी हुई सामग्री आपके क्लिपबोर्ड पर कॉपी हो गई है।",
+    },
+    exported: {
+      title: "एक्सपोर्ट डाउनलोड हुआ",
+      description: "डाउनलोड हुई फ़ाइलें: {{files}}",
+    },
+    exportError: {
+      title: "{{format}} एक्सपोर्ट करने में त्रुटि",
+      description: "नतीजा एक्सपोर्ट करते समय त्रुटि हुई। कृपया फिर से कोशिश करें।",
+    },
+    showingVersion: "{{total}} में से {{version}}",
+    compareVersions: "संस्करणों की तुलना करें",
+    regenerate: "एक और संस्करण बनाएँ",
+    edit: "नतीजा संपादित करें",
+    copy: "क्लिपबोर्ड पर कॉपी करें",
+    export: "एक्सपोर्ट करें",
+  },
+  sources: {
+    reading: "दस्तावेज़ पढ़े जा रहे हैं...",
+    attach: "लेक्चर सामग्री जोड़ें (PDF, DOCX, TXT)",
+    sections: "खंड: {{total}}",
+    remove: "{{name}} हटाएँ",
+    readError: "दस्तावेज़ पढ़ा नहीं जा सका",
+    unsupported: "यह फ़ाइल प्रकार समर्थित नहीं है: {{name}}। PDF, DOCX या TXT फ़ाइल अपलोड करें।",
+    tooLarge: "{{name}} 20 MB से बड़ी है।",
+    noText: "{{name}} में कोई टेक्स्ट नहीं मिला। स्कैन किए गए दस्तावेज़ समर्थित नहीं हैं।",
+    fileError: "{{name}} पढ़ते समय त्रुटि हुई।",
+  },
+  templatePicker: {
+    label: "प्रॉम्प्ट टेम्पलेट",
+    default: "डिफ़ॉल्ट टेम्पलेट",
+    custom: "{{name}} (v{{version}})",
+    preview: "प्रॉम्प्ट का पूर्वावलोकन",
+    previewTitle: "प्रॉम्प्ट पूर्वावलोकन",
+    manage: "टेम्पलेट प्रबंधित करें",
+  },
+  options: {
+    advanced: "उन्नत विकल्प",
+    length: "लंबाई",
+    lengths: {
+      short: "छोटा",
+      medium: "मध्यम",
+      long: "लंबा",
+    },
+    creativity: "रचनात्मकता",
+    creativityLevels: {
+      focused: "केंद्रित",
+      balanced: "संतुलित",
+      creative: "रचनात्मक",
+    },
+    readingLevel: "पढ़ने का स्तर",
+    readingLevels: {
+      elementary: "प्राथमिक स्कूल",
+      middle_school: "मिडिल स्कूल",
+      high_school: "हाई स्कूल",
+      college: "कॉलेज",
+      expert: "विशेषज्ञ",
+    },
+    reset: "डिफ़ॉल्ट पर वापस जाएँ",
+  },
+  editor: {
+    label: "नतीजा संपादित करें",
+    undo: "पहले जैसा करें",
+    redo: "फिर से करें",
+    actions: {
+      simplify: "आसान बनाएँ",
+      expand: "विस्तार करें",
+      example: "उदाहरण जोड़ें",
+      translate: "अनुवाद करें",
+    },
+    translationLanguage: "अनुवाद की भाषा",
+    selected: "चुने गए अक्षर: {{total}}",
+    hint: "किसी अंश को आसान बनाने, विस्तार देने, उदाहरण जोड़ने या अनुवाद करने के लिए उसे चुनें।",
+    done: "हो गया",
+    rewriteError: "चुना गया अंश दोबारा लिखने में त्रुटि",
+  },
+  variants: {
+    version: "संस्करण {{number}}",
+    merged: "संस्करण {{number}} (मिलाया गया)",
+    title: "संस्करणों की तुलना करें",
+    close: "तुलना बंद करें",
+    current: "मौजूदा संस्करण",
+    use: "यह संस्करण इस्तेमाल करें",
+    mergeHint: "दोनों संस्करणों के सबसे अच्छे हिस्सों को मिलाकर नया संस्करण बनाएँ।",
+    merge: "संस्करण मिलाएँ",
+  },
+  exportDialog: {
+    title: "नतीजा एक्सपोर्ट करें",
+    format: "फ़ॉर्मैट",
+    formats: {
+      pdf: { label: "PDF", description: "प्रिंट करने और साझा करने के लिए फ़ॉर्मैट किया गया दस्तावेज़" },
+      docx: { label: "Word (DOCX)", description: "Word या Google Docs में संपादन योग्य दस्तावेज़" },
+      markdown: { label: "Markdown", description: "नतीजा जैसा लिखा गया, नोट्स ऐप और एडिटर के लिए" },
+      html: { label: "वेब पेज (HTML)", description: "गणित और कोड के साथ एक वेब पेज" },
+      text: { label: "सादा टेक्स्ट", description: "बिना फ़ॉर्मैटिंग का टेक्स्ट" },
+      apkg: { label: "Anki डेक (APKG)", description: "Anki में खोलने के लिए डेक पैकेज" },
+      "anki-csv": { label: "Anki (CSV)", description: "Anki के File > Import के लिए कार्ड" },
+      quizlet: { label: "Quizlet (TSV)", description: "Quizlet के इम्पोर्ट में चिपकाने के लिए टैब से अलग किए गए कार्ड" },
+      "quiz-pdf": {
+        label: "प्रिंट करने योग्य क्विज़ (PDF)",
+        description: "उत्तर के गोलों वाली छात्र प्रतियाँ, और अलग उत्तर कुंजी",
+      },
+      qti: { label: "QTI 2.1 पैकेज", description: "Canvas, Blackboard और दूसरे LMS में क्विज़ इम्पोर्ट के लिए" },
+      moodle: { label: "Moodle XML", description: "Moodle प्रश्न बैंक के लिए प्रश्न" },
+      gift: { label: "GIFT", description: "क्विज़ प्रश्नों के लिए Moodle का टेक्स्ट फ़ॉर्मैट" },
+    },
+    testVersions: "टेस्ट के संस्करण",
+    oneVersion: "एक संस्करण",
+    versionRange: "A से {{last}} तक",
+    shuffleQuestions: "प्रश्नों का क्रम बदलें",
+    shuffleOptions: "उत्तर विकल्पों का क्रम बदलें",
+    answerKey: "छात्र प्रतियाँ और सभी संस्करणों की एक अलग उत्तर कुंजी डाउनलोड करता है।",
+    missingFonts:
+      "{{scripts, list}} टेक्स्ट के लिए PDF फ़ॉन्ट इंस्टॉल नहीं है, इसलिए वह टेक्स्ट पढ़ने लायक नहीं रहेगा। इसके बजाय Word या HTML में एक्सपोर्ट करें, या public/fonts में फ़ॉन्ट जोड़ें।",
+    filename: "फ़ाइल का नाम:",
+    filenamePlaceholder: "फ़ाइल का नाम लिखें (.{{extension}} के बिना)",
+    download: ".{{extension}} डाउनलोड करें",
+    noFlashcards: "नतीजे में एक्सपोर्ट करने के लिए कोई फ़्लैशकार्ड नहीं मिला।",
+    noQuiz: "नतीजे को एक्सपोर्ट के लिए क्विज़ के रूप में पढ़ा नहीं जा सका।",
+  },
+  quiz: {
+    gradingAll: "लघु उत्तर जाँचे जा रहे हैं…",
+    score: "आपका स्कोर: {{total}} में से {{score}}",
+    answered: "उत्तर दिए गए प्रश्न: {{total}} में से {{answered}}",
+    types: {
+      multiple_choice: "बहुविकल्पीय",
+      true_false: "सही / गलत",
+      short_answer: "लघु उत्तर",
+    },
+    difficulties: {
+      easy: "आसान",
+      medium: "मध्यम",
+      hard: "कठिन",
+    },
+    answerPlaceholder: "अपना उत्तर लिखें",
+    grading: "आपका उत्तर जाँचा जा रहा है…",
+    correct: "सही",
+    correctAnswer: "सही उत्तर: {{answer}}",
+    gradingFailed: "यह उत्तर जाँचा नहीं जा सका: {{message}}",
+    retake: "क्विज़ फिर से दें",
+    submit: "उत्तर जमा करें",
+  },
+  grading: {
+    verdicts: {
+      correct: "सही",
+      mostlyCorrect: "लगभग सही",
+      partlyCorrect: "आंशिक रूप से सही",
+      incorrect: "गलत",
+    },
+    teacherOverride: "शिक्षक का स्कोर",
+    aiScore: "AI स्कोर {{score}}/{{max}}",
+    override: "स्कोर बदलें",
+    score: "स्कोर",
+    note: "छात्र के लिए टिप्पणी",
+    optional: "वैकल्पिक",
+    useAiScore: "AI स्कोर इस्तेमाल करें",
+    teacher: "शिक्षक:",
+    modelAnswer: "आदर्श उत्तर",
+  },
+  weakSpots: {
+    title: "कमज़ोर विषय",
+    empty: "हर अवधारणा पर अपनी पकड़ जानने के लिए यहाँ क्विज़ के उत्तर दें।",
+    weak: "{{total}} में से {{weak}} अवधारणाएँ {{percent}}% महारत से नीचे हैं।",
+    strong: "सभी {{total}} अवधारणाएँ {{percent}}% महारत या उससे ऊपर हैं।",
+    basedOnAnswers: "आपके हाल के उत्तरों के आधार पर",
+    conceptStats: "{{percent}}% · {{attempts}} में से {{correct}} सही",
+    practice: "मेरे कमज़ोर विषयों का अभ्यास कराएँ",
+  },
+  flashcards: {
+    studyMode: "फ़्लैशकार्ड अध्ययन मोड",
+    all: "सभी कार्ड",
+    due: "दोहराने के लिए बाकी",
+    dueCount: "बाकी: {{total}}",
+    question: "प्रश्न",
+    answer: "उत्तर",
+    showQuestion: "प्रश्न दिखाएँ",
+    showAnswer: "उत्तर दिखाएँ",
+    previous: "पिछला कार्ड",
+    next: "अगला कार्ड",
+    position: "कार्ड {{number}} / {{total}}",
+    grades: {
+      again: "फिर से",
+      hard: "कठिन",
+      good: "अच्छा",
+      easy: "आसान",
+    },
+    shortcuts: "कार्ड बदलने के लिए ← →, पलटने के लिए Space और याद को आँकने के लिए 1-4 दबाएँ।",
+    caughtUp: "सब हो गया! अभी कोई कार्ड दोहराने के लिए बाकी नहीं है।",
+  },
+  assistant: {
+    fromLibrary: "मेरी लाइब्रेरी से जवाब दें",
+    documents: "(दस्तावेज़: {{total}})",
+    noDocuments: "— अभी कोई दस्तावेज़ नहीं है।",
+    manageLibrary: "लाइब्रेरी प्रबंधित करें",
+    empty: "बातचीत शुरू करने के लिए कोई सवाल पूछें",
+    stop: "जनरेट करना रोकें",
+    send: "भेजें",
+    replyError: "जवाब बनाने में त्रुटि",
+    sources: "आपकी लाइब्रेरी के स्रोत",
+    newConversation: "नई बातचीत",
+    conversationTitle: "बातचीत का शीर्षक",
+    conversationOptions: "बातचीत के विकल्प",
+    deleteTitle: "बातचीत हटाएँ?",
+    deleteDescription: "यह बातचीत और इसके सभी संदेश हमेशा के लिए हट जाएँगे।",
+  },
+  history: {
+    title: "जनरेशन इतिहास",
+    description: "आपने जो कुछ भी बनाया है उसे देखें और किसी भी आइटम को उसके जनरेटर में फिर से खोलें।",
+    search: "प्रॉम्प्ट और नतीजों में खोजें",
+    allFeatures: "सभी सुविधाएँ",
+    clear: "इतिहास साफ़ करें",
+    cleared: {
+      title: "इतिहास साफ़ किया गया",
+      description: "सहेजे गए सभी जनरेशन हटा दिए गए हैं।",
+    },
+    noMatches: "आपकी खोज से कोई जनरेशन मेल नहीं खाता।",
+    empty: "आपके जनरेशन यहाँ दिखेंगे।",
+    versions: "संस्करण: {{total}}",
+    open: "जनरेटर में खोलें",
+  },
+  library: {
+    title: "मेरी लाइब्रेरी",
+    description:
+      "अपनी पाठ्यपुस्तकें और लेक्चर नोट्स जोड़ें ताकि लर्निंग असिस्टेंट उनसे जवाब दे सके और स्रोत बता सके। दस्तावेज़ सिर्फ़ इसी ब्राउज़र में रखे जाते हैं।",
+    indexing: "{{name}} इंडेक्स हो रहा है...",
+    add: "दस्तावेज़ जोड़ें (PDF, DOCX, TXT)",
+    empty: "आपकी लाइब्रेरी खाली है। शुरू करने के लिए कोई दस्तावेज़ जोड़ें।",
+    added: "जोड़ा गया: {{date}}",
+    offlineIndex: "ऑफ़लाइन इंडेक्स",
+    addedOffline: {
+      title: "{{name}} जोड़ा गया",
+      description: "इसे ऑफ़लाइन कीवर्ड एम्बेडिंग से इंडेक्स किया गया है, इसलिए खोज कम सटीक हो सकती है।",
+    },
+    addError: {
+      title: "दस्तावेज़ जोड़ा नहीं जा सका",
+      description: "{{name}} जोड़ते समय त्रुटि हुई।",
+    },
+  },
+  settings: {
+    title: "सेटिंग्स",
+    description: "वह डेटा प्रबंधित करें जो Aptora इस ब्राउज़र में रखता है।",
+    cache: {
+      title: "अनुरोध कैश",
+      description: "उसी टेम्पलेट, विकल्पों और मॉडल के साथ प्रॉम्प्ट दोहराने पर सहेजा गया नतीजा तुरंत मिल जाता है।",
+      clear: "कैश साफ़ करें",
+      cleared: {
+        title: "कैश साफ़ किया गया",
+        description: "हर प्रॉम्प्ट मॉडल को फिर से भेजा जाएगा।",
+      },
+      empty: "कैश खाली है।",
+      summary: "प्रविष्टियाँ: {{entries}} · {{size}} · इस्तेमाल: {{hits}}",
+      lastUsed: "आख़िरी इस्तेमाल: {{date}}",
+      hits: "इस्तेमाल: {{hits}}",
+      quiz: "{{title}} (प्रश्न: {{total}})",
+      remove: "कैश से हटाएँ",
+    },
+  },
+  usage: {
+    title: "उपयोग",
+    description: "इस ब्राउज़र से इस्तेमाल हुए AI अनुरोध और टोकन। दिन UTC के अनुसार गिने जाते हैं, और कैश से मिले नतीजे नहीं गिने जाते।",
+    today: "आज",
+    requests: "अनुरोध",
+    tokens: "टोकन",
+    ofLimit: "/ {{limit}}",
+    noLimit: "· कोई सीमा नहीं",
+    tokensPerDay: "प्रति दिन टोकन",
+    period: "पिछले {{days}} दिनों में {{tokens}} टोकन (अनुरोध: {{requests}})",
+    nothing: "पिछले {{days}} दिनों में कुछ भी जनरेट नहीं हुआ।",
+    byFeature: "सुविधा के अनुसार",
+    feature: "सुविधा",
+    inputTokens: "इनपुट टोकन",
+    outputTokens: "आउटपुट टोकन",
+    estimated: "{{tokens}} टोकन का अनुमान टेक्स्ट की लंबाई से लगाया गया, क्योंकि मॉडल ने अपना उपयोग नहीं बताया।",
+    features: {
+      content: "सामग्री",
+      quiz: "क्विज़",
+      materials: "अध्ययन सामग्री",
+      notes: "नोट्स",
+      flashcards: "फ़्लैशकार्ड",
+      assistant: "असिस्टेंट",
+      rewrite: "दोबारा लेखन",
+      merge: "मिलान",
+      grade: "जाँच",
+    },
+  },
+  templates: {
+    title: "प्रॉम्प्ट टेम्पलेट",
+    description:
+      "जनरेटरों के लिए अपने प्रॉम्प्ट लिखें, जिनमें कक्षा या विषय जैसे वेरिएबल हों, और जनरेट करते समय उन्हें चुनें। टेम्पलेट सिर्फ़ इसी ब्राउज़र में रखे जाते हैं।",
+    mine: "मेरे टेम्पलेट",
+    new: "नया टेम्पलेट",
+    empty: "आपके पास अभी कोई टेम्पलेट नहीं है। नया बनाएँ या नीचे दिए किसी बिल्ट-इन टेम्पलेट को बदलें।",
+    builtIn: "बिल्ट-इन टेम्पलेट",
+    builtInDescriptions: {
+      content: "शीर्षकों, व्याख्याओं और उदाहरणों के साथ व्यवस्थित शैक्षिक सामग्री",
+      quiz: "बहुविकल्पीय, सही/गलत और लघु उत्तर प्रश्नों का मिश्रण",
+      materials: "संसाधनों, चरणों और सुझावों के साथ एक लर्निंग रोडमैप",
+      notes: "मुख्य अवधारणाओं और परिभाषाओं के साथ संक्षिप्त नोट्स",
+      flashcards: "अध्ययन मोड के लिए प्रश्न-उत्तर कार्ड",
+      assistant: "एक सवाल का मददगार जवाब",
+    },
+    customize: "बदलें",
+    newName: "मेरा {{feature}} टेम्पलेट",
+    updated: "अपडेट किया गया: {{date}}",
+    edit: "{{name}} संपादित करें",
+    delete: "{{name}} हटाएँ",
+    saved: {
+      title: "टेम्पलेट सहेजा गया",
+      description: "{{name}} अब संस्करण {{version}} पर है।",
+    },
+    saveError: {
+      title: "टेम्पलेट सहेजा नहीं जा सका",
+      description: "टेम्पलेट सहेजते समय त्रुटि हुई।",
+    },
+    deleted: {
+      title: "टेम्पलेट हटाया गया",
+      description: "{{name}} हटा दिया गया।",
+    },
+    editor: {
+      name: "नाम",
+      namePlaceholder: "जैसे, कक्षा 9 विज्ञान पाठ",
+      generator: "जनरेटर",
+      description: "विवरण",
+      descriptionPlaceholder: "यह टेम्पलेट किस काम का है",
+      template: "टेम्पलेट",
+      version: "संस्करण",
+      currentVersion: "संस्करण {{version}} (मौजूदा)",
+      savedVersion: "संस्करण {{version}} · {{date}}",
+      variablesHint:
+        "अपने वेरिएबल कोष्ठकों में जोड़ें, जैसे {{first}} या {{second}}, और जनरेट करते समय उन्हें भरें। असली कोष्ठक {{open}} और {{close}} के रूप में लिखें। ये ऐप अपने आप भरता है:",
+      reserved: {
+        userPrompt: "जनरेटर में लिखा गया प्रॉम्प्ट",
+        generationGuidelines: "उन्नत पैनल से लंबाई, रचनात्मकता और पढ़ने का स्तर",
+        sourceMaterial: "अपलोड किए गए दस्तावेज़ों के अंश, कोई न हो तो खाली",
+        outputLanguage: "भाषा मेनू से चुनी गई जवाबों की भाषा",
+        formatInstructions: "वह JSON फ़ॉर्मैट जिसका क्विज़ को पालन करना होता है (क्विज़ टेम्पलेट में ज़रूरी)",
+      },
+      defaultValues: "डिफ़ॉल्ट मान",
+      previewWith: "इस प्रॉम्प्ट के साथ पूर्वावलोकन",
+      samplePrompt: "प्रकाश संश्लेषण",
+      fixToPreview: "पूर्वावलोकन देखने के लिए टेम्पलेट ठीक करें।",
+      save: "टेम्पलेट सहेजें",
+    },
+    errors: {
+      braces: "टेम्पलेट के कोष्ठक बराबर नहीं हैं। असली कोष्ठक {{open}} और {{close}} के रूप में लिखें।",
+      userPrompt: "टेम्पलेट में {{variable}} होना ज़रूरी है ताकि जनरेटर का प्रॉम्प्ट भेजा जा सके।",
+      formatInstructions: "क्विज़ टेम्पलेट में {{variable}} होना ज़रूरी है ताकि क्विज़ वापस पढ़ी जा सके।",
+    },
+  },
+  profile: {
+    title: "लर्नर प्रोफ़ाइल",
+    description:
+      "हर जनरेटर और लर्निंग असिस्टेंट इसके अनुसार अपने जवाब ढालते हैं, ताकि आपको हर प्रॉम्प्ट में यह दोहराना न पड़े।",
+    gradeLevel: "कक्षा स्तर",
+    grade: "कक्षा {{number}}",
+    gradeLevels: {
+      undergraduate: "स्नातक",
+      graduate: "स्नातकोत्तर",
+      adultLearner: "वयस्क शिक्षार्थी",
+    },
+    preferredLanguage: "पसंदीदा भाषा",
+    subjects: "विषय",
+    subjectsPlaceholder: "जीव विज्ञान, बीजगणित, विश्व इतिहास",
+    subjectsHint: "विषयों को अल्पविराम से अलग करें।",
+    learningStyle: "सीखने की शैली",
+    learningStyles: {
+      none: "कोई पसंद नहीं",
+      visual: "दृश्य",
+      auditory: "श्रव्य",
+      reading_writing: "पढ़ना और लिखना",
+      kinesthetic: "करके सीखना",
+    },
+    accessibility: "सुगम्यता",
+    accessibilityNeeds: {
+      dyslexia: "डिस्लेक्सिया के अनुकूल टेक्स्ट",
+      focus: "ध्यान बनाए रखने में मदद",
+      screen_reader: "स्क्रीन रीडर",
+      plain_language: "सरल भाषा",
+    },
+    notes: "और कुछ",
+    notesPlaceholder: "जैसे, JEE की तैयारी; असल ज़िंदगी के उदाहरण पसंद हैं",
+    save: "प्रोफ़ाइल सहेजें",
+    saved: {
+      title: "लर्नर प्रोफ़ाइल सहेजी गई",
+      description: "नए जनरेशन इसके अनुसार बनाए जाएँगे।",
+    },
+    saveError: {
+      title: "प्रोफ़ाइल सहेजी नहीं जा सकी",
+      description: "कृपया फिर से कोशिश करें।",
+    },
+  },
+  errors: {
+    quota: {
+      title: "AI सेवा व्यस्त है",
+      description: "बहुत ज़्यादा अनुरोध भेजे गए, या उपयोग कोटा खत्म हो गया। एक मिनट रुककर फिर से कोशिश करें।",
+    },
+    safety: {
+      title: "जवाब रोका गया",
+      description: "AI प्रदाता के सुरक्षा फ़िल्टर ने यह अनुरोध रोक दिया। अपना प्रॉम्प्ट दूसरे शब्दों में लिखकर देखें।",
+    },
+    network: {
+      title: "AI सेवा से जुड़ नहीं पा रहे",
+      description: "अपना इंटरनेट कनेक्शन जाँचें और फिर से कोशिश करें।",
+    },
+    invalid_key: {
+      title: "AI सेवा कॉन्फ़िगर नहीं है",
+      description: "API कुंजी मौजूद नहीं है या अस्वीकार कर दी गई। अपनी .env फ़ाइल में कुंजी जाँचें।",
+    },
+    timeout: {
+      title: "अनुरोध का समय खत्म हो गया",
+      description: "AI सेवा ने जवाब देने में बहुत समय लिया। फिर से कोशिश करें, या छोटा नतीजा माँगें।",
+    },
+    server: {
+      title: "AI सेवा उपलब्ध नहीं है",
+      description: "AI सेवा की ओर से कोई समस्या हुई। थोड़ी देर में फिर से कोशिश करें।",
+    },
+    unauthenticated: {
+      title: "जनरेट करने के लिए साइन इन करें",
+      description: "AI सुविधाएँ इस्तेमाल करने के लिए अपने Aptora खाते में साइन इन करें।",
+    },
+    usage_limit: {
+      title: "आज की सीमा पूरी हो गई",
+      description:
+        "आपने आज के सभी AI अनुरोध या टोकन इस्तेमाल कर लिए हैं। सीमा UTC आधी रात को रीसेट होती है; ज़्यादा जानकारी के लिए उपयोग पेज देखें।",
+    },
+    unknown: {
+      title: "कुछ गड़बड़ हो गई",
+      description: "AI सेवा से बात करते समय त्रुटि हुई। कृपया फिर से कोशिश करें।",
+    },
+  },
+};
+
+export default hi;
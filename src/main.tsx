@@ -2,6 +2,7 @@
 import { createRoot } from 'react-dom/client'
 import { BrowserRouter } from 'react-router-dom'
 import App from './App.tsx'
+import './lib/i18n'
 import './index.css'
 
 createRoot(document.getElementById("root")!).render(
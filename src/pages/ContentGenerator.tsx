@@ -1,15 +1,18 @@
 
 import React from "react";
+import { useTranslation } from "react-i18next";
 import { AIFeature } from "@/components/AIFeature";
 import { ProtectedRoute } from "@/components/auth/ProtectedRoute";
 
 const ContentGenerator = () => {
+  const { t } = useTranslation();
+
   return (
     <ProtectedRoute>
       <AIFeature
-        title="Content Generator"
-        description="Generate tailored learning content based on your curriculum and learning objectives."
-        placeholder="Describe the learning content you need (e.g., 'Create a lesson plan about photosynthesis for 9th grade students')"
+        title={t("features.content.name")}
+        description={t("features.content.description")}
+        placeholder={t("features.content.placeholder")}
         feature="content"
       />
     </ProtectedRoute>
@@ -1,15 +1,18 @@
 
 import React from "react";
+import { useTranslation } from "react-i18next";
 import { AIFeature } from "@/components/AIFeature";
 import { ProtectedRoute } from "@/components/auth/ProtectedRoute";
 
 const FlashcardGenerator = () => {
+  const { t } = useTranslation();
+
   return (
     <ProtectedRoute>
       <AIFeature
-        title="Flashcard Generator"
-        description="Create interactive flashcards to boost memorization and enhance learning retention."
-        placeholder="Describe the flashcards you need (e.g., 'Create 10 flashcards about human anatomy terms')"
+        title={t("features.flashcards.name")}
+        description={t("features.flashcards.description")}
+        placeholder={t("features.flashcards.placeholder")}
         feature="flashcards"
       />
     </ProtectedRoute>
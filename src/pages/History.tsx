@@ -0,0 +1,170 @@
+import React, { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { ExternalLink, Loader2, Search, Trash2 } from "lucide-react";
+import { useTranslation } from "react-i18next";
+import { ProtectedRoute } from "@/components/auth/ProtectedRoute";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import { featureDetails } from "@/lib/features";
+import { getInterfaceLanguage } from "@/lib/i18n";
+import type { AIFeatureType } from "@/utils/langchainUtils";
+import {
+  HistoryItem,
+  clearHistory,
+  deleteHistoryItem,
+  filterHistory,
+  listHistory,
+} from "@/utils/historyStore";
+
+const GenerationHistory = () => {
+  const { t } = useTranslation();
+  const { currentUser } = useAuth();
+  const userId = currentUser?.uid;
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [search, setSearch] = useState("");
+  const [feature, setFeature] = useState<AIFeatureType | "all">("all");
+
+  const { data: items = [], isLoading } = useQuery({
+    queryKey: ["history", userId],
+    queryFn: () => listHistory(userId!),
+    enabled: !!userId,
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ["history", userId] });
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteHistoryItem,
+    onSuccess: invalidate,
+  });
+
+  const clearMutation = useMutation({
+    mutationFn: () => clearHistory(userId!),
+    onSuccess: () => {
+      invalidate();
+      toast({
+        title: t("history.cleared.title"),
+        description: t("history.cleared.description"),
+      });
+    },
+  });
+
+  const reopen = (item: HistoryItem) => {
+    navigate(featureDetails[item.feature].path, { state: { historyItem: item } });
+  };
+
+  const visibleItems = filterHistory(items, search, feature);
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <h1 className="text-3xl font-bold mb-2">{t("history.title")}</h1>
+      <p className="text-muted-foreground mb-6">{t("history.description")}</p>
+
+      <div className="flex flex-col sm:flex-row gap-3 mb-6">
+        <div className="relative flex-1">
+          <Search className="absolute start-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder={t("history.search")}
+            className="ps-9"
+          />
+        </div>
+        <Select value={feature} onValueChange={(value) => setFeature(value as AIFeatureType | "all")}>
+          <SelectTrigger className="sm:w-[220px]">
+            <SelectValue placeholder={t("history.allFeatures")} />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">{t("history.allFeatures")}</SelectItem>
+            {Object.keys(featureDetails).map((key) => (
+              <SelectItem key={key} value={key}>
+                {t(`features.${key}.name`)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          variant="outline"
+          onClick={() => clearMutation.mutate()}
+          disabled={!items.length || clearMutation.isPending}
+        >
+          {t("history.clear")}
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-16">
+          <Loader2 className="h-8 w-8 animate-spin" />
+        </div>
+      ) : visibleItems.length === 0 ? (
+        <div className="text-center text-muted-foreground py-16">
+          {items.length ? t("history.noMatches") : t("history.empty")}
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {visibleItems.map((item) => (
+            <Card key={item.id} className="p-4">
+              <div className="flex items-start justify-between gap-4">
+                <div className="min-w-0 space-y-2">
+                  <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+                    <Badge variant="secondary">{t(`features.${item.feature}.name`)}</Badge>
+                    <span>{new Date(item.createdAt).toLocaleString(getInterfaceLanguage())}</span>
+                    <span>· {item.settings.model}</span>
+                    {item.settings.template && (
+                      <span>
+                        · {item.settings.template.name} v{item.settings.template.version}
+                      </span>
+                    )}
+                    {item.variants && item.variants.length > 1 && (
+                      <span>· {t("history.versions", { total: item.variants.length })}</span>
+                    )}
+                  </div>
+                  <p className="font-medium line-clamp-2">{item.prompt}</p>
+                  <p className="text-sm text-muted-foreground line-clamp-3 whitespace-pre-wrap">
+                    {item.result}
+                  </p>
+                </div>
+                <div className="flex shrink-0 gap-1">
+                  <Button variant="ghost" size="icon" onClick={() => reopen(item)} title={t("history.open")}>
+                    <ExternalLink className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => deleteMutation.mutate(item.id)}
+                    title={t("common.delete")}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const History = () => {
+  return (
+    <ProtectedRoute>
+      <GenerationHistory />
+    </ProtectedRoute>
+  );
+};
+
+export default History;
@@ -1,16 +1,17 @@
-
 import React from "react";
-import { AIFeature } from "@/components/AIFeature";
+import { useTranslation } from "react-i18next";
+import { AssistantChat } from "@/components/assistant/AssistantChat";
 import { ProtectedRoute } from "@/components/auth/ProtectedRoute";
 
 const LearningAssistant = () => {
+  const { t } = useTranslation();
+
   return (
     <ProtectedRoute>
-      <AIFeature
-        title="AI Learning Assistant"
-        description="Get personalized help and answers to questions as you progress through your learning journey."
-        placeholder="Ask any question related to your studies (e.g., 'Explain the difference between mitosis and meiosis')"
-        feature="assistant"
+      <AssistantChat
+        title={t("features.assistant.name")}
+        description={t("features.assistant.description")}
+        placeholder={t("features.assistant.placeholder")}
       />
     </ProtectedRoute>
   );
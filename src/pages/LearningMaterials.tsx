@@ -1,15 +1,18 @@
 
 import React from "react";
+import { useTranslation } from "react-i18next";
 import { AIFeature } from "@/components/AIFeature";
 import { ProtectedRoute } from "@/components/auth/ProtectedRoute";
 
 const LearningMaterials = () => {
+  const { t } = useTranslation();
+
   return (
     <ProtectedRoute>
       <AIFeature
-        title="E-learning Materials"
-        description="Access a comprehensive library of learning materials designed for effective learning."
-        placeholder="Describe the learning materials you need (e.g., 'Create a learning roadmap for becoming a web developer')"
+        title={t("features.materials.name")}
+        description={t("features.materials.description")}
+        placeholder={t("features.materials.placeholder")}
         feature="materials"
       />
     </ProtectedRoute>
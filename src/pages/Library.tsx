@@ -0,0 +1,129 @@
+import React, { useRef, useState } from "react";
+import { FileText, Loader2, Trash2, Upload } from "lucide-react";
+import { useTranslation } from "react-i18next";
+import { ProtectedRoute } from "@/components/auth/ProtectedRoute";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { useAuth } from "@/contexts/AuthContext";
+import { useLibrary } from "@/hooks/use-library";
+import { useToast } from "@/hooks/use-toast";
+import { getInterfaceLanguage } from "@/lib/i18n";
+import { SUPPORTED_FILE_TYPES, loadSourceDocument } from "@/utils/documentUtils";
+import { LOCAL_EMBEDDING_MODEL_ID } from "@/utils/embeddingUtils";
+
+const DocumentLibrary = () => {
+  const { t } = useTranslation();
+  const { currentUser } = useAuth();
+  const { documents, isLoading, addDocument, deleteDocument } = useLibrary(currentUser?.uid);
+  const [uploadingName, setUploadingName] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files?.length) return;
+
+    for (const file of Array.from(files)) {
+      setUploadingName(file.name);
+      try {
+        const document = await addDocument(await loadSourceDocument(file));
+        if (document.embeddingModel === LOCAL_EMBEDDING_MODEL_ID) {
+          toast({
+            title: t("library.addedOffline.title", { name: document.name }),
+            description: t("library.addedOffline.description"),
+          });
+        }
+      } catch (error) {
+        console.error("Error adding document to library:", error);
+        toast({
+          title: t("library.addError.title"),
+          description: error instanceof Error ? error.message : t("library.addError.description", { name: file.name }),
+          variant: "destructive",
+        });
+      }
+    }
+
+    setUploadingName(null);
+    if (fileInputRef.current) fileInputRef.current.value = "";
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <h1 className="text-3xl font-bold mb-2">{t("library.title")}</h1>
+      <p className="text-muted-foreground mb-6">{t("library.description")}</p>
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept={SUPPORTED_FILE_TYPES}
+        multiple
+        className="hidden"
+        onChange={(e) => handleFiles(e.target.files)}
+      />
+      <Button onClick={() => fileInputRef.current?.click()} disabled={!!uploadingName} className="mb-6">
+        {uploadingName ? (
+          <>
+            <Loader2 className="me-2 h-4 w-4 animate-spin" />
+            {t("library.indexing", { name: uploadingName })}
+          </>
+        ) : (
+          <>
+            <Upload className="me-2 h-4 w-4" />
+            {t("library.add")}
+          </>
+        )}
+      </Button>
+
+      {isLoading ? (
+        <div className="flex justify-center py-16">
+          <Loader2 className="h-8 w-8 animate-spin" />
+        </div>
+      ) : documents.length === 0 ? (
+        <div className="text-center text-muted-foreground py-16">
+          {t("library.empty")}
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {documents.map((document) => (
+            <Card key={document.id} className="p-4 flex items-center justify-between gap-4">
+              <div className="flex min-w-0 items-center gap-3">
+                <FileText className="h-5 w-5 shrink-0 text-muted-foreground" />
+                <div className="min-w-0">
+                  <p className="font-medium truncate">{document.name}</p>
+                  <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+                    <span>{t("sources.sections", { total: document.chunkCount })}</span>
+                    <span>
+                      ·{" "}
+                      {t("library.added", { date: new Date(document.createdAt).toLocaleDateString(getInterfaceLanguage()) })}
+                    </span>
+                    {document.embeddingModel === LOCAL_EMBEDDING_MODEL_ID && (
+                      <Badge variant="secondary">{t("library.offlineIndex")}</Badge>
+                    )}
+                  </div>
+                </div>
+              </div>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => deleteDocument(document.id)}
+                title={t("sources.remove", { name: document.name })}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const Library = () => {
+  return (
+    <ProtectedRoute>
+      <DocumentLibrary />
+    </ProtectedRoute>
+  );
+};
+
+export default Library;
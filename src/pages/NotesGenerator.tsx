@@ -1,15 +1,18 @@
 
 import React from "react";
+import { useTranslation } from "react-i18next";
 import { AIFeature } from "@/components/AIFeature";
 import { ProtectedRoute } from "@/components/auth/ProtectedRoute";
 
 const NotesGenerator = () => {
+  const { t } = useTranslation();
+
   return (
     <ProtectedRoute>
       <AIFeature
-        title="AI Notes Generator"
-        description="Transform complex topics into concise, easy-to-understand notes with AI assistance."
-        placeholder="Paste text to summarize or describe what you need notes on (e.g., 'Summarize the key principles of quantum mechanics')"
+        title={t("features.notes.name")}
+        description={t("features.notes.description")}
+        placeholder={t("features.notes.placeholder")}
         feature="notes"
       />
     </ProtectedRoute>
@@ -0,0 +1,190 @@
+import React, { useState } from "react";
+import { Copy, FileText, Loader2, Pencil, Plus, Trash2 } from "lucide-react";
+import { useTranslation } from "react-i18next";
+import { ProtectedRoute } from "@/components/auth/ProtectedRoute";
+import { TemplateEditor } from "@/components/templates/TemplateEditor";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { useAuth } from "@/contexts/AuthContext";
+import { usePromptTemplates } from "@/hooks/use-prompt-templates";
+import { useToast } from "@/hooks/use-toast";
+import { getInterfaceLanguage } from "@/lib/i18n";
+import { AIFeatureType, PromptTemplateDefinition, builtInTemplates, templateFeatures } from "@/utils/promptRegistry";
+import { PromptTemplateInput } from "@/utils/templateStore";
+
+interface EditorState {
+  key: string;
+  initial: PromptTemplateInput;
+  saved?: PromptTemplateDefinition;
+}
+
+// A new draft starting from the built-in template for a generator
+const customizeBuiltIn = (feature: AIFeatureType, name: string, description: string): EditorState => ({
+  key: `new:${feature}:${Date.now()}`,
+  initial: {
+    feature,
+    name,
+    description,
+    template: builtInTemplates[feature].template,
+    variables: {},
+  },
+});
+
+const TemplateManager = () => {
+  const { t } = useTranslation();
+  const language = getInterfaceLanguage();
+  const { currentUser } = useAuth();
+  const { templates, isLoading, saveTemplate, isSaving, deleteTemplate } = usePromptTemplates(currentUser?.uid);
+  const [editor, setEditor] = useState<EditorState | null>(null);
+  const { toast } = useToast();
+
+  const edit = (template: PromptTemplateDefinition) =>
+    setEditor({
+      key: `${template.id}:${template.version}`,
+      initial: {
+        id: template.id,
+        feature: template.feature,
+        name: template.name,
+        description: template.description,
+        template: template.template,
+        variables: template.variables,
+      },
+      saved: template,
+    });
+
+  const customize = (feature: AIFeatureType) =>
+    setEditor(
+      customizeBuiltIn(
+        feature,
+        t("templates.newName", { feature: t(`features.${feature}.name`).toLocaleLowerCase(language) }),
+        t(`templates.builtInDescriptions.${feature}`)
+      )
+    );
+
+  const handleSave = async (input: PromptTemplateInput) => {
+    try {
+      const saved = await saveTemplate(input);
+      toast({
+        title: t("templates.saved.title"),
+        description: t("templates.saved.description", { name: saved.name, version: saved.version }),
+      });
+      setEditor(null);
+    } catch (error) {
+      toast({
+        title: t("templates.saveError.title"),
+        description: error instanceof Error ? error.message : t("templates.saveError.description"),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = async (template: PromptTemplateDefinition) => {
+    await deleteTemplate(template.id);
+    if (editor?.saved?.id === template.id) setEditor(null);
+    toast({
+      title: t("templates.deleted.title"),
+      description: t("templates.deleted.description", { name: template.name }),
+    });
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <h1 className="text-3xl font-bold mb-2">{t("templates.title")}</h1>
+      <p className="text-muted-foreground mb-6">{t("templates.description")}</p>
+
+      {editor ? (
+        <TemplateEditor
+          key={editor.key}
+          initial={editor.initial}
+          saved={editor.saved}
+          onSave={handleSave}
+          onCancel={() => setEditor(null)}
+          isSaving={isSaving}
+        />
+      ) : (
+        <div className="space-y-8">
+          <section>
+            <div className="flex items-center justify-between gap-4 mb-3">
+              <h2 className="text-xl font-semibold">{t("templates.mine")}</h2>
+              <Button onClick={() => customize("content")}>
+                <Plus className="me-2 h-4 w-4" />
+                {t("templates.new")}
+              </Button>
+            </div>
+            {isLoading ? (
+              <div className="flex justify-center py-16">
+                <Loader2 className="h-8 w-8 animate-spin" />
+              </div>
+            ) : templates.length === 0 ? (
+              <div className="text-center text-muted-foreground py-12">
+                {t("templates.empty")}
+              </div>
+            ) : (
+              <div className="space-y-3">
+                {templates.map((template) => (
+                  <Card key={template.id} className="p-4 flex items-center justify-between gap-4">
+                    <div className="flex min-w-0 items-center gap-3">
+                      <FileText className="h-5 w-5 shrink-0 text-muted-foreground" />
+                      <div className="min-w-0">
+                        <p className="font-medium truncate">{template.name}</p>
+                        <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+                          <Badge variant="secondary">{t(`features.${template.feature}.name`)}</Badge>
+                          <span>v{template.version}</span>
+                          <span>
+                            · {t("templates.updated", { date: new Date(template.updatedAt).toLocaleDateString(language) })}
+                          </span>
+                        </div>
+                      </div>
+                    </div>
+                    <div className="flex gap-1">
+                      <Button variant="ghost" size="icon" onClick={() => edit(template)} title={t("templates.edit", { name: template.name })}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleDelete(template)}
+                        title={t("templates.delete", { name: template.name })}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </Card>
+                ))}
+              </div>
+            )}
+          </section>
+
+          <section>
+            <h2 className="text-xl font-semibold mb-3">{t("templates.builtIn")}</h2>
+            <div className="grid gap-3 sm:grid-cols-2">
+              {templateFeatures.map((feature) => (
+                <Card key={feature} className="p-4 flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <p className="font-medium">{t(`features.${feature}.name`)}</p>
+                    <p className="text-sm text-muted-foreground">{t(`templates.builtInDescriptions.${feature}`)}</p>
+                  </div>
+                  <Button variant="outline" size="sm" onClick={() => customize(feature)}>
+                    <Copy className="me-2 h-4 w-4" />
+                    {t("templates.customize")}
+                  </Button>
+                </Card>
+              ))}
+            </div>
+          </section>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const PromptTemplates = () => {
+  return (
+    <ProtectedRoute>
+      <TemplateManager />
+    </ProtectedRoute>
+  );
+};
+
+export default PromptTemplates;
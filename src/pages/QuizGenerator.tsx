@@ -1,15 +1,18 @@
 
 import React from "react";
+import { useTranslation } from "react-i18next";
 import { AIFeature } from "@/components/AIFeature";
 import { ProtectedRoute } from "@/components/auth/ProtectedRoute";
 
 const QuizGenerator = () => {
+  const { t } = useTranslation();
+
   return (
     <ProtectedRoute>
       <AIFeature
-        title="Quiz Generator"
-        description="Create customized quizzes with varying difficulty levels to test your knowledge."
-        placeholder="Describe the quiz you need (e.g., '10 multiple choice questions about World War II for high school students')"
+        title={t("features.quiz.name")}
+        description={t("features.quiz.description")}
+        placeholder={t("features.quiz.placeholder")}
         feature="quiz"
       />
     </ProtectedRoute>
@@ -0,0 +1,116 @@
+import React from "react";
+import { Database, Loader2, Trash2 } from "lucide-react";
+import { useTranslation } from "react-i18next";
+import { ProtectedRoute } from "@/components/auth/ProtectedRoute";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { useAuth } from "@/contexts/AuthContext";
+import { useGenerationCache } from "@/hooks/use-generation-cache";
+import { useToast } from "@/hooks/use-toast";
+import { getInterfaceLanguage } from "@/lib/i18n";
+import { CachedValue } from "@/utils/generationCache";
+
+const formatSize = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+const RequestCacheSettings = () => {
+  const { t } = useTranslation();
+  const { currentUser } = useAuth();
+  const { entries, isLoading, deleteEntry, clearCache, isClearing } = useGenerationCache(currentUser?.uid);
+  const { toast } = useToast();
+
+  const totalSize = entries.reduce((sum, entry) => sum + entry.size, 0);
+  const totalHits = entries.reduce((sum, entry) => sum + entry.hits, 0);
+
+  const previewValue = (value: CachedValue) =>
+    typeof value === "string"
+      ? value
+      : t("settings.cache.quiz", { title: value.title, total: value.questions.length });
+
+  const handleClear = async () => {
+    await clearCache();
+    toast({
+      title: t("settings.cache.cleared.title"),
+      description: t("settings.cache.cleared.description"),
+    });
+  };
+
+  return (
+    <section>
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-3">
+        <div>
+          <h2 className="text-xl font-semibold flex items-center gap-2">
+            <Database className="h-5 w-5" />
+            {t("settings.cache.title")}
+          </h2>
+          <p className="text-sm text-muted-foreground">{t("settings.cache.description")}</p>
+        </div>
+        <Button variant="outline" onClick={handleClear} disabled={!entries.length || isClearing}>
+          {t("settings.cache.clear")}
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-16">
+          <Loader2 className="h-8 w-8 animate-spin" />
+        </div>
+      ) : entries.length === 0 ? (
+        <div className="text-center text-muted-foreground py-12">{t("settings.cache.empty")}</div>
+      ) : (
+        <>
+          <p className="text-sm text-muted-foreground mb-3">
+            {t("settings.cache.summary", { entries: entries.length, size: formatSize(totalSize), hits: totalHits })}
+          </p>
+          <div className="space-y-3">
+            {entries.map((entry) => (
+              <Card key={entry.key} className="p-4">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="min-w-0 space-y-2">
+                    <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+                      <Badge variant="secondary">{t(`features.${entry.feature}.name`)}</Badge>
+                      <span>
+                        {t("settings.cache.lastUsed", {
+                          date: new Date(entry.lastUsedAt).toLocaleString(getInterfaceLanguage()),
+                        })}
+                      </span>
+                      <span>· {entry.model}</span>
+                      <span>· {t("settings.cache.hits", { hits: entry.hits })}</span>
+                      <span>· {formatSize(entry.size)}</span>
+                    </div>
+                    <p className="font-medium line-clamp-2">{entry.prompt}</p>
+                    <p className="text-sm text-muted-foreground line-clamp-2 whitespace-pre-wrap">
+                      {previewValue(entry.value)}
+                    </p>
+                    <p className="text-xs text-muted-foreground font-mono truncate" title={entry.key}>
+                      {entry.key}
+                    </p>
+                  </div>
+                  <Button variant="ghost" size="icon" onClick={() => deleteEntry(entry)} title={t("settings.cache.remove")}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </Card>
+            ))}
+          </div>
+        </>
+      )}
+    </section>
+  );
+};
+
+const Settings = () => {
+  const { t } = useTranslation();
+
+  return (
+    <ProtectedRoute>
+      <div className="container mx-auto px-4 py-8">
+        <h1 className="text-3xl font-bold mb-2">{t("settings.title")}</h1>
+        <p className="text-muted-foreground mb-6">{t("settings.description")}</p>
+        <RequestCacheSettings />
+      </div>
+    </ProtectedRoute>
+  );
+};
+
+export default Settings;
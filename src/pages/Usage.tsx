@@ -0,0 +1,226 @@
+import React from "react";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { AlertCircle, BarChart3, Loader2 } from "lucide-react";
+import { useTranslation } from "react-i18next";
+import { ProtectedRoute } from "@/components/auth/ProtectedRoute";
+import { Card } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import { useAuth } from "@/contexts/AuthContext";
+import { useUsage } from "@/hooks/use-usage";
+import { getInterfaceLanguage } from "@/lib/i18n";
+import { describeLLMError, LLMError } from "@/utils/llmErrors";
+import {
+  UsageFeature,
+  UsageRecord,
+  getUsageLimits,
+  sumUsage,
+  totalTokens,
+  usageDay,
+  usageFeatures,
+} from "@/utils/usageStore";
+
+// Days shown in the chart and the breakdown
+const CHART_DAYS = 14;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const featureColors: Record<UsageFeature, string> = {
+  content: "hsl(221 83% 53%)",
+  quiz: "hsl(142 71% 45%)",
+  materials: "hsl(38 92% 50%)",
+  notes: "hsl(262 83% 58%)",
+  flashcards: "hsl(330 81% 60%)",
+  assistant: "hsl(189 94% 43%)",
+  rewrite: "hsl(24 95% 53%)",
+  merge: "hsl(215 16% 47%)",
+  grade: "hsl(0 72% 51%)",
+};
+
+const formatNumber = (value: number, language: string) => value.toLocaleString(language);
+
+const formatCompact = (value: number, language: string) =>
+  new Intl.NumberFormat(language, { notation: "compact", maximumFractionDigits: 1 }).format(value);
+
+// UTC days, oldest first, ending today
+const lastDays = (count: number) =>
+  Array.from({ length: count }, (_, index) => usageDay(new Date(Date.now() - (count - 1 - index) * DAY_MS)));
+
+const formatDay = (day: string, language: string) =>
+  new Date(`${day}T00:00:00Z`).toLocaleDateString(language, { month: "short", day: "numeric", timeZone: "UTC" });
+
+// One row per day with the tokens used by each feature, for the stacked bar chart
+const toChartData = (records: UsageRecord[], language: string) =>
+  lastDays(CHART_DAYS).map((day) => ({
+    label: formatDay(day, language),
+    ...Object.fromEntries(
+      usageFeatures.map((feature) => [
+        feature,
+        totalTokens(sumUsage(records.filter((record) => record.day === day && record.feature === feature))),
+      ])
+    ),
+  }));
+
+const LimitMeter = ({ label, used, limit }: { label: string; used: number; limit: number }) => {
+  const { t } = useTranslation();
+  const language = getInterfaceLanguage();
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-baseline justify-between gap-2 text-sm">
+        <span className="font-medium">{label}</span>
+        <span className="text-muted-foreground">
+          {formatNumber(used, language)}{" "}
+          {limit ? t("usage.ofLimit", { limit: formatNumber(limit, language) }) : t("usage.noLimit")}
+        </span>
+      </div>
+      {limit > 0 && <Progress value={Math.min(100, (used / limit) * 100)} className="h-2" />}
+    </div>
+  );
+};
+
+const Usage = () => {
+  const { t } = useTranslation();
+  const language = getInterfaceLanguage();
+  const { currentUser } = useAuth();
+  const { records, isLoading } = useUsage(currentUser?.uid, CHART_DAYS);
+  const limits = getUsageLimits();
+
+  const today = sumUsage(records.filter((record) => record.day === usageDay()));
+  const period = sumUsage(records);
+  const limitReached =
+    (limits.requestsPerDay > 0 && today.requests >= limits.requestsPerDay) ||
+    (limits.tokensPerDay > 0 && totalTokens(today) >= limits.tokensPerDay);
+  const limitMessage = describeLLMError(new LLMError("usage_limit", "Daily limit reached"));
+
+  const chartConfig = Object.fromEntries(
+    usageFeatures.map((feature) => [feature, { label: t(`usage.features.${feature}`), color: featureColors[feature] }])
+  ) satisfies ChartConfig;
+
+  const usedFeatures = usageFeatures.filter((feature) => records.some((record) => record.feature === feature));
+  const breakdown = usedFeatures
+    .map((feature) => ({ feature, usage: sumUsage(records.filter((record) => record.feature === feature)) }))
+    .sort((a, b) => totalTokens(b.usage) - totalTokens(a.usage));
+
+  return (
+    <ProtectedRoute>
+      <div className="container mx-auto px-4 py-8">
+        <h1 className="text-3xl font-bold mb-2 flex items-center gap-2">
+          <BarChart3 className="h-7 w-7" />
+          {t("usage.title")}
+        </h1>
+        <p className="text-muted-foreground mb-6">{t("usage.description")}</p>
+
+        {isLoading ? (
+          <div className="flex justify-center py-16">
+            <Loader2 className="h-8 w-8 animate-spin" />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {limitReached && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertTitle>{limitMessage.title}</AlertTitle>
+                <AlertDescription>{limitMessage.description}</AlertDescription>
+              </Alert>
+            )}
+
+            <Card className="p-6 space-y-4">
+              <h2 className="text-xl font-semibold">{t("usage.today")}</h2>
+              <div className="grid gap-6 sm:grid-cols-2">
+                <LimitMeter label={t("usage.requests")} used={today.requests} limit={limits.requestsPerDay} />
+                <LimitMeter label={t("usage.tokens")} used={totalTokens(today)} limit={limits.tokensPerDay} />
+              </div>
+            </Card>
+
+            <Card className="p-6 space-y-4">
+              <div>
+                <h2 className="text-xl font-semibold">{t("usage.tokensPerDay")}</h2>
+                <p className="text-sm text-muted-foreground">
+                  {t("usage.period", {
+                    tokens: formatNumber(totalTokens(period), language),
+                    requests: formatNumber(period.requests, language),
+                    days: CHART_DAYS,
+                  })}
+                </p>
+              </div>
+              {period.requests === 0 ? (
+                <div className="text-center text-muted-foreground py-12">
+                  {t("usage.nothing", { days: CHART_DAYS })}
+                </div>
+              ) : (
+                <ChartContainer config={chartConfig} className="aspect-auto h-72 w-full">
+                  <BarChart data={toChartData(records, language)}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="label" tickLine={false} axisLine={false} tickMargin={8} />
+                    <YAxis
+                      tickLine={false}
+                      axisLine={false}
+                      width={48}
+                      tickFormatter={(value: number) => formatCompact(value, language)}
+                    />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    {usedFeatures.map((feature) => (
+                      <Bar key={feature} dataKey={feature} stackId="tokens" fill={`var(--color-${feature})`} />
+                    ))}
+                  </BarChart>
+                </ChartContainer>
+              )}
+            </Card>
+
+            {breakdown.length > 0 && (
+              <Card className="p-6 space-y-4">
+                <h2 className="text-xl font-semibold">{t("usage.byFeature")}</h2>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead className="text-start text-muted-foreground">
+                      <tr>
+                        <th className="py-2 pe-4 font-medium">{t("usage.feature")}</th>
+                        <th className="py-2 pe-4 font-medium text-end">{t("usage.requests")}</th>
+                        <th className="py-2 pe-4 font-medium text-end">{t("usage.inputTokens")}</th>
+                        <th className="py-2 font-medium text-end">{t("usage.outputTokens")}</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {breakdown.map(({ feature, usage }) => (
+                        <tr key={feature} className="border-t">
+                          <td className="py-2 pe-4">
+                            <span className="flex items-center gap-2">
+                              <span
+                                className="h-2.5 w-2.5 rounded-sm"
+                                style={{ backgroundColor: featureColors[feature] }}
+                              />
+                              {t(`usage.features.${feature}`)}
+                            </span>
+                          </td>
+                          <td className="py-2 pe-4 text-end">{formatNumber(usage.requests, language)}</td>
+                          <td className="py-2 pe-4 text-end">{formatNumber(usage.inputTokens, language)}</td>
+                          <td className="py-2 text-end">{formatNumber(usage.outputTokens, language)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+                {period.estimatedTokens > 0 && (
+                  <p className="text-xs text-muted-foreground">
+                    {t("usage.estimated", { tokens: formatNumber(period.estimatedTokens, language) })}
+                  </p>
+                )}
+              </Card>
+            )}
+          </div>
+        )}
+      </div>
+    </ProtectedRoute>
+  );
+};
+
+export default Usage;
@@ -0,0 +1,172 @@
+import { Flashcard } from "@/utils/flashcardUtils";
+import { markdownToHtml } from "@/utils/markdownUtils";
+
+// Fixed so repeated imports reuse the same note type instead of creating "Aptora Basic+"
+const MODEL_ID = 1607392319012;
+const FIELD_SEPARATOR = "\x1f";
+
+const collectionSchema = `
+  CREATE TABLE col (id integer primary key, crt integer not null, mod integer not null, scm integer not null,
+    ver integer not null, dty integer not null, usn integer not null, ls integer not null, conf text not null,
+    models text not null, decks text not null, dconf text not null, tags text not null);
+  CREATE TABLE notes (id integer primary key, guid text not null, mid integer not null, mod integer not null,
+    usn integer not null, tags text not null, flds text not null, sfld integer not null, csum integer not null,
+    flags integer not null, data text not null);
+  CREATE TABLE cards (id integer primary key, nid integer not null, did integer not null, ord integer not null,
+    mod integer not null, usn integer not null, type integer not null, queue integer not null, due integer not null,
+    ivl integer not null, factor integer not null, reps integer not null, lapses integer not null, left integer not null,
+    odue integer not null, odid integer not null, flags integer not null, data text not null);
+  CREATE TABLE revlog (id integer primary key, cid integer not null, usn integer not null, ease integer not null,
+    ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null, type integer not null);
+  CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null);
+  CREATE INDEX ix_notes_usn on notes (usn);
+  CREATE INDEX ix_cards_usn on cards (usn);
+  CREATE INDEX ix_revlog_usn on revlog (usn);
+  CREATE INDEX ix_cards_nid on cards (nid);
+  CREATE INDEX ix_cards_sched on cards (did, queue, due);
+  CREATE INDEX ix_revlog_cid on revlog (cid);
+  CREATE INDEX ix_notes_csum on notes (csum);
+`;
+
+const deckConfig = {
+  id: 1,
+  name: "Default",
+  mod: 0,
+  usn: 0,
+  maxTaken: 60,
+  autoplay: true,
+  timer: 0,
+  replayq: true,
+  new: { bury: true, delays: [1, 10], initialFactor: 2500, ints: [1, 4, 7], order: 1, perDay: 20, separate: true },
+  rev: { bury: true, ease4: 1.3, fuzz: 0.05, ivlFct: 1, maxIvl: 36500, minSpace: 1, perDay: 200 },
+  lapse: { delays: [10], leechAction: 0, leechFails: 8, minInt: 1, mult: 0 },
+};
+
+const createDeck = (id: number, name: string, mod: number) => ({
+  id,
+  name,
+  mod,
+  desc: "",
+  usn: -1,
+  dyn: 0,
+  conf: 1,
+  collapsed: false,
+  browserCollapsed: false,
+  extendNew: 10,
+  extendRev: 50,
+  newToday: [0, 0],
+  revToday: [0, 0],
+  lrnToday: [0, 0],
+  timeToday: [0, 0],
+});
+
+const createModel = (deckId: number, mod: number) => ({
+  id: MODEL_ID,
+  name: "Aptora Basic",
+  type: 0,
+  mod,
+  usn: -1,
+  sortf: 0,
+  did: deckId,
+  tags: [],
+  vers: [],
+  flds: ["Front", "Back"].map((name, ord) => ({
+    name,
+    ord,
+    sticky: false,
+    rtl: false,
+    font: "Arial",
+    size: 20,
+    media: [],
+  })),
+  tmpls: [
+    {
+      name: "Card 1",
+      ord: 0,
+      qfmt: "{{Front}}",
+      afmt: "{{FrontSide}}\n\n<hr id=answer>\n\n{{Back}}",
+      did: null,
+      bqfmt: "",
+      bafmt: "",
+    },
+  ],
+  req: [[0, "any", [0]]],
+  css: ".card { font-family: arial; font-size: 20px; text-align: center; color: black; background-color: white; }\n" +
+    ".card ul, .card ol, .card pre, .card table { display: inline-block; text-align: left; }",
+  latexPre:
+    "\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage[utf8]{inputenc}\n" +
+    "\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n",
+  latexPost: "\\end{document}",
+});
+
+const stripHtml = (html: string) => html.replace(/<[^>]+>/g, "").trim();
+
+// Anki's duplicate check: the first 8 hex digits of the SHA-1 of the sort field
+const fieldChecksum = async (text: string) => {
+  const digest = await crypto.subtle.digest("SHA-1", new TextEncoder().encode(text));
+  const hex = Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+  return parseInt(hex.slice(0, 8), 16);
+};
+
+// Card faces as Anki HTML, with math left for Anki's MathJax
+export const toAnkiFields = async (card: Flashcard) =>
+  Promise.all([card.question, card.answer].map((text) => markdownToHtml(text, { math: "delimiters" })));
+
+// Build an Anki deck package (.apkg) that imports as a new deck named after the export
+export const createAnkiPackage = async (cards: Flashcard[], deckName: string): Promise<Blob> => {
+  // Loaded on demand so SQLite and the zip writer stay out of the main bundle
+  const { default: initSqlJs } = await import("sql.js");
+  const { default: sqlWasmUrl } = await import("sql.js/dist/sql-wasm.wasm?url");
+  const { default: JSZip } = await import("jszip");
+
+  const SQL = await initSqlJs({ locateFile: () => sqlWasmUrl });
+  const db = new SQL.Database();
+
+  try {
+    const now = Date.now();
+    const nowSeconds = Math.floor(now / 1000);
+    const deckId = now;
+
+    db.run(collectionSchema);
+    db.run("INSERT INTO col VALUES (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, '{}')", [
+      Math.floor(new Date().setHours(0, 0, 0, 0) / 1000),
+      now,
+      now,
+      JSON.stringify({ activeDecks: [1], curDeck: 1, curModel: String(MODEL_ID), nextPos: cards.length + 1 }),
+      JSON.stringify({ [MODEL_ID]: createModel(deckId, nowSeconds) }),
+      JSON.stringify({ 1: createDeck(1, "Default", 0), [deckId]: createDeck(deckId, deckName, nowSeconds) }),
+      JSON.stringify({ 1: deckConfig }),
+    ]);
+
+    for (const [index, card] of cards.entries()) {
+      const [front, back] = await toAnkiFields(card);
+      const sortField = stripHtml(front);
+      const noteId = now + index;
+
+      // The card's stable id as guid, so re-importing an updated deck updates notes instead of duplicating them
+      db.run("INSERT INTO notes VALUES (?, ?, ?, ?, -1, '', ?, ?, ?, 0, '')", [
+        noteId,
+        `aptora-${card.id}`,
+        MODEL_ID,
+        nowSeconds,
+        `${front}${FIELD_SEPARATOR}${back}`,
+        sortField,
+        await fieldChecksum(sortField),
+      ]);
+      db.run("INSERT INTO cards VALUES (?, ?, ?, 0, ?, -1, 0, 0, ?, 0, 0, 0, 0, 0, 0, 0, 0, '')", [
+        noteId,
+        noteId,
+        deckId,
+        nowSeconds,
+        index + 1,
+      ]);
+    }
+
+    const zip = new JSZip();
+    zip.file("collection.anki2", db.export());
+    zip.file("media", "{}");
+    return zip.generateAsync({ type: "blob", mimeType: "application/octet-stream" });
+  } finally {
+    db.close();
+  }
+};
@@ -0,0 +1,64 @@
+import { AIMessage, HumanMessage } from "@langchain/core/messages";
+import { InMemoryChatMessageHistory } from "@langchain/core/chat_history";
+import type { LibraryCitation } from "@/utils/libraryStore";
+
+export interface ChatMessage {
+  role: "user" | "assistant";
+  content: string;
+  createdAt: string;
+  // Library passages cited in an assistant reply
+  citations?: LibraryCitation[];
+}
+
+export interface ChatThread {
+  id: string;
+  title: string;
+  messages: ChatMessage[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+const STORAGE_PREFIX = "aptora:assistant-threads:";
+const DEFAULT_THREAD_TITLE = "New conversation";
+const MAX_TITLE_LENGTH = 40;
+
+export const createThread = (): ChatThread => {
+  const now = new Date().toISOString();
+  return {
+    id: crypto.randomUUID(),
+    title: DEFAULT_THREAD_TITLE,
+    messages: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+// Name a new thread after the first question asked in it
+export const titleFromPrompt = (prompt: string) => {
+  const title = prompt.trim().replace(/\s+/g, " ");
+  return title.length > MAX_TITLE_LENGTH ? `${title.slice(0, MAX_TITLE_LENGTH - 1)}…` : title;
+};
+
+export const isDefaultThreadTitle = (title: string) => title === DEFAULT_THREAD_TITLE;
+
+// Build a LangChain message history from a thread's saved messages
+export const toMessageHistory = (messages: ChatMessage[]) =>
+  new InMemoryChatMessageHistory(
+    messages.map((message) =>
+      message.role === "user" ? new HumanMessage(message.content) : new AIMessage(message.content)
+    )
+  );
+
+export const loadThreads = (userId: string): ChatThread[] => {
+  try {
+    const saved = localStorage.getItem(`${STORAGE_PREFIX}${userId}`);
+    return saved ? JSON.parse(saved) : [];
+  } catch (error) {
+    console.error("Error loading assistant threads:", error);
+    return [];
+  }
+};
+
+export const saveThreads = (userId: string, threads: ChatThread[]) => {
+  localStorage.setItem(`${STORAGE_PREFIX}${userId}`, JSON.stringify(threads));
+};
@@ -0,0 +1,138 @@
+import { RecursiveCharacterTextSplitter } from "@langchain/textsplitters";
+import i18n from "@/lib/i18n";
+
+// A document uploaded as source material, with its text split into chunks
+export interface SourceDocument {
+  id: string;
+  name: string;
+  characterCount: number;
+  chunks: string[];
+}
+
+export const SUPPORTED_FILE_TYPES = ".pdf,.docx,.txt,.md";
+export const MAX_FILE_SIZE = 20 * 1024 * 1024;
+
+const CHUNK_SIZE = 1000;
+const CHUNK_OVERLAP = 150;
+// Roughly 3000 tokens of source material per request
+const SOURCE_CHARACTER_BUDGET = 12000;
+
+const getExtension = (name: string) => name.split(".").pop()?.toLowerCase() ?? "";
+
+const extractPdfText = async (file: File) => {
+  // Loaded on demand so pdf.js stays out of the main bundle
+  const pdfjs = await import("pdfjs-dist");
+  const { default: workerUrl } = await import("pdfjs-dist/build/pdf.worker.min.mjs?url");
+  pdfjs.GlobalWorkerOptions.workerSrc = workerUrl;
+
+  const pdf = await pdfjs.getDocument({ data: await file.arrayBuffer() }).promise;
+  const pages: string[] = [];
+
+  for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+    const page = await pdf.getPage(pageNumber);
+    const content = await page.getTextContent();
+    pages.push(
+      content.items
+        .map((item) => ("str" in item ? `${item.str}${item.hasEOL ? "\n" : ""}` : ""))
+        .join("")
+    );
+  }
+
+  return pages.join("\n\n");
+};
+
+const extractDocxText = async (file: File) => {
+  const mammoth = await import("mammoth");
+  const result = await mammoth.extractRawText({ arrayBuffer: await file.arrayBuffer() });
+  return result.value;
+};
+
+// Extract plain text from a PDF, DOCX or text file in the browser
+export const extractTextFromFile = async (file: File): Promise<string> => {
+  switch (getExtension(file.name)) {
+    case "pdf":
+      return extractPdfText(file);
+    case "docx":
+      return extractDocxText(file);
+    case "txt":
+    case "md":
+      return file.text();
+    default:
+      throw new Error(i18n.t("sources.unsupported", { name: file.name }));
+  }
+};
+
+export const chunkText = (text: string): Promise<string[]> => {
+  const splitter = new RecursiveCharacterTextSplitter({
+    chunkSize: CHUNK_SIZE,
+    chunkOverlap: CHUNK_OVERLAP,
+  });
+  return splitter.splitText(text.replace(/[ \t]+/g, " ").trim());
+};
+
+export const loadSourceDocument = async (file: File): Promise<SourceDocument> => {
+  if (file.size > MAX_FILE_SIZE) {
+    throw new Error(i18n.t("sources.tooLarge", { name: file.name }));
+  }
+
+  const text = await extractTextFromFile(file);
+  if (!text.trim()) {
+    throw new Error(i18n.t("sources.noText", { name: file.name }));
+  }
+
+  return {
+    id: crypto.randomUUID(),
+    name: file.name,
+    characterCount: text.length,
+    chunks: await chunkText(text),
+  };
+};
+
+const tokenize = (text: string) =>
+  text.toLowerCase().match(/[\p{L}\p{N}]{3,}/gu) ?? [];
+
+// Pick the chunks that best match the prompt and fit the budget, kept in document order
+export const selectRelevantChunks = (
+  documents: SourceDocument[],
+  prompt: string,
+  budget = SOURCE_CHARACTER_BUDGET
+) => {
+  const chunks = documents.flatMap((document) =>
+    document.chunks.map((text, index) => ({ document: document.name, index, text }))
+  );
+  const totalLength = chunks.reduce((total, chunk) => total + chunk.text.length, 0);
+  if (totalLength <= budget) return chunks;
+
+  const promptTerms = new Set(tokenize(prompt));
+  const scored = chunks.map((chunk, position) => {
+    const matches = tokenize(chunk.text).filter((term) => promptTerms.has(term)).length;
+    // Spread picks across the material when the prompt matches nothing in particular
+    return { chunk, position, score: matches + (position % 7 === 0 ? 0.5 : 0) };
+  });
+
+  const selected: typeof scored = [];
+  let used = 0;
+  for (const entry of [...scored].sort((a, b) => b.score - a.score)) {
+    if (used + entry.chunk.text.length > budget) continue;
+    selected.push(entry);
+    used += entry.chunk.text.length;
+  }
+
+  return selected.sort((a, b) => a.position - b.position).map((entry) => entry.chunk);
+};
+
+// Format the selected chunks as a prompt section, or an empty string without documents
+export const buildSourceMaterial = (documents: SourceDocument[], prompt: string) => {
+  if (!documents.length) return "";
+
+  const excerpts = selectRelevantChunks(documents, prompt)
+    .map((chunk) => `[${chunk.document}]\n${chunk.text}`)
+    .join("\n\n");
+
+  return `SOURCE MATERIAL:
+    Base your response on the following excerpts from the student's own documents.
+    Do not add facts that are not supported by this material.
+    ---
+${excerpts}
+    ---`;
+};
@@ -0,0 +1,87 @@
+import { Embeddings } from "@langchain/core/embeddings";
+import { EmbeddingModel, createEmbeddingModel } from "@/utils/llmProviders";
+
+const LOCAL_EMBEDDING_DIMENSIONS = 512;
+export const LOCAL_EMBEDDING_MODEL_ID = `local:hashing-${LOCAL_EMBEDDING_DIMENSIONS}`;
+
+const tokenize = (text: string) =>
+  text.toLowerCase().match(/[\p{L}\p{N}]{2,}/gu) ?? [];
+
+// 32-bit FNV-1a hash
+const hashToken = (token: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < token.length; i++) {
+    hash ^= token.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Feature-hashed word and bigram counts, so the library works offline and without an API key
+export class LocalHashEmbeddings extends Embeddings {
+  constructor() {
+    super({});
+  }
+
+  private embed(text: string): number[] {
+    const vector = new Array<number>(LOCAL_EMBEDDING_DIMENSIONS).fill(0);
+    const words = tokenize(text);
+    const counts = new Map<string, number>();
+
+    words.forEach((word, index) => {
+      counts.set(word, (counts.get(word) ?? 0) + 1);
+      if (index > 0) {
+        const bigram = `${words[index - 1]} ${word}`;
+        counts.set(bigram, (counts.get(bigram) ?? 0) + 1);
+      }
+    });
+
+    counts.forEach((count, token) => {
+      const hash = hashToken(token);
+      // The top bit picks a sign so hash collisions tend to cancel out
+      const sign = hash & 0x80000000 ? -1 : 1;
+      vector[hash % LOCAL_EMBEDDING_DIMENSIONS] += sign * (1 + Math.log(count));
+    });
+
+    const norm = Math.sqrt(vector.reduce((total, value) => total + value * value, 0));
+    return norm ? vector.map((value) => value / norm) : vector;
+  }
+
+  async embedDocuments(documents: string[]): Promise<number[][]> {
+    return documents.map((document) => this.embed(document));
+  }
+
+  async embedQuery(document: string): Promise<number[]> {
+    return this.embed(document);
+  }
+}
+
+const localEmbeddingModel: EmbeddingModel = {
+  id: LOCAL_EMBEDDING_MODEL_ID,
+  embeddings: new LocalHashEmbeddings(),
+};
+
+// Find the model that produced stored vectors, or null if it is no longer configured
+export const getEmbeddingModel = (id: string, signal?: AbortSignal): EmbeddingModel | null => {
+  if (id === LOCAL_EMBEDDING_MODEL_ID) return localEmbeddingModel;
+  const configured = createEmbeddingModel(undefined, signal);
+  return configured?.id === id ? configured : null;
+};
+
+// Embed texts with the provider's model, falling back to local embeddings if it is unavailable
+export const embedTexts = async (texts: string[]): Promise<{ modelId: string; vectors: number[][] }> => {
+  const configured = createEmbeddingModel();
+
+  if (configured) {
+    try {
+      return { modelId: configured.id, vectors: await configured.embeddings.embedDocuments(texts) };
+    } catch (error) {
+      console.warn(`Embedding with ${configured.id} failed, using local embeddings instead:`, error);
+    }
+  }
+
+  return {
+    modelId: LOCAL_EMBEDDING_MODEL_ID,
+    vectors: await localEmbeddingModel.embeddings.embedDocuments(texts),
+  };
+};
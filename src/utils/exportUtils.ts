@@ -0,0 +1,325 @@
+import katex from "katex";
+import highlightCss from "highlight.js/styles/github.css?inline";
+import i18n, { getInterfaceLanguage, languageDirection } from "@/lib/i18n";
+import { Flashcard } from "@/utils/flashcardUtils";
+import { Quiz } from "@/utils/quizUtils";
+import { markdownToHtml } from "@/utils/markdownUtils";
+import { ContentBlock, generatePDF, parseContentBlocks, stripInlineMarkdown } from "@/utils/pdfUtils";
+import { createAnkiPackage, toAnkiFields } from "@/utils/ankiUtils";
+import { toGift, toMoodleXml, toQtiPackage } from "@/utils/quizExportUtils";
+import { QuizPrintOptions, defaultQuizPrintOptions, generateQuizPDFs } from "@/utils/quizPdfUtils";
+
+export type ExportFormat =
+  | "pdf"
+  | "docx"
+  | "markdown"
+  | "html"
+  | "text"
+  | "apkg"
+  | "anki-csv"
+  | "quizlet"
+  | "quiz-pdf"
+  | "qti"
+  | "moodle"
+  | "gift";
+
+// Labels and descriptions are in the exportDialog.formats translations
+export const exportFormats: Record<ExportFormat, { extension: string }> = {
+  pdf: { extension: "pdf" },
+  docx: { extension: "docx" },
+  markdown: { extension: "md" },
+  html: { extension: "html" },
+  text: { extension: "txt" },
+  apkg: { extension: "apkg" },
+  "anki-csv": { extension: "csv" },
+  quizlet: { extension: "tsv" },
+  "quiz-pdf": { extension: "pdf" },
+  qti: { extension: "zip" },
+  moodle: { extension: "xml" },
+  gift: { extension: "gift.txt" },
+};
+
+export const documentExportFormats: ExportFormat[] = ["pdf", "docx", "markdown", "html", "text"];
+export const flashcardExportFormats: ExportFormat[] = ["apkg", "anki-csv", "quizlet"];
+export const quizExportFormats: ExportFormat[] = ["quiz-pdf", "qti", "moodle", "gift"];
+
+export interface ExportRequest {
+  content: string;
+  title: string;
+  filename: string;
+  flashcards?: Flashcard[];
+  quiz?: Quiz | null;
+  quizPrintOptions?: QuizPrintOptions;
+}
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Some browsers start the download after click() returns, so free the URL once it has begun
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const documentCss = `
+  body { margin: 0; background: #fff; color: #1f2328; font: 16px/1.6 system-ui, -apple-system, "Segoe UI", sans-serif; }
+  main { max-width: 48rem; margin: 0 auto; padding: 2rem 1.5rem; }
+  h1, h2, h3 { line-height: 1.25; }
+  a { color: #0969da; }
+  pre { overflow-x: auto; padding: 1rem; border-radius: 6px; background: #f6f8fa; }
+  code { font: 0.875em ui-monospace, SFMono-Regular, Menlo, monospace; }
+  :not(pre) > code { padding: 0.2em 0.4em; border-radius: 4px; background: #eff1f3; }
+  table { border-collapse: collapse; margin: 1rem 0; }
+  th, td { padding: 0.4rem 0.75rem; border: 1px solid #d0d7de; text-align: left; }
+  blockquote { margin: 0; padding-left: 1rem; border-left: 4px solid #d0d7de; color: #59636e; }
+  .katex-display { overflow-x: auto; }
+`;
+
+// A self-contained page; only KaTeX's stylesheet and fonts are loaded from a CDN.
+// It carries the interface language and its direction, so right-to-left text reads correctly.
+const toHtmlDocument = async (content: string, title: string) => {
+  const body = await markdownToHtml(content);
+  const language = getInterfaceLanguage();
+
+  return `<!DOCTYPE html>
+<html lang="${language}" dir="${languageDirection(language)}">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<link rel="stylesheet" href="https://cdn.jsdelivr.net/npm/katex@${katex.version}/dist/katex.min.css">
+<style>${documentCss}${highlightCss}</style>
+</head>
+<body>
+<main>
+${body}
+</main>
+</body>
+</html>
+`;
+};
+
+const formatTableText = (header: string[], rows: string[][]) => {
+  const widths = header.map((cell, column) =>
+    Math.max(cell.length, ...rows.map((row) => (row[column] ?? "").length))
+  );
+  const formatRow = (row: string[]) =>
+    widths.map((width, column) => (row[column] ?? "").padEnd(width)).join("  ").trimEnd();
+
+  return [formatRow(header), widths.map((width) => "-".repeat(width)).join("  "), ...rows.map(formatRow)].join("\n");
+};
+
+const blockToText = (block: ContentBlock) => {
+  switch (block.type) {
+    case "heading":
+      return block.level < 3
+        ? `${block.text}\n${(block.level === 1 ? "=" : "-").repeat(block.text.length)}`
+        : block.text;
+    case "paragraph":
+      return block.text;
+    case "listItem":
+      return `${"  ".repeat(block.indent)}${block.marker} ${block.text}`;
+    case "quote":
+    case "math":
+      return `    ${block.text}`;
+    case "code":
+      return block.lines.map((line) => `    ${line}`).join("\n");
+    case "table":
+      return formatTableText(block.header, block.rows);
+    case "rule":
+      return "-".repeat(40);
+    case "spacer":
+      return "";
+  }
+};
+
+// The result as it reads when rendered, without markdown syntax
+export const toPlainText = (content: string) =>
+  `${parseContentBlocks(content).map(blockToText).join("\n").trim()}\n`;
+
+const toDocx = async (content: string, title: string): Promise<Blob> => {
+  // Loaded on demand so the DOCX writer stays out of the main bundle
+  const {
+    AlignmentType,
+    BorderStyle,
+    Document,
+    HeadingLevel,
+    Packer,
+    Paragraph,
+    ShadingType,
+    Table,
+    TableCell,
+    TableRow,
+    TextRun,
+    WidthType,
+  } = await import("docx");
+
+  const headingLevels = { 1: HeadingLevel.HEADING_1, 2: HeadingLevel.HEADING_2, 3: HeadingLevel.HEADING_3 };
+
+  const tableRow = (cells: string[], columns: number, isHeader = false) =>
+    new TableRow({
+      tableHeader: isHeader,
+      children: Array.from({ length: columns }, (_, column) =>
+        new TableCell({
+          children: [new Paragraph({ children: [new TextRun({ text: cells[column] ?? "", bold: isHeader })] })],
+        })
+      ),
+    });
+
+  const children = parseContentBlocks(content).flatMap((block) => {
+    switch (block.type) {
+      case "heading":
+        return [new Paragraph({ text: block.text, heading: headingLevels[block.level] })];
+      case "paragraph":
+        return [new Paragraph({ text: block.text })];
+      case "listItem":
+        return block.marker === "•"
+          ? [new Paragraph({ text: block.text, bullet: { level: Math.min(block.indent, 8) } })]
+          : [
+              new Paragraph({
+                text: `${block.marker}\t${block.text}`,
+                indent: { left: 360 * (block.indent + 2), hanging: 360 },
+              }),
+            ];
+      case "quote":
+        return [
+          new Paragraph({
+            children: [new TextRun({ text: block.text, italics: true })],
+            indent: { left: 720 },
+            border: { left: { style: BorderStyle.SINGLE, size: 12, color: "CCCCCC", space: 8 } },
+          }),
+        ];
+      case "code":
+        return block.lines.map(
+          (line) =>
+            new Paragraph({
+              children: [new TextRun({ text: line, font: "Courier New", size: 18 })],
+              shading: { type: ShadingType.CLEAR, fill: "F0F0F0", color: "auto" },
+              spacing: { after: 0 },
+            })
+        );
+      case "math":
+        return [
+          new Paragraph({
+            children: [new TextRun({ text: block.text, italics: true })],
+            alignment: AlignmentType.CENTER,
+          }),
+        ];
+      case "table": {
+        const columns = Math.max(block.header.length, ...block.rows.map((row) => row.length));
+        return [
+          new Table({
+            width: { size: 100, type: WidthType.PERCENTAGE },
+            rows: [tableRow(block.header, columns, true), ...block.rows.map((row) => tableRow(row, columns))],
+          }),
+          new Paragraph({}),
+        ];
+      }
+      case "rule":
+        return [
+          new Paragraph({
+            border: { bottom: { style: BorderStyle.SINGLE, size: 6, color: "999999", space: 1 } },
+          }),
+        ];
+      case "spacer":
+        return [];
+    }
+  });
+
+  const document = new Document({
+    title,
+    creator: "Aptora",
+    sections: [{ children: [new Paragraph({ text: title, heading: HeadingLevel.TITLE }), ...children] }],
+  });
+
+  return Packer.toBlob(document);
+};
+
+const csvField = (text: string) => `"${text.replace(/"/g, '""')}"`;
+
+// Anki's text import, with headers so it needs no manual column mapping
+const toAnkiCsv = async (cards: Flashcard[], deckName: string) => {
+  const rows = await Promise.all(
+    cards.map(async (card) => (await toAnkiFields(card)).map((field) => csvField(field.trim())).join(","))
+  );
+
+  return [
+    "#separator:comma",
+    "#html:true",
+    "#notetype:Basic",
+    `#deck:${deckName.replace(/[\r\n]/g, " ")}`,
+    "#columns:Front,Back",
+    ...rows,
+  ].join("\n");
+};
+
+// Quizlet imports one card per line with a tab between term and definition
+const toQuizletTsv = (cards: Flashcard[]) =>
+  cards
+    .map((card) =>
+      [card.question, card.answer]
+        .map((text) => stripInlineMarkdown(text.replace(/\s+/g, " ")))
+        .join("\t")
+    )
+    .join("\n");
+
+const textBlob = (text: string, type: string) => new Blob([text], { type: `${type};charset=utf-8` });
+
+// Serialize a result in the chosen format and download it; returns the downloaded filenames
+export async function exportContent(format: ExportFormat, request: ExportRequest): Promise<string[]> {
+  const { content, title, flashcards = [], quiz, quizPrintOptions = defaultQuizPrintOptions } = request;
+  const filename = `${request.filename}.${exportFormats[format].extension}`;
+
+  if (flashcardExportFormats.includes(format) && !flashcards.length) {
+    throw new Error(i18n.t("exportDialog.noFlashcards"));
+  }
+  if (quizExportFormats.includes(format) && !quiz) {
+    throw new Error(i18n.t("exportDialog.noQuiz"));
+  }
+
+  switch (format) {
+    case "pdf":
+      await generatePDF(content, title, request.filename);
+      break;
+    case "quiz-pdf":
+      return generateQuizPDFs(quiz!, request.filename, quizPrintOptions);
+    case "docx":
+      downloadBlob(await toDocx(content, title), filename);
+      break;
+    case "markdown":
+      downloadBlob(textBlob(content, "text/markdown"), filename);
+      break;
+    case "html":
+      downloadBlob(textBlob(await toHtmlDocument(content, title), "text/html"), filename);
+      break;
+    case "text":
+      downloadBlob(textBlob(toPlainText(content), "text/plain"), filename);
+      break;
+    case "apkg":
+      downloadBlob(await createAnkiPackage(flashcards, title), filename);
+      break;
+    case "anki-csv":
+      downloadBlob(textBlob(await toAnkiCsv(flashcards, title), "text/csv"), filename);
+      break;
+    case "quizlet":
+      downloadBlob(textBlob(toQuizletTsv(flashcards), "text/tab-separated-values"), filename);
+      break;
+    case "qti":
+      downloadBlob(await toQtiPackage(quiz!), filename);
+      break;
+    case "moodle":
+      downloadBlob(textBlob(await toMoodleXml(quiz!), "application/xml"), filename);
+      break;
+    case "gift":
+      downloadBlob(textBlob(toGift(quiz!), "text/plain"), filename);
+      break;
+  }
+
+  return [filename];
+}
@@ -0,0 +1,90 @@
+import type { Quiz } from "@/utils/quizUtils";
+import type { ShortAnswerGrade } from "@/utils/gradingUtils";
+
+// Canned outputs for the fake provider, shaped like each feature's real output
+
+const fakeQuiz: Quiz = {
+  title: "Sample Quiz: Photosynthesis",
+  questions: [
+    {
+      type: "multiple_choice",
+      question: "Which organelle carries out photosynthesis?",
+      options: ["Mitochondrion", "Chloroplast", "Nucleus", "Ribosome"],
+      correctAnswer: "Chloroplast",
+      explanation: "Chloroplasts contain chlorophyll, which captures light energy.",
+      concepts: ["Chloroplasts"],
+      difficulty: "easy",
+    },
+    {
+      type: "true_false",
+      question: "Photosynthesis releases oxygen as a by-product.",
+      options: ["True", "False"],
+      correctAnswer: "True",
+      explanation: "Oxygen is released when water molecules are split during the light reactions.",
+      concepts: ["Light reactions"],
+      difficulty: "medium",
+    },
+    {
+      type: "short_answer",
+      question: "Name the gas plants absorb for photosynthesis.",
+      correctAnswer: "Carbon dioxide",
+      explanation: "Carbon dioxide is fixed into sugars during the Calvin cycle.",
+      concepts: ["Calvin cycle"],
+      difficulty: "medium",
+    },
+  ],
+};
+
+const fakeGrade: ShortAnswerGrade = {
+  score: 7,
+  rubric: [
+    { criterion: "Names the correct gas", met: true, comment: "The answer identifies carbon dioxide." },
+    { criterion: "Explains its role", met: false, comment: "It doesn't say the gas is turned into sugars." },
+  ],
+  feedback: "Good start: you named the right gas. Next time, add what the plant does with it.",
+  modelAnswer: "Plants absorb carbon dioxide, which the Calvin cycle fixes into sugars.",
+};
+
+const fakeText = `## Sample Output
+
+This response comes from the offline **fake provider**, so no AI service was contacted.
+
+### Key Points
+- Set \`VITE_LLM_PROVIDER\` to gemini, openai or local to use a real model
+- The fake provider always returns the same text for a feature
+
+| Provider | Needs an API key |
+| --- | --- |
+| gemini | Yes |
+| local | No |
+
+The light reactions follow $6CO_2 + 6H_2O \\rightarrow C_6H_{12}O_6 + 6O_2$.
+
+\`\`\`ts
+const provider = import.meta.env.VITE_LLM_PROVIDER;
+\`\`\`
+
+### Summary
+Use this provider for tests and offline development.`;
+
+export const fakeResponses = {
+  content: fakeText,
+  quiz: JSON.stringify(fakeQuiz, null, 2),
+  materials: fakeText,
+  notes: fakeText,
+  flashcards: `Question: What is photosynthesis?
+Answer: The process plants use to turn light, water and carbon dioxide into glucose and oxygen.
+
+Question: Where does photosynthesis take place?
+Answer: In the chloroplasts of plant cells.
+
+Question: What pigment captures light energy?
+Answer: Chlorophyll.`,
+  assistant: fakeText,
+  // Replacement text for rewriting a selected passage
+  rewrite: "This passage was rewritten by the offline fake provider.",
+  // Grade for a short-answer response
+  grade: JSON.stringify(fakeGrade, null, 2),
+  // Combined text for merging two versions
+  merge: fakeText.replace("## Sample Output", "## Sample Output (merged)"),
+};
@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import { createReviewState, isCardDue, parseFlashcards, scheduleReview } from "@/utils/flashcardUtils";
+
+const now = new Date("2026-03-01T09:00:00.000Z");
+const daysLater = (days: number) => new Date(now.getTime() + days * 24 * 60 * 60 * 1000).toISOString();
+
+describe("scheduleReview", () => {
+  it("spaces successful reviews 1 day, 6 days, then by the ease factor", () => {
+    const first = scheduleReview(createReviewState(now), "good", now);
+    expect(first).toMatchObject({ interval: 1, repetitions: 1, dueDate: daysLater(1) });
+
+    const second = scheduleReview(first, "good", now);
+    expect(second).toMatchObject({ interval: 6, repetitions: 2, dueDate: daysLater(6) });
+
+    const third = scheduleReview(second, "good", now);
+    expect(third.interval).toBe(Math.round(6 * second.easeFactor));
+    expect(third.repetitions).toBe(3);
+  });
+
+  it("raises the ease factor for easy answers and lowers it for hard ones", () => {
+    const state = createReviewState(now);
+
+    expect(scheduleReview(state, "easy", now).easeFactor).toBeCloseTo(2.6);
+    expect(scheduleReview(state, "good", now).easeFactor).toBeCloseTo(2.5);
+    expect(scheduleReview(state, "hard", now).easeFactor).toBeCloseTo(2.36);
+  });
+
+  it("starts a forgotten card over, due again tomorrow", () => {
+    const learned = { ...createReviewState(now), interval: 15, repetitions: 4 };
+    const forgotten = scheduleReview(learned, "again", now);
+
+    expect(forgotten).toMatchObject({ interval: 1, repetitions: 0, dueDate: daysLater(1) });
+    expect(forgotten.lastReviewed).toBe(now.toISOString());
+  });
+
+  it("never lets the ease factor drop below 1.3", () => {
+    let state = createReviewState(now);
+    for (let i = 0; i < 10; i++) state = scheduleReview(state, "again", now);
+
+    expect(state.easeFactor).toBe(1.3);
+  });
+
+  it("treats cards without a review state, or past their due date, as due", () => {
+    const reviewed = scheduleReview(createReviewState(now), "good", now);
+
+    expect(isCardDue(undefined, now)).toBe(true);
+    expect(isCardDue(reviewed, now)).toBe(false);
+    expect(isCardDue(reviewed, new Date(daysLater(1)))).toBe(true);
+  });
+});
+
+describe("parseFlashcards", () => {
+  it("reads question and answer pairs", () => {
+    const cards = parseFlashcards(
+      "Question: What is the powerhouse of the cell?\nAnswer: The mitochondrion\n\nQuestion: What carries oxygen in blood?\nAnswer: Hemoglobin"
+    );
+
+    expect(cards.map(({ question, answer }) => ({ question, answer }))).toEqual([
+      { question: "What is the powerhouse of the cell?", answer: "The mitochondrion" },
+      { question: "What carries oxygen in blood?", answer: "Hemoglobin" },
+    ]);
+  });
+
+  it("drops numbering and bold labels that belong to the next card", () => {
+    const numbered = parseFlashcards(
+      "Flashcard 1\nQuestion: What is H2O?\nAnswer: Water\n\nFlashcard 2\nQuestion: What is NaCl?\nAnswer: Salt"
+    );
+    const bold = parseFlashcards(
+      "**Question 1:** What is H2O?\n**Answer 1:** Water\n**Question 2:** What is NaCl?\n**Answer 2:** Salt"
+    );
+
+    expect(numbered.map((card) => card.answer)).toEqual(["Water", "Salt"]);
+    expect(bold.map((card) => card.question)).toEqual(["What is H2O?", "What is NaCl?"]);
+    expect(bold.map((card) => card.answer)).toEqual(["Water", "Salt"]);
+  });
+
+  it("skips questions without an answer", () => {
+    expect(parseFlashcards("Question: Unanswered?\n\nQuestion: Answered?\nAnswer: Yes")).toHaveLength(1);
+  });
+
+  it("gives a regenerated card the same id, whatever its case", () => {
+    const [first] = parseFlashcards("Question: What is DNA?\nAnswer: A molecule");
+    const [second] = parseFlashcards("Question: what is dna?\nAnswer: Deoxyribonucleic acid");
+
+    expect(first.id).toBe(second.id);
+  });
+});
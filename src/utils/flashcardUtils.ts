@@ -0,0 +1,133 @@
+export interface Flashcard {
+  id: string;
+  question: string;
+  answer: string;
+}
+
+// SM-2 scheduling state for a single card
+export interface ReviewState {
+  easeFactor: number;
+  interval: number; // days until the next review
+  repetitions: number;
+  dueDate: string; // ISO timestamp
+  lastReviewed?: string;
+}
+
+export type ReviewGrade = "again" | "hard" | "good" | "easy";
+
+// SM-2 quality score (0-5) for each rating button
+export const reviewGradeQuality: Record<ReviewGrade, number> = {
+  again: 1,
+  hard: 3,
+  good: 4,
+  easy: 5,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_EASE_FACTOR = 1.3;
+const STORAGE_PREFIX = "aptora:flashcard-reviews:";
+
+// Stable id so review state survives regenerating the same card
+const hashText = (text: string) => {
+  let hash = 5381;
+  for (let i = 0; i < text.length; i++) {
+    hash = (hash * 33) ^ text.charCodeAt(i);
+  }
+  return (hash >>> 0).toString(36);
+};
+
+const cleanCardText = (text: string) =>
+  text
+    // Drop numbering or "Flashcard 2" headings that belong to the next card
+    .replace(/\n\s*(?:(?:flashcard|card)\s*)?\d+\s*[.):]?\s*$/i, "")
+    // Drop the bold markers around a following "**Question:**" label
+    .replace(/\n\s*\*\*\s*$/, "")
+    .replace(/^[-*\s]+/, "")
+    .trim();
+
+// Parse "Question: ... Answer: ..." pairs from the flashcards template output
+export const parseFlashcards = (text: string): Flashcard[] => {
+  const cards: Flashcard[] = [];
+
+  text.split(/question\s*\d*\s*:/i).slice(1).forEach((chunk) => {
+    const [question, ...rest] = chunk.split(/answer\s*\d*\s*:/i);
+    if (!rest.length) return;
+
+    const card = {
+      question: cleanCardText(question),
+      answer: cleanCardText(rest.join(" ")),
+    };
+
+    if (card.question && card.answer) {
+      cards.push({ id: hashText(card.question.toLowerCase()), ...card });
+    }
+  });
+
+  return cards;
+};
+
+export const createReviewState = (now = new Date()): ReviewState => ({
+  easeFactor: 2.5,
+  interval: 0,
+  repetitions: 0,
+  dueDate: now.toISOString(),
+});
+
+// Apply one SM-2 review to a card's scheduling state
+export const scheduleReview = (
+  state: ReviewState,
+  grade: ReviewGrade,
+  now = new Date()
+): ReviewState => {
+  const quality = reviewGradeQuality[grade];
+  let { repetitions, interval } = state;
+
+  if (quality >= 3) {
+    if (repetitions === 0) {
+      interval = 1;
+    } else if (repetitions === 1) {
+      interval = 6;
+    } else {
+      interval = Math.round(interval * state.easeFactor);
+    }
+    repetitions += 1;
+  } else {
+    // Failed recall starts the card over
+    repetitions = 0;
+    interval = 1;
+  }
+
+  const easeFactor = Math.max(
+    MIN_EASE_FACTOR,
+    state.easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+  );
+
+  return {
+    easeFactor,
+    interval,
+    repetitions,
+    dueDate: new Date(now.getTime() + interval * DAY_MS).toISOString(),
+    lastReviewed: now.toISOString(),
+  };
+};
+
+export const isCardDue = (state: ReviewState | undefined, now = new Date()) =>
+  !state || new Date(state.dueDate).getTime() <= now.getTime();
+
+export const loadReviewStates = (userId: string): Record<string, ReviewState> => {
+  try {
+    const saved = localStorage.getItem(`${STORAGE_PREFIX}${userId}`);
+    return saved ? JSON.parse(saved) : {};
+  } catch (error) {
+    console.error("Error loading flashcard reviews:", error);
+    return {};
+  }
+};
+
+export const saveReviewStates = (userId: string, states: Record<string, ReviewState>) => {
+  localStorage.setItem(`${STORAGE_PREFIX}${userId}`, JSON.stringify(states));
+};
+
+// Render cards back to the plain text format used for copying and export
+export const formatFlashcardsAsText = (cards: Flashcard[]): string =>
+  cards.map((card) => `Question: ${card.question}\nAnswer: ${card.answer}`).join("\n\n");
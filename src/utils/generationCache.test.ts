@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { CacheKeyParts, createCacheKey } from "@/utils/generationCache";
+
+const parts = (overrides: Partial<CacheKeyParts> = {}): CacheKeyParts => ({
+  userId: "learner",
+  feature: "quiz",
+  template: { id: "default-quiz", version: 1 },
+  prompt: "10 questions about photosynthesis",
+  params: { questionCount: 10, difficulty: "medium", types: ["multiple_choice", "true_false"] },
+  provider: "proxy",
+  model: "gemini-1.5-flash",
+  ...overrides,
+});
+
+describe("createCacheKey", () => {
+  it("is a SHA-256 hex digest that is the same for the same request", async () => {
+    const key = await createCacheKey(parts());
+
+    expect(key).toMatch(/^[0-9a-f]{64}$/);
+    expect(await createCacheKey(parts())).toBe(key);
+  });
+
+  it("ignores the order of param keys and undefined params", async () => {
+    const reordered = parts({
+      params: { types: ["multiple_choice", "true_false"], difficulty: "medium", focus: undefined, questionCount: 10 },
+    });
+
+    expect(await createCacheKey(reordered)).toBe(await createCacheKey(parts()));
+  });
+
+  it("ignores case and spacing in the prompt", async () => {
+    const respaced = parts({ prompt: "  10 Questions   about\nPhotosynthesis " });
+
+    expect(await createCacheKey(respaced)).toBe(await createCacheKey(parts()));
+  });
+
+  it("changes with anything that changes the output", async () => {
+    const key = await createCacheKey(parts());
+    const variants = [
+      parts({ userId: "someone-else" }),
+      parts({ prompt: "10 questions about respiration" }),
+      parts({ template: { id: "default-quiz", version: 2 } }),
+      parts({ params: { questionCount: 5, difficulty: "medium", types: ["multiple_choice", "true_false"] } }),
+      parts({ params: { questionCount: 10, difficulty: "medium", types: ["true_false", "multiple_choice"] } }),
+      parts({ model: "gemini-1.5-pro" }),
+    ];
+
+    for (const variant of variants) {
+      expect(await createCacheKey(variant)).not.toBe(key);
+    }
+  });
+});
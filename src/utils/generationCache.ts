@@ -0,0 +1,142 @@
+import { deleteRecord, deleteRecordsByIndex, getRecord, getRecordsByIndex, putRecord } from "@/lib/indexedDb";
+import { queryClient } from "@/lib/queryClient";
+import type { AIFeatureType } from "@/utils/promptRegistry";
+import type { LLMConfig } from "@/utils/llmProviders";
+import type { Quiz } from "@/utils/quizUtils";
+
+// Least recently used entries beyond this are evicted, per user
+const MAX_CACHE_ENTRIES = 100;
+
+// Everything that decides what the model returns for a generation
+export interface CacheKeyParts {
+  userId: string;
+  feature: AIFeatureType;
+  template: { id: string; version: number };
+  prompt: string;
+  // The rest of the prompt input and the Advanced panel options
+  params: Record<string, unknown>;
+  provider: LLMConfig["provider"];
+  model: string;
+}
+
+export type CachedValue = string | Quiz;
+
+export interface CachedGeneration {
+  key: string;
+  userId: string;
+  feature: AIFeatureType;
+  prompt: string;
+  template: { id: string; version: number };
+  provider: LLMConfig["provider"];
+  model: string;
+  value: CachedValue;
+  // Approximate stored size in bytes
+  size: number;
+  hits: number;
+  createdAt: string;
+  lastUsedAt: string;
+}
+
+// Prompts differing only in case or spacing share a cache entry
+export const normalizePrompt = (prompt: string) => prompt.normalize("NFC").trim().replace(/\s+/g, " ").toLowerCase();
+
+// JSON with object keys sorted, so equal params always hash the same
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+  if (value && typeof value === "object") {
+    return `{${Object.entries(value)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([name, entry]) => `${JSON.stringify(name)}:${stableStringify(entry)}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+};
+
+// Content address of a generation: a SHA-256 of its normalized key parts
+export const createCacheKey = async (parts: CacheKeyParts) => {
+  const data = new TextEncoder().encode(stableStringify({ ...parts, prompt: normalizePrompt(parts.prompt) }));
+  const digest = await crypto.subtle.digest("SHA-256", data);
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+};
+
+// React Query keys: one per cached generation, and the list shown in settings
+const generationQueryKey = (userId: string, key?: string) => (key ? ["generation", userId, key] : ["generation", userId]);
+export const cacheEntriesQueryKey = (userId: string | undefined) => ["generationCache", userId];
+
+// A user's cached generations, most recently used first
+export const listCachedGenerations = async (userId: string): Promise<CachedGeneration[]> => {
+  const entries = await getRecordsByIndex<CachedGeneration>("generationCache", "userId", userId);
+  return entries.sort((a, b) => b.lastUsedAt.localeCompare(a.lastUsedAt));
+};
+
+const evictLeastRecentlyUsed = async (userId: string) => {
+  const entries = await listCachedGenerations(userId);
+  await Promise.all(entries.slice(MAX_CACHE_ENTRIES).map((entry) => deleteRecord("generationCache", entry.key)));
+};
+
+const saveCachedGeneration = async (key: string, parts: CacheKeyParts, value: CachedValue) => {
+  const now = new Date().toISOString();
+  const { userId, feature, prompt, template, provider, model } = parts;
+  await putRecord<CachedGeneration>("generationCache", {
+    key,
+    userId,
+    feature,
+    prompt,
+    template,
+    provider,
+    model,
+    value,
+    size: new Blob([JSON.stringify(value)]).size,
+    hits: 0,
+    createdAt: now,
+    lastUsedAt: now,
+  });
+  await evictLeastRecentlyUsed(userId);
+};
+
+const recordCacheHit = async (key: string) => {
+  const entry = await getRecord<CachedGeneration>("generationCache", key);
+  if (entry) {
+    await putRecord("generationCache", { ...entry, hits: entry.hits + 1, lastUsedAt: new Date().toISOString() });
+  }
+};
+
+// Return a cached generation, from memory or IndexedDB, and only call generate on a miss.
+// Identical requests still in flight aren't joined: each streams its own call and can be stopped on its own.
+export const withGenerationCache = async <T extends CachedValue>(
+  parts: CacheKeyParts,
+  generate: () => Promise<T>,
+  onHit?: (value: T) => void
+): Promise<T> => {
+  const key = await createCacheKey(parts);
+  const queryKey = generationQueryKey(parts.userId, key);
+  const cached =
+    queryClient.getQueryData<T>(queryKey) ??
+    ((await getRecord<CachedGeneration>("generationCache", key))?.value as T | undefined);
+
+  let value: T;
+  if (cached !== undefined) {
+    console.log("Generation served from cache:", key);
+    value = cached;
+    await recordCacheHit(key);
+    onHit?.(value);
+  } else {
+    value = await generate();
+    await saveCachedGeneration(key, parts, value);
+  }
+  queryClient.setQueryData(queryKey, value);
+  queryClient.invalidateQueries({ queryKey: cacheEntriesQueryKey(parts.userId) });
+
+  return value;
+};
+
+export const deleteCachedGeneration = async (entry: CachedGeneration) => {
+  await deleteRecord("generationCache", entry.key);
+  queryClient.removeQueries({ queryKey: generationQueryKey(entry.userId, entry.key) });
+};
+
+export const clearGenerationCache = async (userId: string) => {
+  await deleteRecordsByIndex("generationCache", "userId", userId);
+  queryClient.removeQueries({ queryKey: generationQueryKey(userId) });
+};
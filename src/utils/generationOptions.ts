@@ -0,0 +1,61 @@
+import type { AIFeatureType } from "@/utils/langchainUtils";
+import type { ModelSettings } from "@/utils/llmProviders";
+
+export type ResponseLength = "short" | "medium" | "long";
+export type ReadingLevel = "elementary" | "middle_school" | "high_school" | "college" | "expert";
+
+// User-facing controls from the Advanced panel in PromptInput
+export interface GenerationOptions {
+  length: ResponseLength;
+  creativity: number; // 0 (focused) to 1 (creative)
+  readingLevel: ReadingLevel;
+}
+
+export const responseLengths: ResponseLength[] = ["short", "medium", "long"];
+
+export const readingLevels: ReadingLevel[] = ["elementary", "middle_school", "high_school", "college", "expert"];
+
+export const featureDefaultOptions: Record<AIFeatureType, GenerationOptions> = {
+  content: { length: "medium", creativity: 0.5, readingLevel: "high_school" },
+  // Quiz JSON needs room for every question, answer and explanation
+  quiz: { length: "medium", creativity: 0.3, readingLevel: "high_school" },
+  materials: { length: "long", creativity: 0.5, readingLevel: "high_school" },
+  notes: { length: "medium", creativity: 0.2, readingLevel: "high_school" },
+  flashcards: { length: "short", creativity: 0.3, readingLevel: "high_school" },
+  assistant: { length: "medium", creativity: 0.5, readingLevel: "high_school" },
+};
+
+const maxOutputTokens: Record<ResponseLength, number> = {
+  short: 1024,
+  medium: 2048,
+  long: 4096,
+};
+
+const lengthGuidelines: Record<ResponseLength, string> = {
+  short: "Keep the response brief and cover only the essentials.",
+  medium: "Give a moderately detailed response that covers the main points with some examples.",
+  long: "Give a thorough, in-depth response with detailed explanations and several examples.",
+};
+
+const readingLevelGuidelines: Record<ReadingLevel, string> = {
+  elementary: "Write for an elementary school student: short sentences, simple words, and everyday examples.",
+  middle_school: "Write for a middle school student: clear language and explain any new terms.",
+  high_school: "Write for a high school student: standard academic language with key terms defined.",
+  college: "Write for a college student: precise terminology and deeper conceptual detail.",
+  expert: "Write for an expert audience: technical vocabulary and advanced detail without basic explanations.",
+};
+
+// Map the Advanced panel controls onto model sampling settings
+export const toModelSettings = (options: GenerationOptions): ModelSettings => ({
+  maxOutputTokens: maxOutputTokens[options.length],
+  temperature: Math.round((0.1 + options.creativity * 0.9) * 100) / 100,
+  topK: Math.round(20 + options.creativity * 20),
+  topP: Math.round((0.8 + options.creativity * 0.15) * 100) / 100,
+});
+
+// Prompt instructions describing the requested length and audience
+export const describeGenerationOptions = (options: GenerationOptions) =>
+  `- ${lengthGuidelines[options.length]}\n    - ${readingLevelGuidelines[options.readingLevel]}`;
+
+// Reading level instructions alone, for edits where the response length is fixed by the selection
+export const describeReadingLevel = (options: GenerationOptions) => readingLevelGuidelines[options.readingLevel];
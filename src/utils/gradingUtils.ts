@@ -0,0 +1,57 @@
+import { z } from "zod";
+import { StructuredOutputParser } from "@langchain/core/output_parsers";
+import i18n from "@/lib/i18n";
+
+// Scores run from 0 to MAX_SCORE; an answer passes, for mastery tracking, from PASSING_SCORE
+export const MAX_SCORE = 10;
+export const PASSING_SCORE = 6;
+
+// Schema the grading chain must return
+export const gradeSchema = z.object({
+  score: z.coerce
+    .number()
+    .min(0)
+    .max(MAX_SCORE)
+    .describe(`The score from 0 (wrong or missing) to ${MAX_SCORE} (complete and correct)`),
+  rubric: z
+    .array(
+      z.object({
+        criterion: z.string().describe("Something a full answer needs, such as a key fact or step of reasoning"),
+        met: z.boolean().describe("Whether the student's answer meets it"),
+        comment: z.string().describe("One short sentence on how the answer does on this criterion"),
+      })
+    )
+    .min(1)
+    .describe("2 to 4 criteria taken from the reference answer"),
+  feedback: z
+    .string()
+    .describe("Two or three encouraging sentences for the student on what was right and what to improve"),
+  modelAnswer: z.string().describe("A complete, ideal answer in one to three sentences"),
+});
+
+export type ShortAnswerGrade = z.infer<typeof gradeSchema>;
+
+// A grade with the teacher's score and note, when they overrode the model
+export interface GradedAnswer extends ShortAnswerGrade {
+  override?: { score: number; note: string };
+}
+
+export const gradeOutputParser = StructuredOutputParser.fromZodSchema(gradeSchema);
+
+export interface GradingRequest {
+  question: string;
+  referenceAnswer: string;
+  // The quiz's explanation of the reference answer, as extra context
+  explanation: string;
+  studentAnswer: string;
+}
+
+export const finalScore = (grade: GradedAnswer) => grade.override?.score ?? Math.round(grade.score);
+
+export const isPassingGrade = (grade: GradedAnswer) => finalScore(grade) >= PASSING_SCORE;
+
+export const gradeVerdict = (score: number) => {
+  const verdict =
+    score >= MAX_SCORE ? "correct" : score >= PASSING_SCORE ? "mostlyCorrect" : score > 0 ? "partlyCorrect" : "incorrect";
+  return i18n.t(`grading.verdicts.${verdict}`);
+};
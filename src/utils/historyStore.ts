@@ -0,0 +1,97 @@
+import i18n from "@/lib/i18n";
+import { deleteRecord, deleteRecordsByIndex, getRecord, getRecordsByIndex, putRecord } from "@/lib/indexedDb";
+import type { AIFeatureType } from "@/utils/langchainUtils";
+import type { LLMConfig } from "@/utils/llmProviders";
+import type { Quiz } from "@/utils/quizUtils";
+import type { GenerationOptions } from "@/utils/generationOptions";
+
+// Model settings recorded with each generation
+export interface GenerationSettings {
+  provider: LLMConfig["provider"];
+  model: string;
+  options?: GenerationOptions;
+  // User prompt template the generation used, when not the built-in one
+  template?: { id: string; name: string; version: number; values: Record<string, string> };
+}
+
+// One version of a generation; merged versions record the versions they combine
+export interface GenerationVariant {
+  id: string;
+  result: string;
+  quiz?: Quiz;
+  parentIds?: string[];
+  createdAt: string;
+}
+
+export const variantLabel = (variants: GenerationVariant[], variant: GenerationVariant) =>
+  i18n.t(variant.parentIds?.length ? "variants.merged" : "variants.version", { number: variants.indexOf(variant) + 1 });
+
+export interface HistoryItem {
+  id: string;
+  userId: string;
+  feature: AIFeatureType;
+  prompt: string;
+  result: string;
+  quiz?: Quiz;
+  // Names of the documents used as source material
+  sourceNames?: string[];
+  settings: GenerationSettings;
+  // Every version generated for this prompt, and the one that was picked
+  variants?: GenerationVariant[];
+  selectedVariantId?: string;
+  createdAt: string;
+}
+
+export const createVariant = (result: string, quiz?: Quiz, parentIds?: string[]): GenerationVariant => ({
+  id: crypto.randomUUID(),
+  result,
+  quiz,
+  parentIds,
+  createdAt: new Date().toISOString(),
+});
+
+export const saveHistoryItem = async (item: Omit<HistoryItem, "id" | "createdAt">): Promise<HistoryItem> => {
+  const saved: HistoryItem = {
+    ...item,
+    id: crypto.randomUUID(),
+    createdAt: new Date().toISOString(),
+  };
+  await putRecord("history", saved);
+  return saved;
+};
+
+// All of a user's generations, newest first
+export const listHistory = async (userId: string): Promise<HistoryItem[]> => {
+  const items = await getRecordsByIndex<HistoryItem>("history", "userId", userId);
+  return items.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+export const deleteHistoryItem = (id: string) => deleteRecord("history", id);
+
+export const clearHistory = (userId: string) => deleteRecordsByIndex("history", "userId", userId);
+
+export const filterHistory = (
+  items: HistoryItem[],
+  search: string,
+  feature: AIFeatureType | "all"
+) => {
+  const query = search.trim().toLowerCase();
+
+  return items.filter(
+    (item) =>
+      (feature === "all" || item.feature === feature) &&
+      (!query ||
+        item.prompt.toLowerCase().includes(query) ||
+        item.result.toLowerCase().includes(query))
+  );
+};
+
+// Save edits, new versions or a different pick for a generation after it was recorded
+export const updateHistoryItem = async (
+  id: string,
+  changes: Partial<Pick<HistoryItem, "result" | "quiz" | "variants" | "selectedVariantId">>
+) => {
+  const item = await getRecord<HistoryItem>("history", id);
+  if (!item) return;
+  await putRecord("history", { ...item, ...changes });
+};
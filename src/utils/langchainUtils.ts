@@ -1,126 +1,226 @@
 
-import { PromptTemplate } from "@langchain/core/prompts";
-import { ChatGoogleGenerativeAI } from "@langchain/google-genai";
-import { RunnableSequence } from "@langchain/core/runnables";
+import { ChatPromptTemplate, MessagesPlaceholder, PromptTemplate } from "@langchain/core/prompts";
+import { RunnablePassthrough, RunnableSequence } from "@langchain/core/runnables";
 import { StringOutputParser } from "@langchain/core/output_parsers";
+import { BaseMessage, SystemMessage, trimMessages } from "@langchain/core/messages";
+import { BasePromptValueInterface } from "@langchain/core/prompt_values";
+import { BaseChatMessageHistory } from "@langchain/core/chat_history";
+import { BaseCallbackHandler } from "@langchain/core/callbacks/base";
+import { BaseRetrieverInterface } from "@langchain/core/retrievers";
+import { Quiz, quizOutputParser } from "@/utils/quizUtils";
+import { GradingRequest, ShortAnswerGrade, gradeOutputParser } from "@/utils/gradingUtils";
+import { createChatModel, getLLMConfig } from "@/utils/llmProviders";
+import { fakeResponses } from "@/utils/fakeResponses";
+import {
+  GenerationOptions,
+  describeGenerationOptions,
+  describeReadingLevel,
+  featureDefaultOptions,
+  toModelSettings,
+} from "@/utils/generationOptions";
+import { SourceDocument, buildSourceMaterial } from "@/utils/documentUtils";
+import { LibraryPassage, LibraryPassageMetadata, buildLibraryContext } from "@/utils/libraryStore";
+import {
+  AIFeatureType,
+  SelectedTemplate,
+  builtInTemplates,
+  markdownGuidelines,
+  resolveTemplateValues,
+  toPromptTemplate,
+} from "@/utils/promptRegistry";
+import { CacheKeyParts, CachedValue, withGenerationCache } from "@/utils/generationCache";
+import { callLLM } from "@/utils/llmClient";
+import { withUsage } from "@/utils/usageMeter";
+import { LearnerProfile, describeLearnerProfile, fetchLearnerProfile } from "@/utils/learnerProfileStore";
+import { describeOutputLanguage, getOutputLanguage } from "@/utils/outputLanguage";
 
-// Initialize the Google Generative AI model with optimized settings
-const getGoogleAI = () => {
-  const API_KEY = import.meta.env.VITE_GEMINI_API_KEY;
-  
-  console.log("API Key status:", API_KEY ? "Present" : "Missing");
-  console.log("API Key length:", API_KEY?.length || 0);
-  
-  if (!API_KEY) {
-    throw new Error("VITE_GEMINI_API_KEY is not defined in environment variables");
+export type { AIFeatureType } from "@/utils/promptRegistry";
+
+// Initialize the chat model for the configured provider (Gemini by default)
+const getChatModel = (feature: AIFeatureType, options: GenerationOptions) =>
+  createChatModel(fakeResponses[feature], toModelSettings(options));
+
+// Variables shared by every prompt template; user templates add their custom variables
+type PromptInput = {
+  userPrompt: string;
+  generationGuidelines: string;
+  sourceMaterial: string;
+  // The response language from the language settings; also sent ahead of the formatted prompt
+  outputLanguage: string;
+  // Sent ahead of the formatted prompt rather than through a template variable
+  learnerProfile: string;
+};
+
+type Personalization = Pick<PromptInput, "outputLanguage" | "learnerProfile">;
+
+const buildPromptInput = (
+  userPrompt: string,
+  options: GenerationOptions,
+  sources: SourceDocument[] = [],
+  template?: SelectedTemplate,
+  personalization: Personalization = { outputLanguage: getOutputLanguage(), learnerProfile: "" }
+): PromptInput => ({
+  ...(template ? resolveTemplateValues(template) : {}),
+  userPrompt,
+  generationGuidelines: describeGenerationOptions(options),
+  sourceMaterial: buildSourceMaterial(sources, userPrompt),
+  ...personalization,
+});
+
+// The signed-in user's learner profile as prompt instructions, and the response language, which falls
+// back to the profile's preferred language; a profile that can't be read is left out
+const loadPersonalization = async (userId?: string): Promise<Personalization> => {
+  let profile: LearnerProfile | null = null;
+  if (userId) {
+    try {
+      profile = await fetchLearnerProfile(userId);
+    } catch (error) {
+      console.error("Error loading learner profile:", error);
+    }
   }
-  
-  return new ChatGoogleGenerativeAI({
-    apiKey: API_KEY,
-    modelName: "gemini-1.5-flash", // Using flash model for faster responses
-    maxOutputTokens: 1024, // Reduced for faster generation
-    temperature: 0.5, // Reduced for more consistent, faster responses
-    topK: 20, // Reduced for faster processing
-    topP: 0.8, // Slightly reduced
-  });
-};
-
-// Define prompt templates for each feature with formatting guidelines
-const promptTemplates = {
-  content: PromptTemplate.fromTemplate(
-    `Generate structured educational content based on the following prompt. 
-    Include headings, explanations, examples, and key points.
-    
-    IMPORTANT FORMATTING GUIDELINES:
-    - DO NOT use markdown syntax (no **, *, _, or backticks)
-    - Use plain text with clear section headings
-    - Use simple bullet points or numbered lists where needed
-    - Add spacing between sections for readability
-    - If code examples are needed, present them as plain text (without syntax highlighting markers)
-    
-    PROMPT: {userPrompt}`
-  ),
-  
-  quiz: PromptTemplate.fromTemplate(
-    `Generate a quiz based on the following prompt. 
-    Include a mix of multiple choice, true/false, and short answer questions.
-    
-    IMPORTANT FORMATTING GUIDELINES:
-    - DO NOT use markdown syntax (no **, *, _, or backticks)
-    - Use plain text with clear section headings
-    - Use simple bullet points or numbered lists for questions
-    - Add spacing between questions and sections
-    - If code examples are needed, present them as plain text (without syntax highlighting markers)
-    
-    PROMPT: {userPrompt}`
-  ),
-  
-  materials: PromptTemplate.fromTemplate(
-    `Generate a comprehensive learning roadmap or materials list based on the following prompt. 
-    Include resources, steps, and recommendations.
-    
-    IMPORTANT FORMATTING GUIDELINES:
-    - DO NOT use markdown syntax (no **, *, _, or backticks)
-    - Use plain text with clear section headings
-    - Use simple bullet points or numbered lists where needed
-    - Add spacing between sections for readability
-    - If code examples are needed, present them as plain text (without syntax highlighting markers)
-    
-    PROMPT: {userPrompt}`
-  ),
-  
-  notes: PromptTemplate.fromTemplate(
-    `Generate concise, organized notes based on the following prompt. 
-    Include key concepts, definitions, and important information.
-    
-    IMPORTANT FORMATTING GUIDELINES:
-    - DO NOT use markdown syntax (no **, *, _, or backticks)
-    - Use plain text with clear section headings
-    - Use simple bullet points or numbered lists for key points
-    - Add spacing between sections for readability
-    - If code examples are needed, present them as plain text (without syntax highlighting markers)
-    
-    PROMPT: {userPrompt}`
-  ),
-  
-  flashcards: PromptTemplate.fromTemplate(
-    `Generate flashcards based on the following prompt. 
-    Format as Question: [question] and Answer: [answer] pairs. 
-    Make them concise and focused on key information.
-    
-    IMPORTANT FORMATTING GUIDELINES:
-    - DO NOT use markdown syntax (no **, *, _, or backticks)
-    - Use plain text with clear labeling for questions and answers
-    - Add spacing between each flashcard for readability
-    - If code examples are needed, present them as plain text (without syntax highlighting markers)
-    
-    PROMPT: {userPrompt}`
-  ),
-  
-  assistant: PromptTemplate.fromTemplate(
-    `You are an educational assistant. Provide a helpful, accurate response to the following question or request.
+  const outputLanguage = getOutputLanguage(profile?.preferredLanguage);
+  return { outputLanguage, learnerProfile: describeLearnerProfile(profile, outputLanguage) };
+};
+
+// Chain step that adds the response language and learner profile to the system instructions of a
+// formatted prompt, so every template, built-in or not, follows them without mentioning them
+const personalize = (learnerProfile: string, outputLanguage: string) => (prompt: BasePromptValueInterface) => {
+  const messages = prompt.toChatMessages();
+  const instructions = [outputLanguage && describeOutputLanguage(outputLanguage), learnerProfile]
+    .filter(Boolean)
+    .join("\n\n");
+  if (!instructions) return messages;
+
+  // Some providers only accept a single system message, at the start
+  const [first, ...rest] = messages;
+  return first?.getType() === "system" && typeof first.content === "string"
+    ? [new SystemMessage(`${first.content}\n\n${instructions}`), ...rest]
+    : [new SystemMessage(instructions), ...messages];
+};
+
+// The selected user template, or the feature's built-in one
+const getPromptTemplate = (feature: AIFeatureType, template?: SelectedTemplate) =>
+  toPromptTemplate(template?.template ?? builtInTemplates[feature]);
+
+// Per-call settings: the Advanced panel options, uploaded documents, a user template and an abort signal
+export interface GenerationCallOptions {
+  options?: GenerationOptions;
+  sources?: SourceDocument[];
+  template?: SelectedTemplate;
+  signal?: AbortSignal;
+  // The signed-in user, whose usage is metered and whose request cache is used
+  userId?: string;
+  // Always call the model, e.g. to regenerate a new version
+  skipCache?: boolean;
+  // Called when the result came from the cache instead of the model
+  onCacheHit?: () => void;
+}
+
+// Assistant calls can also search the user's document library before answering
+export interface AssistantCallOptions
+  extends Omit<GenerationCallOptions, "sources" | "template" | "skipCache" | "onCacheHit"> {
+  retriever?: BaseRetrieverInterface<LibraryPassageMetadata>;
+  // Called with the retrieved passages, numbered in order, before the reply streams
+  onPassages?: (passages: LibraryPassage[]) => void;
+}
+
+// Everything sent to the model for a generation, which together addresses its cache entry
+const getCacheKeyParts = (
+  feature: AIFeatureType,
+  userId: string,
+  { userPrompt, ...input }: PromptInput,
+  options: GenerationOptions,
+  template?: SelectedTemplate
+): CacheKeyParts => {
+  const { provider, model } = getLLMConfig();
+  const definition = template?.template ?? builtInTemplates[feature];
+
+  return {
+    userId,
+    feature,
+    template: { id: definition.id, version: definition.version },
+    prompt: userPrompt,
+    params: { ...input, options },
+    provider,
+    model,
+  };
+};
+
+// Serve a generation from the user's request cache when possible, otherwise run it and meter its usage.
+// Cache hits don't reach the model, so they don't count towards the daily limits.
+const runWithCache = <T extends CachedValue>(
+  feature: AIFeatureType,
+  input: PromptInput,
+  options: GenerationOptions,
+  { template, userId, skipCache, onCacheHit }: GenerationCallOptions,
+  generate: (callbacks: BaseCallbackHandler[]) => Promise<T>,
+  onHit?: (value: T) => void
+): Promise<T> => {
+  const metered = () => withUsage(feature, userId, generate);
+  return userId && !skipCache
+    ? withGenerationCache(getCacheKeyParts(feature, userId, input, options, template), metered, (value) => {
+        onHit?.(value);
+        onCacheHit?.();
+      })
+    : metered();
+};
+
+// Multi-turn prompt for the Learning Assistant chat, with the conversation so far
+const assistantChatPrompt = ChatPromptTemplate.fromMessages([
+  [
+    "system",
+    `You are an educational assistant. Provide helpful, accurate responses to the student's questions.
+    Use the earlier messages in the conversation as context for follow-up questions.
     
     IMPORTANT FORMATTING GUIDELINES:
-    - DO NOT use markdown syntax (no **, *, _, or backticks)
-    - Use plain text with clear section headings where needed
-    - Use simple bullet points or numbered lists if appropriate
-    - Add spacing between sections for readability
-    - If code examples are needed, present them as plain text (without syntax highlighting markers)
+${markdownGuidelines}
     
-    QUESTION: {userPrompt}
+    LENGTH AND AUDIENCE:
+    {generationGuidelines}
     
-    If this question relates to previous questions you've answered in this conversation, try to maintain context.`
-  ),
-};
+    {libraryContext}`,
+  ],
+  new MessagesPlaceholder("history"),
+  ["human", "{userPrompt}"],
+]);
+
+// Token budget for conversation history sent with each assistant message
+const MAX_HISTORY_TOKENS = 3000;
+
+// Rough token estimate (about 4 characters per token) so trimming needs no API call
+export const estimateTokens = (messages: BaseMessage[]) =>
+  messages.reduce(
+    (total, message) =>
+      total + Math.ceil((typeof message.content === "string" ? message.content : JSON.stringify(message.content)).length / 4),
+    0
+  );
+
+// Keep only the most recent history that fits in the token budget
+const historyTrimmer = trimMessages({
+  maxTokens: MAX_HISTORY_TOKENS,
+  strategy: "last",
+  tokenCounter: estimateTokens,
+  startOn: "human",
+});
 
-// Create a chain for generating content with Gemini
-export const createGenerationChain = (feature: keyof typeof promptTemplates) => {
-  const model = getGoogleAI();
+// Features whose templates accept uploaded documents as source material
+export const groundedFeatures: AIFeatureType[] = ["notes", "quiz", "flashcards"];
+
+// Create a chain for generating content with the configured model
+export const createGenerationChain = (
+  feature: AIFeatureType,
+  options: GenerationOptions = featureDefaultOptions[feature],
+  template?: SelectedTemplate,
+  learnerProfile = "",
+  outputLanguage = getOutputLanguage()
+) => {
+  const model = getChatModel(feature, options);
   
   // Create the chain
   const chain = RunnableSequence.from([
     // Format the prompt using the appropriate template
-    promptTemplates[feature],
+    getPromptTemplate(feature, template),
+    personalize(learnerProfile, outputLanguage),
     // Generate content using the model
     model,
     // Parse the output to a string
@@ -132,16 +232,27 @@ export const createGenerationChain = (feature: keyof typeof promptTemplates) =>
 
 // Execute the chain with the user's prompt
 export const generateWithLangChain = async (
-  feature: keyof typeof promptTemplates, 
-  userPrompt: string
+  feature: AIFeatureType, 
+  userPrompt: string,
+  callOptions: GenerationCallOptions = {}
 ): Promise<string> => {
+  const { options = featureDefaultOptions[feature], sources, template, signal, userId } = callOptions;
   try {
     console.log("Starting generation with feature:", feature);
     console.log("User prompt length:", userPrompt.length);
     
     const startTime = Date.now();
-    const chain = createGenerationChain(feature);
-    const result = await chain.invoke({ userPrompt });
+    const input = buildPromptInput(userPrompt, options, sources, template, await loadPersonalization(userId));
+    const result = await runWithCache(feature, input, options, callOptions, (callbacks) =>
+      callLLM(
+        (attempt) =>
+          createGenerationChain(feature, options, template, input.learnerProfile, input.outputLanguage).invoke(input, {
+            signal: attempt.signal,
+            callbacks,
+          }),
+        { signal }
+      )
+    );
     const endTime = Date.now();
     
     console.log("Generation completed in:", endTime - startTime, "ms");
@@ -154,3 +265,375 @@ export const generateWithLangChain = async (
     throw error;
   }
 };
+
+// Stream the chain output token by token, stopping when the signal is aborted
+export const streamWithLangChain = async (
+  feature: AIFeatureType,
+  userPrompt: string,
+  onToken: (text: string) => void,
+  callOptions: GenerationCallOptions = {}
+): Promise<string> => {
+  const { options = featureDefaultOptions[feature], sources, template, signal, userId } = callOptions;
+  try {
+    console.log("Starting streaming generation with feature:", feature);
+    
+    const startTime = Date.now();
+    const input = buildPromptInput(userPrompt, options, sources, template, await loadPersonalization(userId));
+    const result = await runWithCache(
+      feature,
+      input,
+      options,
+      callOptions,
+      (callbacks) => {
+        let streamed = "";
+        return callLLM(
+          async (attempt) => {
+            const chain = createGenerationChain(feature, options, template, input.learnerProfile, input.outputLanguage);
+            const stream = await chain.stream(input, { signal: attempt.signal, callbacks });
+            for await (const chunk of stream) {
+              attempt.keepAlive();
+              streamed += chunk;
+              onToken(streamed);
+            }
+            return streamed;
+          },
+          // Once text is on screen, a retry would start it over
+          { signal, canRetry: () => !streamed }
+        );
+      },
+      // A cached result arrives all at once
+      onToken
+    );
+    
+    console.log("Streaming completed in:", Date.now() - startTime, "ms");
+    
+    return result;
+  } catch (error) {
+    if (signal?.aborted) {
+      console.log("Streaming generation stopped by user");
+    } else {
+      console.error("Error in LangChain streaming:", error);
+    }
+    throw error;
+  }
+};
+
+// Create a chat chain that answers with the trimmed conversation history as context
+export const createAssistantChain = (
+  options: GenerationOptions = featureDefaultOptions.assistant,
+  learnerProfile = "",
+  outputLanguage = getOutputLanguage()
+) => {
+  const model = getChatModel("assistant", options);
+  
+  return RunnableSequence.from([
+    RunnablePassthrough.assign({
+      history: (input: PromptInput & { history: BaseMessage[]; libraryContext: string }) =>
+        historyTrimmer.invoke(input.history),
+    }),
+    assistantChatPrompt,
+    personalize(learnerProfile, outputLanguage),
+    model,
+    new StringOutputParser(),
+  ]);
+};
+
+// Search with the previous question too, so follow-ups like "explain that again" find passages
+const buildRetrievalQuery = (history: BaseMessage[], userPrompt: string) => {
+  const previousQuestion = [...history].reverse().find((message) => message.getType() === "human");
+  return previousQuestion && typeof previousQuestion.content === "string"
+    ? `${previousQuestion.content}\n${userPrompt}`
+    : userPrompt;
+};
+
+// Stream an assistant reply to the latest message, using the thread's message history
+// and any relevant passages from the user's document library
+export const streamAssistantReply = async (
+  messageHistory: BaseChatMessageHistory,
+  userPrompt: string,
+  onToken: (text: string) => void,
+  { options = featureDefaultOptions.assistant, signal, userId, retriever, onPassages }: AssistantCallOptions = {}
+): Promise<string> => {
+  try {
+    const history = await messageHistory.getMessages();
+    console.log("Starting assistant reply with", history.length, "history messages");
+    
+    const passages = retriever
+      ? await retriever.invoke(buildRetrievalQuery(history, userPrompt), { signal })
+      : [];
+    console.log("Retrieved", passages.length, "library passages");
+    onPassages?.(passages);
+    
+    const input = {
+      ...buildPromptInput(userPrompt, options, [], undefined, await loadPersonalization(userId)),
+      history,
+      libraryContext: buildLibraryContext(passages),
+    };
+    let result = "";
+    return await withUsage("assistant", userId, (callbacks) =>
+      callLLM(
+        async (attempt) => {
+          const stream = await createAssistantChain(options, input.learnerProfile, input.outputLanguage).stream(input, {
+            signal: attempt.signal,
+            callbacks,
+          });
+          for await (const chunk of stream) {
+            attempt.keepAlive();
+            result += chunk;
+            onToken(result);
+          }
+          return result;
+        },
+        { signal, canRetry: () => !result }
+      )
+    );
+  } catch (error) {
+    if (signal?.aborted) {
+      console.log("Assistant reply stopped by user");
+    } else {
+      console.error("Error in assistant reply:", error);
+    }
+    throw error;
+  }
+};
+
+// Create a chain that returns a validated quiz instead of plain text
+export const createQuizChain = (
+  options: GenerationOptions = featureDefaultOptions.quiz,
+  template?: SelectedTemplate,
+  learnerProfile = "",
+  outputLanguage = getOutputLanguage()
+) => {
+  const model = getChatModel("quiz", options);
+  
+  return RunnableSequence.from([
+    getPromptTemplate("quiz", template),
+    personalize(learnerProfile, outputLanguage),
+    model,
+    // Parse and validate the JSON output against the quiz schema
+    quizOutputParser,
+  ]);
+};
+
+// Generate a structured quiz from the user's prompt
+export const generateQuizWithLangChain = async (
+  userPrompt: string,
+  callOptions: GenerationCallOptions = {}
+): Promise<Quiz> => {
+  const { options = featureDefaultOptions.quiz, sources, template, signal, userId } = callOptions;
+  try {
+    console.log("Starting quiz generation");
+    
+    const input = buildPromptInput(userPrompt, options, sources, template, await loadPersonalization(userId));
+    const quiz = await runWithCache("quiz", input, options, callOptions, (callbacks) =>
+      callLLM(
+        (attempt) =>
+          createQuizChain(options, template, input.learnerProfile, input.outputLanguage).invoke(input, {
+            signal: attempt.signal,
+            callbacks,
+          }),
+        { signal }
+      )
+    );
+    
+    console.log("Quiz generated with", quiz.questions.length, "questions");
+    
+    return quiz;
+  } catch (error) {
+    console.error("Error in quiz generation:", error);
+    throw error;
+  }
+};
+
+export type RewriteAction = "simplify" | "expand" | "example" | "translate";
+
+const rewriteInstructions: Record<RewriteAction, (language: string) => string> = {
+  simplify: () =>
+    "Rewrite the selected passage in simpler language that is easier to understand. Keep its meaning and key terms.",
+  expand: () =>
+    "Expand the selected passage with more detail and explanation, keeping the same topic and tone.",
+  example: () =>
+    "Keep the selected passage and add a short, concrete example that illustrates it.",
+  translate: (language) =>
+    `Translate the selected passage into ${language}. Leave code, math and markdown syntax unchanged.`,
+};
+
+// Targeted prompt for rewriting one passage of a generated result in place
+const rewritePrompt = PromptTemplate.fromTemplate(
+  `You are helping a student edit a study document. {instruction}
+    
+    Respond ONLY with the replacement for the selected passage, in markdown, without commentary or quotation marks.
+    It will be inserted in place of the selection, so it must read naturally with the text around it.
+    
+    READING LEVEL:
+    {readingLevel}
+    
+    TEXT BEFORE THE SELECTION:
+    ---
+    {before}
+    ---
+    
+    SELECTED PASSAGE:
+    ---
+    {selection}
+    ---
+    
+    TEXT AFTER THE SELECTION:
+    ---
+    {after}
+    ---`
+);
+
+// Surrounding text sent with a selection so the rewrite fits its context
+const REWRITE_CONTEXT_CHARS = 1500;
+
+export interface RewriteRequest {
+  action: RewriteAction;
+  selection: string;
+  before: string;
+  after: string;
+  // Target language for "translate", by English name; defaults to the output language
+  language?: string;
+}
+
+// Rewrite a selected passage, keeping the whitespace around it so it can be spliced back
+export const rewriteSelection = async (
+  { action, selection, before, after, language }: RewriteRequest,
+  { options = featureDefaultOptions.content, signal, userId }: Omit<GenerationCallOptions, "sources"> = {}
+): Promise<string> => {
+  try {
+    console.log("Starting rewrite:", action, "selection length:", selection.length);
+    
+    const { outputLanguage, learnerProfile } = await loadPersonalization(userId);
+    const chain = RunnableSequence.from([
+      rewritePrompt,
+      personalize(learnerProfile, outputLanguage),
+      createChatModel(fakeResponses.rewrite, toModelSettings(options)),
+      new StringOutputParser(),
+    ]);
+    const input = {
+      instruction: rewriteInstructions[action](language || outputLanguage),
+      readingLevel: describeReadingLevel(options),
+      before: before.slice(-REWRITE_CONTEXT_CHARS) || "(start of document)",
+      selection,
+      after: after.slice(0, REWRITE_CONTEXT_CHARS) || "(end of document)",
+    };
+    const rewritten = await withUsage("rewrite", userId, (callbacks) =>
+      callLLM((attempt) => chain.invoke(input, { signal: attempt.signal, callbacks }), { signal })
+    );
+    
+    const leading = selection.match(/^\s*/)?.[0] ?? "";
+    const trailing = selection.match(/\s*$/)?.[0] ?? "";
+    return `${leading}${rewritten.trim()}${trailing}`;
+  } catch (error) {
+    if (signal?.aborted) {
+      console.log("Rewrite stopped by user");
+    } else {
+      console.error("Error in rewrite:", error);
+    }
+    throw error;
+  }
+};
+
+// Prompt for combining two versions of a generation into one
+const mergePrompt = PromptTemplate.fromTemplate(
+  `You are combining two drafts written for the same request into one better response.
+    Keep the strongest explanations, examples and structure from each, and remove repetition.
+    Keep exactly the same format as the drafts and respond ONLY with the combined response.
+    
+    LENGTH AND AUDIENCE:
+    {generationGuidelines}
+    
+    ORIGINAL REQUEST: {userPrompt}
+    
+    DRAFT A:
+    ---
+    {draftA}
+    ---
+    
+    DRAFT B:
+    ---
+    {draftB}
+    ---`
+);
+
+// Merge two versions of a generation into a new one
+export const mergeVariants = async (
+  feature: AIFeatureType,
+  userPrompt: string,
+  [draftA, draftB]: [string, string],
+  { options = featureDefaultOptions[feature], signal, userId }: Omit<GenerationCallOptions, "sources"> = {}
+): Promise<string> => {
+  try {
+    console.log("Starting merge of two", feature, "versions");
+    
+    const { outputLanguage, learnerProfile } = await loadPersonalization(userId);
+    const chain = RunnableSequence.from([
+      mergePrompt,
+      personalize(learnerProfile, outputLanguage),
+      createChatModel(fakeResponses.merge, toModelSettings(options)),
+      new StringOutputParser(),
+    ]);
+    
+    const input = { userPrompt, generationGuidelines: describeGenerationOptions(options), draftA, draftB };
+    return await withUsage("merge", userId, (callbacks) =>
+      callLLM((attempt) => chain.invoke(input, { signal: attempt.signal, callbacks }), { signal })
+    );
+  } catch (error) {
+    console.error("Error merging versions:", error);
+    throw error;
+  }
+};
+
+// Prompt for grading a short answer against the quiz's reference answer
+const gradingPrompt = PromptTemplate.fromTemplate(
+  `You are a fair, encouraging teacher grading a student's answer to a short-answer quiz question.
+    Compare the student's answer with the reference answer. Give credit for correct ideas in the student's
+    own words, and partial credit for partly correct answers; ignore spelling and grammar unless they change the meaning.
+    Build the rubric from what the reference answer requires, and address the feedback to the student.
+    
+    {formatInstructions}
+    
+    QUESTION: {question}
+    
+    REFERENCE ANSWER: {referenceAnswer}
+    
+    WHY IT IS CORRECT: {explanation}
+    
+    STUDENT ANSWER:
+    ---
+    {studentAnswer}
+    ---`
+);
+
+// Grades should be consistent, so they are generated without creativity
+const gradingOptions: GenerationOptions = { ...featureDefaultOptions.quiz, length: "short", creativity: 0 };
+
+// Grade a student's short answer with a score, rubric feedback and a model answer
+export const gradeShortAnswer = async (
+  request: GradingRequest,
+  { signal, userId }: Omit<GenerationCallOptions, "sources" | "options"> = {}
+): Promise<ShortAnswerGrade> => {
+  try {
+    console.log("Starting grading, answer length:", request.studentAnswer.length);
+    
+    const { outputLanguage, learnerProfile } = await loadPersonalization(userId);
+    const chain = RunnableSequence.from([
+      gradingPrompt,
+      personalize(learnerProfile, outputLanguage),
+      createChatModel(fakeResponses.grade, toModelSettings(gradingOptions)),
+      gradeOutputParser,
+    ]);
+    const input = { ...request, formatInstructions: gradeOutputParser.getFormatInstructions() };
+    return await withUsage("grade", userId, (callbacks) =>
+      callLLM((attempt) => chain.invoke(input, { signal: attempt.signal, callbacks }), { signal })
+    );
+  } catch (error) {
+    if (signal?.aborted) {
+      console.log("Grading stopped");
+    } else {
+      console.error("Error grading answer:", error);
+    }
+    throw error;
+  }
+};
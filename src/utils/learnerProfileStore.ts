@@ -0,0 +1,115 @@
+import { getRecord, putRecord } from "@/lib/indexedDb";
+import { queryClient } from "@/lib/queryClient";
+
+export type LearningStyle = "none" | "visual" | "auditory" | "reading_writing" | "kinesthetic";
+export type AccessibilityNeed = "dyslexia" | "focus" | "screen_reader" | "plain_language";
+
+// What a learner tells Aptora about themselves, added to every prompt they send
+export interface LearnerProfile {
+  userId: string;
+  // Empty when not set
+  gradeLevel: string;
+  subjects: string[];
+  preferredLanguage: string;
+  learningStyle: LearningStyle;
+  accessibilityNeeds: AccessibilityNeed[];
+  // Anything else the model should know, in the learner's words
+  notes: string;
+  updatedAt: string;
+}
+
+export type LearnerProfileInput = Omit<LearnerProfile, "userId" | "updatedAt">;
+
+// Stored and written into prompts in English; the profile dialog translates them for display
+export const gradeLevels = [
+  ...Array.from({ length: 12 }, (_, index) => `Grade ${index + 1}`),
+  "Undergraduate",
+  "Graduate",
+  "Adult learner",
+];
+
+export const profileLanguages = [
+  "English",
+  "Spanish",
+  "French",
+  "German",
+  "Hindi",
+  "Tamil",
+  "Arabic",
+  "Chinese",
+  "Japanese",
+];
+
+export const learningStyles: LearningStyle[] = ["none", "visual", "auditory", "reading_writing", "kinesthetic"];
+
+const learningStyleGuidelines: Record<Exclude<LearningStyle, "none">, string> = {
+  visual: "They learn best visually: use tables, diagrams described step by step, and clearly structured layouts.",
+  auditory:
+    "They learn best by listening: write in a conversational tone that reads well aloud, with mnemonics and verbal cues.",
+  reading_writing: "They learn best through text: give clear written explanations, definitions and lists to take notes from.",
+  kinesthetic: "They learn best hands-on: include activities, experiments and practical exercises they can try.",
+};
+
+export const accessibilityNeeds: AccessibilityNeed[] = ["dyslexia", "focus", "screen_reader", "plain_language"];
+
+const accessibilityNeedGuidelines: Record<AccessibilityNeed, string> = {
+  dyslexia: "Use short paragraphs, simple sentence structure and bullet points; avoid dense blocks of text.",
+  focus: "Break content into small chunks with clear headings and a short summary of key points.",
+  screen_reader: "Describe any diagram or table in words, and don't rely on layout, color or emoji to carry meaning.",
+  plain_language: "Use everyday words and explain every technical term the first time it appears.",
+};
+
+export const emptyLearnerProfile: LearnerProfileInput = {
+  gradeLevel: "",
+  subjects: [],
+  preferredLanguage: "",
+  learningStyle: "none",
+  accessibilityNeeds: [],
+  notes: "",
+};
+
+export const learnerProfileQueryKey = (userId: string | undefined) => ["learnerProfile", userId];
+
+export const getLearnerProfile = async (userId: string): Promise<LearnerProfile | null> =>
+  (await getRecord<LearnerProfile>("learnerProfiles", userId)) ?? null;
+
+export const saveLearnerProfile = async (userId: string, input: LearnerProfileInput): Promise<LearnerProfile> => {
+  const profile: LearnerProfile = {
+    ...input,
+    subjects: input.subjects.map((subject) => subject.trim()).filter(Boolean),
+    notes: input.notes.trim(),
+    userId,
+    updatedAt: new Date().toISOString(),
+  };
+  await putRecord("learnerProfiles", profile);
+  return profile;
+};
+
+// The profile through the shared query cache, so generations don't read IndexedDB every time
+export const fetchLearnerProfile = (userId: string) =>
+  queryClient.fetchQuery({
+    queryKey: learnerProfileQueryKey(userId),
+    queryFn: () => getLearnerProfile(userId),
+    staleTime: Infinity,
+  });
+
+// Prompt instructions for the learner, or an empty string when the profile says nothing.
+// The preferred language is the response language unless the language menu picks another one.
+export const describeLearnerProfile = (profile: LearnerProfile | null, outputLanguage = "") => {
+  if (!profile) return "";
+
+  const lines = [
+    profile.gradeLevel && `- Level: ${profile.gradeLevel}.`,
+    profile.subjects.length > 0 && `- Studies: ${profile.subjects.join(", ")}. Draw examples from these subjects where they fit.`,
+    profile.preferredLanguage &&
+      profile.preferredLanguage !== outputLanguage &&
+      `- Preferred language: ${profile.preferredLanguage}. Where it helps, also give key terms in ${profile.preferredLanguage}.`,
+    profile.learningStyle !== "none" && `- ${learningStyleGuidelines[profile.learningStyle]}`,
+    ...profile.accessibilityNeeds.map((need) => `- ${accessibilityNeedGuidelines[need]}`),
+    profile.notes && `- Notes from the learner: ${profile.notes}`,
+  ].filter(Boolean);
+
+  return lines.length
+    ? `LEARNER PROFILE (tailor the response to this learner; the request's own instructions take precedence):\n${lines.join("\n")}`
+    : "";
+};
@@ -0,0 +1,249 @@
+import { Document, DocumentInterface } from "@langchain/core/documents";
+import { BaseRetriever, BaseRetrieverInput } from "@langchain/core/retrievers";
+import { MemoryVectorStore } from "langchain/vectorstores/memory";
+import {
+  deleteRecord,
+  deleteRecordsByIndex,
+  getRecordsByIndex,
+  putRecord,
+  putRecords,
+} from "@/lib/indexedDb";
+import type { SourceDocument } from "@/utils/documentUtils";
+import { embedTexts, getEmbeddingModel } from "@/utils/embeddingUtils";
+
+// A study document saved to a user's library
+export interface LibraryDocument {
+  id: string;
+  userId: string;
+  name: string;
+  characterCount: number;
+  chunkCount: number;
+  embeddingModel: string;
+  createdAt: string;
+}
+
+interface LibraryChunk {
+  id: string;
+  userId: string;
+  documentId: string;
+  documentName: string;
+  index: number;
+  text: string;
+  embedding: number[];
+  embeddingModel: string;
+}
+
+// Metadata attached to each retrieved passage
+export interface LibraryPassageMetadata {
+  documentId: string;
+  documentName: string;
+  chunkIndex: number;
+  score: number;
+}
+
+export type LibraryPassage = DocumentInterface<LibraryPassageMetadata>;
+
+const DEFAULT_PASSAGE_COUNT = 4;
+
+// In-memory vector indexes per user, one per embedding model, rebuilt after the library changes
+const indexCache = new Map<string, Promise<Map<string, MemoryVectorStore>>>();
+
+const buildIndexes = async (userId: string) => {
+  const chunks = await getRecordsByIndex<LibraryChunk>("libraryChunks", "userId", userId);
+  const indexes = new Map<string, MemoryVectorStore>();
+
+  for (const chunk of chunks) {
+    const model = getEmbeddingModel(chunk.embeddingModel);
+    // Vectors from a provider that is no longer configured cannot be compared with new queries
+    if (!model) continue;
+
+    let index = indexes.get(model.id);
+    if (!index) {
+      index = new MemoryVectorStore(model.embeddings);
+      indexes.set(model.id, index);
+    }
+
+    await index.addVectors(
+      [chunk.embedding],
+      [
+        new Document({
+          pageContent: chunk.text,
+          metadata: {
+            documentId: chunk.documentId,
+            documentName: chunk.documentName,
+            chunkIndex: chunk.index,
+          },
+        }),
+      ]
+    );
+  }
+
+  return indexes;
+};
+
+const getIndexes = (userId: string) => {
+  let indexes = indexCache.get(userId);
+  if (!indexes) {
+    indexes = buildIndexes(userId);
+    indexes.catch(() => indexCache.delete(userId));
+    indexCache.set(userId, indexes);
+  }
+  return indexes;
+};
+
+// Embed a document's chunks and save it to the user's library
+export const addLibraryDocument = async (userId: string, source: SourceDocument): Promise<LibraryDocument> => {
+  const { modelId, vectors } = await embedTexts(source.chunks);
+
+  const document: LibraryDocument = {
+    id: source.id,
+    userId,
+    name: source.name,
+    characterCount: source.characterCount,
+    chunkCount: source.chunks.length,
+    embeddingModel: modelId,
+    createdAt: new Date().toISOString(),
+  };
+
+  await putRecords<LibraryChunk>(
+    "libraryChunks",
+    source.chunks.map((text, index) => ({
+      id: `${document.id}:${index}`,
+      userId,
+      documentId: document.id,
+      documentName: document.name,
+      index,
+      text,
+      embedding: vectors[index],
+      embeddingModel: modelId,
+    }))
+  );
+  await putRecord("libraryDocuments", document);
+  indexCache.delete(userId);
+
+  return document;
+};
+
+// All of a user's library documents, newest first
+export const listLibraryDocuments = async (userId: string): Promise<LibraryDocument[]> => {
+  const documents = await getRecordsByIndex<LibraryDocument>("libraryDocuments", "userId", userId);
+  return documents.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+export const deleteLibraryDocument = async (userId: string, documentId: string) => {
+  await deleteRecordsByIndex("libraryChunks", "documentId", documentId);
+  await deleteRecord("libraryDocuments", documentId);
+  indexCache.delete(userId);
+};
+
+// Find the passages in a user's library that are most similar to the query
+export const searchLibrary = async (
+  userId: string,
+  query: string,
+  count = DEFAULT_PASSAGE_COUNT,
+  signal?: AbortSignal
+): Promise<Document<LibraryPassageMetadata>[]> => {
+  const indexes = await getIndexes(userId);
+  const results: Document<LibraryPassageMetadata>[] = [];
+
+  for (const [modelId, index] of indexes) {
+    try {
+      // Embed the query with a model bound to the signal, so stopping the reply cancels it
+      const embeddings = getEmbeddingModel(modelId, signal)?.embeddings ?? index.embeddings;
+      const queryVector = await embeddings.embedQuery(query);
+      const matches = await index.similaritySearchVectorWithScore(queryVector, count);
+      matches.forEach(([document, score]) =>
+        results.push(
+          new Document({
+            pageContent: document.pageContent,
+            metadata: { ...(document.metadata as Omit<LibraryPassageMetadata, "score">), score },
+          })
+        )
+      );
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      console.warn(`Could not search library documents embedded with ${modelId}:`, error);
+    }
+  }
+
+  // Scores from different models are not strictly comparable, but both are cosine similarities
+  return results.sort((a, b) => b.metadata.score - a.metadata.score).slice(0, count);
+};
+
+interface LibraryRetrieverInput extends BaseRetrieverInput {
+  userId: string;
+  count?: number;
+  signal?: AbortSignal;
+}
+
+// LangChain retriever over a user's document library
+export class LibraryRetriever extends BaseRetriever<LibraryPassageMetadata> {
+  lc_namespace = ["aptora", "retrievers", "library"];
+
+  private userId: string;
+  private count: number;
+  // LangChain doesn't hand the call's signal to retrievers, so it is given up front
+  private signal?: AbortSignal;
+
+  constructor({ userId, count = DEFAULT_PASSAGE_COUNT, signal, ...fields }: LibraryRetrieverInput) {
+    super(fields);
+    this.userId = userId;
+    this.count = count;
+    this.signal = signal;
+  }
+
+  async _getRelevantDocuments(query: string) {
+    return searchLibrary(this.userId, query, this.count, this.signal);
+  }
+}
+
+// A library passage cited in an assistant reply, numbered as in the prompt
+export interface LibraryCitation {
+  number: number;
+  documentName: string;
+  excerpt: string;
+}
+
+const EXCERPT_LENGTH = 240;
+
+// Format retrieved passages as a numbered prompt section, or an empty string without passages
+export const buildLibraryContext = (passages: LibraryPassage[]) => {
+  if (!passages.length) return "";
+
+  const excerpts = passages
+    .map((passage, index) => `[${index + 1}] From "${passage.metadata.documentName}":\n${passage.pageContent}`)
+    .join("\n\n");
+
+  return `LIBRARY PASSAGES:
+    These passages from the student's own study documents may be relevant to the latest question.
+    Prefer them over general knowledge and cite each one you use inline by its number, for example [1].
+    If they do not cover the question, say so before answering from general knowledge.
+    ---
+${excerpts}
+    ---`;
+};
+
+// The passages a reply actually cites with [n] or [n, m] markers
+export const getCitations = (
+  reply: string,
+  passages: LibraryPassage[]
+): LibraryCitation[] => {
+  const cited = new Set(
+    Array.from(reply.matchAll(/\[(\d+(?:\s*,\s*\d+)*)\]/g)).flatMap((match) => match[1].split(",").map(Number))
+  );
+
+  return passages.flatMap((passage, index) =>
+    cited.has(index + 1)
+      ? [
+          {
+            number: index + 1,
+            documentName: passage.metadata.documentName,
+            excerpt:
+              passage.pageContent.length > EXCERPT_LENGTH
+                ? `${passage.pageContent.slice(0, EXCERPT_LENGTH - 1)}…`
+                : passage.pageContent,
+          },
+        ]
+      : []
+  );
+};
@@ -0,0 +1,104 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { RetryConfig, backoffDelay, callLLM } from "@/utils/llmClient";
+import { LLMError } from "@/utils/llmErrors";
+
+const config: RetryConfig = { timeoutMs: 50, maxRetries: 3, baseDelayMs: 1, maxDelayMs: 4 };
+
+// A call that fails with each error in turn, then returns "done"
+const failing = (...errors: Error[]) => {
+  const call = vi.fn(async () => {
+    const error = errors[call.mock.calls.length - 1];
+    if (error) throw error;
+    return "done";
+  });
+  return call;
+};
+
+// A call that only settles when its attempt is aborted
+const hanging = () =>
+  vi.fn(
+    ({ signal }: { signal: AbortSignal }) =>
+      new Promise<string>((_, reject) => signal.addEventListener("abort", () => reject(new Error("aborted"))))
+  );
+
+beforeEach(() => {
+  vi.spyOn(console, "warn").mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("backoffDelay", () => {
+  it("doubles the ceiling with each attempt up to the maximum", () => {
+    vi.spyOn(Math, "random").mockReturnValue(0.5);
+    const delays = { baseDelayMs: 1_000, maxDelayMs: 20_000, timeoutMs: 0, maxRetries: 0 };
+
+    expect([0, 1, 2, 3, 4, 5].map((attempt) => backoffDelay(attempt, delays))).toEqual([
+      500, 1_000, 2_000, 4_000, 8_000, 10_000,
+    ]);
+  });
+
+  it("picks a random delay below the ceiling", () => {
+    const delays = { baseDelayMs: 1_000, maxDelayMs: 20_000, timeoutMs: 0, maxRetries: 0 };
+
+    for (let i = 0; i < 20; i++) {
+      const delay = backoffDelay(2, delays);
+      expect(delay).toBeGreaterThanOrEqual(0);
+      expect(delay).toBeLessThan(4_000);
+    }
+  });
+});
+
+describe("callLLM", () => {
+  it("retries transient failures until the call succeeds", async () => {
+    const call = failing(new LLMError("server", "Unavailable"), new LLMError("quota", "Too many requests"));
+    const onRetry = vi.fn();
+
+    await expect(callLLM(call, { config, onRetry })).resolves.toBe("done");
+    expect(call).toHaveBeenCalledTimes(3);
+    expect(onRetry.mock.calls.map(([error, attempt]) => [error.kind, attempt])).toEqual([
+      ["server", 1],
+      ["quota", 2],
+    ]);
+  });
+
+  it("doesn't retry errors that would fail the same way again", async () => {
+    const call = failing(new LLMError("safety", "Blocked"));
+
+    await expect(callLLM(call, { config })).rejects.toMatchObject({ kind: "safety" });
+    expect(call).toHaveBeenCalledTimes(1);
+  });
+
+  it("gives up after the configured number of retries", async () => {
+    const errors = Array.from({ length: 5 }, () => new LLMError("network", "Offline"));
+    const call = failing(...errors);
+
+    await expect(callLLM(call, { config })).rejects.toMatchObject({ kind: "network" });
+    expect(call).toHaveBeenCalledTimes(config.maxRetries + 1);
+  });
+
+  it("stops retrying once canRetry says a retry would repeat visible work", async () => {
+    const call = failing(new LLMError("server", "Unavailable"));
+
+    await expect(callLLM(call, { config, canRetry: () => false })).rejects.toMatchObject({ kind: "server" });
+    expect(call).toHaveBeenCalledTimes(1);
+  });
+
+  it("aborts an attempt that takes longer than the timeout and reports it as a timeout", async () => {
+    const call = hanging();
+
+    await expect(callLLM(call, { config: { ...config, maxRetries: 1 } })).rejects.toMatchObject({ kind: "timeout" });
+    expect(call).toHaveBeenCalledTimes(2);
+  });
+
+  it("rethrows the caller's abort as is, without retrying", async () => {
+    const controller = new AbortController();
+    const call = hanging();
+    const result = callLLM(call, { config: { ...config, timeoutMs: 10_000 }, signal: controller.signal });
+
+    controller.abort();
+    await expect(result).rejects.not.toBeInstanceOf(LLMError);
+    expect(call).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,100 @@
+import { LLMError, toLLMError } from "@/utils/llmErrors";
+
+export interface RetryConfig {
+  // Abort an attempt after this long without a response or streamed chunk
+  timeoutMs: number;
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+const readNumber = (value: string | undefined, fallback: number) => {
+  const parsed = Number(value);
+  return value !== undefined && value !== "" && Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+};
+
+// Timeout and retry count can be tuned from the Vite environment
+export const getRetryConfig = (): RetryConfig => ({
+  timeoutMs: readNumber(import.meta.env.VITE_LLM_TIMEOUT_MS, 60_000),
+  maxRetries: readNumber(import.meta.env.VITE_LLM_MAX_RETRIES, 3),
+  baseDelayMs: 1_000,
+  maxDelayMs: 20_000,
+});
+
+// Exponential backoff with full jitter, so clients that failed together don't retry together
+export const backoffDelay = (attempt: number, { baseDelayMs, maxDelayMs }: RetryConfig) =>
+  Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+export interface LLMAttempt {
+  // Aborted when the attempt times out or the caller stops
+  signal: AbortSignal;
+  // Restart the timeout, e.g. for every streamed chunk
+  keepAlive: () => void;
+}
+
+export interface LLMCallOptions {
+  signal?: AbortSignal;
+  config?: RetryConfig;
+  // Return false once a retry would repeat visible work, such as after streaming has started
+  canRetry?: () => boolean;
+  onRetry?: (error: LLMError, attempt: number) => void;
+}
+
+// Run a model call with a timeout per attempt, retrying transient failures with backoff.
+// Failures are thrown as LLMErrors; stopping through the caller's signal rethrows the abort as is.
+export async function callLLM<T>(
+  call: (attempt: LLMAttempt) => Promise<T>,
+  { signal, config = getRetryConfig(), canRetry, onRetry }: LLMCallOptions = {}
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    const controller = new AbortController();
+    const stop = () => controller.abort(signal?.reason);
+    signal?.addEventListener("abort", stop, { once: true });
+
+    let timedOut = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const keepAlive = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, config.timeoutMs);
+    };
+
+    try {
+      keepAlive();
+      return await call({ signal: controller.signal, keepAlive });
+    } catch (error) {
+      if (signal?.aborted) throw error;
+
+      const llmError = timedOut
+        ? new LLMError("timeout", `No response within ${config.timeoutMs / 1000} seconds`, { originalError: error })
+        : toLLMError(error);
+      if (!llmError.retryable || attempt >= config.maxRetries || canRetry?.() === false) {
+        throw llmError;
+      }
+
+      const delay = backoffDelay(attempt, config);
+      console.warn(`Model call failed (${llmError.kind}), retrying in ${Math.round(delay)} ms:`, llmError.message);
+      onRetry?.(llmError, attempt + 1);
+      await sleep(delay, signal);
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", stop);
+    }
+  }
+}
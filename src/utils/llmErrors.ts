@@ -0,0 +1,89 @@
+// The core instance, not @/lib/i18n: the API proxy shares this module and has no interface
+import i18n from "i18next";
+
+export type LLMErrorKind =
+  | "quota"
+  | "safety"
+  | "network"
+  | "invalid_key"
+  | "timeout"
+  | "server"
+  // Refused before reaching the model: not signed in, or over a daily request or token limit
+  | "unauthenticated"
+  | "usage_limit"
+  | "unknown";
+
+// Kinds worth retrying automatically; the others fail the same way every time
+const retryableKinds: LLMErrorKind[] = ["quota", "network", "timeout", "server"];
+
+// A failed model call, classified so it can be retried or explained to the user
+export class LLMError extends Error {
+  readonly kind: LLMErrorKind;
+  readonly status?: number;
+  readonly originalError?: unknown;
+
+  constructor(kind: LLMErrorKind, message: string, { status, originalError }: { status?: number; originalError?: unknown } = {}) {
+    super(message);
+    this.name = "LLMError";
+    this.kind = kind;
+    this.status = status;
+    this.originalError = originalError;
+  }
+
+  get retryable() {
+    return retryableKinds.includes(this.kind);
+  }
+}
+
+// HTTP status from the provider SDK's error, or from messages like "[429 Too Many Requests]"
+const getStatus = (error: unknown): number | undefined => {
+  if (error && typeof error === "object") {
+    const { status, statusCode, response } = error as {
+      status?: unknown;
+      statusCode?: unknown;
+      response?: { status?: unknown };
+    };
+    const found = [status, statusCode, response?.status].find((value) => typeof value === "number");
+    if (typeof found === "number") return found;
+  }
+  const match = String(error instanceof Error ? error.message : error).match(/\[(\d{3})[\s\]]/);
+  return match ? Number(match[1]) : undefined;
+};
+
+const classify = (status: number | undefined, message: string, error: unknown): LLMErrorKind => {
+  if (status === 401 || status === 403 || /api[ _-]?key|is not defined in environment variables/i.test(message)) {
+    return "invalid_key";
+  }
+  if (status === 429 || /quota|RESOURCE_EXHAUSTED|rate limit|too many requests/i.test(message)) return "quota";
+  if (/\bSAFETY\b|PROHIBITED_CONTENT|BLOCKLIST|blockReason|candidate was blocked|content[ _]filter/i.test(message)) {
+    return "safety";
+  }
+  if (status !== undefined && status >= 500) return "server";
+  if (/UNAVAILABLE|overloaded|internal server error/i.test(message)) return "server";
+  if (
+    // The API proxy shares this module, so navigator may not exist
+    (globalThis as { navigator?: { onLine?: boolean } }).navigator?.onLine === false ||
+    /failed to fetch|networkerror|network error|load failed|ECONNREFUSED|ENOTFOUND|ECONNRESET|ERR_NETWORK/i.test(message) ||
+    (error instanceof TypeError && /fetch/i.test(message))
+  ) {
+    return "network";
+  }
+  return "unknown";
+};
+
+// Wrap any error from a model call in an LLMError
+export const toLLMError = (error: unknown): LLMError => {
+  if (error instanceof LLMError) return error;
+  const message = error instanceof Error ? error.message : String(error);
+  const status = getStatus(error);
+  return new LLMError(classify(status, message, error), message, { status, originalError: error });
+};
+
+// Title and description to show the user for a failed model call, in the interface language
+export const describeLLMError = (error: unknown) => {
+  const llmError = toLLMError(error);
+  const title = i18n.t(`errors.${llmError.kind}.title`);
+  const description = i18n.t(`errors.${llmError.kind}.description`);
+  // Unrecognised errors keep their own message, which is more useful than a generic one
+  return llmError.kind === "unknown" && llmError.message ? { title, description: llmError.message } : { title, description };
+};
@@ -0,0 +1,185 @@
+import { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import { EmbeddingsInterface } from "@langchain/core/embeddings";
+import { FakeListChatModel } from "@langchain/core/utils/testing";
+import { ChatGoogleGenerativeAI, GoogleGenerativeAIEmbeddings } from "@langchain/google-genai";
+import { ChatOpenAI, OpenAIEmbeddings } from "@langchain/openai";
+import { ProxyChatModel, ProxyEmbeddings } from "@/utils/proxyModels";
+
+export type LLMProvider = "proxy" | "gemini" | "openai" | "local" | "fake";
+
+export interface LLMConfig {
+  provider: LLMProvider;
+  model: string;
+  apiKey?: string;
+  baseUrl?: string;
+}
+
+// Sampling settings passed to whichever provider is active
+export interface ModelSettings {
+  maxOutputTokens: number;
+  temperature: number;
+  topK: number;
+  topP: number;
+}
+
+export const defaultModelSettings: ModelSettings = {
+  maxOutputTokens: 1024,
+  temperature: 0.5,
+  topK: 20,
+  topP: 0.8,
+};
+
+const providers: LLMProvider[] = ["proxy", "gemini", "openai", "local", "fake"];
+
+const defaultModels: Record<LLMProvider, string> = {
+  proxy: "gemini-1.5-flash",
+  gemini: "gemini-1.5-flash", // Using flash model for faster responses
+  openai: "gpt-4o-mini",
+  local: "llama3.1",
+  fake: "fake",
+};
+
+// Embedding models used for the document library; the fake provider uses local embeddings
+const defaultEmbeddingModels: Record<Exclude<LLMProvider, "fake">, string> = {
+  proxy: "text-embedding-004",
+  gemini: "text-embedding-004",
+  openai: "text-embedding-3-small",
+  local: "nomic-embed-text",
+};
+
+// Ollama serves an OpenAI-compatible API here; llama.cpp's server uses http://localhost:8080/v1
+const DEFAULT_LOCAL_BASE_URL = "http://localhost:11434/v1";
+
+// The API proxy in server/, which the Vite dev server forwards /api to
+const DEFAULT_PROXY_URL = "/api";
+
+// Read the provider selection from the Vite environment. The proxy is the default so
+// no API key is bundled into the client; "gemini" calls Gemini directly with VITE_GEMINI_API_KEY.
+export const getLLMConfig = (): LLMConfig => {
+  const env = import.meta.env;
+  const requested = (env.VITE_LLM_PROVIDER || "proxy").toLowerCase() as LLMProvider;
+
+  if (!providers.includes(requested)) {
+    throw new Error(`Unknown VITE_LLM_PROVIDER "${requested}". Use one of: ${providers.join(", ")}`);
+  }
+
+  return {
+    provider: requested,
+    model: env.VITE_LLM_MODEL || defaultModels[requested],
+    apiKey:
+      requested === "proxy" ? undefined : requested === "gemini" ? env.VITE_GEMINI_API_KEY : env.VITE_LLM_API_KEY,
+    baseUrl: env.VITE_LLM_BASE_URL,
+  };
+};
+
+const createGeminiModel = (config: LLMConfig, settings: ModelSettings) => {
+  if (!config.apiKey) {
+    throw new Error("VITE_GEMINI_API_KEY is not defined in environment variables");
+  }
+
+  return new ChatGoogleGenerativeAI({
+    apiKey: config.apiKey,
+    modelName: config.model,
+    maxOutputTokens: settings.maxOutputTokens,
+    temperature: settings.temperature,
+    topK: settings.topK,
+    topP: settings.topP,
+    // Retries and timeouts are handled by callLLM in llmClient
+    maxRetries: 0,
+  });
+};
+
+const getBaseUrl = (config: LLMConfig) =>
+  config.baseUrl ||
+  (config.provider === "local" ? DEFAULT_LOCAL_BASE_URL : config.provider === "proxy" ? DEFAULT_PROXY_URL : undefined);
+
+// Works with OpenAI itself and any server exposing the same chat completions API
+const createOpenAICompatibleModel = (config: LLMConfig, settings: ModelSettings) => {
+  const baseURL = getBaseUrl(config);
+
+  if (config.provider === "openai" && !config.apiKey) {
+    throw new Error("VITE_LLM_API_KEY is not defined in environment variables");
+  }
+
+  return new ChatOpenAI({
+    // Local servers ignore the key but the client requires one
+    apiKey: config.apiKey || "not-needed",
+    model: config.model,
+    // The chat completions API has no top-k setting
+    maxTokens: settings.maxOutputTokens,
+    temperature: settings.temperature,
+    topP: settings.topP,
+    maxRetries: 0,
+    configuration: {
+      baseURL,
+      dangerouslyAllowBrowser: true,
+    },
+  });
+};
+
+// Deterministic model for tests and offline development
+const createFakeModel = (fakeResponse: string) =>
+  new FakeListChatModel({
+    responses: [fakeResponse],
+    sleep: 5,
+  });
+
+// Create the chat model for the configured provider
+export const createChatModel = (
+  fakeResponse: string,
+  settings: ModelSettings = defaultModelSettings,
+  config: LLMConfig = getLLMConfig()
+): BaseChatModel => {
+  switch (config.provider) {
+    case "proxy":
+      return new ProxyChatModel({ url: getBaseUrl(config)!, model: config.model, settings });
+    case "gemini":
+      return createGeminiModel(config, settings);
+    case "openai":
+    case "local":
+      return createOpenAICompatibleModel(config, settings);
+    case "fake":
+      return createFakeModel(fakeResponse);
+  }
+};
+
+// An embedding model together with a stable id, stored with every vector it produces
+export interface EmbeddingModel {
+  id: string;
+  embeddings: EmbeddingsInterface;
+}
+
+// Create the embedding model for the configured provider, or null when it has none.
+// The signal stops proxy requests; the other providers' clients don't take one.
+export const createEmbeddingModel = (
+  config: LLMConfig = getLLMConfig(),
+  signal?: AbortSignal
+): EmbeddingModel | null => {
+  if (config.provider === "fake") return null;
+
+  const model = import.meta.env.VITE_LLM_EMBEDDING_MODEL || defaultEmbeddingModels[config.provider];
+  const id = `${config.provider}:${model}`;
+
+  if (config.provider === "proxy") {
+    return { id, embeddings: new ProxyEmbeddings({ url: getBaseUrl(config)!, model, signal }) };
+  }
+
+  if (config.provider === "gemini") {
+    if (!config.apiKey) return null;
+    return { id, embeddings: new GoogleGenerativeAIEmbeddings({ apiKey: config.apiKey, model }) };
+  }
+
+  if (config.provider === "openai" && !config.apiKey) return null;
+
+  return {
+    id,
+    embeddings: new OpenAIEmbeddings({
+      apiKey: config.apiKey || "not-needed",
+      model,
+      configuration: {
+        baseURL: getBaseUrl(config),
+        dangerouslyAllowBrowser: true,
+      },
+    }),
+  };
+};
@@ -0,0 +1,72 @@
+import { unified } from "unified";
+import remarkParse from "remark-parse";
+import remarkGfm from "remark-gfm";
+import remarkMath from "remark-math";
+import remarkRehype from "remark-rehype";
+import rehypeSanitize, { defaultSchema, type Options as SanitizeSchema } from "rehype-sanitize";
+import rehypeKatex from "rehype-katex";
+import rehypeHighlight from "rehype-highlight";
+import rehypeStringify from "rehype-stringify";
+import type { ElementContent, Root } from "hast";
+
+// Allow the classes remark-math puts on math nodes so KaTeX can render them after sanitizing
+export const sanitizeSchema: SanitizeSchema = {
+  ...defaultSchema,
+  attributes: {
+    ...defaultSchema.attributes,
+    code: [...(defaultSchema.attributes?.code ?? []), ["className", /^language-./, "math-inline", "math-display"]],
+  },
+};
+
+// "katex" renders math to HTML; "delimiters" leaves TeX in \( \) and \[ \] for MathJax, e.g. in Anki
+export type MathRendering = "katex" | "delimiters";
+
+const isMathCode = (node: ElementContent) =>
+  node.type === "element" &&
+  node.tagName === "code" &&
+  Array.isArray(node.properties.className) &&
+  node.properties.className.includes("language-math");
+
+const textOf = (node: ElementContent): string =>
+  node.type === "text" ? node.value : "children" in node ? node.children.map(textOf).join("") : "";
+
+// Replace remark-math's code nodes with their TeX source wrapped in MathJax delimiters;
+// display math is the one inside a <pre>, as in rehype-katex
+const rehypeMathDelimiters = () => (tree: Root) => {
+  const visit = (children: ElementContent[]) =>
+    children.map((node): ElementContent => {
+      if (node.type !== "element") return node;
+
+      if (node.tagName === "pre" && node.children.some(isMathCode)) {
+        return { type: "text", value: `\\[${textOf(node).trim()}\\]` };
+      }
+      if (isMathCode(node)) {
+        return { type: "text", value: `\\(${textOf(node)}\\)` };
+      }
+
+      node.children = visit(node.children);
+      return node;
+    });
+
+  tree.children = visit(tree.children as ElementContent[]);
+};
+
+// Convert model output to sanitized HTML, rendered the same way as in the app
+export const markdownToHtml = async (
+  markdown: string,
+  { math = "katex" }: { math?: MathRendering } = {}
+) => {
+  const file = await unified()
+    .use(remarkParse)
+    .use(remarkGfm)
+    .use(remarkMath)
+    .use(remarkRehype)
+    // Sanitize first; KaTeX and highlight.js output is trusted
+    .use(rehypeSanitize, sanitizeSchema)
+    .use(math === "katex" ? rehypeKatex : rehypeMathDelimiters)
+    .use(rehypeHighlight, { detect: true })
+    .use(rehypeStringify)
+    .process(markdown);
+
+  return String(file);
+};
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { QuizAnswerRecord, buildPracticePlan } from "@/utils/masteryStore";
+
+let answerCount = 0;
+
+const answer = (concepts: string[], correct: boolean, fields: Partial<QuizAnswerRecord> = {}): QuizAnswerRecord => {
+  answerCount += 1;
+  return {
+    id: `answer-${answerCount}`,
+    userId: "learner",
+    question: `Question ${answerCount}`,
+    concepts,
+    difficulty: "medium",
+    correct,
+    answeredAt: new Date(Date.UTC(2026, 2, 1, 9, answerCount)).toISOString(),
+    ...fields,
+  };
+};
+
+describe("buildPracticePlan", () => {
+  it("returns null when no concept is below the weak-spot threshold", () => {
+    const answers = [answer(["Osmosis"], true), answer(["Osmosis"], true)];
+
+    expect(buildPracticePlan(answers)).toBeNull();
+  });
+
+  it("gives every weak concept a question and more to the weaker ones", () => {
+    const answers = [
+      answer(["Osmosis"], false),
+      answer(["Osmosis"], false),
+      answer(["Osmosis"], false),
+      answer(["Diffusion"], false),
+      answer(["Mitosis"], true),
+    ];
+    const plan = buildPracticePlan(answers, 8)!;
+    const questions = Object.fromEntries(plan.concepts.map((concept) => [concept.concept, concept.questions]));
+
+    expect(plan.concepts.map((concept) => concept.concept)).toEqual(["Osmosis", "Diffusion", "Mitosis"]);
+    expect(plan.concepts.reduce((sum, concept) => sum + concept.questions, 0)).toBe(8);
+    expect(questions.Mitosis).toBeGreaterThanOrEqual(1);
+    expect(questions.Osmosis).toBeGreaterThan(questions.Diffusion);
+    expect(questions.Diffusion).toBeGreaterThan(questions.Mitosis);
+  });
+
+  it("counts concept names that differ only in case and spacing as one", () => {
+    const plan = buildPracticePlan([answer(["Cell  wall"], false), answer(["cell wall"], false)])!;
+
+    expect(plan.concepts).toHaveLength(1);
+    expect(plan.concepts[0].concept).toBe("cell wall");
+  });
+
+  it("lists recent questions on the weak concepts once each", () => {
+    const answers = [
+      answer(["Osmosis"], false, { question: "What is osmosis?" }),
+      answer(["Osmosis"], false, { question: "What is osmosis?" }),
+      answer(["Mitosis"], true, { question: "What is mitosis?" }),
+      answer(["Mitosis"], true, { question: "What is mitosis?" }),
+    ];
+
+    expect(buildPracticePlan(answers)!.recentQuestions).toEqual(["What is osmosis?"]);
+  });
+
+  it("steps the difficulty down after mostly wrong answers and up after mostly right ones", () => {
+    const wrong = [answer(["Osmosis"], false), answer(["Osmosis"], false), answer(["Osmosis"], false)];
+    const right = [
+      answer(["Osmosis"], false),
+      ...Array.from({ length: 4 }, () => answer(["Diffusion"], true)),
+      answer(["Mitosis"], true),
+    ];
+
+    expect(buildPracticePlan(wrong)!.difficulty).toBe("easy");
+    expect(buildPracticePlan(right)!.difficulty).toBe("hard");
+  });
+});
@@ -0,0 +1,170 @@
+import { getRecordsByIndex, putRecords } from "@/lib/indexedDb";
+import { Quiz, QuizDifficulty, difficultyLabels, quizDifficulties } from "@/utils/quizUtils";
+
+// One answered quiz question, kept to track the learner's mastery of its concepts
+export interface QuizAnswerRecord {
+  id: string;
+  userId: string;
+  question: string;
+  concepts: string[];
+  difficulty: QuizDifficulty;
+  correct: boolean;
+  answeredAt: string;
+}
+
+// How a question was answered in a submitted quiz; short answers may have been graded by the model
+export interface QuizAnswerResult {
+  answer: string;
+  correct: boolean;
+}
+
+// A submitted quiz; reporting the same submission again replaces its answers, e.g. after a grade override
+export interface QuizSubmission {
+  id: string;
+  submittedAt: string;
+  // Answered questions by index
+  results: Record<number, QuizAnswerResult>;
+}
+
+export interface ConceptMastery {
+  concept: string;
+  attempts: number;
+  correct: number;
+  // 0 to 1, weighted towards recent answers
+  mastery: number;
+  lastAnsweredAt: string;
+}
+
+export interface PracticePlan {
+  concepts: Array<{ concept: string; mastery: number; questions: number }>;
+  difficulty: QuizDifficulty;
+  questionCount: number;
+  // Recent questions on the same concepts, so the model writes new ones
+  recentQuestions: string[];
+}
+
+// Each answer moves mastery this far towards 1 (correct) or 0 (wrong), starting from 0.5
+const MASTERY_RATE = 0.3;
+// Concepts below this mastery count as weak spots
+export const WEAK_MASTERY = 0.7;
+// Answers that decide whether the next practice quiz gets harder or easier
+const RECENT_ANSWERS = 10;
+const MAX_PRACTICE_CONCEPTS = 5;
+
+export const masteryQueryKey = (userId: string | undefined) => ["quizAnswers", userId];
+
+// Concept names from different quizzes match regardless of case and spacing
+const conceptKey = (concept: string) => concept.trim().toLowerCase().replace(/\s+/g, " ");
+
+// A user's answers, oldest first
+export const listQuizAnswers = async (userId: string): Promise<QuizAnswerRecord[]> => {
+  const answers = await getRecordsByIndex<QuizAnswerRecord>("quizAnswers", "userId", userId);
+  return answers.sort((a, b) => a.answeredAt.localeCompare(b.answeredAt));
+};
+
+// Record the answered questions of a submitted quiz; skipped questions aren't counted
+export const recordQuizAnswers = async (userId: string, quiz: Quiz, { id, submittedAt, results }: QuizSubmission) => {
+  const records = quiz.questions.flatMap((question, index): QuizAnswerRecord[] =>
+    results[index]?.answer.trim()
+      ? [
+          {
+            id: `${id}-${index}`,
+            userId,
+            question: question.question,
+            concepts: (question.concepts ?? []).map((concept) => concept.trim().replace(/\s+/g, " ")).filter(Boolean),
+            difficulty: question.difficulty ?? "medium",
+            correct: results[index].correct,
+            answeredAt: submittedAt,
+          },
+        ]
+      : []
+  );
+  await putRecords("quizAnswers", records);
+  return records;
+};
+
+// Mastery of every concept answered so far, weakest first
+export const computeMastery = (answers: QuizAnswerRecord[]): ConceptMastery[] => {
+  const concepts = new Map<string, ConceptMastery>();
+
+  answers.forEach((answer) => {
+    answer.concepts.forEach((concept) => {
+      const key = conceptKey(concept);
+      const current = concepts.get(key) ?? { concept, attempts: 0, correct: 0, mastery: 0.5, lastAnsweredAt: "" };
+      concepts.set(key, {
+        // The most recent spelling of the name is shown
+        concept,
+        attempts: current.attempts + 1,
+        correct: current.correct + (answer.correct ? 1 : 0),
+        mastery: current.mastery + MASTERY_RATE * ((answer.correct ? 1 : 0) - current.mastery),
+        lastAnsweredAt: answer.answeredAt,
+      });
+    });
+  });
+
+  return [...concepts.values()].sort((a, b) => a.mastery - b.mastery || b.attempts - a.attempts);
+};
+
+// Step up a level after mostly correct recent answers, and down after mostly wrong ones
+export const recommendDifficulty = (answers: QuizAnswerRecord[]): QuizDifficulty => {
+  const recent = answers.slice(-RECENT_ANSWERS);
+  if (recent.length < 3) return "medium";
+
+  const current = quizDifficulties.indexOf(recent[recent.length - 1].difficulty);
+  const accuracy = recent.filter((answer) => answer.correct).length / recent.length;
+  const step = accuracy >= 0.8 ? 1 : accuracy <= 0.5 ? -1 : 0;
+  return quizDifficulties[Math.min(quizDifficulties.length - 1, Math.max(0, current + step))];
+};
+
+// Split the questions between the weakest concepts still below WEAK_MASTERY, giving more to lower mastery
+export const buildPracticePlan = (answers: QuizAnswerRecord[], questionCount = 8): PracticePlan | null => {
+  const weakest = computeMastery(answers)
+    .filter((concept) => concept.mastery < WEAK_MASTERY)
+    .slice(0, Math.min(MAX_PRACTICE_CONCEPTS, questionCount));
+  if (!weakest.length) return null;
+
+  // Every concept gets a question; the rest go by largest remainder of its weight,
+  // which grows quickly as mastery drops
+  const weights = weakest.map((concept) => (1 - concept.mastery) ** 2 + 0.05);
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  const extra = questionCount - weakest.length;
+  const shares = weights.map((weight) => (weight / totalWeight) * extra);
+  const questions = shares.map((share) => 1 + Math.floor(share));
+  const left = questionCount - questions.reduce((sum, count) => sum + count, 0);
+  shares
+    .map((share, index) => ({ index, remainder: share - Math.floor(share) }))
+    .sort((a, b) => b.remainder - a.remainder)
+    .slice(0, left)
+    .forEach(({ index }) => questions[index]++);
+
+  const keys = new Set(weakest.map((concept) => conceptKey(concept.concept)));
+  const recentQuestions = answers
+    .filter((answer) => answer.concepts.some((concept) => keys.has(conceptKey(concept))))
+    .slice(-RECENT_ANSWERS)
+    .map((answer) => answer.question);
+
+  return {
+    concepts: weakest.map((concept, index) => ({
+      concept: concept.concept,
+      mastery: concept.mastery,
+      questions: questions[index],
+    })),
+    difficulty: recommendDifficulty(answers),
+    questionCount,
+    recentQuestions: [...new Set(recentQuestions)],
+  };
+};
+
+// The quiz request sent for a practice session; it goes through the quiz template like any prompt
+export const describePracticePlan = (plan: PracticePlan) =>
+  [
+    `Practice quiz on my weak spots: ${plan.questionCount} new questions at ${difficultyLabels[plan.difficulty].toLowerCase()} difficulty.`,
+    "Cover these concepts, with this many questions each, and tag each question with the concept name exactly as written:",
+    ...plan.concepts.map(
+      ({ concept, mastery, questions }) =>
+        `- ${concept}: ${questions} ${questions === 1 ? "question" : "questions"} (my mastery: ${Math.round(mastery * 100)}%)`
+    ),
+    ...(plan.recentQuestions.length
+      ? ["Don't repeat these questions I answered recently:", ...plan.recentQuestions.map((question) => `- ${question}`)]
+      : []),
+  ].join("\n");
@@ -0,0 +1,38 @@
+import { getInterfaceLanguage } from "@/lib/i18n";
+
+// Languages the model can be asked to respond in, by language code
+export const outputLanguages = ["en", "es", "fr", "de", "pt", "hi", "ta", "ar", "zh", "ja"];
+
+const STORAGE_KEY = "outputLanguage";
+
+// The saved language code; empty when responses follow the learner profile or the interface language
+export const getOutputLanguageSetting = () =>
+  (typeof localStorage === "undefined" ? null : localStorage.getItem(STORAGE_KEY)) ?? "";
+
+export const setOutputLanguageSetting = (language: string) => {
+  if (language) localStorage.setItem(STORAGE_KEY, language);
+  else localStorage.removeItem(STORAGE_KEY);
+};
+
+// A language's name in the given display language, e.g. "Spanish" or "espagnol"
+export const languageName = (language: string, displayLanguage = "en") =>
+  new Intl.DisplayNames([displayLanguage], { type: "language" }).of(language) ?? language;
+
+// A writing system's name in the given display language, from its ISO 15924 code, e.g. "Arabic" for "Arab"
+export const scriptName = (script: string, displayLanguage = "en") =>
+  new Intl.DisplayNames([displayLanguage], { type: "script" }).of(script) ?? script;
+
+// The code of a language given by its English name, as the learner profile stores it
+export const languageCode = (name: string) => outputLanguages.find((language) => languageName(language) === name);
+
+// The code of the language responses are written in: the language menu's choice, otherwise the
+// learner profile's preferred language, otherwise the interface language
+export const getOutputLanguageCode = (preferredLanguage = "") =>
+  getOutputLanguageSetting() || languageCode(preferredLanguage) || getInterfaceLanguage();
+
+// The language responses are written in, as its English name for prompts
+export const getOutputLanguage = (preferredLanguage = "") => languageName(getOutputLanguageCode(preferredLanguage));
+
+// Prompt instructions for the response language; the structure the app parses stays in English
+export const describeOutputLanguage = (language: string) =>
+  `RESPONSE LANGUAGE: Write the whole response in ${language}, including headings, questions, answers and explanations, unless the request explicitly asks for another language. Keep everything the format fixes exactly as given, such as JSON keys and values from a fixed list or line labels like "Question:", and leave code and LaTeX commands unchanged.`;
@@ -0,0 +1,154 @@
+import jsPDF from "jspdf";
+import notoSansArabicUrl from "@expo-google-fonts/noto-sans-arabic/400Regular/NotoSansArabic_400Regular.ttf?url";
+import notoSansHebrewUrl from "@expo-google-fonts/noto-sans-hebrew/400Regular/NotoSansHebrew_400Regular.ttf?url";
+import notoSansDevanagariUrl from "@expo-google-fonts/noto-sans-devanagari/400Regular/NotoSansDevanagari_400Regular.ttf?url";
+import notoSansTamilUrl from "@expo-google-fonts/noto-sans-tamil/400Regular/NotoSansTamil_400Regular.ttf?url";
+import notoSansKrUrl from "@expo-google-fonts/noto-sans-kr/400Regular/NotoSansKR_400Regular.ttf?url";
+import notoSansJpUrl from "@expo-google-fonts/noto-sans-jp/400Regular/NotoSansJP_400Regular.ttf?url";
+import notoSansScUrl from "@expo-google-fonts/noto-sans-sc/400Regular/NotoSansSC_400Regular.ttf?url";
+import notoSansUrl from "@expo-google-fonts/noto-sans/400Regular/NotoSans_400Regular.ttf?url";
+
+// The built-in PDF fonts only cover Latin-1, so other scripts need an embedded TTF.
+// The Noto Sans files come from the @expo-google-fonts packages (SIL Open Font License),
+// are bundled as static assets and fetched only when an export needs them.
+interface ScriptFont {
+  name: string;
+  // ISO 15924 codes of the scripts it covers, for telling the user when the font is missing
+  scripts: string[];
+  file: string;
+  url: string;
+  pattern: RegExp;
+  rtl?: boolean;
+}
+
+export const DEFAULT_PDF_FONT = "helvetica";
+
+const scriptFonts: ScriptFont[] = [
+  {
+    name: "NotoSansArabic",
+    scripts: ["Arab"],
+    file: "NotoSansArabic-Regular.ttf",
+    url: notoSansArabicUrl,
+    pattern: /[\u0600-\u06FF\u0750-\u077F]/,
+    rtl: true,
+  },
+  {
+    name: "NotoSansHebrew",
+    scripts: ["Hebr"],
+    file: "NotoSansHebrew-Regular.ttf",
+    url: notoSansHebrewUrl,
+    pattern: /[\u0590-\u05FF]/,
+    rtl: true,
+  },
+  {
+    name: "NotoSansDevanagari",
+    scripts: ["Deva"],
+    file: "NotoSansDevanagari-Regular.ttf",
+    url: notoSansDevanagariUrl,
+    pattern: /[\u0900-\u097F]/,
+  },
+  {
+    name: "NotoSansTamil",
+    scripts: ["Taml"],
+    file: "NotoSansTamil-Regular.ttf",
+    url: notoSansTamilUrl,
+    pattern: /[\u0B80-\u0BFF]/,
+  },
+  {
+    name: "NotoSansKR",
+    scripts: ["Kore"],
+    file: "NotoSansKR-Regular.ttf",
+    url: notoSansKrUrl,
+    pattern: /[\u1100-\u11FF\uAC00-\uD7AF]/,
+  },
+  {
+    name: "NotoSansJP",
+    scripts: ["Jpan"],
+    file: "NotoSansJP-Regular.ttf",
+    url: notoSansJpUrl,
+    pattern: /[\u3040-\u30FF]/,
+  },
+  {
+    name: "NotoSansSC",
+    scripts: ["Hani"],
+    file: "NotoSansSC-Regular.ttf",
+    url: notoSansScUrl,
+    pattern: /[\u3400-\u9FFF]/,
+  },
+  // Greek, Cyrillic, extended Latin, and the sub/superscripts, arrows and operators used for math
+  {
+    name: "NotoSans",
+    scripts: ["Grek", "Cyrl", "Zmth"],
+    file: "NotoSans-Regular.ttf",
+    url: notoSansUrl,
+    pattern: /[\u0100-\u024F\u0370-\u03FF\u0400-\u04FF\u2070-\u209F\u2190-\u21FF\u2200-\u22FF]/,
+  },
+];
+
+// Base64 font data cached across exports
+const fontCache = new Map<string, Promise<string | null>>();
+
+const toBase64 = (buffer: ArrayBuffer) => {
+  const bytes = new Uint8Array(buffer);
+  let binary = "";
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binary);
+};
+
+const fetchFont = (font: ScriptFont) => {
+  if (!fontCache.has(font.file)) {
+    fontCache.set(
+      font.file,
+      fetch(font.url)
+        .then((response) => {
+          if (!response.ok) throw new Error(`HTTP ${response.status}`);
+          return response.arrayBuffer();
+        })
+        .then(toBase64)
+        .catch((error) => {
+          console.warn(`Could not load PDF font ${font.file}, falling back to ${DEFAULT_PDF_FONT}:`, error);
+          fontCache.delete(font.file);
+          return null;
+        })
+    );
+  }
+  return fontCache.get(font.file)!;
+};
+
+const findScriptFont = (text: string) => scriptFonts.find((font) => font.pattern.test(text));
+
+// Embed the fonts needed for the given text; returns the names that loaded
+export const registerFontsFor = async (pdf: jsPDF, text: string): Promise<Set<string>> => {
+  const needed = scriptFonts.filter((font) => font.pattern.test(text));
+  const loaded = new Set<string>();
+
+  await Promise.all(
+    needed.map(async (font) => {
+      const data = await fetchFont(font);
+      if (!data) return;
+      pdf.addFileToVFS(font.file, data);
+      pdf.addFont(font.file, font.name, "normal");
+      loaded.add(font.name);
+    })
+  );
+
+  return loaded;
+};
+
+// Scripts in the text whose font can't be loaded, which a PDF would print as unreadable characters
+export const findUnrenderableScripts = async (text: string) => {
+  const needed = scriptFonts.filter((font) => font.pattern.test(text));
+  const missing = await Promise.all(needed.map(async (font) => ((await fetchFont(font)) ? [] : font.scripts)));
+  return missing.flat();
+};
+
+// Pick a registered font that can render the text
+export const fontForText = (text: string, loaded: Set<string>) => {
+  const font = findScriptFont(text);
+  return font && loaded.has(font.name) ? font.name : DEFAULT_PDF_FONT;
+};
+
+export const isRtlText = (text: string) => Boolean(findScriptFont(text)?.rtl);
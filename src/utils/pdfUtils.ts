@@ -1,45 +1,439 @@
-
 import jsPDF from "jspdf";
-import html2canvas from "html2canvas";
+import { DEFAULT_PDF_FONT, fontForText, isRtlText, registerFontsFor } from "@/utils/pdfFonts";
 
-export async function generatePDF(
-  content: string,
-  title: string,
-  filename: string
-): Promise<void> {
-  // Create a temporary div to properly render the content
-  const contentDiv = document.createElement('div');
-  contentDiv.innerHTML = content.replace(/\n/g, '<br>');
-  contentDiv.style.padding = '20px';
-  contentDiv.style.color = 'black';
-  contentDiv.style.backgroundColor = 'white';
-  contentDiv.style.width = '595px'; // A4 width in pixels at 72 dpi
-  document.body.appendChild(contentDiv);
-  
-  // Capture the content as an image
-  const canvas = await html2canvas(contentDiv, {
-    scale: 2, // Higher resolution
-    backgroundColor: '#ffffff',
-  });
-  
-  document.body.removeChild(contentDiv);
-  
-  // Create PDF with A4 dimensions
+export type ContentBlock =
+  | { type: "heading"; level: 1 | 2 | 3; text: string }
+  | { type: "paragraph"; text: string }
+  | { type: "listItem"; marker: string; indent: number; text: string }
+  | { type: "quote"; text: string }
+  | { type: "code"; lines: string[] }
+  | { type: "math"; text: string }
+  | { type: "table"; header: string[]; rows: string[][] }
+  | { type: "rule" }
+  | { type: "spacer" };
+
+// A4 page layout in millimetres
+const PAGE = {
+  margin: 20,
+  headerY: 12,
+  footerY: 287,
+  contentTop: 24,
+  contentBottom: 277,
+};
+
+export const FONT_SIZES = { title: 18, 1: 16, 2: 14, 3: 12, body: 11, code: 9, table: 10, header: 9 };
+const LINE_HEIGHT_FACTOR = 1.4;
+const PT_TO_MM = 0.3528;
+const CODE_FONT = "courier";
+
+export const lineHeight = (fontSize: number) => fontSize * PT_TO_MM * LINE_HEIGHT_FACTOR;
+
+const latexSymbols: Record<string, string> = {
+  alpha: "α", beta: "β", gamma: "γ", delta: "δ", epsilon: "ε", theta: "θ", lambda: "λ", mu: "μ",
+  pi: "π", rho: "ρ", sigma: "σ", tau: "τ", phi: "φ", omega: "ω", Delta: "Δ", Sigma: "Σ", Omega: "Ω",
+  times: "×", cdot: "·", div: "÷", pm: "±", leq: "≤", le: "≤", geq: "≥", ge: "≥", neq: "≠", ne: "≠",
+  approx: "≈", infty: "∞", to: "→", rightarrow: "→", leftarrow: "←", Rightarrow: "⇒", sum: "∑",
+  prod: "∏", int: "∫", partial: "∂", sqrt: "√", circ: "°", degree: "°",
+};
+
+const superscripts: Record<string, string> = {
+  "0": "⁰", "1": "¹", "2": "²", "3": "³", "4": "⁴", "5": "⁵", "6": "⁶", "7": "⁷", "8": "⁸", "9": "⁹",
+  "+": "⁺", "-": "⁻", "(": "⁽", ")": "⁾", n: "ⁿ", i: "ⁱ",
+};
+
+const subscripts: Record<string, string> = {
+  "0": "₀", "1": "₁", "2": "₂", "3": "₃", "4": "₄", "5": "₅", "6": "₆", "7": "₇", "8": "₈", "9": "₉",
+  "+": "₊", "-": "₋", "(": "₍", ")": "₎",
+};
+
+const toScript = (text: string, map: Record<string, string>, marker: string) => {
+  if ([...text].every((char) => map[char])) return [...text].map((char) => map[char]).join("");
+  return text.length === 1 ? `${marker}${text}` : `${marker}(${text})`;
+};
+
+const wrapTerm = (text: string) => (text.length > 1 ? `(${text})` : text);
+
+// Approximate LaTeX as plain Unicode text, since jsPDF cannot typeset math
+export const latexToText = (tex: string) => {
+  let text = tex
+    .replace(/\\(?:left|right)(?![a-zA-Z])\s*/g, "")
+    .replace(/\\(?:text|mathrm|mathbf|mathit|operatorname)\{([^{}]*)\}/g, "$1");
+
+  // Resolve innermost fractions and roots first until none are left
+  let previous;
+  do {
+    previous = text;
+    text = text
+      .replace(/\\frac\{([^{}]*)\}\{([^{}]*)\}/g, (_, a, b) => `${wrapTerm(a)}/${wrapTerm(b)}`)
+      .replace(/\\sqrt\{([^{}]*)\}/g, (_, a) => `√${wrapTerm(a)}`);
+  } while (text !== previous);
+
+  return text
+    .replace(/\^\{([^{}]*)\}|\^(.)/g, (_, group, char) => toScript(group ?? char, superscripts, "^"))
+    .replace(/_\{([^{}]*)\}|_(.)/g, (_, group, char) => toScript(group ?? char, subscripts, "_"))
+    .replace(/\\([a-zA-Z]+)/g, (_, name) => latexSymbols[name] ?? name)
+    .replace(/\\[,;:! ]/g, " ")
+    .replace(/[{}]/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+};
+
+// Reduce inline markdown to plain text the way it reads when rendered
+export const stripInlineMarkdown = (text: string) =>
+  text
+    .replace(/\$\$(.+?)\$\$/g, (_, tex) => latexToText(tex))
+    .replace(/\$([^$\n]+?)\$/g, (_, tex) => latexToText(tex))
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/\[([^\]]+)\]\(([^)]+)\)/g, "$1 ($2)")
+    .replace(/\*\*(.+?)\*\*/g, "$1")
+    .replace(/__(.+?)__/g, "$1")
+    .replace(/(^|[^*\w])\*([^*\s][^*]*?)\*/g, "$1$2")
+    .replace(/~~(.+?)~~/g, "$1")
+    .replace(/`([^`]+)`/g, "$1")
+    .trim();
+
+const looksLikeHeading = (line: string, previousBlank: boolean) =>
+  previousBlank &&
+  line.length <= 60 &&
+  /^[A-Z0-9]/.test(line) &&
+  !/[.,;!?]$/.test(line);
+
+const isTableRow = (line: string) => /^\|.*\|$/.test(line.trim());
+const isTableDivider = (line: string) => /^\|?(\s*:?-{3,}:?\s*\|)+\s*:?-{3,}:?\s*\|?$/.test(line.trim());
+
+const splitTableRow = (line: string) =>
+  line
+    .trim()
+    .replace(/^\||\|$/g, "")
+    .split("|")
+    .map((cell) => stripInlineMarkdown(cell));
+
+// Split generated markdown into headings, paragraphs, lists, code, math and tables
+export const parseContentBlocks = (content: string): ContentBlock[] => {
+  const blocks: ContentBlock[] = [];
+  const lines = content.split(/\r?\n/);
+  let previousBlank = true;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trimEnd();
+    const trimmed = line.trim();
+
+    if (!trimmed) {
+      if (blocks.length && blocks[blocks.length - 1].type !== "spacer") {
+        blocks.push({ type: "spacer" });
+      }
+      previousBlank = true;
+      continue;
+    }
+
+    const indent = Math.floor((line.length - line.trimStart().length) / 2);
+    const markdownHeading = trimmed.match(/^(#{1,6})\s+(.*)$/);
+    const bullet = trimmed.match(/^[-*•+]\s+(.*)$/);
+    const numbered = trimmed.match(/^(\d+|[a-zA-Z])[.)]\s+(.*)$/);
+
+    if (trimmed.startsWith("```")) {
+      const codeLines: string[] = [];
+      while (i + 1 < lines.length && !lines[i + 1].trim().startsWith("```")) {
+        codeLines.push(lines[++i].replace(/\t/g, "  ").trimEnd());
+      }
+      i++; // Skip the closing fence
+      blocks.push({ type: "code", lines: codeLines });
+    } else if (trimmed.startsWith("$$")) {
+      let tex = trimmed.slice(2);
+      while (!tex.includes("$$") && i + 1 < lines.length) {
+        tex += ` ${lines[++i].trim()}`;
+      }
+      blocks.push({ type: "math", text: latexToText(tex.replace(/\$\$.*$/, "")) });
+    } else if (isTableRow(trimmed) && i + 1 < lines.length && isTableDivider(lines[i + 1])) {
+      const header = splitTableRow(trimmed);
+      const rows: string[][] = [];
+      i++;
+      while (i + 1 < lines.length && isTableRow(lines[i + 1])) {
+        rows.push(splitTableRow(lines[++i]));
+      }
+      blocks.push({ type: "table", header, rows });
+    } else if (markdownHeading) {
+      const level = Math.min(markdownHeading[1].length, 3) as 1 | 2 | 3;
+      blocks.push({ type: "heading", level, text: stripInlineMarkdown(markdownHeading[2]) });
+    } else if (/^([-*_])\1{2,}$/.test(trimmed)) {
+      blocks.push({ type: "rule" });
+    } else if (trimmed.startsWith(">")) {
+      blocks.push({ type: "quote", text: stripInlineMarkdown(trimmed.replace(/^>\s?/, "")) });
+    } else if (bullet) {
+      blocks.push({ type: "listItem", marker: "•", indent, text: stripInlineMarkdown(bullet[1]) });
+    } else if (numbered) {
+      blocks.push({ type: "listItem", marker: `${numbered[1]}.`, indent, text: stripInlineMarkdown(numbered[2]) });
+    } else if (looksLikeHeading(trimmed, previousBlank)) {
+      const text = stripInlineMarkdown(trimmed.replace(/:$/, ""));
+      const level = text === text.toUpperCase() && /[A-Z]/.test(text) ? 1 : 2;
+      blocks.push({ type: "heading", level, text });
+    } else {
+      blocks.push({ type: "paragraph", text: stripInlineMarkdown(trimmed) });
+    }
+
+    previousBlank = false;
+  }
+
+  return blocks;
+};
+
+type TextOptions = {
+  bold?: boolean;
+  x?: number;
+  width?: number;
+  marker?: string;
+  font?: string;
+  center?: boolean;
+  // Draws backgrounds or bars behind each line, e.g. for code and quotes
+  decorate?: (lineY: number, height: number) => void;
+};
+
+// An A4 document with a running cursor, shared by the result and quiz exports.
+// `fontText` is all the text that will be written, so fonts for its scripts get embedded.
+export const createPdfLayout = async (fontText: string) => {
   const pdf = new jsPDF({
     orientation: 'portrait',
     unit: 'mm',
     format: 'a4',
   });
-  
-  // Add title
-  pdf.setFontSize(16);
-  pdf.text(title, 20, 20);
-  pdf.setFontSize(12);
-  
-  // Add image of content
-  const imgData = canvas.toDataURL('image/png');
-  pdf.addImage(imgData, 'PNG', 10, 30, 190, 0, '', 'FAST');
-  
-  // Download the PDF
-  pdf.save(`${filename}.pdf`);
+
+  // Embed fonts for any non-Latin scripts, including symbols produced from LaTeX
+  const loadedFonts = await registerFontsFor(pdf, fontText);
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const contentWidth = pageWidth - PAGE.margin * 2;
+  let y = PAGE.contentTop;
+
+  const ensureSpace = (height: number) => {
+    if (y + height > PAGE.contentBottom) {
+      pdf.addPage();
+      y = PAGE.contentTop;
+      return true;
+    }
+    return false;
+  };
+
+  const newPage = () => {
+    pdf.addPage();
+    y = PAGE.contentTop;
+  };
+
+  // Write wrapped text, starting new pages as needed
+  const writeText = (text: string, fontSize: number, options: TextOptions = {}) => {
+    const x = options.x ?? PAGE.margin;
+    const width = options.width ?? contentWidth;
+    const font = options.font ?? fontForText(text, loadedFonts);
+    const rtl = isRtlText(text);
+
+    // Custom fonts are only embedded in the regular weight
+    pdf.setFont(font, font === DEFAULT_PDF_FONT && options.bold ? "bold" : "normal");
+    pdf.setFontSize(fontSize);
+
+    const lines: string[] = pdf.splitTextToSize(text, width);
+    const height = lineHeight(fontSize);
+
+    lines.forEach((line, index) => {
+      ensureSpace(height);
+      options.decorate?.(y, height);
+      if (index === 0 && options.marker) {
+        pdf.text(options.marker, rtl ? x + width + 2 : x - 5, y, { align: rtl ? "left" : "right", baseline: "top" });
+      }
+      if (options.center) {
+        pdf.text(line, x + width / 2, y, { align: "center", baseline: "top" });
+      } else if (rtl) {
+        pdf.text(line, x + width, y, { align: "right", baseline: "top" });
+      } else {
+        pdf.text(line, x, y, { baseline: "top" });
+      }
+      y += height;
+    });
+  };
+
+  // Height wrapped text will take, to keep short blocks together on one page
+  const measureText = (text: string, fontSize: number, width = contentWidth) => {
+    pdf.setFont(fontForText(text, loadedFonts), "normal");
+    pdf.setFontSize(fontSize);
+    return (pdf.splitTextToSize(text, width) as string[]).length * lineHeight(fontSize);
+  };
+
+  // Draw a table with wrapped cells, repeating the header row on each new page.
+  // Columns share the width equally unless relative `columnWeights` are given.
+  const writeTable = (header: string[], rows: string[][], columnWeights?: number[]) => {
+    const columnCount = Math.max(header.length, ...rows.map((row) => row.length));
+    const weights = Array.from({ length: columnCount }, (_, column) => columnWeights?.[column] ?? 1);
+    const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+    const columnWidths = weights.map((weight) => (contentWidth * weight) / totalWeight);
+    const columnX = columnWidths.map((_, column) =>
+      PAGE.margin + columnWidths.slice(0, column).reduce((sum, width) => sum + width, 0)
+    );
+    const padding = 1.5;
+    const height = lineHeight(FONT_SIZES.table);
+
+    const drawRow = (cells: string[], isHeader: boolean) => {
+      pdf.setFontSize(FONT_SIZES.table);
+      const cellLines = Array.from({ length: columnCount }, (_, column) => {
+        const text = cells[column] ?? "";
+        const font = fontForText(text, loadedFonts);
+        pdf.setFont(font, font === DEFAULT_PDF_FONT && isHeader ? "bold" : "normal");
+        return { font, lines: pdf.splitTextToSize(text, columnWidths[column] - padding * 2) as string[] };
+      });
+      const rowHeight = Math.max(...cellLines.map((cell) => cell.lines.length)) * height + padding * 2;
+
+      if (ensureSpace(rowHeight) && !isHeader) drawRow(header, true);
+
+      pdf.setDrawColor(200);
+      cellLines.forEach((cell, column) => {
+        const x = columnX[column];
+        if (isHeader) {
+          pdf.setFillColor(240, 240, 240);
+          pdf.rect(x, y, columnWidths[column], rowHeight, "FD");
+        } else {
+          pdf.rect(x, y, columnWidths[column], rowHeight);
+        }
+        pdf.setFont(cell.font, cell.font === DEFAULT_PDF_FONT && isHeader ? "bold" : "normal");
+        cell.lines.forEach((line, index) => {
+          pdf.text(line, x + padding, y + padding + index * height, { baseline: "top" });
+        });
+      });
+      y += rowHeight;
+    };
+
+    drawRow(header, true);
+    rows.forEach((row) => drawRow(row, false));
+    y += 2;
+  };
+
+  const writeBlocks = (blocks: ContentBlock[]) => {
+    blocks.forEach((block) => {
+      switch (block.type) {
+        case "heading":
+          // Keep headings together with at least a couple of following lines
+          ensureSpace(lineHeight(FONT_SIZES[block.level]) + lineHeight(FONT_SIZES.body) * 2);
+          y += 2;
+          writeText(block.text, FONT_SIZES[block.level], { bold: true });
+          y += 1;
+          break;
+        case "paragraph":
+          writeText(block.text, FONT_SIZES.body);
+          break;
+        case "listItem": {
+          const x = PAGE.margin + 6 + block.indent * 6;
+          writeText(block.text, FONT_SIZES.body, {
+            x,
+            width: contentWidth - (x - PAGE.margin),
+            marker: block.marker,
+          });
+          break;
+        }
+        case "quote":
+          pdf.setTextColor(90);
+          writeText(block.text, FONT_SIZES.body, {
+            x: PAGE.margin + 5,
+            width: contentWidth - 5,
+            decorate: (lineY, height) => {
+              pdf.setFillColor(200, 200, 200);
+              pdf.rect(PAGE.margin + 1, lineY, 1, height, "F");
+            },
+          });
+          pdf.setTextColor(0);
+          break;
+        case "code":
+          y += 1;
+          block.lines.forEach((line) =>
+            writeText(line || " ", FONT_SIZES.code, {
+              x: PAGE.margin + 3,
+              width: contentWidth - 6,
+              font: CODE_FONT,
+              decorate: (lineY, height) => {
+                pdf.setFillColor(245, 245, 245);
+                pdf.rect(PAGE.margin, lineY, contentWidth, height, "F");
+              },
+            })
+          );
+          y += 2;
+          break;
+        case "math":
+          y += 1;
+          writeText(block.text, FONT_SIZES.body + 1, { center: true });
+          y += 1;
+          break;
+        case "table":
+          y += 1;
+          writeTable(block.header, block.rows);
+          break;
+        case "rule":
+          ensureSpace(4);
+          pdf.setDrawColor(200);
+          pdf.line(PAGE.margin, y + 2, pageWidth - PAGE.margin, y + 2);
+          y += 4;
+          break;
+        case "spacer":
+          y += lineHeight(FONT_SIZES.body) / 2;
+          break;
+      }
+    });
+  };
+
+  // Draw headers and footers on every page, then download. They are drawn last so the
+  // total page count is known; `headerTitle` can vary by page, e.g. per test version.
+  const save = (filename: string, headerTitle: string | ((page: number) => string)) => {
+    const pageCount = pdf.getNumberOfPages();
+    const date = new Date().toLocaleDateString();
+
+    for (let page = 1; page <= pageCount; page++) {
+      const title = typeof headerTitle === "string" ? headerTitle : headerTitle(page);
+      pdf.setPage(page);
+      pdf.setFontSize(FONT_SIZES.header);
+      pdf.setTextColor(120);
+      pdf.setDrawColor(220);
+
+      pdf.setFont(fontForText(title, loadedFonts), "normal");
+      pdf.text(title, PAGE.margin, PAGE.headerY, { maxWidth: contentWidth - 30 });
+      pdf.setFont(DEFAULT_PDF_FONT, "normal");
+      pdf.text("Aptora", pageWidth - PAGE.margin, PAGE.headerY, { align: "right" });
+      pdf.line(PAGE.margin, PAGE.headerY + 2, pageWidth - PAGE.margin, PAGE.headerY + 2);
+
+      pdf.line(PAGE.margin, PAGE.footerY - 5, pageWidth - PAGE.margin, PAGE.footerY - 5);
+      pdf.text(date, PAGE.margin, PAGE.footerY);
+      pdf.text(`Page ${page} of ${pageCount}`, pageWidth - PAGE.margin, PAGE.footerY, { align: "right" });
+
+      pdf.setTextColor(0);
+    }
+
+    pdf.save(`${filename}.pdf`);
+  };
+
+  return {
+    pdf,
+    margin: PAGE.margin,
+    contentWidth,
+    get y() {
+      return y;
+    },
+    set y(value: number) {
+      y = value;
+    },
+    ensureSpace,
+    newPage,
+    writeText,
+    measureText,
+    writeTable,
+    writeBlocks,
+    save,
+  };
+};
+
+export async function generatePDF(
+  content: string,
+  title: string,
+  filename: string
+): Promise<void> {
+  const blocks = parseContentBlocks(content);
+  const layout = await createPdfLayout(`${title}\n${JSON.stringify(blocks)}`);
+
+  // Title
+  layout.writeText(title, FONT_SIZES.title, { bold: true });
+  layout.y += 4;
+
+  layout.writeBlocks(blocks);
+  layout.save(filename, title);
 }
@@ -0,0 +1,233 @@
+import { PromptTemplate } from "@langchain/core/prompts";
+import i18n from "@/lib/i18n";
+import { quizOutputParser } from "@/utils/quizUtils";
+
+export type AIFeatureType = "content" | "quiz" | "materials" | "notes" | "flashcards" | "assistant";
+
+// Features whose generator pages let users pick their own templates
+export const templateFeatures: AIFeatureType[] = ["content", "quiz", "materials", "notes", "flashcards"];
+
+// A saved revision of a template
+export interface PromptTemplateVersion {
+  version: number;
+  template: string;
+  variables: Record<string, string>;
+  savedAt: string;
+}
+
+export interface PromptTemplateDefinition {
+  id: string;
+  feature: AIFeatureType;
+  name: string;
+  description: string;
+  // Template text; {userPrompt} and the other reserved variables are filled in by the app
+  template: string;
+  // Default values for custom variables such as {gradeLevel} or {subject}
+  variables: Record<string, string>;
+  version: number;
+  builtIn: boolean;
+  userId?: string;
+  // Earlier versions, oldest first
+  history: PromptTemplateVersion[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A template picked for a generation, with the values entered for its custom variables
+export interface SelectedTemplate {
+  template: PromptTemplateDefinition;
+  values: Record<string, string>;
+}
+
+// Variables the app fills in for every generation; any other {name} is a custom variable
+export const reservedVariables: string[] = [
+  "userPrompt",
+  "generationGuidelines",
+  "sourceMaterial",
+  "outputLanguage",
+  "formatInstructions",
+];
+
+// Results are rendered as markdown, so every free-text template asks for it.
+// Kept free of curly braces, which PromptTemplate would read as variables.
+export const markdownGuidelines = `    - Format the response as GitHub-flavored markdown
+    - Use ## and ### headings for sections, and - or 1. for lists
+    - Use **bold** for key terms and markdown tables when comparing items
+    - Put code in fenced code blocks with a language name, for example \`\`\`python
+    - Write math in LaTeX: $...$ inline and $$...$$ on its own line for equations`;
+
+// Bump a built-in template's version whenever its text changes, so history records which one was used
+const builtInTemplateText: Record<AIFeatureType, { version: number; description: string; template: string }> = {
+  content: {
+    version: 1,
+    description: "Structured educational content with headings, explanations and examples",
+    template: `Generate structured educational content based on the following prompt.
+    Include headings, explanations, examples, and key points.
+
+    IMPORTANT FORMATTING GUIDELINES:
+${markdownGuidelines}
+
+    LENGTH AND AUDIENCE:
+    {generationGuidelines}
+
+    PROMPT: {userPrompt}`,
+  },
+
+  quiz: {
+    version: 2,
+    description: "A mix of multiple choice, true/false and short answer questions",
+    template: `Generate a quiz based on the following prompt.
+    Include a mix of multiple choice, true/false, and short answer questions.
+    Every question needs the correct answer and a short explanation.
+    Tag every question with the key concepts it tests and rate its difficulty, so the learner's progress can be tracked.
+
+    IMPORTANT FORMATTING GUIDELINES:
+    - Respond ONLY with the JSON object described below, with no extra commentary
+    - Multiple choice questions should have 4 options
+    - The correct answer must match one of the options exactly when options are given
+
+    {formatInstructions}
+
+    LENGTH AND AUDIENCE:
+    {generationGuidelines}
+
+    {sourceMaterial}
+
+    PROMPT: {userPrompt}`,
+  },
+
+  materials: {
+    version: 1,
+    description: "A learning roadmap with resources, steps and recommendations",
+    template: `Generate a comprehensive learning roadmap or materials list based on the following prompt.
+    Include resources, steps, and recommendations.
+
+    IMPORTANT FORMATTING GUIDELINES:
+${markdownGuidelines}
+
+    LENGTH AND AUDIENCE:
+    {generationGuidelines}
+
+    PROMPT: {userPrompt}`,
+  },
+
+  notes: {
+    version: 1,
+    description: "Concise notes with key concepts and definitions",
+    template: `Generate concise, organized notes based on the following prompt.
+    Include key concepts, definitions, and important information.
+
+    IMPORTANT FORMATTING GUIDELINES:
+${markdownGuidelines}
+    - Put each key point in its own bullet
+
+    LENGTH AND AUDIENCE:
+    {generationGuidelines}
+
+    {sourceMaterial}
+
+    PROMPT: {userPrompt}`,
+  },
+
+  flashcards: {
+    version: 1,
+    description: "Question and answer cards for study mode",
+    template: `Generate flashcards based on the following prompt.
+    Format every card exactly as a "Question: [question]" line followed by an "Answer: [answer]" line.
+    Make them concise and focused on key information.
+
+    IMPORTANT FORMATTING GUIDELINES:
+    - Do not use headings, lists or bold labels; start lines with plain "Question:" and "Answer:"
+    - Inline markdown is fine inside questions and answers: **bold**, \`code\`, and $...$ for math
+    - Add a blank line between flashcards
+
+    LENGTH AND AUDIENCE:
+    {generationGuidelines}
+
+    {sourceMaterial}
+
+    PROMPT: {userPrompt}`,
+  },
+
+  assistant: {
+    version: 1,
+    description: "A helpful answer to a single question",
+    template: `You are an educational assistant. Provide a helpful, accurate response to the following question or request.
+
+    IMPORTANT FORMATTING GUIDELINES:
+${markdownGuidelines}
+
+    LENGTH AND AUDIENCE:
+    {generationGuidelines}
+
+    QUESTION: {userPrompt}`,
+  },
+};
+
+export const builtInTemplates = Object.fromEntries(
+  Object.entries(builtInTemplateText).map(([feature, { version, description, template }]) => [
+    feature,
+    {
+      id: `builtin:${feature}`,
+      feature: feature as AIFeatureType,
+      name: "Default",
+      description,
+      template,
+      variables: {},
+      version,
+      builtIn: true,
+      history: [],
+      createdAt: "",
+      updatedAt: "",
+    },
+  ])
+) as Record<AIFeatureType, PromptTemplateDefinition>;
+
+// Every variable in a template; throws if its braces are malformed
+export const getTemplateVariables = (template: string): string[] =>
+  PromptTemplate.fromTemplate(template).inputVariables;
+
+export const getCustomVariables = (template: string) =>
+  getTemplateVariables(template).filter((name) => !reservedVariables.includes(name));
+
+// Why a template can't be saved, or null when it is valid
+export const validateTemplate = (feature: AIFeatureType, template: string): string | null => {
+  let variables: string[];
+  try {
+    variables = getTemplateVariables(template);
+  } catch {
+    return i18n.t("templates.errors.braces", { open: "{{", close: "}}" });
+  }
+
+  if (!variables.includes("userPrompt")) {
+    return i18n.t("templates.errors.userPrompt", { variable: "{userPrompt}" });
+  }
+  if (feature === "quiz" && !variables.includes("formatInstructions")) {
+    return i18n.t("templates.errors.formatInstructions", { variable: "{formatInstructions}" });
+  }
+  return null;
+};
+
+// The LangChain prompt for a template, with the quiz format instructions filled in
+export const toPromptTemplate = (definition: PromptTemplateDefinition) =>
+  PromptTemplate.fromTemplate(definition.template, {
+    partialVariables: getTemplateVariables(definition.template).includes("formatInstructions")
+      ? { formatInstructions: quizOutputParser.getFormatInstructions() }
+      : {},
+  });
+
+// Custom variable values for a generation: the template's defaults, overridden by what was entered
+export const resolveTemplateValues = ({ template, values }: SelectedTemplate) =>
+  Object.fromEntries(
+    getCustomVariables(template.template).map((name) => [name, values[name] || template.variables[name] || ""])
+  );
+
+// Render a template with sample reserved values, to preview what is sent to the model
+export const previewTemplate = (selected: SelectedTemplate, userPrompt: string) =>
+  toPromptTemplate(selected.template).format({
+    ...resolveTemplateValues(selected),
+    userPrompt: userPrompt || "(your prompt)",
+    generationGuidelines: "(length, creativity and reading level from the Advanced panel)",
+    sourceMaterial: "(excerpts from uploaded documents, if any)",
+    outputLanguage: "(the response language from the language menu)",
+  });
@@ -0,0 +1,166 @@
+import { getAuth } from "firebase/auth";
+import { BaseChatModel, BaseChatModelParams } from "@langchain/core/language_models/chat_models";
+import { CallbackManagerForLLMRun } from "@langchain/core/callbacks/manager";
+import { Embeddings } from "@langchain/core/embeddings";
+import { AIMessage, AIMessageChunk, BaseMessage, UsageMetadata } from "@langchain/core/messages";
+import { ChatGenerationChunk, ChatResult } from "@langchain/core/outputs";
+import { LLMError, LLMErrorKind } from "@/utils/llmErrors";
+import type { ModelSettings } from "@/utils/llmProviders";
+
+// Texts per embedding request, the most the proxy accepts, to keep within its embedding quota
+const EMBED_BATCH_SIZE = 100;
+
+interface ProxyError {
+  error?: { kind?: LLMErrorKind; message?: string };
+}
+
+const toProxyError = (body: ProxyError, status?: number) =>
+  new LLMError(body.error?.kind ?? "unknown", body.error?.message ?? `Proxy request failed with status ${status}`, {
+    status,
+  });
+
+// POST to the API proxy as the signed-in user
+const postToProxy = async (url: string, body: unknown, signal?: AbortSignal) => {
+  const user = getAuth().currentUser;
+  if (!user) throw new LLMError("unauthenticated", "Sign in to use the AI features");
+
+  const response = await fetch(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${await user.getIdToken()}`,
+    },
+    body: JSON.stringify(body),
+    signal,
+  });
+
+  if (!response.ok) {
+    const error: ProxyError = await response.json().catch(() => ({}));
+    throw toProxyError(error, response.status);
+  }
+  return response;
+};
+
+// Parse a newline-delimited JSON response as it arrives
+async function* readJsonLines(response: Response) {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+    const lines = buffer.split("\n");
+    buffer = done ? "" : lines.pop()!;
+    for (const line of lines) {
+      if (line.trim()) yield JSON.parse(line) as { text?: string; done?: boolean; usage?: UsageMetadata } & ProxyError;
+    }
+    if (done) return;
+  }
+}
+
+const toProxyRole = (message: BaseMessage) => {
+  const type = message.getType();
+  return type === "system" ? "system" : type === "ai" ? "ai" : "human";
+};
+
+interface ProxyModelFields extends BaseChatModelParams {
+  url: string;
+  model: string;
+  settings: ModelSettings;
+}
+
+// Chat model served by the app's API proxy, which holds the Gemini key
+export class ProxyChatModel extends BaseChatModel {
+  url: string;
+  model: string;
+  settings: ModelSettings;
+
+  constructor({ url, model, settings, ...fields }: ProxyModelFields) {
+    super(fields);
+    this.url = url;
+    this.model = model;
+    this.settings = settings;
+  }
+
+  _llmType() {
+    return "aptora-proxy";
+  }
+
+  async *_streamResponseChunks(
+    messages: BaseMessage[],
+    options: this["ParsedCallOptions"],
+    runManager?: CallbackManagerForLLMRun
+  ): AsyncGenerator<ChatGenerationChunk> {
+    const response = await postToProxy(
+      `${this.url}/chat`,
+      {
+        model: this.model,
+        settings: this.settings,
+        messages: messages.map((message) => ({
+          role: toProxyRole(message),
+          content: typeof message.content === "string" ? message.content : JSON.stringify(message.content),
+        })),
+      },
+      options.signal
+    );
+
+    for await (const line of readJsonLines(response)) {
+      if (line.error) throw toProxyError(line);
+      if (line.usage) {
+        // The token usage arrives with the final line, for usage metering
+        yield new ChatGenerationChunk({ text: "", message: new AIMessageChunk({ content: "", usage_metadata: line.usage }) });
+      }
+      if (!line.text) continue;
+      yield new ChatGenerationChunk({ text: line.text, message: new AIMessageChunk({ content: line.text }) });
+      await runManager?.handleLLMNewToken(line.text);
+    }
+  }
+
+  async _generate(
+    messages: BaseMessage[],
+    options: this["ParsedCallOptions"],
+    runManager?: CallbackManagerForLLMRun
+  ): Promise<ChatResult> {
+    let text = "";
+    let usage: UsageMetadata | undefined;
+    for await (const chunk of this._streamResponseChunks(messages, options, runManager)) {
+      text += chunk.text;
+      usage = (chunk.message as AIMessageChunk).usage_metadata ?? usage;
+    }
+    return { generations: [{ text, message: new AIMessage({ content: text, usage_metadata: usage }) }] };
+  }
+}
+
+// Embeddings served by the API proxy, for the document library.
+// Requests stop when the signal aborts, e.g. when the reply a search is for is stopped.
+export class ProxyEmbeddings extends Embeddings {
+  url: string;
+  model: string;
+  signal?: AbortSignal;
+
+  constructor({ url, model, signal }: { url: string; model: string; signal?: AbortSignal }) {
+    super({});
+    this.url = url;
+    this.model = model;
+    this.signal = signal;
+  }
+
+  async embedDocuments(texts: string[]): Promise<number[][]> {
+    const vectors: number[][] = [];
+    for (let start = 0; start < texts.length; start += EMBED_BATCH_SIZE) {
+      const response = await postToProxy(
+        `${this.url}/embed`,
+        { model: this.model, texts: texts.slice(start, start + EMBED_BATCH_SIZE) },
+        this.signal
+      );
+      vectors.push(...((await response.json()) as { vectors: number[][] }).vectors);
+    }
+    return vectors;
+  }
+
+  async embedQuery(text: string): Promise<number[]> {
+    const [vector] = await this.embedDocuments([text]);
+    return vector;
+  }
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { toGift, toMoodleXml } from "@/utils/quizExportUtils";
+import { Quiz, QuizQuestion } from "@/utils/quizUtils";
+
+const trueFalseQuiz = (question: Partial<QuizQuestion>): Quiz => ({
+  title: "Cuestionario",
+  questions: [
+    {
+      type: "true_false",
+      question: "El agua hierve a 100 °C a nivel del mar.",
+      explanation: "",
+      correctAnswer: "Verdadero",
+      options: ["Verdadero", "Falso"],
+      ...question,
+    },
+  ],
+});
+
+describe("true/false export", () => {
+  it("reads a translated true answer by its position", async () => {
+    const quiz = trueFalseQuiz({ correctAnswer: "Verdadero" });
+
+    expect(toGift(quiz)).toContain("{TRUE");
+    const xml = await toMoodleXml(quiz);
+    expect(xml).toContain('<answer fraction="100" format="moodle_auto_format"><text>true</text></answer>');
+    expect(xml).toContain('<answer fraction="0" format="moodle_auto_format"><text>false</text></answer>');
+  });
+
+  it("reads a translated false answer by its position", async () => {
+    const quiz = trueFalseQuiz({ correctAnswer: "Falso" });
+
+    expect(toGift(quiz)).toContain("{FALSE");
+    const xml = await toMoodleXml(quiz);
+    expect(xml).toContain('<answer fraction="0" format="moodle_auto_format"><text>true</text></answer>');
+    expect(xml).toContain('<answer fraction="100" format="moodle_auto_format"><text>false</text></answer>');
+  });
+
+  it("reads the answer's label when the options list false first", async () => {
+    const quiz = trueFalseQuiz({ correctAnswer: "Verdadero", options: ["Falso", "Verdadero"] });
+
+    expect(toGift(quiz)).toContain("{TRUE");
+    const xml = await toMoodleXml(quiz);
+    expect(xml).toContain('<answer fraction="100" format="moodle_auto_format"><text>true</text></answer>');
+    expect(toGift(trueFalseQuiz({ correctAnswer: "False", options: ["False", "True"] }))).toContain("{FALSE");
+  });
+
+  it("reads the answer's label when it is not one of the options", () => {
+    expect(toGift(trueFalseQuiz({ correctAnswer: "True" }))).toContain("{TRUE");
+    expect(toGift(trueFalseQuiz({ correctAnswer: "Vrai", options: ["Sí", "No"] }))).toContain("{TRUE");
+  });
+
+  it("falls back to True/False when a question has no options", () => {
+    expect(toGift(trueFalseQuiz({ options: undefined, correctAnswer: "False" }))).toContain("{FALSE");
+  });
+});
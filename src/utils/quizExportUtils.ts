@@ -0,0 +1,233 @@
+import { Quiz, QuizQuestion, getQuestionOptions, isAnswerCorrect } from "@/utils/quizUtils";
+import { markdownToHtml } from "@/utils/markdownUtils";
+import { stripInlineMarkdown } from "@/utils/pdfUtils";
+
+interface Choice {
+  text: string;
+  correct: boolean;
+}
+
+// Answer choices with the correct one marked; a correct answer missing from the options is added
+const getChoices = (question: QuizQuestion): Choice[] => {
+  const choices = getQuestionOptions(question).map((text) => ({ text, correct: isAnswerCorrect(question, text) }));
+  return choices.some((choice) => choice.correct)
+    ? choices
+    : [...choices, { text: question.correctAnswer, correct: true }];
+};
+
+// "True" and "False" in English and the other output languages
+const trueLabels = [
+  "True", "Verdadero", "Vrai", "Wahr", "Verdadeiro", "सही", "सत्य", "சரி", "உண்மை", "صحيح", "صح", "正确", "对", "真", "正しい",
+];
+const falseLabels = [
+  "False", "Falso", "Faux", "Falsch", "गलत", "असत्य", "தவறு", "خطأ", "خاطئ", "错误", "错", "假", "誤り", "間違い",
+];
+
+// Read the correct answer's label first; otherwise go by the correct option's position,
+// as true/false options list "true" first
+const isTrueAnswer = (question: QuizQuestion) => {
+  if (trueLabels.some((label) => isAnswerCorrect(question, label))) return true;
+  if (falseLabels.some((label) => isAnswerCorrect(question, label))) return false;
+  return getQuestionOptions(question).findIndex((option) => isAnswerCorrect(question, option)) === 0;
+};
+
+const escapeXml = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+
+const cdata = (text: string) => `<![CDATA[${text.replace(/]]>/g, "]]]]><![CDATA[>")}]]>`;
+
+const toPlain = (text: string) => stripInlineMarkdown(text.replace(/\s+/g, " "));
+
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8"?>';
+const QTI_NAMESPACE =
+  'xmlns="http://www.imsglobal.org/xsd/imsqti_v2p1" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" ' +
+  'xsi:schemaLocation="http://www.imsglobal.org/xsd/imsqti_v2p1 http://www.imsglobal.org/xsd/qti/qtiv2p1/imsqti_v2p1.xsd"';
+
+const qtiItem = (question: QuizQuestion, identifier: string, title: string) => {
+  const prompt = escapeXml(toPlain(question.question));
+  const scoreDeclaration =
+    '<outcomeDeclaration identifier="SCORE" cardinality="single" baseType="float">' +
+    "<defaultValue><value>0</value></defaultValue></outcomeDeclaration>";
+
+  if (question.type === "short_answer") {
+    return `${XML_DECLARATION}
+<assessmentItem ${QTI_NAMESPACE} identifier="${identifier}" title="${escapeXml(title)}" adaptive="false" timeDependent="false">
+  <responseDeclaration identifier="RESPONSE" cardinality="single" baseType="string">
+    <correctResponse><value>${escapeXml(question.correctAnswer)}</value></correctResponse>
+    <mapping defaultValue="0">
+      <mapEntry mapKey="${escapeXml(question.correctAnswer)}" mappedValue="1" caseSensitive="false"/>
+    </mapping>
+  </responseDeclaration>
+  ${scoreDeclaration}
+  <itemBody>
+    <p>${prompt}</p>
+    <p><textEntryInteraction responseIdentifier="RESPONSE" expectedLength="${Math.max(20, question.correctAnswer.length)}"/></p>
+  </itemBody>
+  <responseProcessing template="http://www.imsglobal.org/question/qti_v2p1/rptemplates/map_response"/>
+</assessmentItem>
+`;
+  }
+
+  const choices = getChoices(question);
+  const correctIndex = choices.findIndex((choice) => choice.correct);
+
+  return `${XML_DECLARATION}
+<assessmentItem ${QTI_NAMESPACE} identifier="${identifier}" title="${escapeXml(title)}" adaptive="false" timeDependent="false">
+  <responseDeclaration identifier="RESPONSE" cardinality="single" baseType="identifier">
+    <correctResponse><value>choice_${correctIndex + 1}</value></correctResponse>
+  </responseDeclaration>
+  ${scoreDeclaration}
+  <itemBody>
+    <choiceInteraction responseIdentifier="RESPONSE" shuffle="false" maxChoices="1">
+      <prompt>${prompt}</prompt>
+${choices
+  .map(
+    (choice, index) =>
+      `      <simpleChoice identifier="choice_${index + 1}">${escapeXml(toPlain(choice.text))}</simpleChoice>`
+  )
+  .join("\n")}
+    </choiceInteraction>
+  </itemBody>
+  <responseProcessing template="http://www.imsglobal.org/question/qti_v2p1/rptemplates/match_correct"/>
+</assessmentItem>
+`;
+};
+
+// IMS QTI 2.1 content package: one item file per question, an assessment test and the manifest
+export const toQtiPackage = async (quiz: Quiz): Promise<Blob> => {
+  const { default: JSZip } = await import("jszip");
+  const zip = new JSZip();
+  const items = quiz.questions.map((question, index) => ({
+    identifier: `item_${index + 1}`,
+    href: `items/item_${index + 1}.xml`,
+    question,
+  }));
+
+  items.forEach(({ identifier, href, question }, index) => {
+    zip.file(href, qtiItem(question, identifier, `Question ${index + 1}`));
+  });
+
+  zip.file(
+    "assessment.xml",
+    `${XML_DECLARATION}
+<assessmentTest ${QTI_NAMESPACE} identifier="assessment" title="${escapeXml(quiz.title)}">
+  <testPart identifier="part_1" navigationMode="nonlinear" submissionMode="simultaneous">
+    <assessmentSection identifier="section_1" title="${escapeXml(quiz.title)}" visible="true">
+${items.map(({ identifier, href }) => `      <assessmentItemRef identifier="${identifier}" href="${href}"/>`).join("\n")}
+    </assessmentSection>
+  </testPart>
+</assessmentTest>
+`
+  );
+
+  zip.file(
+    "imsmanifest.xml",
+    `${XML_DECLARATION}
+<manifest xmlns="http://www.imsglobal.org/xsd/imscp_v1p1" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" identifier="manifest_${Date.now()}"
+  xsi:schemaLocation="http://www.imsglobal.org/xsd/imscp_v1p1 http://www.imsglobal.org/xsd/qti/qtiv2p1/qtiv2p1_imscpv1p2_v1p0.xsd">
+  <metadata>
+    <schema>QTIv2.1 Package</schema>
+    <schemaversion>1.0.0</schemaversion>
+  </metadata>
+  <organizations/>
+  <resources>
+    <resource identifier="assessment" type="imsqti_test_xmlv2p1" href="assessment.xml">
+      <file href="assessment.xml"/>
+${items.map(({ identifier }) => `      <dependency identifierref="${identifier}"/>`).join("\n")}
+    </resource>
+${items
+  .map(
+    ({ identifier, href }) =>
+      `    <resource identifier="${identifier}" type="imsqti_item_xmlv2p1" href="${href}">\n      <file href="${href}"/>\n    </resource>`
+  )
+  .join("\n")}
+  </resources>
+</manifest>
+`
+  );
+
+  return zip.generateAsync({ type: "blob", mimeType: "application/zip" });
+};
+
+// Question text as HTML, with math left in \( \) for Moodle's MathJax filter
+const moodleHtml = async (markdown: string) => cdata(await markdownToHtml(markdown, { math: "delimiters" }));
+
+const moodleQuestion = async (question: QuizQuestion, index: number) => {
+  const type = { multiple_choice: "multichoice", true_false: "truefalse", short_answer: "shortanswer" }[question.type];
+  const header = `  <question type="${type}">
+    <name><text>${escapeXml(`Q${index + 1}: ${toPlain(question.question).slice(0, 60)}`)}</text></name>
+    <questiontext format="html"><text>${await moodleHtml(question.question)}</text></questiontext>
+    <generalfeedback format="html"><text>${await moodleHtml(question.explanation)}</text></generalfeedback>
+    <defaultgrade>1</defaultgrade>`;
+
+  let answers: string;
+  if (question.type === "true_false") {
+    const answerIsTrue = isTrueAnswer(question);
+    answers = ["true", "false"]
+      .map(
+        (value) =>
+          `    <answer fraction="${(value === "true") === answerIsTrue ? 100 : 0}" format="moodle_auto_format"><text>${value}</text></answer>`
+      )
+      .join("\n");
+  } else if (question.type === "short_answer") {
+    answers = `    <usecase>0</usecase>
+    <answer fraction="100" format="moodle_auto_format"><text>${escapeXml(question.correctAnswer)}</text></answer>`;
+  } else {
+    const choices = await Promise.all(
+      getChoices(question).map(
+        async (choice) =>
+          `    <answer fraction="${choice.correct ? 100 : 0}" format="html"><text>${await moodleHtml(choice.text)}</text></answer>`
+      )
+    );
+    answers = `    <single>true</single>
+    <shuffleanswers>true</shuffleanswers>
+    <answernumbering>abc</answernumbering>
+${choices.join("\n")}`;
+  }
+
+  return `${header}\n${answers}\n  </question>`;
+};
+
+// Moodle XML, imported into a question bank category named after the quiz
+export const toMoodleXml = async (quiz: Quiz): Promise<string> => {
+  const questions = await Promise.all(quiz.questions.map(moodleQuestion));
+
+  return `${XML_DECLARATION}
+<quiz>
+  <question type="category">
+    <category><text>${escapeXml(`$course$/top/${quiz.title}`)}</text></category>
+  </question>
+${questions.join("\n")}
+</quiz>
+`;
+};
+
+// GIFT reserves these characters inside questions and answers
+const escapeGift = (text: string) => text.replace(/([~=#{}:\\])/g, "\\$1").replace(/\s*\n\s*/g, " ");
+
+const giftQuestion = (question: QuizQuestion, index: number) => {
+  const name = `::Q${index + 1}::`;
+  const text = `[markdown]${escapeGift(question.question)}`;
+  const feedback = question.explanation ? `\n####${escapeGift(question.explanation)}` : "";
+
+  if (question.type === "true_false") {
+    return `${name}${text} {${isTrueAnswer(question) ? "TRUE" : "FALSE"}${feedback}\n}`;
+  }
+  if (question.type === "short_answer") {
+    return `${name}${text} {\n=${escapeGift(question.correctAnswer)}${feedback}\n}`;
+  }
+
+  const choices = getChoices(question)
+    .map((choice) => `${choice.correct ? "=" : "~"}${escapeGift(choice.text)}`)
+    .join("\n");
+  return `${name}${text} {\n${choices}${feedback}\n}`;
+};
+
+// GIFT text format, importable by Moodle and most LMS quiz tools
+export const toGift = (quiz: Quiz) =>
+  `$CATEGORY: $course$/top/${quiz.title.replace(/\s*\n\s*/g, " ")}\n\n${quiz.questions.map(giftQuestion).join("\n\n")}\n`;
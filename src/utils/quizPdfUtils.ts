@@ -0,0 +1,215 @@
+import { Quiz, QuizQuestion, getQuestionOptions, isAnswerCorrect, questionTypeLabels } from "@/utils/quizUtils";
+import { FONT_SIZES, createPdfLayout, lineHeight, stripInlineMarkdown } from "@/utils/pdfUtils";
+
+export const TEST_VERSIONS = ["A", "B", "C"] as const;
+
+export interface QuizPrintOptions {
+  versions: 1 | 2 | 3;
+  shuffleQuestions: boolean;
+  shuffleOptions: boolean;
+}
+
+export const defaultQuizPrintOptions: QuizPrintOptions = {
+  versions: 1,
+  shuffleQuestions: false,
+  shuffleOptions: false,
+};
+
+interface PrintedQuestion {
+  question: QuizQuestion;
+  options: string[];
+  answer: string;
+}
+
+interface TestVersion {
+  label: string;
+  questions: PrintedQuestion[];
+}
+
+const BUBBLE_RADIUS = 2;
+const ANSWER_LINE_GAP = 8;
+
+// Deterministic PRNG, so exporting the same quiz again reproduces the same versions
+const seededRandom = (seed: string) => {
+  let state = 2166136261;
+  for (let i = 0; i < seed.length; i++) {
+    state = Math.imul(state ^ seed.charCodeAt(i), 16777619);
+  }
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const shuffle = <T>(items: T[], random: () => number) => {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+};
+
+const optionLetter = (index: number) => String.fromCharCode(65 + index);
+
+const toPlain = (text: string) => stripInlineMarkdown(text.replace(/\s+/g, " "));
+
+// Question and option order for each test version, with the answer key entry for each question
+export const buildTestVersions = (quiz: Quiz, options: QuizPrintOptions): TestVersion[] =>
+  TEST_VERSIONS.slice(0, options.versions).map((label) => {
+    const random = seededRandom(`${quiz.title}:${label}`);
+    const questions = options.shuffleQuestions ? shuffle(quiz.questions, random) : quiz.questions;
+
+    return {
+      label,
+      questions: questions.map((question) => {
+        const questionOptions = getQuestionOptions(question);
+        // True/false keeps its natural order
+        const printedOptions =
+          options.shuffleOptions && question.type === "multiple_choice"
+            ? shuffle(questionOptions, random)
+            : questionOptions;
+        const correctIndex = printedOptions.findIndex((option) => isAnswerCorrect(question, option));
+
+        return {
+          question,
+          options: printedOptions,
+          answer:
+            correctIndex >= 0
+              ? `${optionLetter(correctIndex)}. ${toPlain(printedOptions[correctIndex])}`
+              : toPlain(question.correctAnswer),
+        };
+      }),
+    };
+  });
+
+const versionTitle = (quiz: Quiz, versions: TestVersion[], version: TestVersion) =>
+  versions.length > 1 ? `${quiz.title} - Version ${version.label}` : quiz.title;
+
+// Student copies of every version, each starting on a new page
+const saveStudentPDF = async (quiz: Quiz, versions: TestVersion[], filename: string) => {
+  const layout = await createPdfLayout(JSON.stringify(quiz));
+  const { pdf, margin, contentWidth } = layout;
+  const pageTitles: string[] = [];
+  const optionX = margin + 14;
+  const optionWidth = contentWidth - 14;
+
+  versions.forEach((version, versionIndex) => {
+    if (versionIndex > 0) layout.newPage();
+    const title = versionTitle(quiz, versions, version);
+    const firstPage = pdf.getNumberOfPages();
+
+    layout.writeText(title, FONT_SIZES.title, { bold: true });
+    layout.y += 4;
+    layout.writeText("Name: ________________________________     Date: ________________", FONT_SIZES.body);
+    layout.y += 2;
+    pdf.setTextColor(90);
+    layout.writeText(
+      "Fill in the bubble next to the correct answer. Write short answers on the lines provided.",
+      FONT_SIZES.body - 1
+    );
+    pdf.setTextColor(0);
+    layout.y += 4;
+
+    version.questions.forEach(({ question, options }, index) => {
+      const text = toPlain(question.question);
+      const optionHeights = options.map((option) =>
+        layout.measureText(toPlain(option), FONT_SIZES.body, optionWidth) + 1.5
+      );
+      const answerHeight = options.length
+        ? optionHeights.reduce((sum, height) => sum + height, 0)
+        : ANSWER_LINE_GAP * 2;
+      // Keep each question on one page with its options
+      layout.ensureSpace(layout.measureText(text, FONT_SIZES.body, contentWidth - 8) + answerHeight + 8);
+
+      layout.writeText(text, FONT_SIZES.body, {
+        bold: true,
+        x: margin + 8,
+        width: contentWidth - 8,
+        marker: `${index + 1}.`,
+      });
+      pdf.setTextColor(120);
+      layout.writeText(questionTypeLabels[question.type], FONT_SIZES.header, { x: margin + 8 });
+      pdf.setTextColor(0);
+      layout.y += 1.5;
+
+      if (options.length) {
+        options.forEach((option, optionIndex) => {
+          let bubbleDrawn = false;
+          layout.writeText(toPlain(option), FONT_SIZES.body, {
+            x: optionX,
+            width: optionWidth,
+            decorate: (lineY, height) => {
+              if (bubbleDrawn) return;
+              bubbleDrawn = true;
+              const centerY = lineY + height / 2 - 0.3;
+              pdf.setDrawColor(80);
+              pdf.circle(margin + 10, centerY, BUBBLE_RADIUS);
+              pdf.setFontSize(7);
+              pdf.text(optionLetter(optionIndex), margin + 10, centerY, { align: "center", baseline: "middle" });
+              pdf.setFontSize(FONT_SIZES.body);
+            },
+          });
+          layout.y += 1.5;
+        });
+      } else {
+        pdf.setDrawColor(150);
+        for (let line = 0; line < 2; line++) {
+          layout.y += ANSWER_LINE_GAP;
+          pdf.line(margin + 8, layout.y, margin + contentWidth, layout.y);
+        }
+        layout.y += 2;
+      }
+
+      layout.y += lineHeight(FONT_SIZES.body);
+    });
+
+    for (let page = firstPage; page <= pdf.getNumberOfPages(); page++) {
+      pageTitles[page] = title;
+    }
+  });
+
+  layout.save(`${filename}_student`, (page) => pageTitles[page] ?? quiz.title);
+};
+
+// Teacher answer key with the answers and explanations for every version
+const saveAnswerKeyPDF = async (quiz: Quiz, versions: TestVersion[], filename: string) => {
+  const layout = await createPdfLayout(JSON.stringify(quiz));
+  const title = `${quiz.title} - Answer key`;
+
+  layout.writeText(title, FONT_SIZES.title, { bold: true });
+  layout.y += 4;
+
+  versions.forEach((version, versionIndex) => {
+    if (versions.length > 1) {
+      if (versionIndex > 0) layout.y += lineHeight(FONT_SIZES.body);
+      layout.ensureSpace(lineHeight(FONT_SIZES[2]) + lineHeight(FONT_SIZES.table) * 4);
+      layout.writeText(`Version ${version.label}`, FONT_SIZES[2], { bold: true });
+      layout.y += 2;
+    }
+
+    layout.writeTable(
+      ["#", "Answer", "Explanation"],
+      version.questions.map(({ question, answer }, index) => [
+        String(index + 1),
+        answer,
+        toPlain(question.explanation),
+      ]),
+      [1, 6, 9]
+    );
+  });
+
+  layout.save(`${filename}_answer_key`, title);
+};
+
+// Print-ready student test (one copy per version) and a separate answer key; returns the filenames
+export async function generateQuizPDFs(quiz: Quiz, filename: string, options: QuizPrintOptions): Promise<string[]> {
+  const versions = buildTestVersions(quiz, options);
+
+  await saveStudentPDF(quiz, versions, filename);
+  await saveAnswerKeyPDF(quiz, versions, filename);
+
+  return [`${filename}_student.pdf`, `${filename}_answer_key.pdf`];
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { Quiz, formatQuizAsText, parseQuizText } from "@/utils/quizUtils";
+
+const quiz: Quiz = {
+  title: "Cell biology",
+  questions: [
+    {
+      type: "multiple_choice",
+      question: "Which organelle makes ATP?",
+      options: ["Nucleus", "Mitochondrion", "Ribosome"],
+      correctAnswer: "Mitochondrion",
+      explanation: "Cellular respiration happens in the mitochondria.",
+    },
+    {
+      type: "true_false",
+      question: "Plant cells have a cell wall (made of cellulose).",
+      options: ["True", "False"],
+      correctAnswer: "True",
+      explanation: "The wall gives plant cells their shape.",
+    },
+    {
+      type: "short_answer",
+      question: "What does DNA stand for?",
+      correctAnswer: "Deoxyribonucleic acid",
+      explanation: "",
+    },
+  ],
+};
+
+describe("parseQuizText", () => {
+  it("rebuilds a quiz from its text rendering", () => {
+    expect(parseQuizText(formatQuizAsText(quiz))).toEqual(quiz);
+  });
+
+  it("keeps brackets in a question that aren't its type label", () => {
+    const [, trueFalse] = parseQuizText(formatQuizAsText(quiz))!.questions;
+
+    expect(trueFalse.question).toBe("Plant cells have a cell wall (made of cellulose).");
+    expect(trueFalse.type).toBe("true_false");
+  });
+
+  it("returns null for text without answers", () => {
+    expect(parseQuizText(formatQuizAsText(quiz, false))).toBeNull();
+  });
+
+  it("returns null for text that isn't a quiz", () => {
+    expect(parseQuizText("Photosynthesis\n\nPlants turn light into chemical energy.")).toBeNull();
+  });
+});
@@ -0,0 +1,127 @@
+import { z } from "zod";
+import { StructuredOutputParser } from "@langchain/core/output_parsers";
+
+// Schema the quiz chain must return
+export const quizQuestionSchema = z.object({
+  type: z
+    .enum(["multiple_choice", "true_false", "short_answer"])
+    .describe("The kind of question"),
+  question: z.string().describe("The question text"),
+  options: z
+    .array(z.string())
+    .optional()
+    .describe("Answer choices for multiple_choice questions; use [\"True\", \"False\"] for true_false; omit for short_answer"),
+  correctAnswer: z
+    .string()
+    .describe("The correct answer, copied exactly from options when options are present"),
+  explanation: z.string().describe("A short explanation of why the answer is correct"),
+  // Optional so quizzes saved before concept tagging still parse
+  concepts: z
+    .array(z.string())
+    .optional()
+    .describe("The 1 to 3 key concepts the question tests, as short names reused across questions"),
+  difficulty: z.enum(["easy", "medium", "hard"]).optional().describe("How hard the question is"),
+});
+
+export const quizSchema = z.object({
+  title: z.string().describe("A short title for the quiz"),
+  questions: z.array(quizQuestionSchema).min(1).describe("The quiz questions"),
+});
+
+export type QuizQuestion = z.infer<typeof quizQuestionSchema>;
+export type QuestionType = QuizQuestion["type"];
+export type QuizDifficulty = NonNullable<QuizQuestion["difficulty"]>;
+export type Quiz = z.infer<typeof quizSchema>;
+
+export const quizOutputParser = StructuredOutputParser.fromZodSchema(quizSchema);
+
+export const questionTypeLabels: Record<QuestionType, string> = {
+  multiple_choice: "Multiple choice",
+  true_false: "True / False",
+  short_answer: "Short answer",
+};
+
+export const quizDifficulties: QuizDifficulty[] = ["easy", "medium", "hard"];
+
+export const difficultyLabels: Record<QuizDifficulty, string> = {
+  easy: "Easy",
+  medium: "Medium",
+  hard: "Hard",
+};
+
+const normalizeAnswer = (answer: string) =>
+  answer.trim().toLowerCase().replace(/[.!?]+$/, "").replace(/\s+/g, " ");
+
+// Options to show for a question (true/false questions always get both choices)
+export const getQuestionOptions = (question: QuizQuestion): string[] => {
+  if (question.type === "true_false") {
+    return question.options?.length ? question.options : ["True", "False"];
+  }
+  return question.options ?? [];
+};
+
+// Check a student's answer against the correct answer
+export const isAnswerCorrect = (question: QuizQuestion, answer: string | undefined): boolean => {
+  if (!answer) return false;
+  return normalizeAnswer(answer) === normalizeAnswer(question.correctAnswer);
+};
+
+// Parse raw model output into a validated quiz
+export const parseQuiz = (text: string): Promise<Quiz> => quizOutputParser.parse(text);
+
+// Render a quiz as plain text for copying and PDF export
+export const formatQuizAsText = (quiz: Quiz, includeAnswers = true): string => {
+  const lines: string[] = [quiz.title, ""];
+
+  quiz.questions.forEach((question, index) => {
+    lines.push(`${index + 1}. ${question.question} (${questionTypeLabels[question.type]})`);
+
+    getQuestionOptions(question).forEach((option, optionIndex) => {
+      lines.push(`   ${String.fromCharCode(65 + optionIndex)}. ${option}`);
+    });
+
+    if (includeAnswers) {
+      lines.push(`   Answer: ${question.correctAnswer}`);
+      lines.push(`   Explanation: ${question.explanation}`);
+    }
+
+    lines.push("");
+  });
+
+  return lines.join("\n").trim();
+};
+
+const questionTypeByLabel = Object.fromEntries(
+  Object.entries(questionTypeLabels).map(([type, label]) => [label.toLowerCase(), type as QuestionType])
+);
+
+// Rebuild a quiz from formatQuizAsText output, for results saved without the structured quiz
+export const parseQuizText = (text: string): Quiz | null => {
+  const [title = "Quiz", ...lines] = text.trim().split(/\r?\n/);
+  const questions: QuizQuestion[] = [];
+
+  for (const line of lines) {
+    const trimmed = line.trim();
+    const heading = trimmed.match(/^\d+\.\s+(.*?)(?:\s+\(([^()]+)\))?$/);
+    const current = questions[questions.length - 1];
+
+    if (heading && !line.startsWith(" ")) {
+      const type = questionTypeByLabel[heading[2]?.toLowerCase() ?? ""] ?? "short_answer";
+      questions.push({ type, question: heading[1], correctAnswer: "", explanation: "" });
+    } else if (!current) {
+      continue;
+    } else if (/^answer:/i.test(trimmed)) {
+      current.correctAnswer = trimmed.replace(/^answer:\s*/i, "");
+    } else if (/^explanation:/i.test(trimmed)) {
+      current.explanation = trimmed.replace(/^explanation:\s*/i, "");
+    } else if (/^[A-Z]\.\s+/.test(trimmed)) {
+      current.options = [...(current.options ?? []), trimmed.replace(/^[A-Z]\.\s+/, "")];
+    }
+  }
+
+  const result = quizSchema.safeParse({
+    title: title.trim(),
+    questions: questions.filter((question) => question.correctAnswer),
+  });
+  return result.success ? result.data : null;
+};
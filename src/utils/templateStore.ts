@@ -0,0 +1,72 @@
+import { deleteRecord, getRecord, getRecordsByIndex, putRecord } from "@/lib/indexedDb";
+import { AIFeatureType, PromptTemplateDefinition, validateTemplate } from "@/utils/promptRegistry";
+
+// Fields a user edits; the id is set when updating an existing template
+export type PromptTemplateInput = Pick<
+  PromptTemplateDefinition,
+  "feature" | "name" | "description" | "template" | "variables"
+> & { id?: string };
+
+// A user's own templates, most recently edited first
+export const listUserTemplates = async (userId: string): Promise<PromptTemplateDefinition[]> => {
+  const templates = await getRecordsByIndex<PromptTemplateDefinition>("promptTemplates", "userId", userId);
+  return templates.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+export const templatesForFeature = (templates: PromptTemplateDefinition[], feature: AIFeatureType) =>
+  templates.filter((template) => template.feature === feature);
+
+// Create a template, or update one and keep its previous text as an earlier version
+export const saveUserTemplate = async (
+  userId: string,
+  input: PromptTemplateInput
+): Promise<PromptTemplateDefinition> => {
+  const error = validateTemplate(input.feature, input.template);
+  if (error) throw new Error(error);
+
+  const now = new Date().toISOString();
+  const existing = input.id ? await getRecord<PromptTemplateDefinition>("promptTemplates", input.id) : undefined;
+
+  if (!existing) {
+    const created: PromptTemplateDefinition = {
+      ...input,
+      id: crypto.randomUUID(),
+      userId,
+      version: 1,
+      builtIn: false,
+      history: [],
+      createdAt: now,
+      updatedAt: now,
+    };
+    await putRecord("promptTemplates", created);
+    return created;
+  }
+
+  // Renaming or re-describing a template isn't a new version of it
+  const contentChanged =
+    existing.template !== input.template ||
+    JSON.stringify(existing.variables) !== JSON.stringify(input.variables);
+
+  const updated: PromptTemplateDefinition = {
+    ...existing,
+    ...input,
+    id: existing.id,
+    version: contentChanged ? existing.version + 1 : existing.version,
+    history: contentChanged
+      ? [
+          ...existing.history,
+          {
+            version: existing.version,
+            template: existing.template,
+            variables: existing.variables,
+            savedAt: existing.updatedAt,
+          },
+        ]
+      : existing.history,
+    updatedAt: now,
+  };
+  await putRecord("promptTemplates", updated);
+  return updated;
+};
+
+export const deleteUserTemplate = (id: string) => deleteRecord("promptTemplates", id);
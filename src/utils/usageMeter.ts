@@ -0,0 +1,85 @@
+import { BaseCallbackHandler } from "@langchain/core/callbacks/base";
+import { AIMessage, BaseMessage } from "@langchain/core/messages";
+import { ChatGeneration, LLMResult } from "@langchain/core/outputs";
+import type { Serialized } from "@langchain/core/load/serializable";
+import { queryClient } from "@/lib/queryClient";
+import {
+  TokenUsage,
+  UsageFeature,
+  emptyUsage,
+  recordUsage,
+  reserveDailyRequest,
+  sumUsage,
+  usageQueryKey,
+} from "@/utils/usageStore";
+
+// Same rough estimate as the assistant's history trimming: about 4 characters per token
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+const messageText = (message: BaseMessage) =>
+  typeof message.content === "string" ? message.content : JSON.stringify(message.content);
+
+// Adds up the tokens of every model run in a chain call, from the response's usage metadata,
+// or estimated from the text when the provider reports none (the fake and some local models)
+export class UsageMeter extends BaseCallbackHandler {
+  name = "usage_meter";
+  usage = emptyUsage();
+  private promptTokens = new Map<string, number>();
+
+  constructor() {
+    // Wait for the handlers, so the usage is complete when the call returns
+    super({ ignoreChain: true, ignoreRetriever: true, _awaitHandler: true });
+  }
+
+  handleChatModelStart(_llm: Serialized, messages: BaseMessage[][], runId: string) {
+    this.promptTokens.set(runId, estimateTokens(messages.flat().map(messageText).join("\n")));
+  }
+
+  handleLLMEnd(output: LLMResult, runId: string) {
+    const generations = output.generations.flat() as ChatGeneration[];
+    const reported = generations
+      .map((generation) => (generation.message as AIMessage | undefined)?.usage_metadata)
+      .filter((metadata) => metadata !== undefined);
+
+    if (reported.length) {
+      this.add({
+        inputTokens: reported.reduce((sum, metadata) => sum + metadata.input_tokens, 0),
+        outputTokens: reported.reduce((sum, metadata) => sum + metadata.output_tokens, 0),
+        estimatedTokens: 0,
+      });
+    } else {
+      const inputTokens = this.promptTokens.get(runId) ?? 0;
+      const outputTokens = estimateTokens(generations.map((generation) => generation.text).join(""));
+      this.add({ inputTokens, outputTokens, estimatedTokens: inputTokens + outputTokens });
+    }
+    this.promptTokens.delete(runId);
+  }
+
+  private add(usage: Omit<TokenUsage, "requests">) {
+    this.usage = sumUsage([this.usage, { ...usage, requests: 0 }]);
+  }
+}
+
+// Run a model call within the user's daily limits and record the tokens it used.
+// Calls made without a signed-in user are not metered.
+export const withUsage = async <T>(
+  feature: UsageFeature,
+  userId: string | undefined,
+  run: (callbacks: BaseCallbackHandler[]) => Promise<T>
+): Promise<T> => {
+  if (!userId) return run([]);
+
+  const release = await reserveDailyRequest(userId);
+  const meter = new UsageMeter();
+  try {
+    return await run([meter]);
+  } finally {
+    // Failed or stopped calls still count the tokens the model reported
+    if (meter.usage.inputTokens || meter.usage.outputTokens) {
+      await recordUsage(userId, feature, { ...meter.usage, requests: 1 })
+        .then(() => queryClient.invalidateQueries({ queryKey: usageQueryKey(userId) }))
+        .catch((error) => console.error("Failed to record usage:", error));
+    }
+    await release();
+  }
+};
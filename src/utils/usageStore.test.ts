@@ -0,0 +1,40 @@
+import "fake-indexeddb/auto";
+import { describe, expect, it } from "vitest";
+import { TokenUsage, getTodayUsage, recordUsage, reserveDailyRequest } from "@/utils/usageStore";
+
+const call = (tokens: number): TokenUsage => ({
+  requests: 1,
+  inputTokens: tokens,
+  outputTokens: tokens,
+  estimatedTokens: 0,
+});
+
+describe("usage recording", () => {
+  it("counts every call when several are recorded at once", async () => {
+    await Promise.all(Array.from({ length: 8 }, () => recordUsage("parallel", "grade", call(10))));
+
+    const today = await getTodayUsage("parallel");
+    expect(today.requests).toBe(8);
+    expect(today.inputTokens).toBe(80);
+    expect(today.outputTokens).toBe(80);
+  });
+
+  it("lets only as many parallel calls through as the daily limit allows", async () => {
+    const limits = { requestsPerDay: 3, tokensPerDay: 0 };
+    const results = await Promise.allSettled(
+      Array.from({ length: 5 }, () => reserveDailyRequest("limited", limits))
+    );
+
+    expect(results.filter((result) => result.status === "fulfilled")).toHaveLength(3);
+    expect(results.filter((result) => result.status === "rejected")).toHaveLength(2);
+  });
+
+  it("frees a held request once it is released", async () => {
+    const limits = { requestsPerDay: 1, tokensPerDay: 0 };
+    const release = await reserveDailyRequest("released", limits);
+    await expect(reserveDailyRequest("released", limits)).rejects.toThrow();
+
+    await release();
+    await expect(reserveDailyRequest("released", limits)).resolves.toBeTypeOf("function");
+  });
+});
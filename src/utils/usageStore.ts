@@ -0,0 +1,129 @@
+import { getRecordsByIndex, updateRecord } from "@/lib/indexedDb";
+import { LLMError } from "@/utils/llmErrors";
+import type { AIFeatureType } from "@/utils/promptRegistry";
+
+// Generators plus the editing and grading calls made on their results
+export type UsageFeature = AIFeatureType | "rewrite" | "merge" | "grade";
+
+export const usageFeatures: UsageFeature[] = [
+  "content",
+  "quiz",
+  "materials",
+  "notes",
+  "flashcards",
+  "assistant",
+  "rewrite",
+  "merge",
+  "grade",
+];
+
+export interface TokenUsage {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  // Tokens counted from text length because the model reported none
+  estimatedTokens: number;
+}
+
+// Usage for one user, feature and UTC day
+export interface UsageRecord extends TokenUsage {
+  id: string;
+  userId: string;
+  feature: UsageFeature;
+  day: string;
+}
+
+export interface UsageLimits {
+  // 0 means no limit
+  requestsPerDay: number;
+  tokensPerDay: number;
+}
+
+export const emptyUsage = (): TokenUsage => ({ requests: 0, inputTokens: 0, outputTokens: 0, estimatedTokens: 0 });
+
+export const totalTokens = (usage: TokenUsage) => usage.inputTokens + usage.outputTokens;
+
+export const sumUsage = (records: TokenUsage[]): TokenUsage =>
+  records.reduce(
+    (sum, record) => ({
+      requests: sum.requests + record.requests,
+      inputTokens: sum.inputTokens + record.inputTokens,
+      outputTokens: sum.outputTokens + record.outputTokens,
+      estimatedTokens: sum.estimatedTokens + record.estimatedTokens,
+    }),
+    emptyUsage()
+  );
+
+// Days run on UTC, like the API proxy's request limits
+export const usageDay = (date = new Date()) => date.toISOString().slice(0, 10);
+
+const readLimit = (value: string | undefined, fallback: number) => {
+  const parsed = Number(value);
+  return value !== undefined && value !== "" && Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+};
+
+export const getUsageLimits = (): UsageLimits => ({
+  requestsPerDay: readLimit(import.meta.env.VITE_DAILY_REQUEST_LIMIT, 100),
+  tokensPerDay: readLimit(import.meta.env.VITE_DAILY_TOKEN_LIMIT, 200_000),
+});
+
+export const usageQueryKey = (userId: string | undefined) => ["usage", userId];
+
+// A user's usage records for the last few days, oldest first
+export const listUsage = async (userId: string, days = 30): Promise<UsageRecord[]> => {
+  const since = usageDay(new Date(Date.now() - (days - 1) * 24 * 60 * 60 * 1000));
+  const records = await getRecordsByIndex<UsageRecord>("usage", "userId", userId);
+  return records.filter((record) => record.day >= since).sort((a, b) => a.day.localeCompare(b.day));
+};
+
+export const getTodayUsage = async (userId: string) => {
+  const today = usageDay();
+  return sumUsage((await listUsage(userId, 1)).filter((record) => record.day === today));
+};
+
+// Add a model call's usage to today's record for the feature
+export const recordUsage = (userId: string, feature: UsageFeature, usage: TokenUsage) => {
+  const day = usageDay();
+  const id = `${userId}:${day}:${feature}`;
+  return updateRecord<UsageRecord>("usage", id, (existing) => ({
+    ...sumUsage([existing ?? emptyUsage(), usage]),
+    id,
+    userId,
+    feature,
+    day,
+  }));
+};
+
+// Requests that passed the limit check but haven't recorded their usage yet, per user.
+// Checks and releases run one at a time, so parallel calls can't all pass on the same count.
+const pendingRequests = new Map<string, number>();
+let limitQueue: Promise<unknown> = Promise.resolve();
+
+const queueLimitTask = <T>(task: () => Promise<T> | T): Promise<T> => {
+  const result = limitQueue.then(task);
+  limitQueue = result.catch(() => undefined);
+  return result;
+};
+
+// Refuse a model call once today's request or token limit is used up, otherwise hold one of
+// today's requests for it. Call the returned release after the call's usage is recorded.
+export const reserveDailyRequest = (userId: string, limits = getUsageLimits()) =>
+  queueLimitTask(async () => {
+    const today = await getTodayUsage(userId);
+    const pending = pendingRequests.get(userId) ?? 0;
+
+    if (limits.requestsPerDay && today.requests + pending >= limits.requestsPerDay) {
+      throw new LLMError("usage_limit", `Daily limit of ${limits.requestsPerDay} AI requests reached`);
+    }
+    if (limits.tokensPerDay && totalTokens(today) >= limits.tokensPerDay) {
+      throw new LLMError("usage_limit", `Daily limit of ${limits.tokensPerDay.toLocaleString()} tokens reached`);
+    }
+
+    pendingRequests.set(userId, pending + 1);
+    return () =>
+      queueLimitTask(() => {
+        const remaining = (pendingRequests.get(userId) ?? 1) - 1;
+        if (remaining > 0) pendingRequests.set(userId, remaining);
+        else pendingRequests.delete(userId);
+      });
+  });
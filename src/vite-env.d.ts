@@ -1 +1,14 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_GEMINI_API_KEY?: string;
+  readonly VITE_LLM_PROVIDER?: "proxy" | "gemini" | "openai" | "local" | "fake";
+  readonly VITE_LLM_MODEL?: string;
+  readonly VITE_LLM_API_KEY?: string;
+  readonly VITE_LLM_BASE_URL?: string;
+  readonly VITE_LLM_EMBEDDING_MODEL?: string;
+  readonly VITE_LLM_TIMEOUT_MS?: string;
+  readonly VITE_LLM_MAX_RETRIES?: string;
+  readonly VITE_DAILY_REQUEST_LIMIT?: string;
+  readonly VITE_DAILY_TOKEN_LIMIT?: string;
+}
@@ -8,6 +8,10 @@ export default defineConfig(({ mode }) => ({
   server: {
     host: "::",
     port: 8080,
+    // Forward AI requests to the API proxy started with `npm run server`
+    proxy: {
+      "/api": `http://localhost:${process.env.PROXY_PORT || 8787}`,
+    },
   },
   plugins: [
     react(),